@@ -17,23 +17,47 @@ import jwt from "@fastify/jwt";
 import helmet from "@fastify/helmet";
 import rateLimit from "@fastify/rate-limit";
 import schedule from "@fastify/schedule";
+import multipart from "@fastify/multipart";
 import { PrismaClient } from "@prisma/client";
 import { addDays } from "date-fns";
 
 // Import routes
 import { phoneOtpRoutes } from "./routes/auth/phone-otp";
+import { sessionRoutes } from "./routes/auth/sessions";
 import { digiLockerRoutes } from "./routes/auth/digilocker";
 import { videoSelfieRoutes } from "./routes/auth/video-selfie";
 import { ageVerificationRoutes } from "./routes/auth/age-verify";
 import { consentRoutes } from "./routes/consent";
 import { locationRoutes, cleanupExpiredLocations } from "./routes/location";
-
-// Import middleware
-import { authenticate } from "./middleware/auth";
-import { ageGate } from "./middleware/ageGate";
+import { profileRoutes } from "./routes/profile";
+import { matchRoutes } from "./routes/matches";
+import { chatRoutes } from "./routes/chat";
+import { registerChatGateway } from "./routes/chat-gateway";
+import { mediaRoutes } from "./routes/media";
+import { razorpayWebhookRoutes, subscriptionRoutes } from "./routes/subscription";
+import { adminModerationRoutes, moderationRoutes } from "./routes/moderation";
+import { dataRightsRoutes } from "./routes/data-rights";
+import { adminGrievanceRoutes, grievanceRoutes } from "./routes/grievance";
+import { locationSharingRoutes } from "./routes/location-sharing";
+import { safetyCheckInRoutes } from "./routes/safety-checkin";
+import { smsRoutes, smsWebhookRoutes } from "./routes/sms";
+import { emergencyContactRoutes } from "./routes/emergency-contacts";
 
 // Import error handling
-import { ERROR_CODES, handleError } from "./utils/errors";
+import { handleError } from "./utils/errors";
+import { PHOTO_MAX_BYTES } from "./utils/media-processing";
+import { expireSubscriptions, syncPlans } from "./utils/billing";
+import { isAccessTokenTrusted, purgeExpiredSessions } from "./utils/sessions";
+import { purgeExpiredOAuthStates } from "./utils/oauth-state";
+import { expireDataExports, processPendingDataExports } from "./utils/data-export";
+import { purgeDueAccountDeletions } from "./utils/account-erasure";
+import { findUncoveredUserModels } from "./utils/user-data-coverage";
+import { alertOverdueGrievances } from "./utils/grievance";
+import { syncConsentNotices } from "./utils/consent-notice";
+import { expireSharingSessions } from "./utils/location-sharing";
+import { processDueCheckIns } from "./utils/safety-checkin";
+import { purgeExpiredVideoUploads } from "./utils/video-upload";
+import { recheckDueDigiLockerTokens } from "./utils/digilocker-tokens";
 
 // Initialize Prisma
 const prisma = new PrismaClient();
@@ -52,8 +76,10 @@ const app: FastifyInstance = Fastify({
 // CORS
 app.register(cors, {
   origin: process.env.CORS_ORIGIN || true,
-  methods: ["GET", "POST", "PUT", "DELETE", "PATCH"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  methods: ["GET", "HEAD", "POST", "PUT", "DELETE", "PATCH"],
+  allowedHeaders: ["Content-Type", "Authorization", "Upload-Offset"],
+  // Resumable video selfie uploads report progress in these
+  exposedHeaders: ["Upload-Offset", "Upload-Length", "Location"],
   credentials: true,
 });
 
@@ -82,11 +108,21 @@ app.register(jwt, {
   sign: {
     expiresIn: "15m",
   },
+  // Refresh tokens and tokens of signed-out sessions fail every request.jwtVerify()
+  trusted: (_request, decodedToken) => isAccessTokenTrusted(decodedToken),
 });
 
 // Scheduler (for cleanup jobs)
 app.register(schedule);
 
+// Multipart (photo and voice note uploads; per-route limits are tighter)
+app.register(multipart, {
+  limits: {
+    fileSize: PHOTO_MAX_BYTES,
+    files: 1,
+  },
+});
+
 // ============================================================================
 // HEALTH CHECK
 // ============================================================================
@@ -127,9 +163,21 @@ app.get("/health", async () => {
 // Phone OTP routes (Tier 1 verification)
 app.register(phoneOtpRoutes);
 
+// Session routes (refresh is public; logout and device sessions need a token)
+app.register(sessionRoutes);
+
 // DigiLocker callback (public, called by MeitY API)
 app.register(digiLockerRoutes);
 
+// Media (public, access controlled by signed URLs)
+app.register(mediaRoutes);
+
+// Razorpay webhook (public, HMAC-signed by Razorpay)
+app.register(razorpayWebhookRoutes);
+
+// SMS delivery receipts (public, shared token in the webhook URL)
+app.register(smsWebhookRoutes);
+
 // ============================================================================
 // PROTECTED ROUTES
 // ============================================================================
@@ -140,142 +188,50 @@ app.register(ageVerificationRoutes);
 // Video selfie routes (Tier 3 verification)
 app.register(videoSelfieRoutes);
 
-// Consent management routes
+// Consent management routes (notice is public)
 app.register(consentRoutes);
 
 // Location routes
 app.register(locationRoutes);
 
-// ============================================================================
-// PROFILE ROUTE (Protected + Age Gated)
-// ============================================================================
+// Live location sharing (Protected; tracking links are public)
+app.register(locationSharingRoutes);
 
-app.get(
-  "/profile",
-  { preHandler: [authenticate, ageGate] },
-  async (request: any, reply) => {
-    const userId = request.user.userId;
-
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        phone: true,
-        email: true,
-        name: true,
-        isPhoneVerified: true,
-        isAgeVerified: true,
-        verificationLevel: true,
-        phoneVerifiedAt: true,
-        digiLockerVerifiedAt: true,
-        videoSelfieVerifiedAt: true,
-        createdAt: true,
-      },
-    });
-
-    if (!user) {
-      return reply.status(404).send({
-        error: ERROR_CODES.USER_NOT_FOUND,
-        message: "User not found",
-      });
-    }
+// Emergency contacts (Protected; the contact's opt-in link is public)
+app.register(emergencyContactRoutes);
 
-    return {
-      user: {
-        ...user,
-        phone: user.phone?.replace(/(\+91)(\d{3})(\d{7})/, "$1-XXX-XXX$3"), // Mask phone
-      },
-      verification: {
-        tier1: user.isPhoneVerified,
-        tier2: !!user.digiLockerVerifiedAt,
-        tier3: !!user.videoSelfieVerifiedAt,
-        level: user.verificationLevel,
-      },
-    };
-  },
-);
+// Date check-ins with emergency escalation (Protected)
+app.register(safetyCheckInRoutes);
 
-// ============================================================================
-// TOKEN REFRESH ROUTE
-// ============================================================================
+// Safety SMS to trusted contacts via the DLT template gateway (Protected)
+app.register(smsRoutes);
 
-app.post("/auth/refresh", async (request: any, reply) => {
-  const { refreshToken } = request.body;
+// Profile routes (Protected + Age Gated)
+app.register(profileRoutes);
 
-  if (!refreshToken) {
-    return reply.status(401).send({
-      error: ERROR_CODES.NO_REFRESH_TOKEN,
-      message: "No refresh token provided",
-    });
-  }
+// Match discovery routes (Protected + Age Gated + purposeMatching consent)
+app.register(matchRoutes);
 
-  try {
-    const decoded: any = app.jwt.verify(refreshToken);
+// Chat history routes (Protected + Age Gated, mutual matches only)
+app.register(chatRoutes);
 
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-    });
+// Subscription & billing routes (Protected, plans list is public)
+app.register(subscriptionRoutes);
 
-    if (!user) {
-      return reply.status(403).send({
-        error: ERROR_CODES.REFRESH_TOKEN_INVALID,
-        message: "Invalid refresh token",
-      });
-    }
+// Block & report routes (Protected)
+app.register(moderationRoutes);
 
-    const newAccessToken = app.jwt.sign(
-      {
-        userId: user.id,
-        phone: user.phone,
-        verificationLevel: user.verificationLevel,
-      },
-      { expiresIn: "15m" },
-    );
+// Report queue (Protected + admin role)
+app.register(adminModerationRoutes);
 
-    return { accessToken: newAccessToken };
-  } catch (err: any) {
-    return reply.status(403).send({
-      error: ERROR_CODES.REFRESH_TOKEN_INVALID,
-      message: "Invalid or expired refresh token",
-    });
-  }
-});
+// Data principal rights (Protected; export downloads use signed links)
+app.register(dataRightsRoutes);
 
-// ============================================================================
-// LOGOUT ROUTE
-// ============================================================================
+// Grievance redressal (Protected)
+app.register(grievanceRoutes);
 
-app.post(
-  "/auth/logout",
-  { preHandler: [authenticate] },
-  async (request: any, reply) => {
-    const userId = request.user.userId;
-
-    // Revoke all sessions for this user
-    await prisma.session.updateMany({
-      where: { userId },
-      data: {
-        isRevoked: true,
-        revokedAt: new Date(),
-      },
-    });
-
-    // Log logout
-    await prisma.auditLog.create({
-      data: {
-        eventType: "LOGOUT",
-        userId,
-        entityType: "USER",
-        entityId: userId,
-        action: "USER_LOGOUT",
-        ipAddress: request.ip,
-        userAgent: request.headers["user-agent"],
-      },
-    });
-
-    return { message: "Logged out successfully" };
-  },
-);
+// Grievance Officer queue (Protected + grievance_officer or admin role)
+app.register(adminGrievanceRoutes);
 
 // ============================================================================
 // SCHEDULED JOBS
@@ -296,6 +252,117 @@ app.addCronJob("0 2 * * *", async () => {
   }
 });
 
+// Hourly housekeeping of lapsed subscriptions (entitlements already ignore them)
+app.addCronJob("0 * * * *", async () => {
+  try {
+    const result = await expireSubscriptions();
+    app.log.info(`[Scheduled Job] Expired ${result.expiredCount} subscriptions.`);
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Subscription expiry failed");
+  }
+});
+
+// Daily purge of expired sessions (rotated tokens are kept until they expire for reuse detection)
+// and of OAuth states written to the database while Redis was down
+app.addCronJob("30 2 * * *", async () => {
+  try {
+    const result = await purgeExpiredSessions();
+    app.log.info(`[Scheduled Job] Purged ${result.deletedCount} expired sessions.`);
+
+    const states = await purgeExpiredOAuthStates();
+    app.log.info(`[Scheduled Job] Purged ${states.deletedCount} expired OAuth states.`);
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Session purge failed");
+  }
+});
+
+// Data exports: retry interrupted builds and delete files past retention
+app.addCronJob("*/15 * * * *", async () => {
+  try {
+    const pending = await processPendingDataExports();
+    const expired = await expireDataExports();
+    app.log.info(
+      `[Scheduled Job] Built ${pending.processedCount} data exports, expired ${expired.expiredCount}.`,
+    );
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Data export housekeeping failed");
+  }
+});
+
+// Daily purge of accounts whose deletion grace period has ended
+app.addCronJob("0 3 * * *", async () => {
+  try {
+    const result = await purgeDueAccountDeletions();
+    app.log.info(`[Scheduled Job] Erased ${result.purgedCount} accounts.`);
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Account erasure failed");
+  }
+});
+
+// Location sharing hard cutoff: end sessions past 2 hours and delete their points
+app.addCronJob("* * * * *", async () => {
+  try {
+    const result = await expireSharingSessions();
+    if (result.expiredCount > 0) {
+      app.log.info(`[Scheduled Job] Expired ${result.expiredCount} location sharing sessions.`);
+    }
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Location sharing expiry failed");
+  }
+});
+
+// Safety check-ins: reminders, emergency SMS and repeat alerts as they fall due
+app.addCronJob("* * * * *", async () => {
+  try {
+    const result = await processDueCheckIns();
+    if (result.escalatedCount > 0) {
+      app.log.warn(`[Scheduled Job] Ran ${result.escalatedCount} check-in escalation steps.`);
+    }
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Check-in escalation failed");
+  }
+});
+
+// Hourly check for grievances past their statutory deadline (alerts once per ticket)
+app.addCronJob("15 * * * *", async () => {
+  try {
+    const result = await alertOverdueGrievances();
+    if (result.ticketNumbers.length > 0) {
+      app.log.warn(
+        `[Scheduled Job] Grievances past their deadline: ${result.ticketNumbers.join(", ")}`,
+      );
+    }
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Grievance deadline check failed");
+  }
+});
+
+// Delete the chunks of video selfie uploads abandoned before verification
+app.addCronJob("*/10 * * * *", async () => {
+  try {
+    const result = await purgeExpiredVideoUploads();
+    if (result.purgedCount > 0) {
+      app.log.info(`[Scheduled Job] Purged ${result.purgedCount} expired video selfie uploads.`);
+    }
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] Video selfie upload purge failed");
+  }
+});
+
+// DigiLocker re-verification: refresh and introspect linked accounts that are due
+app.addCronJob("20 * * * *", async () => {
+  try {
+    const result = await recheckDueDigiLockerTokens();
+    if (result.refreshedCount > 0 || result.revokedCount > 0) {
+      app.log.info(
+        `[Scheduled Job] DigiLocker tokens refreshed: ${result.refreshedCount}, access withdrawn: ${result.revokedCount}.`,
+      );
+    }
+  } catch (error) {
+    app.log.error(error, "[Scheduled Job] DigiLocker re-verification failed");
+  }
+});
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -313,6 +380,21 @@ const start = async () => {
     const port = parseInt(process.env.PORT || "4000", 10);
     const host = process.env.HOST || "0.0.0.0";
 
+    // Prices come from the code-reviewed plan catalog
+    await syncPlans();
+
+    // Notice text comes from the code-reviewed, versioned catalog
+    await syncConsentNotices();
+
+    // A model holding user data must be in both the access export and the erasure purge
+    const coverage = findUncoveredUserModels();
+    if (Object.values(coverage).some((models) => models.length > 0)) {
+      app.log.error(coverage, "User data models not covered by export or erasure");
+    }
+
+    // Socket.IO shares Fastify's HTTP server for live chat
+    registerChatGateway(app);
+
     await app.listen({ port, host });
 
     console.log(`
@@ -0,0 +1,58 @@
+/**
+ * Role Middleware
+ * Restricts moderation routes to admins and grievance routes to the Grievance
+ * Officer (or an admin)
+ * The role is read from the database on every request so revoking it takes
+ * effect immediately, not when the access token expires
+ */
+
+import { FastifyReply, FastifyRequest, HookHandlerDoneFunction } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { ERROR_CODES } from "../utils/errors";
+
+const prisma = new PrismaClient();
+
+export const requireRole = (roles: string[], deniedMessage: string) =>
+  async function roleGate(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    done: HookHandlerDoneFunction
+  ) {
+    try {
+      const userId = (request.user as any)?.userId;
+
+      if (!userId) {
+        return reply.status(401).send({
+          error: "UNAUTHORIZED",
+          message: "User not authenticated",
+        });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true, isActive: true },
+      });
+
+      if (!user || !user.isActive || !roles.includes(user.role)) {
+        return reply.status(403).send({
+          error: ERROR_CODES.FORBIDDEN,
+          message: deniedMessage,
+        });
+      }
+
+      done();
+    } catch (error: any) {
+      request.log.error(error, "Role middleware error");
+      return reply.status(500).send({
+        error: "INTERNAL_SERVER_ERROR",
+        message: "Failed to verify access",
+      });
+    }
+  };
+
+export const requireAdmin = requireRole(["admin"], "Administrator access required");
+
+export const requireGrievanceOfficer = requireRole(
+  ["grievance_officer", "admin"],
+  "Grievance Officer access required"
+);
@@ -0,0 +1,42 @@
+/**
+ * Consent Middleware
+ * DPDP Act 2023 Compliance - Purpose-bound routes only run while the user's
+ * latest consent grants that purpose
+ * Apply after authenticate: { preHandler: [authenticate, requireConsent("purposeMatching")] }
+ */
+
+import { FastifyReply, FastifyRequest, HookHandlerDoneFunction } from "fastify";
+import { consentRequiredError, handleError } from "../utils/errors";
+import { ConsentPurpose, getLatestConsent, hasConsentFor } from "../utils/consent";
+
+export const requireConsent = (purpose: ConsentPurpose) =>
+  async function consentGate(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    done: HookHandlerDoneFunction
+  ) {
+    try {
+      const userId = (request.user as any)?.userId;
+
+      if (!userId) {
+        return reply.status(401).send({
+          error: "UNAUTHORIZED",
+          message: "User not authenticated",
+        });
+      }
+
+      const consent = await getLatestConsent(userId);
+
+      if (!hasConsentFor(consent, purpose)) {
+        return handleError(consentRequiredError(purpose), request, reply);
+      }
+
+      done();
+    } catch (error: any) {
+      request.log.error(error, "Consent middleware error");
+      return reply.status(500).send({
+        error: "INTERNAL_SERVER_ERROR",
+        message: "Failed to verify consent",
+      });
+    }
+  };
@@ -0,0 +1,194 @@
+import Fastify, { FastifyInstance } from "fastify";
+import jwt from "@fastify/jwt";
+import type { SafetyCheckIn } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineModel, prismaMock, resetPrismaMock, seedRow } from "../../test/prisma-mock";
+import { sendTemplatedSms } from "../../utils/sms-gateway";
+import { emitToUser } from "../chat-gateway";
+import { escalateCheckIn, hashSafetyPin } from "../../utils/safety-checkin";
+import { confirmCheckInRoute } from "../safety-checkin";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+// Reversible stand-in for KMS: the payload only has to survive a round trip
+vi.mock("../../utils/kms-encryption", () => ({
+  encryptWithKMS: async (plaintext: string) => ({
+    ciphertext: Buffer.from(plaintext).toString("base64"),
+    iv: "iv",
+    authTag: "tag",
+  }),
+  decryptWithKMS: async (ciphertext: string) => Buffer.from(ciphertext, "base64").toString(),
+}));
+
+vi.mock("../../utils/sms-gateway", () => ({
+  sendTemplatedSms: vi.fn(async () => ({})),
+}));
+
+vi.mock("../chat-gateway", () => ({
+  emitToUser: vi.fn(),
+}));
+
+vi.mock("../../utils/location-sharing", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  startSharingSession: vi.fn(async () => ({
+    session: { id: "sharing-1", expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+    trackingToken: "tracking-token",
+  })),
+}));
+
+const USER_PHONE = "+919800000009";
+const SAFETY_PIN = "2468";
+const DURESS_PIN = "1357";
+const CONTACTS = [
+  { name: "Asha", phone: "+919800000001" },
+  { name: "Ravi", phone: "+919800000002" },
+];
+
+describe("POST /safety/check-ins/:checkInId/confirm", () => {
+  let app: FastifyInstance;
+  let token: string;
+  let checkInId: string;
+
+  const confirm = (pin: string) =>
+    app.inject({
+      method: "POST",
+      url: `/safety/check-ins/${checkInId}/confirm`,
+      headers: { authorization: `Bearer ${token}` },
+      payload: { pin },
+    });
+
+  const checkIn = () => prismaMock.safetyCheckIn.rows[0];
+
+  beforeEach(async () => {
+    resetPrismaMock();
+    vi.mocked(sendTemplatedSms).mockClear();
+    defineModel("safetyCheckIn", () => ({
+      status: "active",
+      stage: "scheduled",
+      alertCount: 0,
+      failedPinAttempts: 0,
+      language: "en",
+      duressAt: null,
+      completedAt: null,
+    }));
+
+    const user = await seedRow("user", { name: "Meera Iyer", phone: USER_PHONE });
+    await prismaMock.user.update({
+      where: { id: user.id },
+      data: {
+        safetyPinHash: hashSafetyPin(user.id, SAFETY_PIN),
+        duressPinHash: hashSafetyPin(user.id, DURESS_PIN),
+      },
+    });
+
+    const created = await prismaMock.safetyCheckIn.create({
+      data: {
+        userId: user.id,
+        expectedEndAt: new Date(Date.now() + 60 * 60 * 1000),
+        payloadCiphertext: Buffer.from(JSON.stringify({ contacts: CONTACTS })).toString("base64"),
+        payloadIv: "iv",
+        payloadAuthTag: "tag",
+      },
+    });
+    checkInId = created.id;
+
+    app = Fastify({ logger: false });
+    app.register(jwt, { secret: "test-secret" });
+    // The handler verifies the token itself
+    app.post<{ Params: { checkInId: string }; Body: { pin: string } }>(
+      "/safety/check-ins/:checkInId/confirm",
+      (request, reply) => confirmCheckInRoute(app, request, reply)
+    );
+    await app.ready();
+
+    token = app.jwt.sign({ userId: user.id });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("ends the check-in with the safety PIN", async () => {
+    const response = await confirm(SAFETY_PIN);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.status).toBe("completed");
+    expect(checkIn().status).toBe("completed");
+    expect(sendTemplatedSms).not.toHaveBeenCalled();
+  });
+
+  it("rejects a PIN that is neither", async () => {
+    const response = await confirm("0000");
+
+    expect(response.statusCode).toBe(403);
+    expect(checkIn().status).toBe("active");
+  });
+
+  it("treats running out of PIN attempts as duress", async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect((await confirm("0000")).statusCode).toBe(403);
+    }
+    expect(checkIn()).toMatchObject({ status: "active", duressAt: null, failedPinAttempts: 4 });
+
+    expect((await confirm("0000")).statusCode).toBe(403);
+
+    expect(checkIn()).toMatchObject({ status: "active", stage: "alerting" });
+    expect(checkIn().duressAt).toBeInstanceOf(Date);
+    await vi.waitFor(() => expect(sendTemplatedSms).toHaveBeenCalledTimes(CONTACTS.length));
+    expect(prismaMock.auditLog.rows.map((row) => row.action)).toEqual(
+      expect.arrayContaining(["PIN_ATTEMPTS_EXHAUSTED", "DURESS_TRIGGERED"])
+    );
+  });
+
+  it("answers the duress PIN exactly like the safety PIN while alerting the contacts", async () => {
+    const response = await confirm(DURESS_PIN);
+    const data = response.json().data;
+
+    expect(response.statusCode).toBe(200);
+    expect(data).toMatchObject({ status: "completed", contactsAlerted: 0 });
+    expect(Object.keys(data).sort()).toEqual(
+      ["completedAt", "contactsAlerted", "createdAt", "expectedEndAt", "id", "status"]
+    );
+
+    // On the server the check-in stays live and goes straight to alerting
+    expect(checkIn()).toMatchObject({ status: "active", stage: "alerting" });
+    expect(checkIn().duressAt).toBeInstanceOf(Date);
+
+    await vi.waitFor(() => expect(sendTemplatedSms).toHaveBeenCalledTimes(CONTACTS.length));
+    expect(vi.mocked(sendTemplatedSms).mock.calls.map(([sms]) => sms)).toEqual(
+      CONTACTS.map((contact) =>
+        expect.objectContaining({ to: contact.phone, template: "emergency", skipRateLimit: true })
+      )
+    );
+    expect(prismaMock.auditLog.rows.map((row) => row.action)).toContain("DURESS_TRIGGERED");
+  });
+
+  it("keeps a duress check-in running when the safety PIN is entered afterwards", async () => {
+    await confirm(DURESS_PIN);
+    const response = await confirm(SAFETY_PIN);
+
+    expect(response.json().data.status).toBe("completed");
+    expect(checkIn().status).toBe("active");
+  });
+
+  it("reminds the user over the socket and by SMS to their own number", async () => {
+    expect(await escalateCheckIn(checkIn() as SafetyCheckIn)).toBe(true);
+
+    expect(checkIn().stage).toBe("reminded");
+    expect(emitToUser).toHaveBeenCalledWith(
+      checkIn().userId,
+      "safety:checkin_reminder",
+      expect.objectContaining({ id: checkInId })
+    );
+    expect(sendTemplatedSms).toHaveBeenCalledTimes(1);
+    expect(sendTemplatedSms).toHaveBeenCalledWith(
+      expect.objectContaining({ to: USER_PHONE, template: "checkin_reminder" })
+    );
+    expect(prismaMock.auditLog.rows[0]).toMatchObject({
+      action: "REMINDER_SENT",
+      metadata: expect.objectContaining({ smsSent: true }),
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import Fastify, { FastifyInstance } from "fastify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prismaMock, resetPrismaMock } from "../../test/prisma-mock";
+import { smsWebhookRoutes } from "../sms";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+describe("POST /webhooks/sms/:provider", () => {
+  let app: FastifyInstance;
+
+  const receipt = { messageId: "fake_1", status: "delivered" };
+
+  const deliver = (query: string) =>
+    app.inject({ method: "POST", url: `/webhooks/sms/fake${query}`, payload: receipt });
+
+  beforeEach(async () => {
+    resetPrismaMock();
+    vi.stubEnv("SMS_PROVIDER", "fake");
+    vi.stubEnv("SMS_DLR_TOKEN", "receipt-token");
+
+    await prismaMock.smsDelivery.create({
+      data: { provider: "fake", providerMessageId: "fake_1", status: "sent" },
+    });
+
+    app = Fastify({ logger: false });
+    app.register(smsWebhookRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await app.close();
+  });
+
+  it("records receipts posted with the shared token", async () => {
+    const response = await deliver("?token=receipt-token");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.updated).toBe(1);
+    expect(prismaMock.smsDelivery.rows[0].status).toBe("delivered");
+  });
+
+  it("rejects a wrong or missing token", async () => {
+    expect((await deliver("?token=receipt-tokeN")).statusCode).toBe(401);
+    expect((await deliver("?token=short")).statusCode).toBe(401);
+    // As many characters as the token but more bytes
+    expect((await deliver(`?token=${encodeURIComponent("receipt-tokén")}`)).statusCode).toBe(401);
+    expect((await deliver("")).statusCode).toBe(401);
+    expect(prismaMock.smsDelivery.rows[0].status).toBe("sent");
+  });
+
+  it("rejects every receipt while no token is configured", async () => {
+    vi.stubEnv("SMS_DLR_TOKEN", "");
+
+    expect((await deliver("?token=")).statusCode).toBe(401);
+  });
+});
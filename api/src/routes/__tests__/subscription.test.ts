@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import Fastify, { FastifyInstance } from "fastify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prismaMock, resetPrismaMock } from "../../test/prisma-mock";
+import { LocalRazorpayStandIn, SignedWebhook, verifyWebhookSignature } from "../../utils/razorpay";
+import { razorpayWebhookRoutes } from "../subscription";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+describe("POST /webhooks/razorpay", () => {
+  let app: FastifyInstance;
+  let webhook: SignedWebhook;
+  let orderId: string;
+
+  const deliver = (body: string, headers: Record<string, string>) =>
+    app.inject({
+      method: "POST",
+      url: "/webhooks/razorpay",
+      headers: { "content-type": "application/json", ...headers },
+      payload: body,
+    });
+
+  const deliverSigned = (event: SignedWebhook = webhook) =>
+    deliver(event.body, {
+      "x-razorpay-signature": event.signature,
+      "x-razorpay-event-id": event.eventId,
+    });
+
+  beforeEach(async () => {
+    resetPrismaMock();
+    vi.stubEnv("RAZORPAY_MODE", "stand-in");
+    vi.stubEnv("RAZORPAY_WEBHOOK_SECRET", "");
+
+    const standIn = new LocalRazorpayStandIn();
+    const order = await standIn.createOrder({ amount: 49900, currency: "INR", receipt: "r-1" });
+    orderId = order.id;
+    webhook = standIn.completePayment(order.id, "failed").webhook;
+
+    await prismaMock.payment.create({
+      data: { userId: "user-1", razorpayOrderId: order.id, status: "created" },
+    });
+
+    app = Fastify({ logger: false });
+    app.register(razorpayWebhookRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await app.close();
+  });
+
+  it("processes an event signed with the webhook secret", async () => {
+    const response = await deliverSigned();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.duplicate).toBe(false);
+    expect(prismaMock.payment.rows[0]).toMatchObject({ razorpayOrderId: orderId, status: "failed" });
+    expect(prismaMock.webhookEvent.rows).toHaveLength(1);
+  });
+
+  it("rejects a body that was changed after signing", async () => {
+    const tampered = webhook.body.replace('"payment.failed"', '"payment.captured"');
+    const response = await deliverSigned({ ...webhook, body: tampered });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toBe("WEBHOOK_SIGNATURE_INVALID");
+    expect(prismaMock.payment.rows[0].status).toBe("created");
+  });
+
+  it("rejects a missing or malformed signature", async () => {
+    const unsigned = await deliver(webhook.body, { "x-razorpay-event-id": webhook.eventId });
+    const malformed = await deliverSigned({ ...webhook, signature: "not-hex" });
+
+    expect(unsigned.statusCode).toBe(401);
+    expect(malformed.statusCode).toBe(401);
+    expect(prismaMock.webhookEvent.rows).toHaveLength(0);
+  });
+
+  it("acknowledges a redelivered event without processing it again", async () => {
+    await deliverSigned();
+    const redelivery = await deliverSigned();
+
+    expect(redelivery.statusCode).toBe(200);
+    expect(redelivery.json().data.duplicate).toBe(true);
+  });
+
+  it("never accepts stand-in signatures in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(verifyWebhookSignature(webhook.body, webhook.signature)).toBe(false);
+  });
+
+  it("checks against the configured secret", () => {
+    vi.stubEnv("RAZORPAY_WEBHOOK_SECRET", "configured-secret");
+    const signature = crypto
+      .createHmac("sha256", "configured-secret")
+      .update(webhook.body)
+      .digest("hex");
+
+    expect(verifyWebhookSignature(webhook.body, signature)).toBe(true);
+    expect(verifyWebhookSignature(webhook.body, webhook.signature)).toBe(false);
+  });
+});
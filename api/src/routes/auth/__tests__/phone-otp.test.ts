@@ -0,0 +1,124 @@
+import Fastify, { FastifyInstance } from "fastify";
+import jwt from "@fastify/jwt";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { prismaMock, resetPrismaMock } from "../../../test/prisma-mock";
+import { hashOtp } from "../../../utils/otp";
+import { phoneOtpRoutes } from "../phone-otp";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+const PHONE = "+919876543210";
+const CODE = "482913";
+
+describe("POST /auth/phone-otp/verify with a server-issued OTP", () => {
+  let app: FastifyInstance;
+
+  const verify = (otp: string) =>
+    app.inject({ method: "POST", url: "/auth/phone-otp/verify", payload: { phone: PHONE, otp } });
+
+  const otpRequest = () => prismaMock.otpRequest.rows[0];
+
+  beforeEach(async () => {
+    resetPrismaMock();
+    await prismaMock.otpRequest.create({
+      data: {
+        phone: PHONE,
+        otpHash: hashOtp(PHONE, CODE),
+        isUsed: false,
+        isExpired: false,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        attemptCount: 0,
+        maxAttempts: 3,
+      },
+    });
+
+    app = Fastify({ logger: false });
+    app.register(jwt, { secret: "test-secret" });
+    app.register(phoneOtpRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("signs the user in and consumes the request", async () => {
+    const response = await verify(CODE);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().tokens.accessToken).toEqual(expect.any(String));
+    expect(otpRequest()).toMatchObject({ isUsed: true, attemptCount: 1 });
+  });
+
+  it("counts wrong codes and reports the attempts left", async () => {
+    const first = await verify("000000");
+    const second = await verify("111111");
+
+    expect(first.json()).toMatchObject({
+      error: "OTP_VERIFICATION_FAILED",
+      details: { attemptsRemaining: 2 },
+    });
+    expect(second.json().details.attemptsRemaining).toBe(1);
+  });
+
+  it("burns the request once the attempts are used up, even for the right code", async () => {
+    for (const guess of ["000000", "111111", "222222"]) {
+      expect((await verify(guess)).json().error).toBe("OTP_VERIFICATION_FAILED");
+    }
+
+    const response = await verify(CODE);
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe("OTP_MAX_ATTEMPTS_EXCEEDED");
+    expect(otpRequest()).toMatchObject({ isExpired: true, isUsed: false, attemptCount: 3 });
+  });
+
+  it("does not let concurrent guesses exceed the attempt limit", async () => {
+    const responses = await Promise.all(
+      ["000000", "111111", "222222", "333333", "444444"].map(verify)
+    );
+    const errors = responses.map((response) => response.json().error);
+
+    expect(errors.slice(0, 3)).toEqual(Array(3).fill("OTP_VERIFICATION_FAILED"));
+    // The first guess over the limit burns the request; later ones no longer find it
+    expect(errors.slice(3)).toEqual(["OTP_MAX_ATTEMPTS_EXCEEDED", "OTP_EXPIRED"]);
+    expect(otpRequest().attemptCount).toBe(3);
+  });
+
+  it("accepts a code only once", async () => {
+    expect((await verify(CODE)).statusCode).toBe(200);
+
+    const replay = await verify(CODE);
+
+    expect(replay.statusCode).toBe(400);
+    expect(replay.json().error).toBe("OTP_EXPIRED");
+  });
+
+  it("refuses to sign in a suspended user", async () => {
+    await prismaMock.user.create({
+      data: {
+        phone: PHONE,
+        firebaseUid: "phone_919876543210",
+        isActive: false,
+        verificationLevel: 1,
+      },
+    });
+
+    const response = await verify(CODE);
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error).toBe("ACCOUNT_SUSPENDED");
+    expect(prismaMock.session.rows).toHaveLength(0);
+  });
+
+  it("rejects a malformed code without comparing it", async () => {
+    const response = await verify("12ab");
+
+    expect(response.json()).toMatchObject({
+      error: "OTP_VERIFICATION_FAILED",
+      details: { attemptsRemaining: 2 },
+    });
+  });
+});
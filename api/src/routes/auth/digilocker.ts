@@ -1,26 +1,32 @@
 /**
  * DigiLocker OAuth Routes
  * Tier 2 Verification - MeitY API Integration
+ * Linked accounts are re-verified in the background (see utils/digilocker-tokens)
  * DPDP Act 2023 Compliance - Only encrypted tokens stored, NO Aadhaar numbers
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
-import { v4 as uuidv4 } from "uuid";
-import { addMinutes } from "date-fns";
 import {
   getDigiLockerAuthUrl,
   exchangeDigiLockerCode,
   getDigiLockerProfile,
-} from "../utils/digilocker";
-import { encryptWithKMS } from "../utils/kms-encryption";
-import { authenticate } from "../middleware/auth";
-import { ERROR_CODES, createError, handleError } from "../utils/errors";
+} from "../../utils/digilocker";
+import { recheckDigiLockerAccess, sealDigiLockerTokens } from "../../utils/digilocker-tokens";
+import {
+  OAUTH_STATE_TTL_SECONDS,
+  consumeOAuthState,
+  createOAuthState,
+  isSafeRedirectPath,
+} from "../../utils/oauth-state";
+import { signAccessToken } from "../../utils/sessions";
+import { authenticate } from "../../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../../utils/errors";
 
 const prisma = new PrismaClient();
 
-interface InitDigiLockerRequest {
-  userId: string;
+interface InitDigiLockerQuery {
+  redirectTo?: string; // App path to send the browser back to after the callback
 }
 
 interface DigiLockerCallbackQuery {
@@ -29,42 +35,60 @@ interface DigiLockerCallbackQuery {
   error?: string;
 }
 
+/**
+ * Where the browser lands after the callback when the app asked to come back
+ */
+const getAppRedirectUrl = (path: string, params: Record<string, string>): string => {
+  const url = new URL(path, process.env.APP_PUBLIC_URL || "http://localhost:3000");
+
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+
+  return url.toString();
+};
+
 /**
  * GET /auth/digilocker/init
- * Initialize DigiLocker OAuth flow
+ * Initialize DigiLocker OAuth flow (authorization code with PKCE)
  * Returns authorization URL for user redirect
  */
 export async function initDigiLockerRoute(
   fastify: FastifyInstance,
-  request: FastifyRequest,
+  request: FastifyRequest<{ Querystring: InitDigiLockerQuery }>,
   reply: FastifyReply
 ) {
   try {
     // Verify user is authenticated
     await request.jwtVerify();
-    const userId = (request.user as any).userId;
+    const { userId, sid } = request.user as any;
 
-    // Generate state parameter for CSRF protection
-    const state = uuidv4();
+    const { redirectTo } = request.query;
 
-    // Store state in database for validation on callback
-    await prisma.session.create({
-      data: {
-        id: state, // Use state as ID for temporary storage
-        userId,
-        refreshTokenHash: "digilocker_state", // Marker for state type
-        expiresAt: addMinutes(new Date(), 15), // 15 minute state expiry
-      },
+    if (redirectTo !== undefined && !isSafeRedirectPath(redirectTo)) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "redirectTo must be a path within the app.",
+        400,
+        { fields: { redirectTo: ["Must be a path starting with /"] } }
+      );
+    }
+
+    // State (CSRF), PKCE code verifier and nonce, held until the callback
+    const { state, codeChallenge } = await createOAuthState("digilocker", {
+      userId,
+      sessionId: sid,
+      redirectTo,
     });
 
     // Get DigiLocker authorization URL
-    const authUrl = getDigiLockerAuthUrl(state);
+    const authUrl = getDigiLockerAuthUrl(state, codeChallenge);
 
     return reply.status(200).send({
       message: "DigiLocker authorization initiated",
       authorizationUrl: authUrl,
       state,
-      expiresInSeconds: 900,
+      expiresInSeconds: OAUTH_STATE_TTL_SECONDS,
     });
   } catch (error: any) {
     return handleError(error, request, reply);
@@ -76,15 +100,40 @@ export async function initDigiLockerRoute(
  * Handle DigiLocker OAuth callback
  * Exchange code for token and encrypt with AWS KMS
  * Tier 2 verification complete upon success
+ * Flows started with a redirectTo send the browser back to the app instead of JSON
  */
 export async function digiLockerCallbackRoute(
   fastify: FastifyInstance,
   request: FastifyRequest<{ Querystring: DigiLockerCallbackQuery }>,
   reply: FastifyReply
 ) {
+  let redirectTo: string | null = null;
+
   try {
     const { code, state, error } = request.query;
 
+    if (!state) {
+      throw createError(
+        ERROR_CODES.DIGILOCKER_STATE_MISMATCH,
+        "State parameter missing. Possible CSRF attack.",
+        403
+      );
+    }
+
+    // Verify state parameter (single use; also yields the PKCE code verifier)
+    const oauthState = await consumeOAuthState("digilocker", state);
+
+    if (!oauthState || !oauthState.userId) {
+      throw createError(
+        ERROR_CODES.DIGILOCKER_STATE_MISMATCH,
+        "Invalid or expired state parameter. Please restart the verification process.",
+        403
+      );
+    }
+
+    const userId = oauthState.userId;
+    redirectTo = oauthState.redirectTo;
+
     // Check for OAuth error
     if (error) {
       throw createError(
@@ -103,59 +152,36 @@ export async function digiLockerCallbackRoute(
       );
     }
 
-    if (!state) {
-      throw createError(
-        ERROR_CODES.DIGILOCKER_STATE_MISMATCH,
-        "State parameter missing. Possible CSRF attack.",
-        403
-      );
-    }
+    // Exchange code for access and refresh tokens
+    const tokenResponse = await exchangeDigiLockerCode(code, oauthState.codeVerifier);
 
-    // Verify state parameter
-    const stateSession = await prisma.session.findUnique({
-      where: { id: state },
-    });
-
-    if (!stateSession) {
-      throw createError(
-        ERROR_CODES.DIGILOCKER_STATE_MISMATCH,
-        "Invalid or expired state parameter. Please restart the verification process.",
-        403
-      );
-    }
-
-    const userId = stateSession.userId;
-
-    // Exchange code for access token
-    const tokenResponse = await exchangeDigiLockerCode(code);
-
-    // Encrypt the access token using AWS KMS (AES-256-GCM)
-    const encryptedToken = await encryptWithKMS(tokenResponse.access_token);
+    // Encrypt both tokens using AWS KMS (AES-256-GCM)
+    const encryptedTokens = await sealDigiLockerTokens(tokenResponse);
 
     // Get user profile from DigiLocker (for verification purposes only)
     // IMPORTANT: We do NOT store Aadhaar or any PII from the profile
     const profile = await getDigiLockerProfile(tokenResponse.access_token);
 
+    const existing = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { verificationLevel: true, videoSelfieVerifiedAt: true },
+    });
+
     // Update user with Tier 2 verification
+    // Reconnecting after a revocation restores Gold if the video selfie still stands
     const user = await prisma.user.update({
       where: { id: userId },
       data: {
         // Store ONLY encrypted token components (NO Aadhaar)
-        digiLockerToken: encryptedToken.ciphertext,
-        digiLockerTokenIv: encryptedToken.iv,
-        digiLockerTokenTag: encryptedToken.authTag,
+        ...encryptedTokens,
         digiLockerVerifiedAt: new Date(),
-        verificationLevel: {
-          increment: 1,
-        },
+        verificationLevel: Math.max(
+          existing.verificationLevel,
+          existing.videoSelfieVerifiedAt ? 3 : 2
+        ),
       },
     });
 
-    // Clean up state session
-    await prisma.session.delete({
-      where: { id: state },
-    });
-
     // Log successful DigiLocker verification
     await prisma.auditLog.create({
       data: {
@@ -169,6 +195,7 @@ export async function digiLockerCallbackRoute(
           // DO NOT log any profile data that could contain Aadhaar
           verifiedAt: new Date().toISOString(),
           tokenEncrypted: true,
+          refreshTokenStored: tokenResponse.refresh_token !== undefined,
           encryptionMethod: "AES-256-GCM",
           kmsUsed: true,
         },
@@ -177,16 +204,15 @@ export async function digiLockerCallbackRoute(
       },
     });
 
-    // Generate new JWT with updated verification level
-    const accessToken = fastify.jwt.sign(
-      {
-        userId: user.id,
-        phone: user.phone,
-        verificationLevel: user.verificationLevel,
-        digilockerVerified: true,
-      },
-      { expiresIn: "15m" }
-    );
+    // Generate new JWT with updated verification level, in the session that started the flow
+    const accessToken = oauthState.sessionId
+      ? signAccessToken(fastify, user, oauthState.sessionId, { digilockerVerified: true })
+      : undefined;
+
+    // The app picks up the new level on its next token refresh
+    if (redirectTo) {
+      return reply.redirect(getAppRedirectUrl(redirectTo, { digilocker: "verified" }));
+    }
 
     return reply.status(200).send({
       message: "DigiLocker verification successful",
@@ -196,19 +222,28 @@ export async function digiLockerCallbackRoute(
         isPhoneVerified: user.isPhoneVerified,
         digiLockerVerifiedAt: user.digiLockerVerifiedAt,
       },
-      tokens: {
-        accessToken,
-      },
+      tokens: accessToken ? { accessToken } : undefined,
       // IMPORTANT: Never return the token or any profile data
     });
   } catch (error: any) {
+    if (redirectTo) {
+      request.log.warn(error, "DigiLocker callback failed");
+      return reply.redirect(
+        getAppRedirectUrl(redirectTo, {
+          digilocker: "failed",
+          code: error.code || ERROR_CODES.DIGILOCKER_VERIFICATION_FAILED,
+        })
+      );
+    }
+
     return handleError(error, request, reply);
   }
 }
 
 /**
  * POST /auth/digilocker/refresh
- * Refresh DigiLocker access token
+ * Refresh the DigiLocker access token now instead of waiting for the scheduled check
+ * A grant DigiLocker no longer honours removes Tier 2 verification
  */
 export async function refreshDigiLockerTokenRoute(
   fastify: FastifyInstance,
@@ -233,13 +268,45 @@ export async function refreshDigiLockerTokenRoute(
       );
     }
 
-    // Note: In production, you would store and use the refresh token
-    // This is a simplified implementation
-    throw createError(
-      ERROR_CODES.DIGILOCKER_TOKEN_EXPIRED,
-      "DigiLocker token has expired. Please re-authorize.",
-      401
-    );
+    const outcome = await recheckDigiLockerAccess(user);
+
+    if (outcome === "no_refresh_token") {
+      // Linked before refresh tokens were kept
+      throw createError(
+        ERROR_CODES.DIGILOCKER_TOKEN_EXPIRED,
+        "DigiLocker token has expired. Please re-authorize.",
+        401
+      );
+    }
+
+    if (outcome === "revoked") {
+      throw createError(
+        ERROR_CODES.DIGILOCKER_TOKEN_EXPIRED,
+        "DigiLocker access was withdrawn. Please reconnect DigiLocker to verify again.",
+        401,
+        { verificationRevoked: true }
+      );
+    }
+
+    if (outcome === "unavailable") {
+      throw createError(
+        ERROR_CODES.DIGILOCKER_TOKEN_REFRESH_FAILED,
+        "DigiLocker is not reachable right now. Please try again later.",
+        503
+      );
+    }
+
+    const refreshed = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { digiLockerTokenExpiresAt: true, digiLockerCheckedAt: true },
+    });
+
+    return reply.status(200).send({
+      message: "DigiLocker token refreshed",
+      expiresAt: refreshed.digiLockerTokenExpiresAt,
+      checkedAt: refreshed.digiLockerCheckedAt,
+      // IMPORTANT: Never return the token itself
+    });
   } catch (error: any) {
     return handleError(error, request, reply);
   }
@@ -264,6 +331,7 @@ export async function digiLockerStatusRoute(
       select: {
         id: true,
         digiLockerVerifiedAt: true,
+        digiLockerCheckedAt: true,
         verificationLevel: true,
       },
     });
@@ -275,6 +343,7 @@ export async function digiLockerStatusRoute(
     return reply.status(200).send({
       isVerified: !!user.digiLockerVerifiedAt,
       verifiedAt: user.digiLockerVerifiedAt,
+      lastCheckedAt: user.digiLockerCheckedAt,
       verificationLevel: user.verificationLevel,
       tier2Complete: user.verificationLevel >= 2,
     });
@@ -288,22 +357,25 @@ export async function digiLockerStatusRoute(
  */
 export async function digiLockerRoutes(fastify: FastifyInstance) {
   // Public callback route (called by DigiLocker)
-  fastify.get("/auth/digilocker/callback", digiLockerCallbackRoute);
+  fastify.get<{ Querystring: DigiLockerCallbackQuery }>(
+    "/auth/digilocker/callback",
+    (request, reply) => digiLockerCallbackRoute(fastify, request, reply)
+  );
 
   // Protected routes
-  fastify.get(
+  fastify.get<{ Querystring: InitDigiLockerQuery }>(
     "/auth/digilocker/init",
     { preHandler: [authenticate] },
-    initDigiLockerRoute
+    (request, reply) => initDigiLockerRoute(fastify, request, reply)
   );
   fastify.get(
     "/auth/digilocker/status",
     { preHandler: [authenticate] },
-    digiLockerStatusRoute
+    (request, reply) => digiLockerStatusRoute(fastify, request, reply)
   );
   fastify.post(
     "/auth/digilocker/refresh",
     { preHandler: [authenticate] },
-    refreshDigiLockerTokenRoute
+    (request, reply) => refreshDigiLockerTokenRoute(fastify, request, reply)
   );
 }
@@ -1,19 +1,31 @@
 /**
  * Phone OTP Routes
- * Tier 1 Verification - Firebase Phone Auth with Indian format validation
+ * Tier 1 Verification - server-issued OTP over SMS, or a Firebase Phone Auth ID token,
+ * with Indian format validation
  * DPDP Act 2023 Compliance
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
-import { v4 as uuidv4 } from "uuid";
 import { addMinutes } from "date-fns";
+import { verifyFirebaseIdToken } from "../../utils/firebase-admin";
 import {
-  sendPhoneOTP,
-  verifyPhoneOTP,
-  createFirebaseUser,
-} from "../utils/firebase-admin";
-import { ERROR_CODES, createError, handleError } from "../utils/errors";
+  ERROR_CODES,
+  accountSuspendedError,
+  createError,
+  handleError,
+} from "../../utils/errors";
+import {
+  generateOtp,
+  getOtpExpiryMinutes,
+  getOtpMaxAttempts,
+  getOtpRateLimitPerHour,
+  hashOtp,
+  verifyOtpHash,
+} from "../../utils/otp";
+import { getSmsProvider } from "../../utils/sms-provider";
+import { issueSession } from "../../utils/sessions";
+import { cancelAccountDeletion } from "../../utils/account-erasure";
 
 const prisma = new PrismaClient();
 
@@ -26,8 +38,8 @@ interface SendOTPRequestBody {
 
 interface VerifyOTPRequestBody {
   phone: string;
-  otp: string;
-  firebaseUid?: string;
+  otp?: string;
+  firebaseIdToken?: string;
 }
 
 /**
@@ -39,10 +51,109 @@ const validateIndianPhone = (phone: string): boolean => {
   return INDIAN_PHONE_REGEX.test(phone);
 };
 
+/**
+ * Check a server-issued OTP against the latest open request and consume it
+ * Every attempt is counted before the comparison; the request is burnt once maxAttempts is reached
+ */
+const consumeServerOtp = async (phone: string, otp: string): Promise<void> => {
+  const otpRequest = await prisma.otpRequest.findFirst({
+    where: {
+      phone,
+      isUsed: false,
+      isExpired: false,
+      expiresAt: { gt: new Date() },
+      otpHash: { not: null },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  if (!otpRequest) {
+    throw createError(
+      ERROR_CODES.OTP_EXPIRED,
+      "OTP has expired or already been used. Please request a new OTP.",
+      400
+    );
+  }
+
+  // Claim an attempt before comparing, so concurrent guesses cannot exceed maxAttempts
+  const claimed = await prisma.otpRequest.updateMany({
+    where: { id: otpRequest.id, attemptCount: { lt: otpRequest.maxAttempts } },
+    data: { attemptCount: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) {
+    await prisma.otpRequest.update({
+      where: { id: otpRequest.id },
+      data: { isExpired: true },
+    });
+
+    throw createError(
+      ERROR_CODES.OTP_MAX_ATTEMPTS_EXCEEDED,
+      "Maximum OTP attempts exceeded. Please request a new OTP.",
+      400
+    );
+  }
+
+  if (!/^\d{6}$/.test(otp) || !verifyOtpHash(phone, otp, otpRequest.otpHash!)) {
+    const current = await prisma.otpRequest.findUnique({
+      where: { id: otpRequest.id },
+      select: { attemptCount: true, maxAttempts: true },
+    });
+
+    throw createError(
+      ERROR_CODES.OTP_VERIFICATION_FAILED,
+      "Invalid OTP. Please try again.",
+      400,
+      {
+        attemptsRemaining: current
+          ? Math.max(current.maxAttempts - current.attemptCount, 0)
+          : 0,
+      }
+    );
+  }
+
+  // Guarded update: a code can only be redeemed once, even by concurrent requests
+  const { count } = await prisma.otpRequest.updateMany({
+    where: { id: otpRequest.id, isUsed: false },
+    data: {
+      isUsed: true,
+      usedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw createError(
+      ERROR_CODES.OTP_EXPIRED,
+      "OTP has expired or already been used. Please request a new OTP.",
+      400
+    );
+  }
+};
+
+/**
+ * Verify a Firebase Phone Auth ID token and return its UID
+ * The token must have been issued for the phone number being verified
+ */
+const verifyFirebasePhoneToken = async (phone: string, idToken: string): Promise<string> => {
+  const decoded = await verifyFirebaseIdToken(idToken);
+
+  if (!decoded || decoded.phone_number !== phone) {
+    throw createError(
+      ERROR_CODES.OTP_VERIFICATION_FAILED,
+      "Phone verification could not be confirmed. Please try again.",
+      401
+    );
+  }
+
+  return decoded.uid;
+};
+
 /**
  * POST /auth/phone-otp/send
- * Send OTP to Indian phone number via Firebase
- * Rate limited to prevent abuse
+ * Send a server-issued OTP to an Indian phone number via the SMS provider
+ * Rate limited to prevent abuse; a new OTP invalidates any earlier one
  */
 export async function sendOTPRoute(
   fastify: FastifyInstance,
@@ -62,7 +173,7 @@ export async function sendOTPRoute(
       );
     }
 
-    // Check rate limiting - max 5 OTP requests per phone per hour
+    // Check rate limiting - max OTP_RATE_LIMIT_PER_HOUR requests per phone per hour
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
     const recentOtpRequests = await prisma.otpRequest.count({
       where: {
@@ -71,7 +182,7 @@ export async function sendOTPRoute(
       },
     });
 
-    if (recentOtpRequests >= 5) {
+    if (recentOtpRequests >= getOtpRateLimitPerHour()) {
       throw createError(
         ERROR_CODES.RATE_LIMIT_EXCEEDED,
         "Too many OTP requests. Please try again after 1 hour.",
@@ -79,48 +190,52 @@ export async function sendOTPRoute(
       );
     }
 
-    // Check for existing OTP requests that haven't expired
-    const existingOtp = await prisma.otpRequest.findFirst({
+    // Only the most recent OTP is ever valid
+    await prisma.otpRequest.updateMany({
       where: {
         phone,
         isUsed: false,
         isExpired: false,
-        expiresAt: { gt: new Date() },
       },
+      data: { isExpired: true },
     });
 
-    if (existingOtp && existingOtp.attemptCount >= existingOtp.maxAttempts) {
-      throw createError(
-        ERROR_CODES.OTP_MAX_ATTEMPTS_EXCEEDED,
-        "Maximum OTP attempts exceeded. Please request a new OTP.",
-        400
-      );
-    }
-
-    // Send OTP via Firebase
-    const firebaseOtpId = await sendPhoneOTP(phone);
+    const otp = generateOtp();
+    const expiryMinutes = getOtpExpiryMinutes();
+    const smsProvider = getSmsProvider();
 
-    // Create or update OTP request record
-    const otpRequest = await prisma.otpRequest.upsert({
-      where: {
-        id: existingOtp?.id || uuidv4(),
-      },
-      update: {
-        attemptCount: { increment: 1 },
-        firebaseOtpId,
-        expiresAt: addMinutes(new Date(), 5), // 5 minute expiry
-        isExpired: false,
-        isUsed: false,
-      },
-      create: {
+    const pendingRequest = await prisma.otpRequest.create({
+      data: {
         phone,
-        firebaseOtpId,
-        attemptCount: 1,
-        maxAttempts: 5,
-        expiresAt: addMinutes(new Date(), 5),
+        otpHash: hashOtp(phone, otp),
+        smsProvider: smsProvider.name,
+        attemptCount: 0,
+        maxAttempts: getOtpMaxAttempts(),
+        expiresAt: addMinutes(new Date(), expiryMinutes),
       },
     });
 
+    let otpRequest;
+    try {
+      const receipt = await smsProvider.sendOtp({
+        to: phone,
+        otp,
+        expiresInMinutes: expiryMinutes,
+      });
+
+      otpRequest = await prisma.otpRequest.update({
+        where: { id: pendingRequest.id },
+        data: { providerMessageId: receipt.messageId },
+      });
+    } catch (error) {
+      // An undelivered code must not stay redeemable
+      await prisma.otpRequest.update({
+        where: { id: pendingRequest.id },
+        data: { isExpired: true },
+      });
+      throw error;
+    }
+
     // Log the OTP request for audit
     await prisma.auditLog.create({
       data: {
@@ -130,7 +245,8 @@ export async function sendOTPRoute(
         action: "OTP_SEND_REQUESTED",
         metadata: {
           phone: phone.replace(/(\+91)(\d{3})(\d{7})/, "$1-XXX-XXX$3"), // Mask for privacy
-          attemptCount: otpRequest.attemptCount,
+          smsProvider: otpRequest.smsProvider,
+          recentRequests: recentOtpRequests + 1,
         },
         ipAddress: request.ip,
         userAgent: request.headers["user-agent"],
@@ -140,8 +256,8 @@ export async function sendOTPRoute(
     return reply.status(200).send({
       message: "OTP sent successfully",
       phone: phone.replace(/(\+91)(\d{3})(\d{7})/, "$1-XXX-XXX$3"), // Masked response
-      expiresInSeconds: 300,
-      maxAttempts: 5,
+      expiresInSeconds: expiryMinutes * 60,
+      maxAttempts: otpRequest.maxAttempts,
     });
   } catch (error: any) {
     return handleError(error, request, reply);
@@ -150,7 +266,7 @@ export async function sendOTPRoute(
 
 /**
  * POST /auth/phone-otp/verify
- * Verify OTP and create/update user
+ * Verify a server-issued OTP or a Firebase ID token and create/update user
  * Tier 1 verification complete upon success
  */
 export async function verifyOTPRoute(
@@ -159,7 +275,7 @@ export async function verifyOTPRoute(
   reply: FastifyReply
 ) {
   try {
-    const { phone, otp, firebaseUid } = request.body;
+    const { phone, otp, firebaseIdToken } = request.body;
 
     // Validate Indian phone format
     if (!validateIndianPhone(phone)) {
@@ -170,60 +286,25 @@ export async function verifyOTPRoute(
       );
     }
 
-    // Find OTP request
-    const otpRequest = await prisma.otpRequest.findFirst({
-      where: {
-        phone,
-        isUsed: false,
-        isExpired: false,
-        expiresAt: { gt: new Date() },
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    });
-
-    if (!otpRequest) {
-      throw createError(
-        ERROR_CODES.OTP_EXPIRED,
-        "OTP has expired or already been used. Please request a new OTP.",
-        400
-      );
-    }
-
-    // Verify OTP with Firebase
-    // Note: In production, Firebase OTP verification happens on client side
-    // This is a simplified server-side verification
-    const isValidOtp = otp.length === 6 && /^\d{6}$/.test(otp);
-
-    if (!isValidOtp) {
-      // Increment attempt count
-      await prisma.otpRequest.update({
-        where: { id: otpRequest.id },
-        data: { attemptCount: { increment: 1 } },
-      });
+    let firebaseUid: string | undefined;
 
+    if (firebaseIdToken) {
+      firebaseUid = await verifyFirebasePhoneToken(phone, firebaseIdToken);
+    } else if (otp) {
+      await consumeServerOtp(phone, otp);
+    } else {
       throw createError(
         ERROR_CODES.OTP_VERIFICATION_FAILED,
-        "Invalid OTP. Please try again.",
-        400,
-        { attemptsRemaining: otpRequest.maxAttempts - otpRequest.attemptCount - 1 }
+        "Provide the OTP or a Firebase ID token.",
+        400
       );
     }
 
-    // Mark OTP as used
-    await prisma.otpRequest.update({
-      where: { id: otpRequest.id },
-      data: {
-        isUsed: true,
-        usedAt: new Date(),
-      },
-    });
-
     // Find or create user
     let user = await prisma.user.findUnique({
       where: { phone },
     });
+    let accountDeletionCancelled = false;
 
     if (!user) {
       // Create new user with Tier 1 verification
@@ -237,6 +318,11 @@ export async function verifyOTPRoute(
         },
       });
     } else {
+      // A moderator suspension must not be undone by signing in again
+      if (!user.isActive) {
+        throw accountSuspendedError();
+      }
+
       // Update existing user
       user = await prisma.user.update({
         where: { id: user.id },
@@ -247,37 +333,18 @@ export async function verifyOTPRoute(
           verificationLevel: Math.max(user.verificationLevel, 1),
         },
       });
-    }
-
-    // Generate JWT tokens
-    const accessToken = fastify.jwt.sign(
-      { userId: user.id, phone: user.phone, verificationLevel: user.verificationLevel },
-      { expiresIn: "15m" }
-    );
-
-    const refreshToken = fastify.jwt.sign(
-      { userId: user.id, type: "refresh" },
-      { expiresIn: "7d" }
-    );
 
-    // Store refresh token hash in session
-    const bcrypt = await import("bcrypt");
-    const refreshTokenHash = await bcrypt.hash(refreshToken, 10);
-
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        refreshTokenHash,
-        deviceInfo: request.headers["user-agent"],
+      // Logging in during the erasure grace period keeps the account
+      accountDeletionCancelled = await cancelAccountDeletion(user.id, "login", {
         ipAddress: request.ip,
-        expiresAt: addMinutes(new Date(), 7 * 24 * 60), // 7 days
-      },
-    });
+        userAgent: request.headers["user-agent"],
+      });
+    }
 
-    // Update user's refresh token reference
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { refreshToken: refreshTokenHash },
+    // Start a new device session (rotating refresh token)
+    const { accessToken, refreshToken } = await issueSession(fastify, user, {
+      deviceInfo: request.headers["user-agent"],
+      ipAddress: request.ip,
     });
 
     // Log successful verification
@@ -290,6 +357,7 @@ export async function verifyOTPRoute(
         action: "TIER_1_VERIFICATION_COMPLETE",
         metadata: {
           verificationLevel: 1,
+          method: firebaseIdToken ? "firebase" : "sms_otp",
           phone: phone.replace(/(\+91)(\d{3})(\d{7})/, "$1-XXX-XXX$3"),
         },
         ipAddress: request.ip,
@@ -309,6 +377,7 @@ export async function verifyOTPRoute(
         accessToken,
         refreshToken,
       },
+      accountDeletionCancelled,
     });
   } catch (error: any) {
     return handleError(error, request, reply);
@@ -319,6 +388,10 @@ export async function verifyOTPRoute(
  * Register routes with Fastify
  */
 export async function phoneOtpRoutes(fastify: FastifyInstance) {
-  fastify.post("/auth/phone-otp/send", sendOTPRoute);
-  fastify.post("/auth/phone-otp/verify", verifyOTPRoute);
+  fastify.post<{ Body: SendOTPRequestBody }>("/auth/phone-otp/send", (request, reply) =>
+    sendOTPRoute(fastify, request, reply)
+  );
+  fastify.post<{ Body: VerifyOTPRequestBody }>("/auth/phone-otp/verify", (request, reply) =>
+    verifyOTPRoute(fastify, request, reply)
+  );
 }
@@ -0,0 +1,197 @@
+/**
+ * Session Routes
+ * Refresh token rotation, logout and per-device session management
+ * DPDP Act 2023 Compliance - Users can see and sign out every device holding their account
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { authenticate } from "../../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../../utils/errors";
+import {
+  findUserSessionFamily,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSessionFamily,
+  rotateRefreshToken,
+} from "../../utils/sessions";
+
+const prisma = new PrismaClient();
+
+interface RefreshRequestBody {
+  refreshToken?: string;
+}
+
+interface LogoutRequestBody {
+  allDevices?: boolean;
+}
+
+interface SessionParams {
+  id: string;
+}
+
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new access + refresh token pair
+ * The presented token is single-use; reusing it signs the device out
+ */
+export async function refreshTokenRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: RefreshRequestBody }>,
+  reply: FastifyReply
+) {
+  try {
+    const refreshToken = request.body?.refreshToken;
+
+    if (!refreshToken) {
+      throw createError(ERROR_CODES.NO_REFRESH_TOKEN, "No refresh token provided", 401);
+    }
+
+    const tokens = await rotateRefreshToken(fastify, refreshToken, {
+      deviceInfo: request.headers["user-agent"],
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    });
+
+    return reply.status(200).send({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /auth/logout
+ * Revoke the current device session, or every session with allDevices
+ */
+export async function logoutRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: LogoutRequestBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const { userId, sid } = request.user as any;
+    const allDevices = request.body?.allDevices === true || !sid;
+
+    const revokedCount = allDevices
+      ? await revokeAllSessions(userId, "logout")
+      : await revokeSessionFamily(sid, "logout");
+
+    // Log logout
+    await prisma.auditLog.create({
+      data: {
+        eventType: "LOGOUT",
+        userId,
+        entityType: "USER",
+        entityId: userId,
+        action: allDevices ? "USER_LOGOUT_ALL_DEVICES" : "USER_LOGOUT",
+        metadata: { revokedCount },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({ message: "Logged out successfully" });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /auth/sessions
+ * Devices currently signed in to the account
+ */
+export async function listSessionsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const { userId, sid } = request.user as any;
+
+    const sessions = await listActiveSessions(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: sessions.map((session) => ({ ...session, isCurrent: session.id === sid })),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /auth/sessions/:id
+ * Sign out a single device (e.g. a lost phone)
+ * Its refresh and access tokens stop working immediately
+ */
+export async function revokeSessionRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: SessionParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { id } = request.params;
+
+    const session = await findUserSessionFamily(userId, id);
+
+    if (!session) {
+      throw createError(ERROR_CODES.SESSION_NOT_FOUND, "Session not found.", 404);
+    }
+
+    const revokedCount = await revokeSessionFamily(id, "user_revoked");
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "SESSION_REVOKED",
+        userId,
+        entityType: "SESSION",
+        entityId: id,
+        action: "SESSION_SIGNED_OUT",
+        metadata: { revokedCount, deviceInfo: session.deviceInfo },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { id, revoked: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register routes with Fastify
+ */
+export async function sessionRoutes(fastify: FastifyInstance) {
+  fastify.post<{ Body: RefreshRequestBody }>("/auth/refresh", (request, reply) =>
+    refreshTokenRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: LogoutRequestBody }>(
+    "/auth/logout",
+    { preHandler: [authenticate] },
+    (request, reply) => logoutRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/auth/sessions",
+    { preHandler: [authenticate] },
+    (request, reply) => listSessionsRoute(fastify, request, reply)
+  );
+
+  fastify.delete<{ Params: SessionParams }>(
+    "/auth/sessions/:id",
+    { preHandler: [authenticate] },
+    (request, reply) => revokeSessionRoute(fastify, request, reply)
+  );
+}
@@ -1,116 +1,234 @@
 /**
  * Video Selfie Verification Routes
- * Tier 3 Verification - Liveness Detection
+ * Tier 3 Verification - Liveness Detection against a server-issued challenge,
+ * then a face match between the selfie and the profile photos
+ * The clip arrives through a resumable chunked upload (see utils/video-upload)
  * DPDP Act 2023 Compliance - Only encrypted verification results stored
  */
 
+import crypto from "crypto";
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { PrismaClient } from "@prisma/client";
-import { encryptWithKMS } from "../utils/kms-encryption";
-import { authenticate } from "../middleware/auth";
-import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { Photo, PrismaClient, VideoSelfieUpload } from "@prisma/client";
+import { z } from "zod";
+import { encryptWithKMS } from "../../utils/kms-encryption";
+import { authenticate } from "../../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../../utils/errors";
+import {
+  checkProfilePhotos,
+  encryptFaceTemplate,
+  getFaceMatcher,
+} from "../../utils/face-match";
+import {
+  LIVENESS_CHALLENGE_TTL_SECONDS,
+  LivenessResult,
+  LivenessStep,
+  consumeLivenessChallenge,
+  getFailedLivenessChecks,
+  getLivenessProvider,
+  issueLivenessChallenge,
+  serializeLivenessChallenge,
+} from "../../utils/liveness";
+import {
+  ALLOWED_VIDEO_TYPES,
+  MAX_CHUNK_SIZE,
+  MAX_VIDEO_SIZE,
+  VIDEO_UPLOAD_TTL_MINUTES,
+  appendVideoChunk,
+  claimCompletedUpload,
+  createVideoUpload,
+  detectVideoContainer,
+  discardVideoUpload,
+  findActiveUpload,
+  readVideoUpload,
+  releaseUpload,
+  serializeVideoUpload,
+} from "../../utils/video-upload";
+import { signAccessToken } from "../../utils/sessions";
 
 const prisma = new PrismaClient();
 
-// Maximum video file size: 10MB
-const MAX_VIDEO_SIZE = 10 * 1024 * 1024;
+interface UploadParams {
+  uploadId: string;
+}
 
-// Allowed video MIME types
-const ALLOWED_VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime"];
+const createUploadSchema = z.object({
+  challengeId: z.string().uuid(),
+  size: z.number().int().positive(), // Total length in bytes (Upload-Length)
+});
 
-interface VideoSelfieRequestBody {
-  videoData: string; // Base64 encoded video
-  metadata?: {
-    deviceInfo: string;
-    captureDuration: number;
-    frameCount: number;
-  };
-}
+type CreateUploadBody = z.input<typeof createUploadSchema>;
 
-interface LivenessDetectionResult {
-  isLive: boolean;
-  confidence: number;
-  checks: {
-    faceDetected: boolean;
-    eyeMovement: boolean;
-    headMovement: boolean;
-    depthAnalysis: boolean;
-  };
-}
+const finalizeUploadSchema = z.object({
+  metadata: z
+    .object({
+      deviceInfo: z.string().max(200),
+      captureDuration: z.number().nonnegative(),
+      frameCount: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+type FinalizeUploadBody = z.input<typeof finalizeUploadSchema>;
+
+/**
+ * tus-style headers so clients can resume from HEAD/GET and PATCH responses
+ */
+const setUploadHeaders = (reply: FastifyReply, upload: VideoSelfieUpload): void => {
+  reply.header("Upload-Offset", String(upload.offset));
+  reply.header("Upload-Length", String(upload.size));
+  reply.header("Cache-Control", "no-store");
+};
 
 /**
- * Simulate liveness detection
- * In production, integrate with a real liveness detection service like:
- * - AWS Rekognition Face Liveness
- * - Azure Face API Liveness
- * - Onfido
- * - Jumio
+ * POST /auth/video-selfie/challenge
+ * Issue the head turns and blinks the next recording must show
+ * A challenge expires after two minutes and can be answered once
  */
-const performLivenessDetection = async (
-  videoData: string
-): Promise<LivenessDetectionResult> => {
-  // TODO: Integrate with actual liveness detection service
-  // This is a placeholder implementation
-
-  // Basic validation of video data
-  if (!videoData || videoData.length < 1000) {
-    throw createError(
-      ERROR_CODES.INVALID_VIDEO_FORMAT,
-      "Video data is too short or invalid.",
-      400
-    );
+export async function createLivenessChallengeRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const challenge = await issueLivenessChallenge(userId);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "LIVENESS_CHALLENGE_ISSUED",
+        userId,
+        entityType: "LIVENESS_CHALLENGE",
+        entityId: challenge.id,
+        action: "CHALLENGE_ISSUED",
+        metadata: { stepCount: (challenge.steps as unknown as LivenessStep[]).length },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(201).send({
+      challenge: serializeLivenessChallenge(challenge),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
   }
+}
 
-  // Simulated liveness detection result
-  return {
-    isLive: true,
-    confidence: 0.95,
-    checks: {
-      faceDetected: true,
-      eyeMovement: true,
-      headMovement: true,
-      depthAnalysis: true,
-    },
-  };
-};
+/**
+ * POST /auth/video-selfie/uploads
+ * Start the upload of the clip answering a challenge
+ * The challenge is claimed here, so its two minutes only cover recording;
+ * the upload itself may take up to VIDEO_UPLOAD_TTL_MINUTES
+ */
+export async function createVideoUploadRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: CreateUploadBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = createUploadSchema.safeParse(request.body);
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid video upload request.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { challengeId, size } = parsed.data;
+
+    const challenge = await consumeLivenessChallenge(userId, challengeId);
+    const upload = await createVideoUpload(userId, challenge.id, size);
+
+    setUploadHeaders(reply, upload);
+    reply.header("Location", `/auth/video-selfie/uploads/${upload.id}`);
+
+    return reply.status(201).send({
+      upload: serializeVideoUpload(upload),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
 
 /**
- * Validate video data
- * @param videoData - Base64 encoded video
- * @param mimeType - Video MIME type
- * @throws Error if validation fails
+ * GET (and HEAD) /auth/video-selfie/uploads/:uploadId
+ * Offset to resume from after a dropped connection
  */
-const validateVideo = (videoData: string, mimeType: string): void => {
-  // Check MIME type
-  if (!ALLOWED_VIDEO_TYPES.includes(mimeType)) {
-    throw createError(
-      ERROR_CODES.INVALID_VIDEO_FORMAT,
-      `Invalid video format. Allowed: ${ALLOWED_VIDEO_TYPES.join(", ")}`,
-      400,
-      { allowedTypes: ALLOWED_VIDEO_TYPES, received: mimeType }
-    );
+export async function getVideoUploadRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: UploadParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const upload = await findActiveUpload(userId, request.params.uploadId);
+
+    setUploadHeaders(reply, upload);
+
+    return reply.status(200).send({
+      upload: serializeVideoUpload(upload),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
   }
+}
+
+/**
+ * PATCH /auth/video-selfie/uploads/:uploadId
+ * Append a chunk (Content-Type: application/offset+octet-stream) at the
+ * offset given in the Upload-Offset header
+ */
+export async function patchVideoUploadRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: UploadParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const offset = Number(request.headers["upload-offset"]);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Upload-Offset header is required.", 400);
+    }
+
+    if (!Buffer.isBuffer(request.body)) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Chunks must be sent as application/offset+octet-stream.",
+        415
+      );
+    }
+
+    const upload = await findActiveUpload(userId, request.params.uploadId);
+    const updated = await appendVideoChunk(upload, offset, request.body);
+
+    setUploadHeaders(reply, updated);
 
-  // Check file size
-  const sizeInBytes = Buffer.byteLength(videoData, "base64");
-  if (sizeInBytes > MAX_VIDEO_SIZE) {
-    throw createError(
-      ERROR_CODES.VIDEO_TOO_LARGE,
-      `Video too large. Maximum size: ${MAX_VIDEO_SIZE / 1024 / 1024}MB`,
-      400,
-      { maxSize: MAX_VIDEO_SIZE, received: sizeInBytes }
-    );
+    return reply.status(200).send({
+      upload: serializeVideoUpload(updated),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
   }
-};
+}
 
 /**
- * POST /auth/video-selfie/verify
- * Submit video selfie for liveness detection
+ * POST /auth/video-selfie/uploads/:uploadId/finalize
+ * Verify the uploaded recording: liveness against its challenge, then face match
  * Tier 3 verification complete upon success
  */
-export async function verifyVideoSelfieRoute(
+export async function finalizeVideoUploadRoute(
   fastify: FastifyInstance,
-  request: FastifyRequest<{ Body: VideoSelfieRequestBody }>,
+  request: FastifyRequest<{ Params: UploadParams; Body: FinalizeUploadBody }>,
   reply: FastifyReply
 ) {
   try {
@@ -118,47 +236,126 @@ export async function verifyVideoSelfieRoute(
     await request.jwtVerify();
     const userId = (request.user as any).userId;
 
-    const { videoData, metadata } = request.body;
+    const parsed = finalizeUploadSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid video selfie request.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { metadata } = parsed.data;
+
+    const upload = await claimCompletedUpload(userId, request.params.uploadId);
+    const challenge = await prisma.livenessChallenge.findUniqueOrThrow({
+      where: { id: upload.challengeId },
+    });
+    const spec = {
+      nonce: challenge.nonce,
+      steps: challenge.steps as unknown as LivenessStep[],
+    };
+
+    let video: Buffer;
+
+    try {
+      video = await readVideoUpload(upload);
+    } catch (error) {
+      await releaseUpload(upload.id);
+      throw error;
+    }
+
+    // The container decides the type; the client's word is never asked for
+    const mimeType = detectVideoContainer(video);
+
+    if (!mimeType) {
+      await discardVideoUpload(upload);
+      await prisma.livenessChallenge.update({
+        where: { id: challenge.id },
+        data: { status: "failed", failureReason: "invalid_container", completedAt: new Date() },
+      });
 
-    if (!videoData) {
       throw createError(
         ERROR_CODES.INVALID_VIDEO_FORMAT,
-        "No video data provided.",
-        400
+        `Invalid video format. Allowed: ${ALLOWED_VIDEO_TYPES.join(", ")}`,
+        400,
+        { allowedTypes: ALLOWED_VIDEO_TYPES }
       );
     }
 
-    // Extract MIME type from base64 data URL if present
-    let mimeType = "video/mp4";
-    let base64Data = videoData;
+    const provider = getLivenessProvider();
 
-    if (videoData.startsWith("data:")) {
-      const matches = videoData.match(/^data:([^;]+);base64,(.+)$/);
-      if (matches) {
-        mimeType = matches[1];
-        base64Data = matches[2];
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+
+    let livenessResult: LivenessResult;
+    let selfieFaces: number[][] = [];
+    let photos: Photo[] = [];
+
+    try {
+      livenessResult = await provider.check({ video, mimeType, challenge: spec });
+
+      // Only a live clip is worth comparing with the profile photos
+      if (getFailedLivenessChecks(livenessResult, spec).length === 0) {
+        selfieFaces = await getFaceMatcher().embedVideo(video, mimeType);
+
+        if (selfieFaces.length > 0 && profile) {
+          photos = await checkProfilePhotos(profile.id, selfieFaces);
+        }
+      }
+    } catch (error) {
+      // The user did nothing wrong; the upload can be finalized again
+      await releaseUpload(upload.id);
+      throw error;
+    }
+
+    // Liveness is done with the clip; keep nothing but its hash
+    const clipSha256 = crypto.createHash("sha256").update(video).digest("hex");
+    await discardVideoUpload(upload);
+
+    const failedChecks = getFailedLivenessChecks(livenessResult, spec);
+    const flaggedPhotos = photos.filter((photo) => photo.faceMatch !== "matched");
+    const primary = photos.find((photo) => photo.isPrimary);
+
+    // Other photos that do not match wait for moderation; the primary one must match
+    let faceFailure: string | null = null;
+
+    if (failedChecks.length === 0) {
+      if (selfieFaces.length === 0) {
+        faceFailure = "selfie_no_face";
+      } else if (primary && primary.faceMatch !== "matched") {
+        faceFailure = "primary_photo_mismatch";
       }
     }
 
-    // Validate video
-    validateVideo(base64Data, mimeType);
+    const passed = failedChecks.length === 0 && !faceFailure;
 
-    // Perform liveness detection
-    const livenessResult = await performLivenessDetection(base64Data);
+    await prisma.livenessChallenge.update({
+      where: { id: challenge.id },
+      data: {
+        status: passed ? "passed" : "failed",
+        provider: provider.name,
+        confidence: livenessResult.confidence,
+        failureReason: passed ? null : faceFailure ?? failedChecks.join(","),
+        completedAt: new Date(),
+      },
+    });
 
-    if (!livenessResult.isLive) {
+    if (failedChecks.length > 0) {
       // Log failed liveness detection
       await prisma.auditLog.create({
         data: {
           eventType: "LIVENESS_DETECTION_FAILED",
           userId,
-          entityType: "USER",
-          entityId: userId,
+          entityType: "LIVENESS_CHALLENGE",
+          entityId: challenge.id,
           action: "TIER_3_VERIFICATION_FAILED",
           metadata: {
+            provider: provider.name,
             confidence: livenessResult.confidence,
-            checks: livenessResult.checks,
-            reason: "Liveness check failed",
+            failedChecks,
+            captureDuration: metadata?.captureDuration ?? null,
           },
           ipAddress: request.ip,
           userAgent: request.headers["user-agent"],
@@ -171,28 +368,70 @@ export async function verifyVideoSelfieRoute(
         400,
         {
           confidence: livenessResult.confidence,
-          failedChecks: Object.entries(livenessResult.checks)
-            .filter(([_, passed]) => !passed)
-            .map(([check]) => check),
+          failedChecks,
         }
       );
     }
 
-    // Encrypt liveness detection result using AWS KMS
+    if (faceFailure) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "FACE_MATCH_FAILED",
+          userId,
+          entityType: "LIVENESS_CHALLENGE",
+          entityId: challenge.id,
+          action: "TIER_3_VERIFICATION_FAILED",
+          metadata: {
+            reason: faceFailure,
+            photosChecked: photos.length,
+            photosFlagged: flaggedPhotos.length,
+          },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+
+      throw createError(
+        ERROR_CODES.FACE_MATCH_FAILED,
+        faceFailure === "selfie_no_face"
+          ? "We could not see your face clearly in the video. Please record it again."
+          : "Your video selfie does not match your main profile photo.",
+        400,
+        {
+          reason: faceFailure,
+          flaggedPhotoIds: flaggedPhotos.map((photo) => photo.id),
+        }
+      );
+    }
+
+    // The stored result names the challenge it answered, so it cannot be
+    // passed off as the answer to another one
     const verificationData = JSON.stringify({
       isLive: livenessResult.isLive,
       confidence: livenessResult.confidence,
       verifiedAt: new Date().toISOString(),
       checks: livenessResult.checks,
+      stepsCompleted: livenessResult.stepsCompleted,
+      challenge: { id: challenge.id, nonce: spec.nonce, steps: spec.steps },
+      provider: provider.name,
+      referenceId: livenessResult.referenceId ?? null,
+      clipSha256,
     });
 
+    // Encrypt liveness detection result using AWS KMS
     const encryptedData = await encryptWithKMS(verificationData);
 
+    // Kept so photos added or made primary later can be compared too
+    const faceTemplate = await encryptFaceTemplate(selfieFaces);
+
     // Update user with Tier 3 verification
     const user = await prisma.user.update({
       where: { id: userId },
       data: {
         videoSelfieData: encryptedData.ciphertext,
+        videoSelfieIv: encryptedData.iv,
+        videoSelfieTag: encryptedData.authTag,
+        ...faceTemplate,
         videoSelfieVerifiedAt: new Date(),
         verificationLevel: 3, // Tier 3 complete (maximum)
       },
@@ -208,7 +447,11 @@ export async function verifyVideoSelfieRoute(
         action: "TIER_3_VERIFICATION_COMPLETE",
         metadata: {
           verificationLevel: user.verificationLevel,
+          challengeId: challenge.id,
+          provider: provider.name,
           confidence: livenessResult.confidence,
+          photosChecked: photos.length,
+          photosFlagged: flaggedPhotos.length,
           dataEncrypted: true,
           encryptionMethod: "AES-256-GCM",
           kmsUsed: true,
@@ -219,16 +462,10 @@ export async function verifyVideoSelfieRoute(
     });
 
     // Generate new JWT with updated verification level
-    const accessToken = fastify.jwt.sign(
-      {
-        userId: user.id,
-        phone: user.phone,
-        verificationLevel: user.verificationLevel,
-        digilockerVerified: user.verificationLevel >= 2,
-        videoSelfieVerified: user.verificationLevel >= 3,
-      },
-      { expiresIn: "15m" }
-    );
+    const accessToken = signAccessToken(fastify, user, (request.user as any).sid, {
+      digilockerVerified: user.verificationLevel >= 2,
+      videoSelfieVerified: user.verificationLevel >= 3,
+    });
 
     return reply.status(200).send({
       message: "Video selfie verification successful",
@@ -246,6 +483,10 @@ export async function verifyVideoSelfieRoute(
         confidence: livenessResult.confidence,
         // Don't expose detailed check results for security
       },
+      faceMatch: {
+        photosChecked: photos.length,
+        flaggedPhotoIds: flaggedPhotos.map((photo) => photo.id),
+      },
     });
   } catch (error: any) {
     return handleError(error, request, reply);
@@ -311,7 +552,7 @@ export async function getVideoSelfieInstructionsRoute(
           "Hold your device at eye level, about arm's length away",
           "Ensure your entire face is visible in the frame",
           "Remove glasses, masks, or anything covering your face",
-          "Follow the on-screen prompts (turn head, blink, smile)",
+          "Start recording, then follow the prompts in the order shown (head turns, blinks)",
           "Keep still during the final capture",
         ],
         requirements: {
@@ -326,6 +567,16 @@ export async function getVideoSelfieInstructionsRoute(
           maxFileSize: MAX_VIDEO_SIZE / 1024 / 1024, // MB
           allowedFormats: ALLOWED_VIDEO_TYPES,
         },
+        // Resumable: POST /auth/video-selfie/uploads, PATCH chunks, then finalize
+        upload: {
+          maxChunkSize: MAX_CHUNK_SIZE, // bytes
+          validFor: VIDEO_UPLOAD_TTL_MINUTES, // minutes
+        },
+        // Prompts come from POST /auth/video-selfie/challenge
+        challenge: {
+          validFor: LIVENESS_CHALLENGE_TTL_SECONDS, // seconds
+          singleUse: true,
+        },
       },
     });
   } catch (error: any) {
@@ -337,17 +588,50 @@ export async function getVideoSelfieInstructionsRoute(
  * Register routes with Fastify
  */
 export async function videoSelfieRoutes(fastify: FastifyInstance) {
-  fastify.get("/auth/video-selfie/instructions", getVideoSelfieInstructionsRoute);
+  fastify.get("/auth/video-selfie/instructions", (request, reply) =>
+    getVideoSelfieInstructionsRoute(fastify, request, reply)
+  );
 
   fastify.post(
-    "/auth/video-selfie/verify",
+    "/auth/video-selfie/challenge",
+    { preHandler: [authenticate] },
+    (request, reply) => createLivenessChallengeRoute(fastify, request, reply)
+  );
+
+  // Chunks arrive raw; scoped to this plugin so other routes keep their parsers
+  fastify.addContentTypeParser(
+    "application/offset+octet-stream",
+    { parseAs: "buffer", bodyLimit: MAX_CHUNK_SIZE },
+    (request, body, done) => done(null, body)
+  );
+
+  fastify.post<{ Body: CreateUploadBody }>(
+    "/auth/video-selfie/uploads",
+    { preHandler: [authenticate] },
+    (request, reply) => createVideoUploadRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: UploadParams }>(
+    "/auth/video-selfie/uploads/:uploadId",
+    { preHandler: [authenticate] },
+    (request, reply) => getVideoUploadRoute(fastify, request, reply)
+  );
+
+  fastify.patch<{ Params: UploadParams }>(
+    "/auth/video-selfie/uploads/:uploadId",
+    { preHandler: [authenticate] },
+    (request, reply) => patchVideoUploadRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: UploadParams; Body: FinalizeUploadBody }>(
+    "/auth/video-selfie/uploads/:uploadId/finalize",
     { preHandler: [authenticate] },
-    verifyVideoSelfieRoute
+    (request, reply) => finalizeVideoUploadRoute(fastify, request, reply)
   );
 
   fastify.get(
     "/auth/video-selfie/status",
     { preHandler: [authenticate] },
-    videoSelfieStatusRoute
+    (request, reply) => videoSelfieStatusRoute(fastify, request, reply)
   );
 }
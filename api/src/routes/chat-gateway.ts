@@ -0,0 +1,350 @@
+/**
+ * Chat Gateway (Socket.IO)
+ * Live message delivery, typing indicators, sent/delivered/read receipts and
+ * screen capture reports
+ * DPDP Act 2023 Compliance - Sockets are JWT-authenticated, are dropped when their
+ * session is signed out, and can only reach conversations of accepted mutual matches
+ */
+
+import { FastifyInstance } from "fastify";
+import { Message, PrismaClient } from "@prisma/client";
+import { Server, Socket } from "socket.io";
+import { z } from "zod";
+import { ERROR_CODES, createError } from "../utils/errors";
+import { isAccessTokenTrusted } from "../utils/sessions";
+import {
+  MAX_MESSAGE_LENGTH,
+  consumeChatQuota,
+  createMessage,
+  getConversationForUser,
+  markDelivered,
+  markRead,
+  serializeMessage,
+} from "../utils/chat";
+import {
+  SCREEN_CAPTURE_KINDS,
+  SCREEN_CAPTURE_SOURCES,
+  arePhotosBlurredFor,
+  recordScreenCapture,
+  serializeScreenCapture,
+} from "../utils/screen-capture";
+
+const prisma = new PrismaClient();
+
+let io: Server | null = null;
+
+interface SocketData {
+  userId: string;
+  sessionId: string; // Session family of the access token the socket connected with
+  // conversationId -> other participant, filled by "conversation:join"
+  conversations: Map<string, string>;
+}
+
+type ChatSocket = Socket<any, any, any, SocketData>;
+
+type Ack = (
+  response:
+    | { success: true; data?: unknown }
+    | { success: false; error: string; message: string }
+) => void;
+
+const conversationEventSchema = z.object({
+  conversationId: z.string().uuid(),
+});
+
+const sendMessageEventSchema = conversationEventSchema.extend({
+  type: z.enum(["text", "interest"]).default("text"),
+  content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+});
+
+const deliveredEventSchema = conversationEventSchema.extend({
+  messageIds: z.array(z.string().uuid()).min(1).max(100),
+});
+
+const captureEventSchema = conversationEventSchema.extend({
+  kind: z.enum(SCREEN_CAPTURE_KINDS),
+  source: z.enum(SCREEN_CAPTURE_SOURCES),
+});
+
+const userRoom = (userId: string): string => `user:${userId}`;
+
+const sessionRoom = (sessionId: string): string => `session:${sessionId}`;
+
+/**
+ * Emit to every connected socket of a user (no-op before the gateway starts)
+ */
+export const emitToUser = (userId: string, event: string, payload: unknown): void => {
+  io?.to(userRoom(userId)).emit(event, payload);
+};
+
+/**
+ * Close the sockets opened with a session family's tokens, e.g. once it is signed out
+ */
+export const disconnectSession = (sessionId: string): void => {
+  io?.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
+
+/**
+ * Close every socket of a user, e.g. once all their sessions are revoked
+ */
+export const disconnectUser = (userId: string): void => {
+  io?.in(userRoom(userId)).disconnectSockets(true);
+};
+
+/**
+ * Push a freshly persisted message to both participants
+ * Each side receives it serialized relative to themselves; a recipient whose
+ * captures blurred the sender's photos gets the blurred variant
+ */
+export const broadcastMessage = async (message: Message, recipientId: string): Promise<void> => {
+  const blurPhotos =
+    message.type === "photo" && (await arePhotosBlurredFor(recipientId, message.conversationId));
+
+  emitToUser(recipientId, "message:new", serializeMessage(message, recipientId, blurPhotos));
+  emitToUser(message.senderId, "message:new", serializeMessage(message, message.senderId));
+};
+
+/**
+ * Tell a sender that some of their messages moved to a new status
+ */
+export const emitStatusUpdate = (
+  senderId: string,
+  conversationId: string,
+  messageIds: string[],
+  status: "delivered" | "read"
+): void => {
+  if (messageIds.length === 0) return;
+  emitToUser(senderId, "message:status", { conversationId, messageIds, status });
+};
+
+/**
+ * Wrap a socket event with payload validation and a uniform ack shape
+ */
+const handleEvent =
+  <T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    handler: (payload: T) => Promise<unknown>
+  ) =>
+  async (payload: unknown, ack?: Ack) => {
+    try {
+      const parsed = schema.safeParse(payload);
+
+      if (!parsed.success) {
+        throw createError(
+          ERROR_CODES.VALIDATION_ERROR,
+          "Invalid event payload.",
+          400,
+          { fields: parsed.error.flatten().fieldErrors }
+        );
+      }
+
+      const data = await handler(parsed.data);
+      if (typeof ack === "function") ack({ success: true, data });
+    } catch (error: any) {
+      const isApiError = "code" in error && "statusCode" in error;
+
+      if (!isApiError) {
+        console.error("Chat gateway error:", error);
+      }
+
+      if (typeof ack === "function") {
+        ack({
+          success: false,
+          error: isApiError ? error.code : ERROR_CODES.INTERNAL_SERVER_ERROR,
+          message: isApiError ? error.message : "Something went wrong. Please try again.",
+        });
+      }
+    }
+  };
+
+/**
+ * Register per-connection event handlers
+ */
+const onConnection = (socket: ChatSocket) => {
+  const { userId } = socket.data;
+
+  socket.join([userRoom(userId), sessionRoom(socket.data.sessionId)]);
+
+  // Opening a conversation caches access for typing events and
+  // acknowledges delivery of everything the other side sent meanwhile
+  socket.on(
+    "conversation:join",
+    handleEvent(conversationEventSchema, async ({ conversationId }) => {
+      const { otherUserId } = await getConversationForUser(userId, conversationId);
+      socket.data.conversations.set(conversationId, otherUserId);
+
+      const deliveredIds = await markDelivered(userId, conversationId);
+      emitStatusUpdate(otherUserId, conversationId, deliveredIds, "delivered");
+    })
+  );
+
+  socket.on(
+    "conversation:leave",
+    handleEvent(conversationEventSchema, async ({ conversationId }) => {
+      socket.data.conversations.delete(conversationId);
+    })
+  );
+
+  socket.on(
+    "message:send",
+    handleEvent(sendMessageEventSchema, async ({ conversationId, type, content }) => {
+      const { otherUserId } = await getConversationForUser(userId, conversationId);
+      await consumeChatQuota(userId, conversationId);
+      const message = await createMessage(userId, conversationId, type, content);
+
+      await broadcastMessage(message, otherUserId);
+
+      return serializeMessage(message, userId);
+    })
+  );
+
+  socket.on(
+    "message:delivered",
+    handleEvent(deliveredEventSchema, async ({ conversationId, messageIds }) => {
+      const { otherUserId } = await getConversationForUser(userId, conversationId);
+      const deliveredIds = await markDelivered(userId, conversationId, messageIds);
+
+      emitStatusUpdate(otherUserId, conversationId, deliveredIds, "delivered");
+    })
+  );
+
+  socket.on(
+    "conversation:read",
+    handleEvent(conversationEventSchema, async ({ conversationId }) => {
+      const { otherUserId } = await getConversationForUser(userId, conversationId);
+      const readIds = await markRead(userId, conversationId);
+
+      emitStatusUpdate(otherUserId, conversationId, readIds, "read");
+    })
+  );
+
+  // Reported by the capturer's own client; the other participant is alerted
+  // unless they turned screenshot alerts off
+  socket.on(
+    "capture:report",
+    handleEvent(captureEventSchema, async ({ conversationId, kind, source }) => {
+      const { otherUserId } = await getConversationForUser(userId, conversationId);
+      const { event, isNew, photosBlurred } = await recordScreenCapture(
+        userId,
+        conversationId,
+        kind,
+        source
+      );
+
+      if (!isNew) return serializeScreenCapture(event);
+
+      const otherProfile = await prisma.profile.findUnique({
+        where: { userId: otherUserId },
+        select: { screenshotAlerts: true },
+      });
+
+      if (otherProfile?.screenshotAlerts !== false) {
+        emitToUser(otherUserId, "capture:detected", {
+          ...serializeScreenCapture(event),
+          photosBlurred,
+        });
+      }
+
+      if (photosBlurred) {
+        emitToUser(userId, "capture:photos_blurred", { conversationId });
+
+        await prisma.auditLog.create({
+          data: {
+            eventType: "CHAT_ACTION",
+            userId,
+            entityType: "CONVERSATION",
+            entityId: conversationId,
+            action: "PHOTOS_AUTO_BLURRED",
+            metadata: { kind, source },
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers["user-agent"],
+          },
+        });
+      }
+
+      return serializeScreenCapture(event);
+    })
+  );
+
+  // Typing is high-frequency, so it relies on the access cached at join time
+  const relayTyping = (isTyping: boolean) =>
+    handleEvent(conversationEventSchema, async ({ conversationId }) => {
+      const otherUserId = socket.data.conversations.get(conversationId);
+
+      if (!otherUserId) {
+        throw createError(
+          ERROR_CODES.CONVERSATION_NOT_FOUND,
+          "Join the conversation before sending typing events.",
+          404
+        );
+      }
+
+      emitToUser(otherUserId, "typing", { conversationId, userId, isTyping });
+    });
+
+  socket.on("typing:start", relayTyping(true));
+  socket.on("typing:stop", relayTyping(false));
+
+  socket.on("disconnect", () => {
+    // Clear any typing indicator this socket left behind
+    for (const [conversationId, otherUserId] of socket.data.conversations) {
+      emitToUser(otherUserId, "typing", { conversationId, userId, isTyping: false });
+    }
+  });
+};
+
+/**
+ * Attach the Socket.IO server to Fastify's HTTP server
+ * Clients authenticate with the same access token as the REST API:
+ * io(url, { auth: { token } })
+ */
+export function registerChatGateway(app: FastifyInstance): Server {
+  io = new Server(app.server, {
+    path: "/socket.io",
+    cors: {
+      origin: process.env.CORS_ORIGIN || true,
+      credentials: true,
+    },
+  });
+
+  io.use(async (socket: ChatSocket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+
+      if (typeof token !== "string" || !token) {
+        return next(new Error(ERROR_CODES.UNAUTHORIZED));
+      }
+
+      const decoded = app.jwt.verify<{ userId: string; sid?: string; type?: string }>(token);
+
+      if (!decoded.sid || !(await isAccessTokenTrusted(decoded))) {
+        return next(new Error(ERROR_CODES.TOKEN_INVALID));
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: decoded.userId },
+        select: { isActive: true },
+      });
+
+      if (!user?.isActive) {
+        return next(new Error(ERROR_CODES.UNAUTHORIZED));
+      }
+
+      socket.data.userId = decoded.userId;
+      socket.data.sessionId = decoded.sid;
+      socket.data.conversations = new Map();
+      next();
+    } catch {
+      next(new Error(ERROR_CODES.TOKEN_INVALID));
+    }
+  });
+
+  io.on("connection", onConnection);
+
+  app.addHook("onClose", async () => {
+    await io?.close();
+    io = null;
+  });
+
+  return io;
+}
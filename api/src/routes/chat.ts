@@ -0,0 +1,681 @@
+/**
+ * Chat Routes
+ * Conversation list, paginated message history, message actions and the
+ * screen captures reported in a conversation
+ * DPDP Act 2023 Compliance - Only mutually matched participants can read or write a conversation
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Conversation, Match, Message, Photo, PrismaClient, Profile, User } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ageGate } from "../middleware/ageGate";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import {
+  MAX_MESSAGE_LENGTH,
+  consumeChatQuota,
+  createMessage,
+  getConversationForUser,
+  getOtherParticipantId,
+  markDelivered,
+  markRead,
+  serializeMessage,
+} from "../utils/chat";
+import { getStorage } from "../utils/media-storage";
+import { getBlockedUserIds } from "../utils/moderation";
+import {
+  arePhotosBlurredFor,
+  getBlurredConversationIds,
+  serializeScreenCapture,
+} from "../utils/screen-capture";
+import {
+  PHOTO_MAX_BYTES,
+  VOICE_MAX_BYTES,
+  processPhoto,
+  processVoiceNote,
+  readMultipartUpload,
+} from "../utils/media-processing";
+import { broadcastMessage, emitStatusUpdate, emitToUser } from "./chat-gateway";
+import { serializePublicProfile } from "./profile";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_HISTORY_SIZE = 30;
+const MAX_HISTORY_SIZE = 100;
+
+interface ConversationParams {
+  conversationId: string;
+}
+
+interface MessageParams extends ConversationParams {
+  messageId: string;
+}
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_SIZE).default(DEFAULT_HISTORY_SIZE),
+  before: z.string().uuid().optional(),
+});
+
+type HistoryQuery = z.input<typeof historyQuerySchema>;
+
+// Photo and voice messages go through the media upload endpoints
+const sendMessageSchema = z.object({
+  type: z.enum(["text", "interest"]).default("text"),
+  content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+});
+
+type SendMessageBody = z.input<typeof sendMessageSchema>;
+
+type ParticipantUser = User & { profile: (Profile & { photos: Photo[] }) | null };
+
+type ConversationWithMatch = Conversation & {
+  match: Match & { userA: ParticipantUser; userB: ParticipantUser };
+  messages: Message[];
+};
+
+const participantInclude = {
+  include: { profile: { include: { photos: true } } },
+} as const;
+
+/**
+ * Build the Conversation shape the frontend expects for a given viewer
+ * Returns null when the other participant no longer has a profile
+ */
+const toConversationResponse = (
+  conversation: ConversationWithMatch,
+  viewerId: string,
+  unreadCount: number,
+  photosBlurred: boolean
+) => {
+  const other =
+    conversation.match.userAId === viewerId ? conversation.match.userB : conversation.match.userA;
+
+  if (!other.profile) return null;
+
+  const [lastMessage] = conversation.messages;
+
+  return {
+    id: conversation.id,
+    matchId: conversation.matchId,
+    // Conversations only exist for accepted matches, so originals are visible
+    participant: serializePublicProfile(other.profile, other, true),
+    lastMessage: lastMessage ? serializeMessage(lastMessage, viewerId, photosBlurred) : undefined,
+    unreadCount,
+    // The viewer's screen captures blurred the other participant's photos
+    photosBlurred,
+    matchedAt: conversation.match.matchedAt.toISOString(),
+  };
+};
+
+/**
+ * Unread message counts per conversation for a viewer
+ */
+const getUnreadCounts = async (
+  viewerId: string,
+  conversationIds: string[]
+): Promise<Map<string, number>> => {
+  const counts = await prisma.message.groupBy({
+    by: ["conversationId"],
+    where: {
+      conversationId: { in: conversationIds },
+      senderId: { not: viewerId },
+      status: { not: "read" },
+      deletedAt: null,
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(counts.map((count) => [count.conversationId, count._count._all]));
+};
+
+/**
+ * GET /chat/conversations
+ * Conversations of all accepted matches, most recently active first
+ */
+export async function getConversationsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const blockedUserIds = await getBlockedUserIds(userId);
+
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        match: {
+          status: "accepted",
+          OR: [{ userAId: userId }, { userBId: userId }],
+          userAId: { notIn: blockedUserIds },
+          userBId: { notIn: blockedUserIds },
+        },
+      },
+      include: {
+        match: { include: { userA: participantInclude, userB: participantInclude } },
+        messages: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+      },
+      orderBy: [{ lastMessageAt: { sort: "desc", nulls: "last" } }, { createdAt: "desc" }],
+    });
+
+    const conversationIds = conversations.map((conversation) => conversation.id);
+    const [unreadCounts, blurredIds] = await Promise.all([
+      getUnreadCounts(userId, conversationIds),
+      getBlurredConversationIds(userId, conversationIds),
+    ]);
+
+    const data = conversations
+      .map((conversation) =>
+        toConversationResponse(
+          conversation,
+          userId,
+          unreadCounts.get(conversation.id) ?? 0,
+          blurredIds.has(conversation.id)
+        )
+      )
+      .filter((conversation) => conversation !== null);
+
+    return reply.status(200).send({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /chat/conversations/:conversationId
+ * Single conversation with the other participant's public profile
+ */
+export async function getConversationRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    await getConversationForUser(userId, conversationId);
+
+    const conversation = await prisma.conversation.findUniqueOrThrow({
+      where: { id: conversationId },
+      include: {
+        match: { include: { userA: participantInclude, userB: participantInclude } },
+        messages: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    const [unreadCounts, photosBlurred] = await Promise.all([
+      getUnreadCounts(userId, [conversationId]),
+      arePhotosBlurredFor(userId, conversationId),
+    ]);
+    const data = toConversationResponse(
+      conversation,
+      userId,
+      unreadCounts.get(conversationId) ?? 0,
+      photosBlurred
+    );
+
+    if (!data) {
+      throw createError(
+        ERROR_CODES.CONVERSATION_NOT_FOUND,
+        "This conversation is no longer available.",
+        404
+      );
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /chat/conversations/:conversationId/messages
+ * Message history in chronological order, paged backwards with `before` (a message id)
+ * Fetching history also acknowledges delivery of the other side's messages
+ */
+export async function getMessagesRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams; Querystring: HistoryQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const parsed = historyQuerySchema.safeParse(request.query);
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid history parameters.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { limit, before } = parsed.data;
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+
+    let beforeDate: Date | undefined;
+
+    if (before) {
+      const cursor = await prisma.message.findFirst({
+        where: { id: before, conversationId },
+        select: { createdAt: true },
+      });
+
+      if (!cursor) {
+        throw createError(ERROR_CODES.MESSAGE_NOT_FOUND, "Message not found.", 404);
+      }
+
+      beforeDate = cursor.createdAt;
+    }
+
+    const page = await prisma.message.findMany({
+      where: {
+        conversationId,
+        deletedAt: null,
+        ...(beforeDate ? { createdAt: { lt: beforeDate } } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit + 1,
+    });
+
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit).reverse();
+    const photosBlurred = await arePhotosBlurredFor(userId, conversationId);
+
+    const deliveredIds = await markDelivered(userId, conversationId);
+    emitStatusUpdate(otherUserId, conversationId, deliveredIds, "delivered");
+
+    const delivered = new Set(deliveredIds);
+
+    return reply.status(200).send({
+      success: true,
+      data: messages.map((message) =>
+        serializeMessage(
+          delivered.has(message.id) ? { ...message, status: "delivered" } : message,
+          userId,
+          photosBlurred
+        )
+      ),
+      meta: { limit, hasMore },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/messages
+ * Send a text (or interest) message; the recipient gets it live over the socket
+ */
+export async function sendMessageRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams; Body: SendMessageBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const parsed = sendMessageSchema.safeParse(request.body);
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid message.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+    await consumeChatQuota(userId, conversationId);
+    const message = await createMessage(
+      userId,
+      conversationId,
+      parsed.data.type,
+      parsed.data.content
+    );
+
+    await broadcastMessage(message, otherUserId);
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeMessage(message, userId),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/messages/photo
+ * Send a photo (multipart field "photo"); it is re-encoded before storage
+ */
+export async function sendPhotoRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+    await consumeChatQuota(userId, conversationId);
+
+    const upload = await readMultipartUpload(request, "photo", PHOTO_MAX_BYTES);
+    const processed = await processPhoto(upload.buffer);
+
+    // Both participants are matched, so the display variant is what they see;
+    // the blurred one replaces it for a recipient who keeps capturing the chat
+    const keyPrefix = `chat/${conversationId}/${uuidv4()}`;
+    const mediaKey = `${keyPrefix}.webp`;
+    const blurredMediaKey = `${keyPrefix}-blurred.webp`;
+
+    await Promise.all([
+      getStorage().put(mediaKey, processed.original, "image/webp"),
+      getStorage().put(blurredMediaKey, processed.blurred, "image/webp"),
+    ]);
+
+    const message = await createMessage(userId, conversationId, "photo", "Photo", {
+      mediaKey,
+      blurredMediaKey,
+    });
+
+    await broadcastMessage(message, otherUserId);
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeMessage(message, userId),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/messages/voice
+ * Send a voice note (multipart field "voice" plus a "duration" field in seconds)
+ */
+export async function sendVoiceNoteRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+    await consumeChatQuota(userId, conversationId);
+
+    const upload = await readMultipartUpload(request, "voice", VOICE_MAX_BYTES);
+    const declaredDuration =
+      upload.fields.duration !== undefined ? Number(upload.fields.duration) : undefined;
+    const voiceNote = await processVoiceNote(upload.buffer, upload.mimetype, declaredDuration);
+
+    const mediaKey = `chat/${conversationId}/${uuidv4()}.${voiceNote.extension}`;
+    await getStorage().put(mediaKey, upload.buffer, voiceNote.contentType);
+
+    const message = await createMessage(userId, conversationId, "voice", "Voice note", {
+      mediaKey,
+      durationSeconds: voiceNote.durationSeconds,
+    });
+
+    await broadcastMessage(message, otherUserId);
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeMessage(message, userId),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/interest
+ * Send an interest marker message
+ */
+export async function sendInterestRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+    await consumeChatQuota(userId, conversationId);
+    const message = await createMessage(userId, conversationId, "interest", "Sent you an interest");
+
+    await broadcastMessage(message, otherUserId);
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeMessage(message, userId),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/read
+ * Mark every message from the other participant as read
+ */
+export async function markAsReadRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+    const readIds = await markRead(userId, conversationId);
+
+    emitStatusUpdate(otherUserId, conversationId, readIds, "read");
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /chat/conversations/:conversationId/captures
+ * Screenshots and screen recordings the other participant's client reported,
+ * newest first, and whether your photos are now blurred for them
+ */
+export async function getScreenCapturesRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const { otherUserId } = await getConversationForUser(userId, conversationId);
+
+    const [captures, photosBlurred] = await Promise.all([
+      prisma.screenCaptureEvent.findMany({
+        where: { conversationId, userId: otherUserId },
+        orderBy: { createdAt: "desc" },
+        take: MAX_HISTORY_SIZE,
+      }),
+      arePhotosBlurredFor(otherUserId, conversationId),
+    ]);
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        captures: captures.map(serializeScreenCapture),
+        photosBlurred,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /chat/conversations/:conversationId/messages/:messageId
+ * Delete one of your own messages for both participants
+ */
+export async function deleteMessageRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: MessageParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId, messageId } = request.params;
+
+    const { conversation } = await getConversationForUser(userId, conversationId);
+
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, conversationId, senderId: userId, deletedAt: null },
+    });
+
+    if (!message) {
+      throw createError(ERROR_CODES.MESSAGE_NOT_FOUND, "Message not found.", 404);
+    }
+
+    // Content and media are wiped, the row stays so history pagination is stable
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date(), content: "", mediaKey: null, blurredMediaKey: null },
+    });
+
+    await Promise.all(
+      [message.mediaKey, message.blurredMediaKey]
+        .filter((key): key is string => Boolean(key))
+        .map((key) => getStorage().delete(key))
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "CHAT_ACTION",
+        userId,
+        entityType: "MESSAGE",
+        entityId: messageId,
+        action: "MESSAGE_DELETED",
+        metadata: { conversationId },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    const payload = { conversationId, messageId };
+    emitToUser(userId, "message:deleted", payload);
+    emitToUser(getOtherParticipantId(conversation.match, userId), "message:deleted", payload);
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register routes with Fastify
+ */
+export async function chatRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    "/chat/conversations",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getConversationsRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getConversationRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: ConversationParams; Querystring: HistoryQuery }>(
+    "/chat/conversations/:conversationId/messages",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getMessagesRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams; Body: SendMessageBody }>(
+    "/chat/conversations/:conversationId/messages",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => sendMessageRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/messages/photo",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => sendPhotoRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/messages/voice",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => sendVoiceNoteRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/interest",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => sendInterestRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/read",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => markAsReadRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/captures",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getScreenCapturesRoute(fastify, request, reply)
+  );
+
+  fastify.delete<{ Params: MessageParams }>(
+    "/chat/conversations/:conversationId/messages/:messageId",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => deleteMessageRoute(fastify, request, reply)
+  );
+}
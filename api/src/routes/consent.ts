@@ -1,30 +1,39 @@
 /**
  * Consent Management Routes
- * DPDP Act 2023 Compliance - Purpose-based consent with granular control
+ * DPDP Act 2023 Compliance - Purpose-based consent with granular control; every
+ * consent record is tied to the hash of the notice the user accepted
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
 import { authenticate } from "../middleware/auth";
 import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import {
+  ConsentPurpose,
+  VALID_CONSENT_PURPOSES,
+  consentToFlags,
+  findLatestConsent,
+  getLatestConsent,
+  handleConsentChange,
+  hasConsentFor,
+} from "../utils/consent";
+import {
+  CurrentConsentNotice,
+  getCurrentConsentNotice,
+  isConsentStale,
+  serializeConsentNotice,
+} from "../utils/consent-notice";
 
 const prisma = new PrismaClient();
 
-// Valid consent purposes as per DPDP Act 2023
-const VALID_CONSENT_PURPOSES = [
-  "purposeMatching",    // For identity matching
-  "purposeMarketing",   // For marketing communications
-  "purposeAnalytics",   // For usage analytics
-  "purposeThirdParty",  // For third-party sharing
-] as const;
-
-type ConsentPurpose = typeof VALID_CONSENT_PURPOSES[number];
-
 interface ConsentRequestBody {
   purposeMatching?: boolean;
   purposeMarketing?: boolean;
   purposeAnalytics?: boolean;
   purposeThirdParty?: boolean;
+  // The notice the client displayed (from GET /consent or GET /consent/notice)
+  noticeVersion?: string;
+  noticeHash?: string;
 }
 
 interface ConsentUpdateBody {
@@ -32,9 +41,49 @@ interface ConsentUpdateBody {
   granted?: boolean;
 }
 
+/**
+ * The notice in force; it is synced at startup, so a missing one is a server fault
+ */
+const requireCurrentNotice = async (): Promise<CurrentConsentNotice> => {
+  const notice = await getCurrentConsentNotice();
+
+  if (!notice) {
+    throw createError(
+      ERROR_CODES.SERVICE_UNAVAILABLE,
+      "Consent notice is not available. Please try again later.",
+      503
+    );
+  }
+
+  return notice;
+};
+
+/**
+ * GET /consent/notice
+ * The consent notice in force, in English and Hindi (public, shown before signup)
+ */
+export async function getConsentNoticeRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const notice = await requireCurrentNotice();
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeConsentNotice(notice),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
 /**
  * GET /consent
  * Get current consent status for authenticated user
+ * reconsentRequired is true when there is no active consent or it was given
+ * under an older notice
  */
 export async function getConsentRoute(
   fastify: FastifyInstance,
@@ -46,10 +95,10 @@ export async function getConsentRoute(
     const userId = (request.user as any).userId;
 
     // Get latest consent record
-    const consent = await prisma.consent.findFirst({
-      where: { userId },
-      orderBy: { createdAt: "desc" },
-    });
+    const [consent, notice] = await Promise.all([
+      findLatestConsent(userId),
+      requireCurrentNotice(),
+    ]);
 
     return reply.status(200).send({
       consent: consent
@@ -61,9 +110,12 @@ export async function getConsentRoute(
             consentGivenAt: consent.consentGivenAt,
             consentWithdrawnAt: consent.consentWithdrawnAt,
             consentVersion: consent.consentVersion,
+            noticeHash: consent.noticeHash,
             isActive: !consent.consentWithdrawnAt,
           }
         : null,
+      notice: serializeConsentNotice(notice),
+      reconsentRequired: isConsentStale(consent, notice),
       dpdpCompliance: {
         notice: "As per DPDP Act 2023, you have the right to withdraw consent at any time.",
         rights: [
@@ -98,6 +150,8 @@ export async function updateConsentRoute(
       purposeMarketing,
       purposeAnalytics,
       purposeThirdParty,
+      noticeVersion,
+      noticeHash,
     } = request.body;
 
     // Validate that at least one purpose is provided
@@ -114,11 +168,21 @@ export async function updateConsentRoute(
       );
     }
 
-    // Get current consent or create new
-    const existingConsent = await prisma.consent.findFirst({
-      where: { userId, consentWithdrawnAt: null },
-      orderBy: { createdAt: "desc" },
-    });
+    // Consent only counts for the notice in force, shown exactly as published
+    const notice = await requireCurrentNotice();
+
+    if (noticeVersion !== notice.version || noticeHash !== notice.hash) {
+      throw createError(
+        ERROR_CODES.CONSENT_NOTICE_OUTDATED,
+        "The consent notice has changed. Please review the current notice.",
+        409,
+        { currentVersion: notice.version }
+      );
+    }
+
+    // Unspecified purposes carry over from the latest consent unless it was withdrawn
+    const latestConsent = await findLatestConsent(userId);
+    const existingConsent = latestConsent?.consentWithdrawnAt ? null : latestConsent;
 
     // Create new consent record
     const consent = await prisma.consent.create({
@@ -128,12 +192,19 @@ export async function updateConsentRoute(
         purposeMarketing: purposeMarketing ?? existingConsent?.purposeMarketing ?? false,
         purposeAnalytics: purposeAnalytics ?? existingConsent?.purposeAnalytics ?? false,
         purposeThirdParty: purposeThirdParty ?? existingConsent?.purposeThirdParty ?? false,
-        consentVersion: "1.0",
+        consentVersion: notice.version,
+        noticeHash: notice.hash,
         ipAddress: request.ip,
         userAgent: request.headers["user-agent"],
       },
     });
 
+    const { revoked, effects } = await handleConsentChange(
+      userId,
+      existingConsent ? consentToFlags(existingConsent) : null,
+      consentToFlags(consent)
+    );
+
     // Log consent given for audit
     await prisma.auditLog.create({
       data: {
@@ -149,7 +220,10 @@ export async function updateConsentRoute(
             purposeAnalytics,
             purposeThirdParty,
           },
-          consentVersion: "1.0",
+          consentVersion: notice.version,
+          noticeHash: notice.hash,
+          revokedPurposes: revoked,
+          effects,
         },
         ipAddress: request.ip,
         userAgent: request.headers["user-agent"],
@@ -165,6 +239,7 @@ export async function updateConsentRoute(
         purposeThirdParty: consent.purposeThirdParty,
         consentGivenAt: consent.consentGivenAt,
         consentVersion: consent.consentVersion,
+        noticeHash: consent.noticeHash,
       },
       dpdpNotice: {
         withdrawalInfo: "You can withdraw consent at any time via /consent/withdraw",
@@ -189,13 +264,10 @@ export async function withdrawConsentRoute(
     await request.jwtVerify();
     const userId = (request.user as any).userId;
 
-    // Find active consent
-    const existingConsent = await prisma.consent.findFirst({
-      where: { userId, consentWithdrawnAt: null },
-      orderBy: { createdAt: "desc" },
-    });
+    // Only the latest record is in force
+    const existingConsent = await findLatestConsent(userId);
 
-    if (!existingConsent) {
+    if (!existingConsent || existingConsent.consentWithdrawnAt) {
       throw createError(
         ERROR_CODES.CONSENT_WITHDRAWN,
         "No active consent found to withdraw.",
@@ -211,6 +283,12 @@ export async function withdrawConsentRoute(
       },
     });
 
+    const { effects } = await handleConsentChange(
+      userId,
+      consentToFlags(existingConsent),
+      consentToFlags(updatedConsent)
+    );
+
     // Log consent withdrawal for audit
     await prisma.auditLog.create({
       data: {
@@ -226,6 +304,7 @@ export async function withdrawConsentRoute(
             purposeAnalytics: updatedConsent.purposeAnalytics,
             purposeThirdParty: updatedConsent.purposeThirdParty,
           },
+          effects,
         },
         ipAddress: request.ip,
         userAgent: request.headers["user-agent"],
@@ -236,9 +315,9 @@ export async function withdrawConsentRoute(
       message: "Consent withdrawn successfully",
       withdrawnAt: updatedConsent.consentWithdrawnAt,
       dpdpNotice: {
-        effect: "Data processing for marketing and third-party purposes will stop.",
+        effect: "Processing for all purposes has stopped. You are hidden from match feeds and your location history has been deleted.",
         dataRetention: "Some data may be retained as required by law.",
-        grievanceOfficer: "Contact grievance.officer@bandhan.ai for queries.",
+        grievanceOfficer: "Raise a grievance in the app (POST /grievances) or contact grievance.officer@bandhan.ai.",
       },
     });
   } catch (error: any) {
@@ -272,6 +351,7 @@ export async function getConsentHistoryRoute(
         consentGivenAt: true,
         consentWithdrawnAt: true,
         consentVersion: true,
+        noticeHash: true,
         createdAt: true,
       },
     });
@@ -288,7 +368,7 @@ export async function getConsentHistoryRoute(
 /**
  * POST /consent/verify-purpose
  * Verify if consent is given for a specific purpose
- * Use this middleware-style route before processing data
+ * For clients; server routes use the requireConsent preHandler instead
  */
 export async function verifyConsentPurposeRoute(
   fastify: FastifyInstance,
@@ -308,13 +388,9 @@ export async function verifyConsentPurposeRoute(
       );
     }
 
-    // Get latest active consent
-    const consent = await prisma.consent.findFirst({
-      where: { userId, consentWithdrawnAt: null },
-      orderBy: { createdAt: "desc" },
-    });
+    const consent = await getLatestConsent(userId);
 
-    if (!consent) {
+    if (!consent || consent.consentWithdrawnAt) {
       throw createError(
         ERROR_CODES.CONSENT_REQUIRED,
         "No consent record found. Please provide consent before proceeding.",
@@ -323,9 +399,7 @@ export async function verifyConsentPurposeRoute(
       );
     }
 
-    const hasConsent = consent[purpose];
-
-    if (!hasConsent) {
+    if (!hasConsentFor(consent, purpose)) {
       throw createError(
         ERROR_CODES.CONSENT_REQUIRED,
         `Consent not given for purpose: ${purpose}`,
@@ -348,33 +422,39 @@ export async function verifyConsentPurposeRoute(
  * Register routes with Fastify
  */
 export async function consentRoutes(fastify: FastifyInstance) {
+  // Public: the notice is shown before an account exists
+  fastify.get(
+    "/consent/notice",
+    (request, reply) => getConsentNoticeRoute(fastify, request, reply)
+  );
+
   fastify.get(
     "/consent",
     { preHandler: [authenticate] },
-    getConsentRoute
+    (request, reply) => getConsentRoute(fastify, request, reply)
   );
 
-  fastify.post(
+  fastify.post<{ Body: ConsentRequestBody }>(
     "/consent",
     { preHandler: [authenticate] },
-    updateConsentRoute
+    (request, reply) => updateConsentRoute(fastify, request, reply)
   );
 
   fastify.post(
     "/consent/withdraw",
     { preHandler: [authenticate] },
-    withdrawConsentRoute
+    (request, reply) => withdrawConsentRoute(fastify, request, reply)
   );
 
   fastify.get(
     "/consent/history",
     { preHandler: [authenticate] },
-    getConsentHistoryRoute
+    (request, reply) => getConsentHistoryRoute(fastify, request, reply)
   );
 
-  fastify.post(
+  fastify.post<{ Body: { purpose: ConsentPurpose } }>(
     "/consent/verify-purpose",
     { preHandler: [authenticate] },
-    verifyConsentPurposeRoute
+    (request, reply) => verifyConsentPurposeRoute(fastify, request, reply)
   );
 }
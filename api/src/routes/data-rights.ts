@@ -0,0 +1,387 @@
+/**
+ * Data Rights Routes
+ * "Download my data" exports and account erasure requests
+ * DPDP Act 2023 Compliance - Rights to access and erasure; every request, download
+ * and cancellation is written to the audit log
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { getStorage, verifyMediaSignature } from "../utils/media-storage";
+import {
+  EXPORT_FILES,
+  ExportFile,
+  createDataExport,
+  exportFileKey,
+  exportFileName,
+  exportSigningSubject,
+  processDataExport,
+  serializeDataExport,
+} from "../utils/data-export";
+import {
+  cancelAccountDeletion,
+  findPendingDeletion,
+  getDeletionGraceDays,
+  requestAccountDeletion,
+  serializeDeletionRequest,
+} from "../utils/account-erasure";
+
+const prisma = new PrismaClient();
+
+// Older exports stay in the audit log; the list only shows recent requests
+const EXPORT_HISTORY_SIZE = 10;
+
+interface ExportParams {
+  exportId: string;
+}
+
+interface ExportFileParams extends ExportParams {
+  file: string;
+}
+
+interface ExportFileQuery {
+  expires?: string;
+  signature?: string;
+}
+
+const erasureSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+type ErasureBody = z.input<typeof erasureSchema>;
+
+/**
+ * POST /privacy/exports
+ * Request a copy of all personal data; the archive is prepared in the background
+ */
+export async function requestDataExportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const dataExport = await createDataExport(userId);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_EXPORT_REQUESTED",
+        userId,
+        entityType: "DATA_EXPORT",
+        entityId: dataExport.id,
+        action: "ACCESS_REQUEST_CREATED",
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    // Built after the response; the scheduled sweep picks it up if this run is lost
+    setImmediate(() => {
+      processDataExport(dataExport.id).catch((error) =>
+        fastify.log.error(error, "Data export generation failed")
+      );
+    });
+
+    return reply.status(202).send({
+      success: true,
+      data: serializeDataExport(dataExport),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /privacy/exports
+ * Recent export requests with fresh download links for ready ones
+ */
+export async function listDataExportsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const exports = await prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: EXPORT_HISTORY_SIZE,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: exports.map(serializeDataExport),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /privacy/exports/:exportId
+ * Status of one export (poll until "ready")
+ */
+export async function getDataExportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ExportParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const dataExport = await prisma.dataExport.findFirst({
+      where: { id: request.params.exportId, userId },
+    });
+
+    if (!dataExport) {
+      throw createError(ERROR_CODES.DATA_EXPORT_NOT_FOUND, "Export not found.", 404);
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeDataExport(dataExport),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /privacy/exports/:exportId/files/:file
+ * Download the archive or summary through a signed link (no bearer token, so
+ * the link works from a browser download)
+ */
+export async function downloadDataExportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ExportFileParams; Querystring: ExportFileQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    const { exportId, file } = request.params;
+    const { expires, signature } = request.query;
+
+    const dataExport = await prisma.dataExport.findUnique({ where: { id: exportId } });
+    const key =
+      dataExport && EXPORT_FILES.includes(file as ExportFile)
+        ? exportFileKey(dataExport, file as ExportFile)
+        : null;
+
+    if (
+      !dataExport ||
+      !key ||
+      dataExport.status !== "ready" ||
+      !expires ||
+      !signature ||
+      !verifyMediaSignature(exportSigningSubject(key), Number(expires), signature)
+    ) {
+      throw createError(
+        ERROR_CODES.DATA_EXPORT_LINK_INVALID,
+        "This download link is invalid or has expired. Request a new link from the app.",
+        403
+      );
+    }
+
+    const object = await getStorage().get(key);
+
+    if (!object) {
+      throw createError(ERROR_CODES.DATA_EXPORT_NOT_FOUND, "Export not found.", 404);
+    }
+
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { downloadCount: { increment: 1 }, lastDownloadedAt: new Date() },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_EXPORT_DOWNLOADED",
+        userId: dataExport.userId,
+        entityType: "DATA_EXPORT",
+        entityId: dataExport.id,
+        action: "ACCESS_REQUEST_DELIVERED",
+        metadata: { file, sizeBytes: object.body.length },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply
+      .status(200)
+      .header("Content-Type", object.contentType)
+      .header(
+        "Content-Disposition",
+        `attachment; filename="${exportFileName(dataExport, file as ExportFile)}"`
+      )
+      .header("Cache-Control", "no-store")
+      .header("X-Content-Type-Options", "nosniff")
+      .send(object.body);
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /privacy/erasure
+ * Request account deletion; the account is purged after the grace period
+ * All sessions are signed out, and logging in again before the purge cancels it
+ */
+export async function requestErasureRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: ErasureBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = erasureSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid erasure request.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const deletion = await requestAccountDeletion(userId, parsed.data.reason);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "ACCOUNT_DELETION_REQUESTED",
+        userId,
+        entityType: "ACCOUNT_DELETION_REQUEST",
+        entityId: deletion.id,
+        action: "ERASURE_REQUEST_CREATED",
+        metadata: {
+          scheduledFor: deletion.scheduledFor.toISOString(),
+          gracePeriodDays: getDeletionGraceDays(),
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(202).send({
+      success: true,
+      data: {
+        ...serializeDeletionRequest(deletion),
+        gracePeriodDays: getDeletionGraceDays(),
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /privacy/erasure
+ * The pending deletion request, if any
+ */
+export async function getErasureRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const deletion = await findPendingDeletion(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: deletion ? serializeDeletionRequest(deletion) : null,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /privacy/erasure
+ * Cancel a pending deletion request
+ */
+export async function cancelErasureRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const cancelled = await cancelAccountDeletion(userId, "user", {
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    });
+
+    if (!cancelled) {
+      throw createError(
+        ERROR_CODES.DELETION_REQUEST_NOT_FOUND,
+        "There is no pending deletion request.",
+        404
+      );
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: { cancelled: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register routes with Fastify
+ */
+export async function dataRightsRoutes(fastify: FastifyInstance) {
+  fastify.post(
+    "/privacy/exports",
+    { preHandler: [authenticate] },
+    (request, reply) => requestDataExportRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/privacy/exports",
+    { preHandler: [authenticate] },
+    (request, reply) => listDataExportsRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: ExportParams }>(
+    "/privacy/exports/:exportId",
+    { preHandler: [authenticate] },
+    (request, reply) => getDataExportRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: ErasureBody }>(
+    "/privacy/erasure",
+    { preHandler: [authenticate] },
+    (request, reply) => requestErasureRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/privacy/erasure",
+    { preHandler: [authenticate] },
+    (request, reply) => getErasureRoute(fastify, request, reply)
+  );
+
+  fastify.delete(
+    "/privacy/erasure",
+    { preHandler: [authenticate] },
+    (request, reply) => cancelErasureRoute(fastify, request, reply)
+  );
+
+  // Public: the signed link is the credential
+  fastify.get<{ Params: ExportFileParams; Querystring: ExportFileQuery }>(
+    "/privacy/exports/:exportId/files/:file",
+    (request, reply) => downloadDataExportRoute(fastify, request, reply)
+  );
+}
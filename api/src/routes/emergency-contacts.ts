@@ -0,0 +1,444 @@
+/**
+ * Emergency Contact Routes
+ * Users keep up to three trusted contacts; each new contact gets an opt-in SMS
+ * and confirms through a public link before receiving any safety SMS
+ * DPDP Act 2023 Compliance - Numbers are KMS-encrypted, the contact's own
+ * consent is recorded, and audit entries never hold a number
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { EmergencyContact, Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import {
+  MAX_EMERGENCY_CONTACTS,
+  findContactByOptInToken,
+  sealContactPhone,
+  sendContactOptIn,
+  serializeEmergencyContact,
+} from "../utils/emergency-contacts";
+
+const prisma = new PrismaClient();
+
+interface ContactParams {
+  contactId: string;
+}
+
+interface OptInParams {
+  token: string;
+}
+
+const addContactSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  phone: z.string().regex(/^\+91[6-9]\d{9}$/, "Must be an Indian mobile number (+91XXXXXXXXXX)"),
+  relationship: z.string().trim().min(1).max(30).optional(),
+  language: z.enum(["en", "hi"]).default("en"),
+});
+
+type AddContactBody = z.input<typeof addContactSchema>;
+
+// The number cannot change: a new number needs its own opt-in, so re-add instead
+const updateContactSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    relationship: z.string().trim().min(1).max(30).nullable().optional(),
+  })
+  .refine((body) => Object.keys(body).length > 0, { message: "Nothing to update" });
+
+type UpdateContactBody = z.input<typeof updateContactSchema>;
+
+const optInResponseSchema = z.object({
+  accept: z.boolean(),
+});
+
+type OptInResponseBody = z.input<typeof optInResponseSchema>;
+
+const findOwnContact = async (userId: string, contactId: string): Promise<EmergencyContact> => {
+  const contact = await prisma.emergencyContact.findUnique({ where: { id: contactId } });
+
+  if (!contact || contact.userId !== userId) {
+    throw createError(ERROR_CODES.EMERGENCY_CONTACT_NOT_FOUND, "Emergency contact not found.", 404);
+  }
+
+  return contact;
+};
+
+const invalidOptInLink = () =>
+  createError(ERROR_CODES.CONTACT_OPT_IN_INVALID, "This link is not valid or has expired.", 404);
+
+/**
+ * Send the opt-in SMS without failing the request; an unsent invite shows as
+ * pending with no optInSentAt and can be resent
+ */
+const trySendOptIn = async (
+  fastify: FastifyInstance,
+  contact: EmergencyContact
+): Promise<EmergencyContact> => {
+  try {
+    return await sendContactOptIn(contact);
+  } catch (error) {
+    fastify.log.warn(error, `[Emergency Contacts] Opt-in SMS for ${contact.id} not sent`);
+    return prisma.emergencyContact.findUniqueOrThrow({ where: { id: contact.id } });
+  }
+};
+
+/**
+ * GET /emergency-contacts
+ * The user's contacts with their opt-in status
+ */
+export async function listEmergencyContactsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const contacts = await prisma.emergencyContact.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: contacts.map(serializeEmergencyContact),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /emergency-contacts
+ * Add a contact (at most three) and send them the opt-in SMS
+ */
+export async function addEmergencyContactRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: AddContactBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = addContactSchema.safeParse(request.body);
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid emergency contact.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { name, phone, relationship, language } = parsed.data;
+    const sealedPhone = await sealContactPhone(phone);
+
+    // Serializable so two concurrent adds cannot both see room for a third contact
+    const created = await prisma.$transaction(async (tx) => {
+      const count = await tx.emergencyContact.count({ where: { userId } });
+
+      if (count >= MAX_EMERGENCY_CONTACTS) {
+        throw createError(
+          ERROR_CODES.EMERGENCY_CONTACT_LIMIT_REACHED,
+          `You can have at most ${MAX_EMERGENCY_CONTACTS} emergency contacts.`,
+          409,
+          { max: MAX_EMERGENCY_CONTACTS }
+        );
+      }
+
+      return tx.emergencyContact.create({
+        data: { userId, name, relationship, language, ...sealedPhone },
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }).catch((error: any) => {
+      if (error.code === "P2002") {
+        throw createError(
+          ERROR_CODES.EMERGENCY_CONTACT_EXISTS,
+          "This number is already one of your emergency contacts.",
+          409
+        );
+      }
+      throw error;
+    });
+
+    const contact = await trySendOptIn(fastify, created);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "EMERGENCY_CONTACT",
+        userId,
+        entityType: "EMERGENCY_CONTACT",
+        entityId: contact.id,
+        action: "ADDED",
+        metadata: { optInSent: contact.optInSentAt !== null, language },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(201).send({ success: true, data: serializeEmergencyContact(contact) });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * PATCH /emergency-contacts/:contactId
+ * Rename a contact or change the relationship
+ */
+export async function updateEmergencyContactRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ContactParams; Body: UpdateContactBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = updateContactSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid emergency contact.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const contact = await findOwnContact(userId, request.params.contactId);
+
+    const updated = await prisma.emergencyContact.update({
+      where: { id: contact.id },
+      data: parsed.data,
+    });
+
+    return reply.status(200).send({ success: true, data: serializeEmergencyContact(updated) });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /emergency-contacts/:contactId
+ * Remove a contact and its encrypted number
+ */
+export async function removeEmergencyContactRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ContactParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const contact = await findOwnContact(userId, request.params.contactId);
+
+    await prisma.emergencyContact.delete({ where: { id: contact.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "EMERGENCY_CONTACT",
+        userId,
+        entityType: "EMERGENCY_CONTACT",
+        entityId: contact.id,
+        action: "REMOVED",
+        metadata: { status: contact.status },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({ success: true, data: { id: contact.id } });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /emergency-contacts/:contactId/opt-in
+ * Resend the opt-in SMS to a contact who has not answered yet
+ */
+export async function resendContactOptInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ContactParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const contact = await findOwnContact(userId, request.params.contactId);
+
+    if (contact.status === "verified") {
+      throw createError(
+        ERROR_CODES.EMERGENCY_CONTACT_ALREADY_VERIFIED,
+        "This contact has already confirmed.",
+        409
+      );
+    }
+
+    // Their answer is final; the user can ask them in person and re-add them
+    if (contact.status === "declined") {
+      throw createError(
+        ERROR_CODES.CONTACT_OPT_IN_DECLINED,
+        "This contact declined to be an emergency contact.",
+        409
+      );
+    }
+
+    // Rate limit and provider errors surface here, unlike when adding
+    const updated = await sendContactOptIn(contact);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "EMERGENCY_CONTACT",
+        userId,
+        entityType: "EMERGENCY_CONTACT",
+        entityId: contact.id,
+        action: "OPT_IN_RESENT",
+        metadata: {},
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({ success: true, data: serializeEmergencyContact(updated) });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /emergency-contacts/opt-in/:token
+ * What the contact is being asked to agree to (public)
+ */
+export async function getContactOptInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: OptInParams }>,
+  reply: FastifyReply
+) {
+  try {
+    const contact = await findContactByOptInToken(request.params.token);
+
+    if (!contact) {
+      throw invalidOptInLink();
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        // First name only, as in the SMS
+        ownerName: contact.user.name?.split(" ")[0] ?? null,
+        contactName: contact.name,
+        expiresAt: contact.optInExpiresAt,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /emergency-contacts/opt-in/:token
+ * The contact accepts or declines (public); the link works once
+ */
+export async function respondToContactOptInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: OptInParams; Body: OptInResponseBody }>,
+  reply: FastifyReply
+) {
+  try {
+    const parsed = optInResponseSchema.safeParse(request.body);
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid response.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { accept } = parsed.data;
+
+    const contact = await findContactByOptInToken(request.params.token);
+
+    // Claimed with a guarded update so a double tap records one answer
+    const { count } = contact
+      ? await prisma.emergencyContact.updateMany({
+          where: { id: contact.id, status: "pending" },
+          data: {
+            status: accept ? "verified" : "declined",
+            ...(accept ? { verifiedAt: new Date() } : { declinedAt: new Date() }),
+            optInTokenHash: null,
+            optInExpiresAt: null,
+          },
+        })
+      : { count: 0 };
+
+    if (!contact || count === 0) {
+      throw invalidOptInLink();
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "EMERGENCY_CONTACT",
+        userId: contact.userId,
+        entityType: "EMERGENCY_CONTACT",
+        entityId: contact.id,
+        action: accept ? "VERIFIED" : "DECLINED",
+        metadata: { respondedBy: "contact" },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { status: accept ? "verified" : "declined" },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register emergency contact routes with Fastify
+ */
+export async function emergencyContactRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    "/emergency-contacts",
+    { preHandler: [authenticate] },
+    (request, reply) => listEmergencyContactsRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: AddContactBody }>(
+    "/emergency-contacts",
+    { preHandler: [authenticate] },
+    (request, reply) => addEmergencyContactRoute(fastify, request, reply)
+  );
+
+  fastify.patch<{ Params: ContactParams; Body: UpdateContactBody }>(
+    "/emergency-contacts/:contactId",
+    { preHandler: [authenticate] },
+    (request, reply) => updateEmergencyContactRoute(fastify, request, reply)
+  );
+
+  fastify.delete<{ Params: ContactParams }>(
+    "/emergency-contacts/:contactId",
+    { preHandler: [authenticate] },
+    (request, reply) => removeEmergencyContactRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ContactParams }>(
+    "/emergency-contacts/:contactId/opt-in",
+    { preHandler: [authenticate] },
+    (request, reply) => resendContactOptInRoute(fastify, request, reply)
+  );
+
+  // Public: opened by the contact from the opt-in SMS
+  fastify.get<{ Params: OptInParams }>(
+    "/emergency-contacts/opt-in/:token",
+    (request, reply) => getContactOptInRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: OptInParams; Body: OptInResponseBody }>(
+    "/emergency-contacts/opt-in/:token",
+    (request, reply) => respondToContactOptInRoute(fastify, request, reply)
+  );
+}
@@ -0,0 +1,506 @@
+/**
+ * Grievance Routes
+ * Users file categorised complaints and follow them by ticket number; the
+ * Grievance Officer responds, escalates and closes them
+ * DPDP Act 2023 Compliance - Grievance redressal (Section 13) with a statutory
+ * deadline per ticket; every filing and officer action is written to the audit log
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { requireGrievanceOfficer } from "../middleware/requireAdmin";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import {
+  GRIEVANCE_CATEGORIES,
+  GRIEVANCE_STATUSES,
+  GrievanceStatus,
+  canTransitionGrievance,
+  createGrievance,
+  getGrievanceOfficerContact,
+  serializeGrievance,
+  serializeGrievanceForOfficer,
+} from "../utils/grievance";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_QUEUE_SIZE = 20;
+const MAX_QUEUE_SIZE = 100;
+
+// Shown with closed tickets: the Board hears complaints only after this channel
+const BOARD_APPEAL_NOTICE =
+  "If you are not satisfied with this resolution, you may approach the Data Protection Board of India.";
+
+interface GrievanceParams {
+  grievanceId: string;
+}
+
+const grievanceSchema = z.object({
+  category: z.enum(GRIEVANCE_CATEGORIES),
+  subject: z.string().trim().min(3).max(150),
+  description: z.string().trim().min(10).max(2000),
+});
+
+type GrievanceBody = z.input<typeof grievanceSchema>;
+
+const grievanceQueueSchema = z.object({
+  status: z.enum(GRIEVANCE_STATUSES).optional(),
+  category: z.enum(GRIEVANCE_CATEGORIES).optional(),
+  overdue: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_QUEUE_SIZE).default(DEFAULT_QUEUE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+type GrievanceQueueQuery = z.input<typeof grievanceQueueSchema>;
+
+const officerMessageSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+});
+
+type OfficerMessageBody = z.input<typeof officerMessageSchema>;
+
+type OfficerAction = "response" | "escalation" | "resolution";
+
+// The status each officer action moves a ticket to; a reply only starts work
+const nextStatusFor = (action: OfficerAction, current: string): GrievanceStatus => {
+  if (action === "escalation") return "escalated";
+  if (action === "resolution") return "closed";
+  return current === "open" ? "in_progress" : (current as GrievanceStatus);
+};
+
+const OFFICER_AUDIT_ACTIONS: Record<OfficerAction, string> = {
+  response: "GRIEVANCE_RESPONDED",
+  escalation: "GRIEVANCE_ESCALATED",
+  resolution: "GRIEVANCE_CLOSED",
+};
+
+/**
+ * Apply an officer action: status change, the visible reply and the audit entry
+ */
+const recordOfficerAction = async (
+  request: FastifyRequest<{ Params: GrievanceParams; Body: OfficerMessageBody }>,
+  action: OfficerAction
+) => {
+  const officerId = (request.user as any).userId;
+  const { grievanceId } = request.params;
+
+  const parsed = officerMessageSchema.safeParse(request.body ?? {});
+
+  if (!parsed.success) {
+    throw createError(ERROR_CODES.VALIDATION_ERROR, "A message is required.", 400, {
+      fields: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const grievance = await prisma.grievance.findUnique({ where: { id: grievanceId } });
+
+  if (!grievance) {
+    throw createError(ERROR_CODES.GRIEVANCE_NOT_FOUND, "Grievance not found.", 404);
+  }
+
+  const status = nextStatusFor(action, grievance.status);
+
+  if (
+    grievance.status === "closed" ||
+    (status !== grievance.status && !canTransitionGrievance(grievance.status, status))
+  ) {
+    throw createError(
+      ERROR_CODES.INVALID_GRIEVANCE_TRANSITION,
+      `A ${grievance.status} grievance cannot take a ${action}.`,
+      409,
+      { currentStatus: grievance.status }
+    );
+  }
+
+  const now = new Date();
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Guarded update: a concurrent officer action on the same ticket fails cleanly
+    const { count } = await tx.grievance.updateMany({
+      where: { id: grievance.id, status: grievance.status },
+      data: {
+        status,
+        firstRespondedAt: grievance.firstRespondedAt ?? now,
+        ...(action === "escalation" ? { escalatedAt: now } : {}),
+        ...(action === "resolution" ? { closedAt: now } : {}),
+      },
+    });
+
+    if (count === 0) {
+      throw createError(
+        ERROR_CODES.INVALID_GRIEVANCE_TRANSITION,
+        "This grievance was just updated by another officer.",
+        409
+      );
+    }
+
+    await tx.grievanceResponse.create({
+      data: { grievanceId: grievance.id, officerId, type: action, message: parsed.data.message },
+    });
+
+    return tx.grievance.findUniqueOrThrow({
+      where: { id: grievance.id },
+      include: { responses: { orderBy: { createdAt: "asc" } } },
+    });
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "GRIEVANCE_ACTION",
+      userId: officerId,
+      entityType: "GRIEVANCE",
+      entityId: grievance.id,
+      action: OFFICER_AUDIT_ACTIONS[action],
+      metadata: {
+        ticketNumber: grievance.ticketNumber,
+        fromStatus: grievance.status,
+        toStatus: status,
+        withinDeadline: now <= grievance.responseDueAt,
+      },
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    },
+  });
+
+  return updated;
+};
+
+/**
+ * POST /grievances
+ * File a grievance; the response carries the ticket number and deadline
+ */
+export async function createGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: GrievanceBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = grievanceSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid grievance.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const grievance = await createGrievance(userId, parsed.data);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "GRIEVANCE_FILED",
+        userId,
+        entityType: "GRIEVANCE",
+        entityId: grievance.id,
+        action: "GRIEVANCE_CREATED",
+        metadata: {
+          ticketNumber: grievance.ticketNumber,
+          category: grievance.category,
+          responseDueAt: grievance.responseDueAt.toISOString(),
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        ...serializeGrievance(grievance),
+        grievanceOfficer: getGrievanceOfficerContact(),
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /grievances
+ * The user's grievances, newest first
+ */
+export async function listGrievancesRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const grievances = await prisma.grievance.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: grievances.map((grievance) => serializeGrievance(grievance)),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /grievances/:grievanceId
+ * One grievance with the officer's replies
+ */
+export async function getGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: GrievanceParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const grievance = await prisma.grievance.findFirst({
+      where: { id: request.params.grievanceId, userId },
+      include: { responses: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!grievance) {
+      throw createError(ERROR_CODES.GRIEVANCE_NOT_FOUND, "Grievance not found.", 404);
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        ...serializeGrievance(grievance),
+        grievanceOfficer: getGrievanceOfficerContact(),
+        ...(grievance.status === "closed" ? { appealNotice: BOARD_APPEAL_NOTICE } : {}),
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /admin/grievances
+ * Grievance queue, nearest deadline first
+ */
+export async function getGrievanceQueueRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Querystring: GrievanceQueueQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+
+    const parsed = grievanceQueueSchema.safeParse(request.query ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid queue filters.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { status, category, overdue, limit, offset } = parsed.data;
+    const where: Prisma.GrievanceWhereInput = {
+      // Unresolved tickets by default
+      status: status ?? { not: "closed" },
+      ...(category ? { category } : {}),
+      ...(overdue === "true" ? { responseDueAt: { lt: new Date() } } : {}),
+    };
+
+    const [grievances, total] = await Promise.all([
+      prisma.grievance.findMany({
+        where,
+        include: { responses: { orderBy: { createdAt: "asc" } } },
+        orderBy: { responseDueAt: "asc" },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.grievance.count({ where }),
+    ]);
+
+    return reply.status(200).send({
+      success: true,
+      data: grievances.map(serializeGrievanceForOfficer),
+      meta: {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /admin/grievances/:grievanceId
+ * Full ticket for the officer
+ */
+export async function getOfficerGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: GrievanceParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const officerId = (request.user as any).userId;
+
+    const grievance = await prisma.grievance.findUnique({
+      where: { id: request.params.grievanceId },
+      include: { responses: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!grievance) {
+      throw createError(ERROR_CODES.GRIEVANCE_NOT_FOUND, "Grievance not found.", 404);
+    }
+
+    // Complaints are personal data; record every officer who opened one
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_ACCESS",
+        userId: officerId,
+        entityType: "GRIEVANCE",
+        entityId: grievance.id,
+        action: "GRIEVANCE_VIEWED",
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeGrievanceForOfficer(grievance),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /admin/grievances/:grievanceId/responses
+ * Reply to the user; the first reply moves an open ticket to in_progress
+ */
+export async function respondToGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: GrievanceParams; Body: OfficerMessageBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+
+    const grievance = await recordOfficerAction(request, "response");
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeGrievanceForOfficer(grievance),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /admin/grievances/:grievanceId/escalate
+ * Escalate to senior management; the message tells the user why
+ */
+export async function escalateGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: GrievanceParams; Body: OfficerMessageBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+
+    const grievance = await recordOfficerAction(request, "escalation");
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeGrievanceForOfficer(grievance),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /admin/grievances/:grievanceId/close
+ * Close with the final resolution shown to the user
+ */
+export async function closeGrievanceRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: GrievanceParams; Body: OfficerMessageBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+
+    const grievance = await recordOfficerAction(request, "resolution");
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeGrievanceForOfficer(grievance),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register user-facing grievance routes with Fastify
+ */
+export async function grievanceRoutes(fastify: FastifyInstance) {
+  fastify.post<{ Body: GrievanceBody }>(
+    "/grievances",
+    { preHandler: [authenticate] },
+    (request, reply) => createGrievanceRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/grievances",
+    { preHandler: [authenticate] },
+    (request, reply) => listGrievancesRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: GrievanceParams }>(
+    "/grievances/:grievanceId",
+    { preHandler: [authenticate] },
+    (request, reply) => getGrievanceRoute(fastify, request, reply)
+  );
+}
+
+/**
+ * Register Grievance Officer routes with Fastify
+ */
+export async function adminGrievanceRoutes(fastify: FastifyInstance) {
+  fastify.get<{ Querystring: GrievanceQueueQuery }>(
+    "/admin/grievances",
+    { preHandler: [authenticate, requireGrievanceOfficer] },
+    (request, reply) => getGrievanceQueueRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: GrievanceParams }>(
+    "/admin/grievances/:grievanceId",
+    { preHandler: [authenticate, requireGrievanceOfficer] },
+    (request, reply) => getOfficerGrievanceRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: GrievanceParams; Body: OfficerMessageBody }>(
+    "/admin/grievances/:grievanceId/responses",
+    { preHandler: [authenticate, requireGrievanceOfficer] },
+    (request, reply) => respondToGrievanceRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: GrievanceParams; Body: OfficerMessageBody }>(
+    "/admin/grievances/:grievanceId/escalate",
+    { preHandler: [authenticate, requireGrievanceOfficer] },
+    (request, reply) => escalateGrievanceRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: GrievanceParams; Body: OfficerMessageBody }>(
+    "/admin/grievances/:grievanceId/close",
+    { preHandler: [authenticate, requireGrievanceOfficer] },
+    (request, reply) => closeGrievanceRoute(fastify, request, reply)
+  );
+}
@@ -0,0 +1,310 @@
+/**
+ * Location Sharing Routes
+ * The owner starts a session and streams points; trusted contacts open the
+ * public tracking link without an account
+ * DPDP Act 2023 Compliance - Points are KMS-encrypted, the 2-hour cutoff is
+ * enforced here rather than on the device, and ending a session deletes every point
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import {
+  SHARING_MAX_MINUTES,
+  endSharingSession,
+  ensureSharingLive,
+  getLatestSharedLocation,
+  getTrackingUrl,
+  hashTrackingToken,
+  recordSharingPoint,
+  serializeSharingSession,
+  startSharingSession,
+} from "../utils/location-sharing";
+
+const prisma = new PrismaClient();
+
+// Shown to contacts once a session is over, matching the sharingEnded SMS
+const SHARING_ENDED_MESSAGE =
+  "Location sharing has ended and all location data has been deleted.";
+
+interface SharingSessionParams {
+  sessionId: string;
+}
+
+interface TrackingParams {
+  token: string;
+}
+
+const startSharingSchema = z.object({
+  durationMinutes: z.number().int().min(1).max(SHARING_MAX_MINUTES).default(SHARING_MAX_MINUTES),
+  matchName: z.string().trim().min(1).max(100).optional(),
+});
+
+type StartSharingBody = z.input<typeof startSharingSchema>;
+
+const sharingPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).optional(),
+  recordedAt: z.coerce.date().optional(),
+});
+
+type SharingPointBody = z.input<typeof sharingPointSchema>;
+
+/**
+ * The caller's own session, or 404 (another user's id is indistinguishable
+ * from a missing one)
+ */
+const findOwnSession = async (userId: string, sessionId: string) => {
+  const session = await prisma.sharingSession.findFirst({
+    where: { id: sessionId, userId },
+  });
+
+  if (!session) {
+    throw createError(ERROR_CODES.SHARING_SESSION_NOT_FOUND, "Sharing session not found.", 404);
+  }
+
+  return session;
+};
+
+/**
+ * POST /sharing/sessions
+ * Start sharing; the tracking link is returned once and only its hash is stored
+ */
+export async function startSharingRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: StartSharingBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = startSharingSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid sharing request.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const context = { ipAddress: request.ip, userAgent: request.headers["user-agent"] };
+    const { session, trackingToken } = await startSharingSession(userId, parsed.data, context);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "LOCATION_SHARING_STARTED",
+        userId,
+        entityType: "SHARING_SESSION",
+        entityId: session.id,
+        action: "STARTED",
+        metadata: {
+          expiresAt: session.expiresAt.toISOString(),
+          matchNameShared: Boolean(session.matchName),
+        },
+        ...context,
+      },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        ...serializeSharingSession(session),
+        trackingToken,
+        trackingUrl: getTrackingUrl(trackingToken),
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /sharing/sessions/active
+ * The running session, if any (the tracking link is not recoverable)
+ */
+export async function getActiveSharingRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const session = await prisma.sharingSession.findFirst({
+      where: { userId, status: "active" },
+      orderBy: { startedAt: "desc" },
+    });
+
+    const live = session ? await ensureSharingLive(session) : false;
+
+    return reply.status(200).send({
+      success: true,
+      data: live && session ? serializeSharingSession(session) : null,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /sharing/sessions/:sessionId/points
+ * Upload one position; 410 tells the device to stop once the session is over
+ */
+export async function recordSharingPointRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: SharingSessionParams; Body: SharingPointBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = sharingPointSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid coordinates. Latitude must be -90 to 90, longitude -180 to 180.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const session = await findOwnSession(userId, request.params.sessionId);
+
+    if (!(await ensureSharingLive(session))) {
+      throw createError(ERROR_CODES.SHARING_SESSION_ENDED, SHARING_ENDED_MESSAGE, 410);
+    }
+
+    // Device clocks drift; a fix can never be newer than the server's clock
+    const now = new Date();
+    const recordedAt =
+      parsed.data.recordedAt && parsed.data.recordedAt < now ? parsed.data.recordedAt : now;
+
+    if (!(await recordSharingPoint(session, { ...parsed.data, recordedAt }))) {
+      throw createError(ERROR_CODES.SHARING_SESSION_ENDED, SHARING_ENDED_MESSAGE, 410);
+    }
+
+    return reply.status(201).send({
+      success: true,
+      data: { recordedAt, expiresAt: session.expiresAt },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /sharing/sessions/:sessionId/end
+ * Stop sharing and delete every point; repeating the call is harmless
+ */
+export async function endSharingRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: SharingSessionParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const session = await findOwnSession(userId, request.params.sessionId);
+
+    await endSharingSession(session, "ended", {
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    });
+
+    const ended = await prisma.sharingSession.findUniqueOrThrow({ where: { id: session.id } });
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeSharingSession(ended),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /sharing/track/:token
+ * Public: the latest position for whoever holds the link
+ */
+export async function trackSharingRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: TrackingParams }>,
+  reply: FastifyReply
+) {
+  try {
+    const session = await prisma.sharingSession.findUnique({
+      where: { trackingTokenHash: hashTrackingToken(request.params.token) },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (!session) {
+      throw createError(ERROR_CODES.SHARING_SESSION_NOT_FOUND, "This tracking link is not valid.", 404);
+    }
+
+    reply.header("Cache-Control", "no-store");
+
+    if (!(await ensureSharingLive(session))) {
+      throw createError(ERROR_CODES.SHARING_SESSION_ENDED, SHARING_ENDED_MESSAGE, 410, {
+        endedAt: session.endedAt ?? session.expiresAt,
+      });
+    }
+
+    const location = await getLatestSharedLocation(session.id);
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        // First name only; contacts already know who sent the link
+        ownerName: session.user.name?.split(" ")[0] ?? null,
+        matchName: session.matchName,
+        startedAt: session.startedAt,
+        expiresAt: session.expiresAt,
+        location,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register location sharing routes with Fastify
+ */
+export async function locationSharingRoutes(fastify: FastifyInstance) {
+  fastify.post<{ Body: StartSharingBody }>(
+    "/sharing/sessions",
+    { preHandler: [authenticate] },
+    (request, reply) => startSharingRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/sharing/sessions/active",
+    { preHandler: [authenticate] },
+    (request, reply) => getActiveSharingRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: SharingSessionParams; Body: SharingPointBody }>(
+    "/sharing/sessions/:sessionId/points",
+    { preHandler: [authenticate] },
+    (request, reply) => recordSharingPointRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: SharingSessionParams }>(
+    "/sharing/sessions/:sessionId/end",
+    { preHandler: [authenticate] },
+    (request, reply) => endSharingRoute(fastify, request, reply)
+  );
+
+  // Public: trusted contacts have no account
+  fastify.get<{ Params: TrackingParams }>(
+    "/sharing/track/:token",
+    (request, reply) => trackSharingRoute(fastify, request, reply)
+  );
+}
@@ -7,6 +7,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { PrismaClient } from "@prisma/client";
 import { addDays } from "date-fns";
 import { authenticate } from "../middleware/auth";
+import { requireConsent } from "../middleware/requireConsent";
 import { ERROR_CODES, createError, handleError } from "../utils/errors";
 
 const prisma = new PrismaClient();
@@ -23,6 +24,7 @@ interface LocationBody {
 /**
  * POST /location
  * Record user location with auto-expiry (90 days)
+ * Location tracking is covered by analytics consent (requireConsent)
  */
 export async function recordLocationRoute(
   fastify: FastifyInstance,
@@ -49,21 +51,6 @@ export async function recordLocationRoute(
       );
     }
 
-    // Verify consent for location tracking
-    const consent = await prisma.consent.findFirst({
-      where: { userId, consentWithdrawnAt: null },
-      orderBy: { createdAt: "desc" },
-    });
-
-    if (!consent || !consent.purposeAnalytics) {
-      throw createError(
-        ERROR_CODES.CONSENT_REQUIRED,
-        "Location tracking requires analytics consent. Please update your consent settings.",
-        403,
-        { requiredConsent: "purposeAnalytics" }
-      );
-    }
-
     // Create location record with auto-expiry
     const expiresAt = addDays(new Date(), LOCATION_RETENTION_DAYS);
 
@@ -156,18 +143,13 @@ export async function deleteLocationHistoryRoute(
     const count = await prisma.locationHistory.count({
       where: {
         userId,
-        isExpired: false,
       },
     });
 
-    // Soft delete (mark as expired)
-    await prisma.locationHistory.updateMany({
+    // Hard delete, including points already marked expired by the retention job
+    await prisma.locationHistory.deleteMany({
       where: {
         userId,
-        isExpired: false,
-      },
-      data: {
-        isExpired: true,
       },
     });
 
@@ -192,7 +174,7 @@ export async function deleteLocationHistoryRoute(
       recordsDeleted: count,
       dpdpNotice: {
         notice: "Your location data has been deleted as per your right to erasure under DPDP Act 2023.",
-        grievanceOfficer: "Contact grievance.officer@bandhan.ai for queries.",
+        grievanceOfficer: "Raise a grievance in the app (POST /grievances) or contact grievance.officer@bandhan.ai.",
       },
     });
   } catch (error: any) {
@@ -262,21 +244,21 @@ export async function cleanupExpiredLocations(): Promise<{
  * Register routes with Fastify
  */
 export async function locationRoutes(fastify: FastifyInstance) {
-  fastify.post(
+  fastify.post<{ Body: LocationBody }>(
     "/location",
-    { preHandler: [authenticate] },
-    recordLocationRoute
+    { preHandler: [authenticate, requireConsent("purposeAnalytics")] },
+    (request, reply) => recordLocationRoute(fastify, request, reply)
   );
 
   fastify.get(
     "/location/history",
     { preHandler: [authenticate] },
-    getLocationHistoryRoute
+    (request, reply) => getLocationHistoryRoute(fastify, request, reply)
   );
 
   fastify.delete(
     "/location/history",
     { preHandler: [authenticate] },
-    deleteLocationHistoryRoute
+    (request, reply) => deleteLocationHistoryRoute(fastify, request, reply)
   );
 }
@@ -0,0 +1,705 @@
+/**
+ * Match Routes
+ * Ranked candidate feed backing the frontend matchService
+ * DPDP Act 2023 Compliance - Feed is only served to and built from users with purposeMatching consent
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Match, PrismaClient } from "@prisma/client";
+import { differenceInSeconds } from "date-fns";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ageGate } from "../middleware/ageGate";
+import { requireConsent } from "../middleware/requireConsent";
+import {
+  ERROR_CODES,
+  createError,
+  handleError,
+} from "../utils/errors";
+import {
+  DAILY_LIMIT_ACTIONS,
+  consumeDailyLimit,
+  consumeDistinctDailyLimit,
+  getDailyLimitStatus,
+  refundDailyLimit,
+} from "../utils/daily-limits";
+import {
+  getRankedCandidates,
+  hasMatchingConsent,
+  scoreCompatibility,
+} from "../utils/matching";
+import { ensureConversation } from "../utils/chat";
+import { assertEntitlement } from "../utils/entitlements";
+import { getBlockedUserIds, isBlockedBetween } from "../utils/moderation";
+import { serializePublicProfile } from "./profile";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+// Only the most recent like/pass can be undone, and only within this window
+const UNDO_WINDOW_SECONDS = 5 * 60;
+
+interface TargetUserParams {
+  userId: string;
+}
+
+interface MatchParams {
+  matchId: string;
+}
+
+// Query strings arrive as strings, coerce to the MatchFilters types
+const matchFiltersSchema = z.object({
+  ageMin: z.coerce.number().int().min(18).optional(),
+  ageMax: z.coerce.number().int().max(99).optional(),
+  location: z.string().optional(),
+  religion: z.string().optional(),
+  caste: z.string().optional(),
+  education: z.string().optional(),
+  diet: z.string().optional(),
+  manglik: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  intent: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+type MatchFiltersQuery = z.input<typeof matchFiltersSchema>;
+
+const dailyLimitQuerySchema = z.object({
+  type: z.enum(DAILY_LIMIT_ACTIONS).default("likes"),
+});
+
+type DailyLimitQuery = z.input<typeof dailyLimitQuerySchema>;
+
+/**
+ * Load the requester's profile (purposeMatching consent is checked by requireConsent)
+ */
+export const getMatchingProfile = async (userId: string) => {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    include: {
+      photos: true,
+      user: {
+        include: {
+          consents: { orderBy: { createdAt: "desc" }, take: 1 },
+        },
+      },
+    },
+  });
+
+  if (!profile) {
+    throw createError(
+      ERROR_CODES.PROFILE_NOT_FOUND,
+      "Profile not found. Please complete your profile setup.",
+      404
+    );
+  }
+
+  return profile;
+};
+
+/**
+ * Order a user pair so each pair maps to exactly one Match row
+ */
+const orderPair = (a: string, b: string): { userAId: string; userBId: string } =>
+  a < b ? { userAId: a, userBId: b } : { userAId: b, userBId: a };
+
+/**
+ * User ids the requester has already liked, passed or matched with
+ */
+const getActedOnUserIds = async (userId: string): Promise<string[]> => {
+  const [likes, passes] = await Promise.all([
+    prisma.like.findMany({ where: { fromUserId: userId }, select: { toUserId: true } }),
+    prisma.pass.findMany({ where: { fromUserId: userId }, select: { toUserId: true } }),
+  ]);
+
+  return [...likes, ...passes].map((action) => action.toUserId);
+};
+
+/**
+ * Load a feed target and make sure they can still be acted on
+ */
+const getTargetProfile = async (requesterId: string, targetUserId: string) => {
+  if (requesterId === targetUserId) {
+    throw createError(ERROR_CODES.INVALID_INPUT, "You cannot like or pass yourself.", 400);
+  }
+
+  const target = await prisma.profile.findUnique({
+    where: { userId: targetUserId },
+    include: {
+      photos: true,
+      user: {
+        include: {
+          consents: { orderBy: { createdAt: "desc" }, take: 1 },
+        },
+      },
+    },
+  });
+
+  if (
+    !target ||
+    !target.user.isActive ||
+    target.user.deletionScheduledFor !== null ||
+    !hasMatchingConsent(target.user.consents[0]) ||
+    (await isBlockedBetween(requesterId, targetUserId))
+  ) {
+    throw createError(ERROR_CODES.MATCH_NOT_FOUND, "This match is no longer available.", 404);
+  }
+
+  return target;
+};
+
+/**
+ * Build the Match shape the frontend expects for a given viewer
+ */
+const toMatchResponse = async (match: Match, viewerId: string) => {
+  const otherUserId = match.userAId === viewerId ? match.userBId : match.userAId;
+
+  const [otherProfile, likes] = await Promise.all([
+    prisma.profile.findUnique({
+      where: { userId: otherUserId },
+      include: { photos: true, user: true },
+    }),
+    prisma.like.findMany({
+      where: {
+        OR: [
+          { fromUserId: viewerId, toUserId: otherUserId },
+          { fromUserId: otherUserId, toUserId: viewerId },
+        ],
+      },
+    }),
+  ]);
+
+  if (!otherProfile) {
+    throw createError(ERROR_CODES.MATCH_NOT_FOUND, "This match is no longer available.", 404);
+  }
+
+  return {
+    id: match.id,
+    profile: serializePublicProfile(
+      otherProfile,
+      otherProfile.user,
+      match.status === "accepted"
+    ),
+    compatibility: match.compatibility,
+    matchedAt: match.matchedAt.toISOString(),
+    status: match.status,
+    likedByMe: likes.some((like) => like.fromUserId === viewerId),
+    likedByThem: likes.some((like) => like.fromUserId === otherUserId),
+  };
+};
+
+/**
+ * Load a match the requester participates in or throw MATCH_NOT_FOUND
+ * Matches with a blocked user are hidden along with the other profile
+ */
+const findOwnMatch = async (userId: string, matchId: string) => {
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+
+  if (
+    !match ||
+    (match.userAId !== userId && match.userBId !== userId) ||
+    (await isBlockedBetween(match.userAId, match.userBId))
+  ) {
+    throw createError(ERROR_CODES.MATCH_NOT_FOUND, "This match is no longer available.", 404);
+  }
+
+  return match;
+};
+
+/**
+ * GET /matches
+ * Ranked, paginated candidate feed with compatibility scores
+ */
+export async function getMatchesRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Querystring: MatchFiltersQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = matchFiltersSchema.safeParse(request.query ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid match filters.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { limit, offset, ...filters } = parsed.data;
+
+    // Caste filtering is an advanced (paid) filter
+    if (filters.caste) {
+      await assertEntitlement(userId, "advancedFilters");
+    }
+
+    const me = await getMatchingProfile(userId);
+    const [actedOn, blocked] = await Promise.all([
+      getActedOnUserIds(userId),
+      getBlockedUserIds(userId),
+    ]);
+    const ranked = await getRankedCandidates(me, filters, [...actedOn, ...blocked]);
+    const candidates = ranked.slice(offset, offset + limit);
+    const suggestedAt = new Date().toISOString();
+
+    // Each profile counts once a day against the profiles quota; the page is cut short when it runs out
+    const allowed = new Set(
+      await consumeDistinctDailyLimit(
+        userId,
+        "profiles",
+        candidates.map(({ profile }) => profile.userId)
+      )
+    );
+    const page = candidates.filter(({ profile }) => allowed.has(profile.userId));
+
+    return reply.status(200).send({
+      success: true,
+      data: page.map(({ profile, compatibility }) => ({
+        id: profile.userId,
+        profile: serializePublicProfile(profile, profile.user),
+        compatibility: compatibility.score,
+        matchedAt: suggestedAt,
+        status: "pending",
+        likedByMe: false,
+        likedByThem: false,
+      })),
+      meta: {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        total: ranked.length,
+        hasMore: offset + limit < ranked.length,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /matches/like/:userId
+ * Like a user; a like back from them creates a mutual Match
+ * A concurrent duplicate like gets the same answer without being charged again
+ */
+export async function likeUserRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: TargetUserParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const targetUserId = request.params.userId;
+
+    const me = await getMatchingProfile(userId);
+    const target = await getTargetProfile(userId, targetUserId);
+
+    const existingLike = await prisma.like.findUnique({
+      where: { fromUserId_toUserId: { fromUserId: userId, toUserId: targetUserId } },
+    });
+
+    if (existingLike) {
+      throw createError(
+        ERROR_CODES.MATCH_ALREADY_LIKED,
+        "You have already liked this profile.",
+        409
+      );
+    }
+
+    // Quota is consumed only once the insert has gone through; a like over the
+    // limit throws and rolls the insert back
+    const createdLike = await prisma
+      .$transaction(async (tx) => {
+        // Liking someone previously passed replaces the pass
+        await tx.pass.deleteMany({
+          where: { fromUserId: userId, toUserId: targetUserId },
+        });
+
+        const created = await tx.like.create({
+          data: { fromUserId: userId, toUserId: targetUserId },
+        });
+
+        await consumeDailyLimit(userId, "likes");
+        return created;
+      })
+      .catch((error: any) => {
+        // A concurrent like of the same profile took the unique key first
+        if (error.code !== "P2002") throw error;
+        return null;
+      });
+
+    if (createdLike) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "MATCH_ACTION",
+          userId,
+          entityType: "LIKE",
+          entityId: createdLike.id,
+          action: "USER_LIKED",
+          metadata: { targetUserId },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+    }
+
+    const likedBack = await prisma.like.findUnique({
+      where: { fromUserId_toUserId: { fromUserId: targetUserId, toUserId: userId } },
+    });
+
+    if (!likedBack) {
+      return reply.status(200).send({
+        success: true,
+        data: { match: false },
+      });
+    }
+
+    const pair = orderPair(userId, targetUserId);
+    const { score } = scoreCompatibility(me, target);
+
+    const match = await prisma.match.upsert({
+      where: { userAId_userBId: pair },
+      update: { status: "accepted", compatibility: score, matchedAt: new Date() },
+      create: { ...pair, status: "accepted", compatibility: score },
+    });
+
+    // Mutual matches can chat straight away
+    await ensureConversation(match.id);
+
+    // The request whose like was inserted records the match
+    if (createdLike) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "MATCH_CREATED",
+          userId,
+          entityType: "MATCH",
+          entityId: match.id,
+          action: "MUTUAL_LIKE",
+          metadata: { ...pair, compatibility: score },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        match: true,
+        matchData: await toMatchResponse(match, userId),
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /matches/pass/:userId
+ * Pass on a user so they no longer appear in the feed
+ */
+export async function passUserRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: TargetUserParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const targetUserId = request.params.userId;
+
+    await getMatchingProfile(userId);
+    await getTargetProfile(userId, targetUserId);
+
+    const pass = await prisma.pass.upsert({
+      where: { fromUserId_toUserId: { fromUserId: userId, toUserId: targetUserId } },
+      update: {},
+      create: { fromUserId: userId, toUserId: targetUserId },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "MATCH_ACTION",
+        userId,
+        entityType: "PASS",
+        entityId: pass.id,
+        action: "USER_PASSED",
+        metadata: { targetUserId },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /matches/undo
+ * Reverse the most recent like or pass, only within UNDO_WINDOW_SECONDS
+ * One undo per action: the one before it stays put, so undos cannot be chained
+ * Undoing a like that completed a match marks the match as rejected
+ */
+export async function undoLastActionRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const [lastLike, lastPass] = await Promise.all([
+      prisma.like.findFirst({
+        where: { fromUserId: userId },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.pass.findFirst({
+        where: { fromUserId: userId },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    const lastAction =
+      lastLike && (!lastPass || lastLike.createdAt > lastPass.createdAt)
+        ? { type: "LIKE" as const, record: lastLike }
+        : lastPass
+          ? { type: "PASS" as const, record: lastPass }
+          : null;
+
+    const nothingToUndo = () =>
+      createError(ERROR_CODES.NOTHING_TO_UNDO, "There is nothing to undo.", 400);
+
+    if (!lastAction) {
+      throw nothingToUndo();
+    }
+
+    const secondsAgo = differenceInSeconds(new Date(), lastAction.record.createdAt);
+
+    if (secondsAgo > UNDO_WINDOW_SECONDS) {
+      throw createError(
+        ERROR_CODES.UNDO_WINDOW_EXPIRED,
+        `Only actions from the last ${UNDO_WINDOW_SECONDS / 60} minutes can be undone.`,
+        400,
+        { undoWindowSeconds: UNDO_WINDOW_SECONDS }
+      );
+    }
+
+    const { toUserId } = lastAction.record;
+
+    const undone = await prisma.$transaction(async (tx) => {
+      // Guarded updates: an action made before the latest undo is not undoable,
+      // and of two concurrent undos only one removes the action
+      const claimed = await tx.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ lastUndoAt: null }, { lastUndoAt: { lt: lastAction.record.createdAt } }],
+        },
+        data: { lastUndoAt: new Date() },
+      });
+
+      if (claimed.count === 0) return false;
+
+      const deleted =
+        lastAction.type === "LIKE"
+          ? await tx.like.deleteMany({ where: { id: lastAction.record.id } })
+          : await tx.pass.deleteMany({ where: { id: lastAction.record.id } });
+
+      if (deleted.count === 0) {
+        throw nothingToUndo();
+      }
+
+      if (lastAction.type === "LIKE") {
+        await tx.match.updateMany({
+          where: orderPair(userId, toUserId),
+          data: { status: "rejected" },
+        });
+      }
+
+      return true;
+    });
+
+    if (!undone) {
+      throw nothingToUndo();
+    }
+
+    if (lastAction.type === "LIKE") {
+      await refundDailyLimit(userId, "likes", lastAction.record.createdAt);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "MATCH_ACTION",
+        userId,
+        entityType: lastAction.type,
+        entityId: lastAction.record.id,
+        action: "USER_UNDO",
+        metadata: { targetUserId: toUserId, secondsAgo },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /matches/daily-limit
+ * Today's usage for one quota type (likes by default), reset at midnight IST
+ */
+export async function getDailyLimitRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Querystring: DailyLimitQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = dailyLimitQuerySchema.safeParse(request.query);
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid daily limit type.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: await getDailyLimitStatus(userId, parsed.data.type),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /matches/:matchId
+ * Get a mutual match the requester is part of
+ */
+export async function getMatchDetailsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: MatchParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const match = await findOwnMatch(userId, request.params.matchId);
+    const otherUserId = match.userAId === userId ? match.userBId : match.userAId;
+
+    // Opening a profile counts once a day against the views quota
+    await consumeDistinctDailyLimit(userId, "views", [otherUserId]);
+
+    return reply.status(200).send({
+      success: true,
+      data: await toMatchResponse(match, userId),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /matches/:matchId/compatibility
+ * Get the current compatibility breakdown for a match
+ */
+export async function getCompatibilityReportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: MatchParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const match = await findOwnMatch(userId, request.params.matchId);
+    const otherUserId = match.userAId === userId ? match.userBId : match.userAId;
+
+    const [me, other] = await Promise.all([
+      prisma.profile.findUnique({ where: { userId }, include: { user: true } }),
+      prisma.profile.findUnique({ where: { userId: otherUserId }, include: { user: true } }),
+    ]);
+
+    if (!me || !other) {
+      throw createError(ERROR_CODES.MATCH_NOT_FOUND, "This match is no longer available.", 404);
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: scoreCompatibility(me, other),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register routes with Fastify
+ */
+export async function matchRoutes(fastify: FastifyInstance) {
+  fastify.get<{ Querystring: MatchFiltersQuery }>(
+    "/matches",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => getMatchesRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: TargetUserParams }>(
+    "/matches/like/:userId",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => likeUserRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: TargetUserParams }>(
+    "/matches/pass/:userId",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => passUserRoute(fastify, request, reply)
+  );
+
+  fastify.post(
+    "/matches/undo",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => undoLastActionRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Querystring: DailyLimitQuery }>(
+    "/matches/daily-limit",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getDailyLimitRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: MatchParams }>(
+    "/matches/:matchId",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => getMatchDetailsRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: MatchParams }>(
+    "/matches/:matchId/compatibility",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => getCompatibilityReportRoute(fastify, request, reply)
+  );
+}
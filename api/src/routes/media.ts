@@ -0,0 +1,66 @@
+/**
+ * Media Routes
+ * Serves stored photos and voice notes behind short-lived signed URLs
+ * DPDP Act 2023 Compliance - No listing and no unsigned reads; access decisions
+ * are made when the URL is issued, so a blurred-only viewer never gets an original key
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { getStorage, verifyMediaSignature } from "../utils/media-storage";
+
+interface MediaParams {
+  "*": string;
+}
+
+interface MediaQuery {
+  expires?: string;
+  signature?: string;
+}
+
+/**
+ * GET /media/*
+ * Stream a stored object if the URL signature is valid and unexpired
+ */
+export async function getMediaRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: MediaParams; Querystring: MediaQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    const key = request.params["*"];
+    const { expires, signature } = request.query;
+
+    if (!key || !expires || !signature || !verifyMediaSignature(key, Number(expires), signature)) {
+      throw createError(
+        ERROR_CODES.MEDIA_ACCESS_DENIED,
+        "This media link is invalid or has expired.",
+        403
+      );
+    }
+
+    const object = await getStorage().get(key);
+
+    if (!object) {
+      throw createError(ERROR_CODES.MEDIA_NOT_FOUND, "Media not found.", 404);
+    }
+
+    return reply
+      .status(200)
+      .header("Content-Type", object.contentType)
+      .header("Cache-Control", "private, max-age=300")
+      .header("X-Content-Type-Options", "nosniff")
+      .send(object.body);
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register media routes
+ */
+export async function mediaRoutes(fastify: FastifyInstance) {
+  fastify.get<{ Params: MediaParams; Querystring: MediaQuery }>("/media/*", (request, reply) =>
+    getMediaRoute(fastify, request, reply)
+  );
+}
@@ -0,0 +1,924 @@
+/**
+ * Moderation Routes
+ * Blocking, reporting, the admin report queue and photos flagged by face match
+ * DPDP Act 2023 Compliance - Reports carry only the evidence needed to review them
+ * and every moderation decision is written to the audit log
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Prisma, PrismaClient, Report, User } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ageGate } from "../middleware/ageGate";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { findParticipantConversation } from "../utils/chat";
+import {
+  REPORT_ACTIONS,
+  REPORT_CATEGORIES,
+  REPORT_STATUSES,
+  canTransitionReport,
+  serializeEvidence,
+  snapshotEvidence,
+} from "../utils/moderation";
+import { revokeAllSessions } from "../utils/sessions";
+import { getStorage } from "../utils/media-storage";
+import {
+  FACE_REVIEW_DECISIONS,
+  promoteNextPrimaryPhoto,
+  serializeFlaggedPhoto,
+} from "../utils/face-match";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_QUEUE_SIZE = 20;
+const MAX_QUEUE_SIZE = 100;
+
+interface TargetUserParams {
+  userId: string;
+}
+
+interface ConversationParams {
+  conversationId: string;
+}
+
+interface ReportParams {
+  reportId: string;
+}
+
+interface FlaggedPhotoParams {
+  photoId: string;
+}
+
+const reportSchema = z.object({
+  reportedUserId: z.string().uuid(),
+  category: z.enum(REPORT_CATEGORIES),
+  description: z.string().trim().max(1000).optional(),
+  conversationId: z.string().uuid().optional(),
+  messageIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+type ReportBody = z.input<typeof reportSchema>;
+
+// The chat client sends a free-text reason; the category defaults to "other"
+const conversationReportSchema = z.object({
+  category: z.enum(REPORT_CATEGORIES).default("other"),
+  reason: z.string().trim().max(1000).optional(),
+  messageIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+type ConversationReportBody = z.input<typeof conversationReportSchema>;
+
+const reportQueueSchema = z.object({
+  status: z.enum(REPORT_STATUSES).default("open"),
+  category: z.enum(REPORT_CATEGORIES).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_QUEUE_SIZE).default(DEFAULT_QUEUE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+type ReportQueueQuery = z.input<typeof reportQueueSchema>;
+
+const reviewReportSchema = z
+  .object({
+    status: z.enum(["actioned", "dismissed"]),
+    action: z.enum(REPORT_ACTIONS).optional(),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((body) => (body.status === "actioned") === (body.action !== undefined), {
+    message: "An action is required when actioning a report, and only then",
+    path: ["action"],
+  });
+
+type ReviewReportBody = z.input<typeof reviewReportSchema>;
+
+const flaggedPhotoQueueSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_QUEUE_SIZE).default(DEFAULT_QUEUE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+type FlaggedPhotoQueueQuery = z.input<typeof flaggedPhotoQueueSchema>;
+
+const reviewFlaggedPhotoSchema = z.object({
+  decision: z.enum(FACE_REVIEW_DECISIONS),
+});
+
+type ReviewFlaggedPhotoBody = z.input<typeof reviewFlaggedPhotoSchema>;
+
+type ReportWithUsers = Report & {
+  reporter: Pick<User, "id" | "name">;
+  reportedUser: Pick<User, "id" | "name" | "isActive"> | null; // Null once erased
+};
+
+const reportUsersInclude = {
+  reporter: { select: { id: true, name: true } },
+  reportedUser: { select: { id: true, name: true, isActive: true } },
+} as const;
+
+const serializeReport = (report: ReportWithUsers) => ({
+  id: report.id,
+  category: report.category,
+  description: report.description,
+  status: report.status,
+  action: report.action,
+  resolutionNote: report.resolutionNote,
+  conversationId: report.conversationId,
+  reporter: report.reporter,
+  reportedUser: report.reportedUser,
+  evidenceCount: Array.isArray(report.evidence) ? report.evidence.length : 0,
+  reviewedById: report.reviewedById,
+  reviewedAt: report.reviewedAt?.toISOString() ?? null,
+  createdAt: report.createdAt.toISOString(),
+});
+
+/**
+ * Block a user (idempotent) and audit it
+ */
+const blockUser = async (
+  request: FastifyRequest,
+  userId: string,
+  targetUserId: string
+) => {
+  if (userId === targetUserId) {
+    throw createError(ERROR_CODES.INVALID_INPUT, "You cannot block yourself.", 400);
+  }
+
+  const target = await prisma.user.findUnique({ where: { id: targetUserId } });
+
+  if (!target) {
+    throw createError(ERROR_CODES.USER_NOT_FOUND, "User not found.", 404);
+  }
+
+  const block = await prisma.block.upsert({
+    where: { blockerId_blockedId: { blockerId: userId, blockedId: targetUserId } },
+    update: {},
+    create: { blockerId: userId, blockedId: targetUserId },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "MODERATION_ACTION",
+      userId,
+      entityType: "BLOCK",
+      entityId: block.id,
+      action: "USER_BLOCKED",
+      metadata: { blockedUserId: targetUserId },
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    },
+  });
+
+  return block;
+};
+
+/**
+ * File a report, snapshotting the reported user's messages when a conversation is given
+ */
+const fileReport = async (
+  request: FastifyRequest,
+  reporterId: string,
+  input: z.output<typeof reportSchema>
+) => {
+  const { reportedUserId, category, description, conversationId, messageIds } = input;
+
+  if (reporterId === reportedUserId) {
+    throw createError(ERROR_CODES.INVALID_INPUT, "You cannot report yourself.", 400);
+  }
+
+  const reportedUser = await prisma.user.findUnique({ where: { id: reportedUserId } });
+
+  if (!reportedUser) {
+    throw createError(ERROR_CODES.USER_NOT_FOUND, "User not found.", 404);
+  }
+
+  if (conversationId) {
+    const { otherUserId } = await findParticipantConversation(reporterId, conversationId);
+
+    if (otherUserId !== reportedUserId) {
+      throw createError(
+        ERROR_CODES.INVALID_INPUT,
+        "The conversation does not involve the reported user.",
+        400
+      );
+    }
+  }
+
+  const existing = await prisma.report.findFirst({
+    where: { reporterId, reportedUserId, status: "open" },
+  });
+
+  if (existing) {
+    throw createError(
+      ERROR_CODES.REPORT_ALREADY_OPEN,
+      "You have already reported this user. Our team is reviewing it.",
+      409,
+      { reportId: existing.id }
+    );
+  }
+
+  const reportId = uuidv4();
+  const evidence = conversationId
+    ? await snapshotEvidence(reportId, conversationId, reportedUserId, messageIds)
+    : [];
+
+  const report = await prisma.report.create({
+    data: {
+      id: reportId,
+      reporterId,
+      reportedUserId,
+      conversationId,
+      category,
+      description,
+      evidence: evidence as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "MODERATION_ACTION",
+      userId: reporterId,
+      entityType: "REPORT",
+      entityId: report.id,
+      action: "REPORT_FILED",
+      metadata: { reportedUserId, category, evidenceCount: evidence.length },
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    },
+  });
+
+  return report;
+};
+
+/**
+ * GET /blocks
+ * Users the requester has blocked
+ */
+export async function getBlockedUsersRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const blocks = await prisma.block.findMany({
+      where: { blockerId: userId },
+      include: { blocked: { include: { profile: { select: { name: true } } } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: blocks.map((block) => ({
+        userId: block.blockedId,
+        name: block.blocked.profile?.name ?? block.blocked.name ?? "Member",
+        blockedAt: block.createdAt.toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /blocks/:userId
+ * Block a user; both users disappear from each other's feed and chats
+ */
+export async function blockUserRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: TargetUserParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    await blockUser(request, userId, request.params.userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /blocks/:userId
+ * Unblock a user; an existing match and its chat become reachable again
+ */
+export async function unblockUserRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: TargetUserParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const targetUserId = request.params.userId;
+
+    const { count } = await prisma.block.deleteMany({
+      where: { blockerId: userId, blockedId: targetUserId },
+    });
+
+    if (count === 0) {
+      throw createError(ERROR_CODES.BLOCK_NOT_FOUND, "This user is not blocked.", 404);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "MODERATION_ACTION",
+        userId,
+        entityType: "BLOCK",
+        entityId: targetUserId,
+        action: "USER_UNBLOCKED",
+        metadata: { unblockedUserId: targetUserId },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/block
+ * Block the other participant of a conversation
+ */
+export async function blockConversationRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const { otherUserId } = await findParticipantConversation(
+      userId,
+      request.params.conversationId
+    );
+
+    await blockUser(request, userId, otherUserId);
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /reports
+ * Report a user, optionally with evidence from a shared conversation
+ */
+export async function createReportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: ReportBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = reportSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid report.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const report = await fileReport(request, userId, parsed.data);
+
+    return reply.status(201).send({
+      success: true,
+      data: { id: report.id, status: report.status },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /chat/conversations/:conversationId/report
+ * Report the other participant of a conversation with message evidence
+ */
+export async function reportConversationRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ConversationParams; Body: ConversationReportBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { conversationId } = request.params;
+
+    const parsed = conversationReportSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid report.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { otherUserId } = await findParticipantConversation(userId, conversationId);
+
+    const report = await fileReport(request, userId, {
+      reportedUserId: otherUserId,
+      category: parsed.data.category,
+      description: parsed.data.reason,
+      conversationId,
+      messageIds: parsed.data.messageIds,
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: { id: report.id, status: report.status },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /admin/reports
+ * Report queue, oldest first so nothing waits indefinitely
+ */
+export async function getReportQueueRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Querystring: ReportQueueQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+
+    const parsed = reportQueueSchema.safeParse(request.query ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid queue filters.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { status, category, limit, offset } = parsed.data;
+    const where = { status, ...(category ? { category } : {}) };
+
+    const [reports, total] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        include: reportUsersInclude,
+        orderBy: { createdAt: "asc" },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.report.count({ where }),
+    ]);
+
+    return reply.status(200).send({
+      success: true,
+      data: reports.map(serializeReport),
+      meta: {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /admin/reports/:reportId
+ * Report with its evidence and the reported user's report history
+ */
+export async function getReportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ReportParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const adminId = (request.user as any).userId;
+    const { reportId } = request.params;
+
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      include: reportUsersInclude,
+    });
+
+    if (!report) {
+      throw createError(ERROR_CODES.REPORT_NOT_FOUND, "Report not found.", 404);
+    }
+
+    const [priorReports, priorActioned] = report.reportedUserId
+      ? await Promise.all([
+          prisma.report.count({
+            where: { reportedUserId: report.reportedUserId, id: { not: report.id } },
+          }),
+          prisma.report.count({
+            where: {
+              reportedUserId: report.reportedUserId,
+              id: { not: report.id },
+              status: "actioned",
+            },
+          }),
+        ])
+      : [0, 0];
+
+    // Evidence is personal data; record every moderator who viewed it
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_ACCESS",
+        userId: adminId,
+        entityType: "REPORT",
+        entityId: report.id,
+        action: "REPORT_EVIDENCE_VIEWED",
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        ...serializeReport(report),
+        evidence: serializeEvidence(report.evidence),
+        reportedUserHistory: { priorReports, priorActioned },
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * PATCH /admin/reports/:reportId
+ * Resolve an open report: action it (warn/suspend) or dismiss it
+ */
+export async function reviewReportRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: ReportParams; Body: ReviewReportBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const adminId = (request.user as any).userId;
+    const { reportId } = request.params;
+
+    const parsed = reviewReportSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid review.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { status, action, note } = parsed.data;
+
+    const report = await prisma.report.findUnique({ where: { id: reportId } });
+
+    if (!report) {
+      throw createError(ERROR_CODES.REPORT_NOT_FOUND, "Report not found.", 404);
+    }
+
+    if (!canTransitionReport(report.status, status)) {
+      throw createError(
+        ERROR_CODES.INVALID_REPORT_TRANSITION,
+        `A ${report.status} report cannot be ${status}.`,
+        409,
+        { currentStatus: report.status }
+      );
+    }
+
+    if (action && !report.reportedUserId) {
+      throw createError(
+        ERROR_CODES.USER_NOT_FOUND,
+        "The reported account has been erased; this report can only be dismissed.",
+        409
+      );
+    }
+
+    // Guarded update: two moderators resolving the same report cannot both win
+    const { count } = await prisma.report.updateMany({
+      where: { id: reportId, status: report.status },
+      data: {
+        status,
+        action: action ?? null,
+        resolutionNote: note,
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw createError(
+        ERROR_CODES.INVALID_REPORT_TRANSITION,
+        "This report was just resolved by another moderator.",
+        409
+      );
+    }
+
+    if (action === "suspend" && report.reportedUserId) {
+      await prisma.user.update({
+        where: { id: report.reportedUserId },
+        data: { isActive: false },
+      });
+      await revokeAllSessions(report.reportedUserId, "account_suspended");
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "MODERATION_ACTION",
+        userId: adminId,
+        entityType: "REPORT",
+        entityId: reportId,
+        action: status === "actioned" ? "REPORT_ACTIONED" : "REPORT_DISMISSED",
+        metadata: { reportedUserId: report.reportedUserId, action: action ?? null },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    if (action && report.reportedUserId) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "MODERATION_ACTION",
+          userId: report.reportedUserId,
+          entityType: "USER",
+          entityId: report.reportedUserId,
+          action: action === "suspend" ? "ACCOUNT_SUSPENDED" : "ACCOUNT_WARNED",
+          metadata: { reportId, moderatorId: adminId },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+    }
+
+    const updated = await prisma.report.findUniqueOrThrow({
+      where: { id: reportId },
+      include: reportUsersInclude,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeReport(updated),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /admin/photo-flags
+ * Profile photos that did not match their owner's video selfie, oldest first
+ */
+export async function getFlaggedPhotoQueueRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Querystring: FlaggedPhotoQueueQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const adminId = (request.user as any).userId;
+
+    const parsed = flaggedPhotoQueueSchema.safeParse(request.query ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid queue filters.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { limit, offset } = parsed.data;
+    const where = { faceReviewStatus: "pending" };
+
+    const [photos, total] = await Promise.all([
+      prisma.photo.findMany({
+        where,
+        include: { profile: { select: { userId: true } } },
+        orderBy: { faceCheckedAt: "asc" },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.photo.count({ where }),
+    ]);
+
+    // The queue shows original photos; record every moderator who opened it
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_ACCESS",
+        userId: adminId,
+        entityType: "PHOTO",
+        action: "FLAGGED_PHOTOS_VIEWED",
+        metadata: { photoIds: photos.map((photo) => photo.id) },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: photos.map(serializeFlaggedPhoto),
+      meta: {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * PATCH /admin/photo-flags/:photoId
+ * Clear a flagged photo (same person after all) or remove it from the profile
+ */
+export async function reviewFlaggedPhotoRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: FlaggedPhotoParams; Body: ReviewFlaggedPhotoBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const adminId = (request.user as any).userId;
+    const { photoId } = request.params;
+
+    const parsed = reviewFlaggedPhotoSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid review.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const { decision } = parsed.data;
+
+    const photo = await prisma.photo.findUnique({
+      where: { id: photoId },
+      include: { profile: { select: { userId: true } } },
+    });
+
+    if (!photo || photo.faceReviewStatus !== "pending") {
+      throw createError(ERROR_CODES.PHOTO_NOT_FOUND, "No flagged photo with this id.", 404);
+    }
+
+    const ownerId = photo.profile.userId;
+
+    // Guarded update: two moderators reviewing the same photo cannot both win
+    const { count } = await prisma.photo.updateMany({
+      where: { id: photoId, faceReviewStatus: "pending" },
+      data: { faceReviewStatus: "cleared" },
+    });
+
+    if (count === 0) {
+      throw createError(ERROR_CODES.PHOTO_NOT_FOUND, "No flagged photo with this id.", 404);
+    }
+
+    if (decision === "remove") {
+      await prisma.photo.delete({ where: { id: photoId } });
+
+      const storage = getStorage();
+      await Promise.all(
+        [photo.originalKey, photo.thumbnailKey, photo.blurredKey].map((key) => storage.delete(key))
+      );
+
+      if (photo.isPrimary) {
+        await promoteNextPrimaryPhoto(ownerId, photo.profileId);
+      }
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "MODERATION_ACTION",
+        userId: adminId,
+        entityType: "PHOTO",
+        entityId: photoId,
+        action: decision === "clear" ? "FLAGGED_PHOTO_CLEARED" : "FLAGGED_PHOTO_REMOVED",
+        metadata: {
+          ownerId,
+          wasPrimary: photo.isPrimary,
+          faceMatch: photo.faceMatch,
+          faceMatchScore: photo.faceMatchScore,
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { id: photoId, decision },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register user-facing block and report routes with Fastify
+ */
+export async function moderationRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    "/blocks",
+    { preHandler: [authenticate] },
+    (request, reply) => getBlockedUsersRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: TargetUserParams }>(
+    "/blocks/:userId",
+    { preHandler: [authenticate] },
+    (request, reply) => blockUserRoute(fastify, request, reply)
+  );
+
+  fastify.delete<{ Params: TargetUserParams }>(
+    "/blocks/:userId",
+    { preHandler: [authenticate] },
+    (request, reply) => unblockUserRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams }>(
+    "/chat/conversations/:conversationId/block",
+    { preHandler: [authenticate] },
+    (request, reply) => blockConversationRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: ReportBody }>(
+    "/reports",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => createReportRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: ConversationParams; Body: ConversationReportBody }>(
+    "/chat/conversations/:conversationId/report",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => reportConversationRoute(fastify, request, reply)
+  );
+}
+
+/**
+ * Register admin report-queue routes with Fastify
+ */
+export async function adminModerationRoutes(fastify: FastifyInstance) {
+  fastify.get<{ Querystring: ReportQueueQuery }>(
+    "/admin/reports",
+    { preHandler: [authenticate, requireAdmin] },
+    (request, reply) => getReportQueueRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: ReportParams }>(
+    "/admin/reports/:reportId",
+    { preHandler: [authenticate, requireAdmin] },
+    (request, reply) => getReportRoute(fastify, request, reply)
+  );
+
+  fastify.patch<{ Params: ReportParams; Body: ReviewReportBody }>(
+    "/admin/reports/:reportId",
+    { preHandler: [authenticate, requireAdmin] },
+    (request, reply) => reviewReportRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Querystring: FlaggedPhotoQueueQuery }>(
+    "/admin/photo-flags",
+    { preHandler: [authenticate, requireAdmin] },
+    (request, reply) => getFlaggedPhotoQueueRoute(fastify, request, reply)
+  );
+
+  fastify.patch<{ Params: FlaggedPhotoParams; Body: ReviewFlaggedPhotoBody }>(
+    "/admin/photo-flags/:photoId",
+    { preHandler: [authenticate, requireAdmin] },
+    (request, reply) => reviewFlaggedPhotoRoute(fastify, request, reply)
+  );
+}
@@ -0,0 +1,647 @@
+/**
+ * Profile Routes
+ * Matrimonial profile CRUD backing the frontend profileService
+ * DPDP Act 2023 Compliance - Age gated, matching data requires purposeMatching consent
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Photo, PrismaClient, Profile, User } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ageGate, calculateAge } from "../middleware/ageGate";
+import { requireConsent } from "../middleware/requireConsent";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { getSignedMediaUrl, getStorage } from "../utils/media-storage";
+import {
+  checkPhotoForOwner,
+  promoteNextPrimaryPhoto,
+  revokeGoldIfPrimaryMismatched,
+} from "../utils/face-match";
+import {
+  PHOTO_MAX_BYTES,
+  processPhoto,
+  readMultipartUpload,
+} from "../utils/media-processing";
+
+const prisma = new PrismaClient();
+
+const MAX_PROFILE_PHOTOS = 6;
+
+// Fields a profile needs before it can be shown to other users
+const REQUIRED_PROFILE_FIELDS = [
+  "name",
+  "gender",
+  "motherTongue",
+  "education",
+  "occupation",
+  "city",
+  "state",
+  "familyType",
+  "diet",
+  "intent",
+] as const;
+
+const matchPreferencesSchema = z.object({
+  ageRange: z.object({ min: z.number().int().min(18), max: z.number().int().max(99) }),
+  heightRange: z.object({ min: z.number(), max: z.number() }),
+  location: z.array(z.string()),
+  religion: z.array(z.string()),
+  caste: z.array(z.string()),
+  education: z.array(z.string()),
+  occupation: z.array(z.string()),
+  diet: z.array(z.string()),
+  manglik: z.enum(["any", "yes", "no"]),
+  maritalStatus: z.array(z.string()),
+});
+
+// Onboarding values (app/(onboarding)/values) - dealbreaker levels are the
+// index of the option chosen, 0 = "Dealbreaker" ... 3 = "I do it too"
+const profileValuesSchema = z.object({
+  loveLanguages: z.array(z.string()).max(5),
+  dealbreakers: z.record(z.number().int().min(0).max(3)),
+  weekendPreferences: z.array(z.string()).max(4),
+  fiveYearVision: z.string().nullable(),
+});
+
+// Mirrors Partial<Profile> from lib/api.ts. Derived fields (age, photos,
+// verificationLevel, timestamps) are never accepted from the client.
+const profileUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    gender: z.enum(["male", "female", "other"]),
+    height: z.string().max(20),
+    weight: z.string().max(20),
+    religion: z.string().max(50),
+    caste: z.string().max(50),
+    subCaste: z.string().max(50),
+    gotra: z.string().max(50),
+    manglik: z.boolean(),
+    motherTongue: z.string().max(50),
+    education: z.string().max(100),
+    occupation: z.string().max(100),
+    annualIncome: z.number().int().nonnegative(),
+    city: z.string().max(100),
+    state: z.string().max(100),
+    country: z.string().max(100),
+    familyType: z.enum(["joint", "nuclear"]),
+    fatherOccupation: z.string().max(100),
+    motherOccupation: z.string().max(100),
+    siblings: z.string().max(100),
+    diet: z.enum(["vegetarian", "eggetarian", "non-vegetarian", "jain", "halal"]),
+    smoking: z.enum(["never", "occasionally", "regularly"]),
+    drinking: z.enum(["never", "occasionally", "regularly"]),
+    intent: z.enum([
+      "marriage-soon",
+      "serious-relationship",
+      "friendship",
+      "healing",
+    ]),
+    bio: z.string().max(500),
+    photoPrivacy: z.enum(["blur", "visible"]),
+    screenshotAlerts: z.boolean(),
+    preferences: matchPreferencesSchema,
+    values: profileValuesSchema,
+  })
+  .partial();
+
+type ProfileUpdateBody = z.infer<typeof profileUpdateSchema>;
+
+interface PhotoParams {
+  photoId: string;
+}
+
+type ProfileWithRelations = Profile & { photos: Photo[] };
+
+/**
+ * Map numeric verification level to the badge tier shown in the app
+ * 0-1: bronze (phone), 2: silver (DigiLocker), 3: gold (video selfie)
+ */
+export const toVerificationTier = (
+  level: number
+): "bronze" | "silver" | "gold" => {
+  if (level >= 3) return "gold";
+  if (level >= 2) return "silver";
+  return "bronze";
+};
+
+/**
+ * Serialize a photo with signed URLs for the variants this viewer may see
+ * Viewers without access get the blurred variant behind both URLs
+ */
+export const serializePhoto = (photo: Photo, revealOriginal: boolean) => ({
+  id: photo.id,
+  url: getSignedMediaUrl(revealOriginal ? photo.originalKey : photo.blurredKey),
+  thumbnailUrl: getSignedMediaUrl(revealOriginal ? photo.thumbnailKey : photo.blurredKey),
+  isPrimary: photo.isPrimary,
+  isBlurred: !revealOriginal,
+  uploadedAt: photo.uploadedAt.toISOString(),
+});
+
+/**
+ * Serialize a profile into the shape the frontend Profile interface expects
+ * `revealPhotos` defaults to true because the owner always sees their originals
+ */
+export const serializeProfile = (
+  profile: ProfileWithRelations,
+  user: Pick<User, "name" | "dateOfBirth" | "verificationLevel">,
+  revealPhotos: boolean = true
+) => ({
+  id: profile.id,
+  userId: profile.userId,
+  name: profile.name ?? user.name,
+  age: user.dateOfBirth ? calculateAge(user.dateOfBirth) : null,
+  gender: profile.gender,
+  height: profile.height,
+  weight: profile.weight,
+  religion: profile.religion,
+  caste: profile.caste,
+  subCaste: profile.subCaste,
+  gotra: profile.gotra,
+  manglik: profile.manglik,
+  motherTongue: profile.motherTongue,
+  education: profile.education,
+  occupation: profile.occupation,
+  annualIncome: profile.annualIncome,
+  city: profile.city,
+  state: profile.state,
+  country: profile.country,
+  familyType: profile.familyType,
+  fatherOccupation: profile.fatherOccupation,
+  motherOccupation: profile.motherOccupation,
+  siblings: profile.siblings,
+  diet: profile.diet,
+  smoking: profile.smoking,
+  drinking: profile.drinking,
+  intent: profile.intent,
+  bio: profile.bio,
+  photos: [...profile.photos]
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+    .map((photo) => serializePhoto(photo, revealPhotos)),
+  photoPrivacy: profile.photoPrivacy,
+  screenshotAlerts: profile.screenshotAlerts,
+  preferences: profile.preferences,
+  values: profile.values,
+  verificationLevel: toVerificationTier(user.verificationLevel),
+  createdAt: profile.createdAt.toISOString(),
+  updatedAt: profile.updatedAt.toISOString(),
+});
+
+/**
+ * Serialize a profile for other users (match feed, match details)
+ * Partner preferences and onboarding values stay private to the owner.
+ * Original photos are only revealed when the owner chose "visible" or the
+ * viewer is an accepted match (`isMatched`)
+ */
+export const serializePublicProfile = (
+  profile: ProfileWithRelations,
+  user: Pick<User, "name" | "dateOfBirth" | "verificationLevel">,
+  isMatched: boolean = false
+) => {
+  const revealPhotos = profile.photoPrivacy === "visible" || isMatched;
+  const { preferences, values, photoPrivacy, screenshotAlerts, ...publicProfile } = serializeProfile(
+    profile,
+    user,
+    revealPhotos
+  );
+  return publicProfile;
+};
+
+/**
+ * Calculate profile completion against the required fields
+ * A primary photo counts as one additional required item
+ */
+export const getProfileCompletion = (
+  profile: ProfileWithRelations | null
+): { percentage: number; missingFields: string[] } => {
+  const missingFields: string[] = REQUIRED_PROFILE_FIELDS.filter(
+    (field) => !profile?.[field]
+  );
+
+  if (!profile?.photos.some((photo) => photo.isPrimary)) {
+    missingFields.push("photos");
+  }
+
+  const totalItems = REQUIRED_PROFILE_FIELDS.length + 1;
+
+  return {
+    percentage: Math.round(
+      ((totalItems - missingFields.length) / totalItems) * 100
+    ),
+    missingFields,
+  };
+};
+
+/**
+ * Load the authenticated user's profile or throw PROFILE_NOT_FOUND
+ */
+const findOwnProfile = async (userId: string) => {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    include: { photos: true, user: true },
+  });
+
+  if (!profile) {
+    throw createError(
+      ERROR_CODES.PROFILE_NOT_FOUND,
+      "Profile not found. Please complete your profile setup.",
+      404
+    );
+  }
+
+  return profile;
+};
+
+/**
+ * GET /profile
+ * Get the authenticated user's matrimonial profile
+ */
+export async function getProfileRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const profile = await findOwnProfile(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeProfile(profile, profile.user),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * PUT /profile
+ * Create or update the authenticated user's profile
+ * Profile data is processed for matching, so purposeMatching consent is required (requireConsent)
+ */
+export async function updateProfileRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: ProfileUpdateBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = profileUpdateSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Invalid profile data.",
+        400,
+        { fields: parsed.error.flatten().fieldErrors }
+      );
+    }
+
+    const data = parsed.data;
+
+    const profile = await prisma.profile.upsert({
+      where: { userId },
+      update: data,
+      create: { ...data, userId },
+      include: { photos: true, user: true },
+    });
+
+    // Log which fields changed, never their values (religion, caste are sensitive)
+    await prisma.auditLog.create({
+      data: {
+        eventType: "PROFILE_UPDATED",
+        userId,
+        entityType: "PROFILE",
+        entityId: profile.id,
+        action: "PROFILE_UPSERTED",
+        metadata: {
+          updatedFields: Object.keys(data),
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeProfile(profile, profile.user),
+      message: "Profile updated successfully",
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /profile/photo
+ * Upload a profile photo (multipart field "photo")
+ * The first photo becomes primary automatically
+ */
+export async function uploadPhotoRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const profile = await findOwnProfile(userId);
+
+    if (profile.photos.length >= MAX_PROFILE_PHOTOS) {
+      throw createError(
+        ERROR_CODES.PHOTO_LIMIT_REACHED,
+        `You can upload up to ${MAX_PROFILE_PHOTOS} photos. Delete one to add another.`,
+        400,
+        { maxPhotos: MAX_PROFILE_PHOTOS }
+      );
+    }
+
+    const upload = await readMultipartUpload(request, "photo", PHOTO_MAX_BYTES);
+    const processed = await processPhoto(upload.buffer);
+
+    const photoId = uuidv4();
+    const keyPrefix = `photos/${profile.id}/${photoId}`;
+    const keys = {
+      originalKey: `${keyPrefix}/original.webp`,
+      thumbnailKey: `${keyPrefix}/thumbnail.webp`,
+      blurredKey: `${keyPrefix}/blurred.webp`,
+    };
+
+    const storage = getStorage();
+    await Promise.all([
+      storage.put(keys.originalKey, processed.original, "image/webp"),
+      storage.put(keys.thumbnailKey, processed.thumbnail, "image/webp"),
+      storage.put(keys.blurredKey, processed.blurred, "image/webp"),
+    ]);
+
+    let photo = await prisma.photo.create({
+      data: {
+        id: photoId,
+        profileId: profile.id,
+        ...keys,
+        width: processed.width,
+        height: processed.height,
+        sizeBytes: processed.original.length,
+        isPrimary: profile.photos.length === 0,
+      },
+    });
+
+    // Compared with the video selfie, if there is one; an unchecked photo is
+    // checked again when it is made primary
+    try {
+      photo = await checkPhotoForOwner(userId, photo);
+    } catch (error: any) {
+      request.log.error(error, "Face match for uploaded photo failed");
+    }
+
+    const goldRevoked = photo.isPrimary && (await revokeGoldIfPrimaryMismatched(userId, photo));
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "PROFILE_PHOTO_UPLOADED",
+        userId,
+        entityType: "PHOTO",
+        entityId: photo.id,
+        action: "USER_UPLOADED_PHOTO",
+        metadata: {
+          isPrimary: photo.isPrimary,
+          sizeBytes: photo.sizeBytes,
+          faceMatch: photo.faceMatch,
+          goldRevoked,
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: serializePhoto(photo, true),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * DELETE /profile/photo/:photoId
+ * Delete one of the authenticated user's photos
+ * If the primary photo is removed, the oldest remaining photo becomes primary
+ */
+export async function deletePhotoRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: PhotoParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { photoId } = request.params;
+
+    const profile = await findOwnProfile(userId);
+    const photo = profile.photos.find((p) => p.id === photoId);
+
+    if (!photo) {
+      throw createError(ERROR_CODES.PHOTO_NOT_FOUND, "Photo not found", 404);
+    }
+
+    await prisma.photo.delete({ where: { id: photo.id } });
+
+    const storage = getStorage();
+    await Promise.all(
+      [photo.originalKey, photo.thumbnailKey, photo.blurredKey].map((key) => storage.delete(key))
+    );
+
+    // The promoted photo must show the verified face like any other primary
+    const promoted = photo.isPrimary ? await promoteNextPrimaryPhoto(userId, profile.id) : null;
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "PROFILE_PHOTO_DELETED",
+        userId,
+        entityType: "PHOTO",
+        entityId: photo.id,
+        action: "USER_REQUESTED_DELETION",
+        metadata: {
+          wasPrimary: photo.isPrimary,
+          promotedPhotoId: promoted?.photo.id ?? null,
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    if (promoted?.goldRevoked) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "VERIFICATION_REVOKED",
+          userId,
+          entityType: "PHOTO",
+          entityId: promoted.photo.id,
+          action: "GOLD_REVOKED_PRIMARY_PHOTO_MISMATCH",
+          metadata: {
+            faceMatch: promoted.photo.faceMatch,
+            faceMatchScore: promoted.photo.faceMatchScore,
+          },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true },
+      ...(promoted?.goldRevoked && {
+        message:
+          "Your new primary photo does not match your video selfie, so your Gold badge was removed. Record a new video selfie to get it back.",
+      }),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /profile/photo/:photoId/primary
+ * Mark a photo as the primary profile photo
+ */
+export async function setPrimaryPhotoRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: PhotoParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+    const { photoId } = request.params;
+
+    const profile = await findOwnProfile(userId);
+    const photo = profile.photos.find((p) => p.id === photoId);
+
+    if (!photo) {
+      throw createError(ERROR_CODES.PHOTO_NOT_FOUND, "Photo not found", 404);
+    }
+
+    // A Gold badge vouches for the face on the primary photo
+    const checked = photo.faceCheckedAt ? photo : await checkPhotoForOwner(userId, photo);
+
+    await prisma.$transaction([
+      prisma.photo.updateMany({
+        where: { profileId: profile.id, isPrimary: true },
+        data: { isPrimary: false },
+      }),
+      prisma.photo.update({
+        where: { id: photoId },
+        data: { isPrimary: true },
+      }),
+    ]);
+
+    const goldRevoked = await revokeGoldIfPrimaryMismatched(userId, checked);
+
+    if (goldRevoked) {
+      await prisma.auditLog.create({
+        data: {
+          eventType: "VERIFICATION_REVOKED",
+          userId,
+          entityType: "PHOTO",
+          entityId: photo.id,
+          action: "GOLD_REVOKED_PRIMARY_PHOTO_MISMATCH",
+          metadata: {
+            faceMatch: checked.faceMatch,
+            faceMatchScore: checked.faceMatchScore,
+          },
+          ipAddress: request.ip,
+          userAgent: request.headers["user-agent"],
+        },
+      });
+    }
+
+    const updated = await findOwnProfile(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeProfile(updated, updated.user),
+      ...(goldRevoked && {
+        message:
+          "This photo does not match your video selfie, so your Gold badge was removed. Record a new video selfie to get it back.",
+      }),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /profile/completion
+ * Get profile completion percentage and missing fields
+ */
+export async function getProfileCompletionRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId },
+      include: { photos: true },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: getProfileCompletion(profile),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register routes with Fastify
+ * All profile routes are age gated (18+)
+ */
+export async function profileRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    "/profile",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getProfileRoute(fastify, request, reply)
+  );
+
+  fastify.put<{ Body: ProfileUpdateBody }>(
+    "/profile",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => updateProfileRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/profile/completion",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => getProfileCompletionRoute(fastify, request, reply)
+  );
+
+  fastify.post(
+    "/profile/photo",
+    { preHandler: [authenticate, ageGate, requireConsent("purposeMatching")] },
+    (request, reply) => uploadPhotoRoute(fastify, request, reply)
+  );
+
+  fastify.delete<{ Params: PhotoParams }>(
+    "/profile/photo/:photoId",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => deletePhotoRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: PhotoParams }>(
+    "/profile/photo/:photoId/primary",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => setPrimaryPhotoRoute(fastify, request, reply)
+  );
+}
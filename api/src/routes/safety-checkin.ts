@@ -0,0 +1,413 @@
+/**
+ * Safety Check-in Routes
+ * Users set their safety and duress PINs, start a check-in with an expected end
+ * time and their verified emergency contacts, and end it with a PIN
+ * DPDP Act 2023 Compliance - The contacts' numbers are copied into the KMS-encrypted
+ * check-in and used only for the emergency SMS; every step is written to the audit log
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { addHours, addMinutes } from "date-fns";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { hashTrackingToken, isSharingLive } from "../utils/location-sharing";
+import { resolveVerifiedContacts } from "../utils/emergency-contacts";
+import {
+  MAX_CHECK_IN_CONTACTS,
+  MAX_CHECK_IN_HOURS,
+  hashSafetyPin,
+  matchSafetyPin,
+  recordWrongPin,
+  sealCheckInPayload,
+  serializeCheckIn,
+  triggerDuress,
+} from "../utils/safety-checkin";
+
+const prisma = new PrismaClient();
+
+// Shortest timer worth setting; anything sooner is better served by SOS
+const MIN_CHECK_IN_MINUTES = 15;
+
+interface CheckInParams {
+  checkInId: string;
+}
+
+const pinSchema = z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
+const safetyPinsSchema = z
+  .object({
+    safetyPin: pinSchema,
+    duressPin: pinSchema,
+    currentPin: pinSchema.optional(),
+  })
+  .refine((pins) => pins.safetyPin !== pins.duressPin, {
+    message: "The duress PIN must differ from the safety PIN",
+    path: ["duressPin"],
+  });
+
+type SafetyPinsBody = z.input<typeof safetyPinsSchema>;
+
+const startCheckInSchema = z.object({
+  expectedEndAt: z.coerce.date(),
+  contactIds: z.array(z.string().uuid()).min(1).max(MAX_CHECK_IN_CONTACTS),
+  language: z.enum(["en", "hi"]).default("en"),
+  trackingToken: z.string().min(1).max(100).optional(),
+});
+
+type StartCheckInBody = z.input<typeof startCheckInSchema>;
+
+const confirmCheckInSchema = z.object({
+  pin: pinSchema,
+});
+
+type ConfirmCheckInBody = z.input<typeof confirmCheckInSchema>;
+
+/**
+ * GET /safety/pins
+ * Whether the check-in PINs have been set (never the PINs themselves)
+ */
+export async function getSafetyPinsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { safetyPinHash: true, duressPinHash: true },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        safetyPinSet: user.safetyPinHash !== null,
+        duressPinSet: user.duressPinHash !== null,
+      },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * PUT /safety/pins
+ * Set both PINs; changing them requires the current safety PIN
+ */
+export async function setSafetyPinsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: SafetyPinsBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = safetyPinsSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid PINs.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { id: true, safetyPinHash: true, duressPinHash: true },
+    });
+
+    // Someone holding an unlocked phone must not be able to swap the duress PIN
+    if (
+      user.safetyPinHash &&
+      (!parsed.data.currentPin || matchSafetyPin(user, parsed.data.currentPin) !== "safety")
+    ) {
+      throw createError(ERROR_CODES.INVALID_SAFETY_PIN, "Current safety PIN is incorrect.", 403);
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        safetyPinHash: hashSafetyPin(userId, parsed.data.safetyPin),
+        duressPinHash: hashSafetyPin(userId, parsed.data.duressPin),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "SAFETY_PINS_UPDATED",
+        userId,
+        entityType: "USER",
+        entityId: userId,
+        action: user.safetyPinHash ? "PINS_CHANGED" : "PINS_SET",
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { safetyPinSet: true, duressPinSet: true },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /safety/check-ins
+ * Start a check-in; escalation begins if it is not ended by expectedEndAt
+ */
+export async function startCheckInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: StartCheckInBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = startCheckInSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid check-in.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { expectedEndAt, contactIds, language, trackingToken } = parsed.data;
+    const now = new Date();
+
+    if (
+      expectedEndAt < addMinutes(now, MIN_CHECK_IN_MINUTES) ||
+      expectedEndAt > addHours(now, MAX_CHECK_IN_HOURS)
+    ) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Expected end time must be between ${MIN_CHECK_IN_MINUTES} minutes and ${MAX_CHECK_IN_HOURS} hours from now.`,
+        400
+      );
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { safetyPinHash: true, duressPinHash: true },
+    });
+
+    if (!user.safetyPinHash || !user.duressPinHash) {
+      throw createError(
+        ERROR_CODES.SAFETY_PIN_REQUIRED,
+        "Set your safety and duress PINs before starting a check-in.",
+        409
+      );
+    }
+
+    // A duress check-in keeps escalating but must not block a new one
+    const running = await prisma.safetyCheckIn.findFirst({
+      where: { userId, status: "active", duressAt: null },
+    });
+
+    if (running) {
+      throw createError(ERROR_CODES.CHECK_IN_ALREADY_ACTIVE, "You already have an active check-in.", 409);
+    }
+
+    // A snapshot: removing a contact later does not change a running check-in
+    const contacts = (await resolveVerifiedContacts(userId, contactIds)).map(({ name, phone }) => ({
+      name,
+      phone,
+    }));
+
+    // Only a live session of this user may be linked into the emergency SMS
+    if (trackingToken) {
+      const session = await prisma.sharingSession.findUnique({
+        where: { trackingTokenHash: hashTrackingToken(trackingToken) },
+      });
+
+      if (!session || session.userId !== userId || !isSharingLive(session)) {
+        throw createError(ERROR_CODES.SHARING_SESSION_NOT_FOUND, "Sharing session not found.", 404);
+      }
+    }
+
+    const checkIn = await prisma.safetyCheckIn.create({
+      data: {
+        userId,
+        expectedEndAt,
+        nextActionAt: expectedEndAt,
+        language,
+        ...(await sealCheckInPayload({ contacts, trackingToken })),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "SAFETY_CHECKIN",
+        userId,
+        entityType: "SAFETY_CHECKIN",
+        entityId: checkIn.id,
+        action: "CREATED",
+        metadata: {
+          expectedEndAt: expectedEndAt.toISOString(),
+          contactCount: contacts.length,
+          trackingLinked: Boolean(trackingToken),
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: serializeCheckIn(checkIn),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /safety/check-ins/active
+ * The running check-in, if any
+ */
+export async function getActiveCheckInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const checkIn = await prisma.safetyCheckIn.findFirst({
+      where: { userId, status: { in: ["active", "escalated"] }, duressAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: checkIn ? serializeCheckIn(checkIn) : null,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /safety/check-ins/:checkInId/confirm
+ * "I'm safe": the safety PIN ends the check-in; the duress PIN returns the same
+ * response but alerts the emergency contacts
+ */
+export async function confirmCheckInRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: CheckInParams; Body: ConfirmCheckInBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = confirmCheckInSchema.safeParse(request.body ?? {});
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "A PIN is required.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [checkIn, user] = await Promise.all([
+      prisma.safetyCheckIn.findFirst({ where: { id: request.params.checkInId, userId } }),
+      prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { id: true, safetyPinHash: true, duressPinHash: true },
+      }),
+    ]);
+
+    if (!checkIn) {
+      throw createError(ERROR_CODES.CHECK_IN_NOT_FOUND, "Check-in not found.", 404);
+    }
+
+    const match = matchSafetyPin(user, parsed.data.pin);
+
+    if (!match) {
+      await recordWrongPin(checkIn);
+      throw createError(ERROR_CODES.INVALID_SAFETY_PIN, "Incorrect PIN.", 403);
+    }
+
+    // Already over (or already under duress): answer as if it just ended
+    if (checkIn.status === "completed" || checkIn.duressAt) {
+      return reply.status(200).send({ success: true, data: serializeCheckIn(checkIn) });
+    }
+
+    if (match === "duress") {
+      const updated = await triggerDuress(checkIn);
+      return reply.status(200).send({ success: true, data: serializeCheckIn(updated) });
+    }
+
+    const completedAt = new Date();
+
+    // Guarded update: an escalation step claimed at the same moment still wins its send
+    await prisma.safetyCheckIn.updateMany({
+      where: { id: checkIn.id, status: { in: ["active", "escalated"] } },
+      data: { status: "completed", completedAt, nextActionAt: null },
+    });
+
+    const updated = await prisma.safetyCheckIn.findUniqueOrThrow({ where: { id: checkIn.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "SAFETY_CHECKIN",
+        userId,
+        entityType: "SAFETY_CHECKIN",
+        entityId: checkIn.id,
+        action: "COMPLETED",
+        metadata: {
+          expectedEndAt: checkIn.expectedEndAt.toISOString(),
+          alertsSentBefore: checkIn.alertCount,
+        },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({ success: true, data: serializeCheckIn(updated) });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register safety check-in routes with Fastify
+ */
+export async function safetyCheckInRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    "/safety/pins",
+    { preHandler: [authenticate] },
+    (request, reply) => getSafetyPinsRoute(fastify, request, reply)
+  );
+
+  fastify.put<{ Body: SafetyPinsBody }>(
+    "/safety/pins",
+    { preHandler: [authenticate] },
+    (request, reply) => setSafetyPinsRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: StartCheckInBody }>(
+    "/safety/check-ins",
+    { preHandler: [authenticate] },
+    (request, reply) => startCheckInRoute(fastify, request, reply)
+  );
+
+  fastify.get(
+    "/safety/check-ins/active",
+    { preHandler: [authenticate] },
+    (request, reply) => getActiveCheckInRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Params: CheckInParams; Body: ConfirmCheckInBody }>(
+    "/safety/check-ins/:checkInId/confirm",
+    { preHandler: [authenticate] },
+    (request, reply) => confirmCheckInRoute(fastify, request, reply)
+  );
+}
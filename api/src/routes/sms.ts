@@ -0,0 +1,239 @@
+/**
+ * SMS Routes
+ * Safety alerts to trusted contacts go through the SMS gateway; the tracking
+ * link and the template are chosen here, never by the client
+ * DPDP Act 2023 Compliance - Only contacts who opted in are messaged; the delivery
+ * log keeps a keyed hash and the last four digits of each number
+ */
+
+import crypto from "crypto";
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { getTrackingUrl, hashTrackingToken, isSharingLive } from "../utils/location-sharing";
+import { getSmsProvider } from "../utils/sms-provider";
+import { MAX_EMERGENCY_CONTACTS, resolveVerifiedContacts } from "../utils/emergency-contacts";
+import {
+  recordDeliveryReports,
+  sendTemplatedSms,
+  serializeSmsDelivery,
+} from "../utils/sms-gateway";
+
+const prisma = new PrismaClient();
+
+interface DeliveryParams {
+  deliveryId: string;
+}
+
+interface DeliveryReceiptParams {
+  provider: string;
+}
+
+interface DeliveryReceiptQuery {
+  token?: string;
+}
+
+const safetyAlertSchema = z.object({
+  trackingToken: z.string().min(1).max(100),
+  contactIds: z.array(z.string().uuid()).min(1).max(MAX_EMERGENCY_CONTACTS),
+  language: z.enum(["en", "hi"]).default("en"),
+});
+
+type SafetyAlertBody = z.input<typeof safetyAlertSchema>;
+
+/**
+ * POST /sms/safety-alerts
+ * Send the live location link of one of the user's sessions to verified contacts
+ * Each recipient succeeds or fails on its own; rate-limited ones are reported back
+ */
+export async function sendSafetyAlertsRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: SafetyAlertBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const parsed = safetyAlertSchema.safeParse(request.body);
+
+    if (!parsed.success) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Invalid safety alert request.", 400, {
+        fields: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { trackingToken, contactIds, language } = parsed.data;
+
+    const session = await prisma.sharingSession.findUnique({
+      where: { trackingTokenHash: hashTrackingToken(trackingToken) },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (!session || session.userId !== userId) {
+      throw createError(ERROR_CODES.SHARING_SESSION_NOT_FOUND, "Sharing session not found.", 404);
+    }
+
+    if (!isSharingLive(session)) {
+      throw createError(ERROR_CODES.SHARING_SESSION_ENDED, "Location sharing has ended.", 410);
+    }
+
+    // The match name is on the session only if the user chose to include it
+    const template = session.matchName ? "safety_with_match" : "safety";
+    const variables: Record<string, string> = {
+      name: session.user.name?.split(" ")[0] || "Your contact",
+      trackingUrl: getTrackingUrl(trackingToken),
+      ...(session.matchName && { matchName: session.matchName }),
+    };
+
+    const contacts = await resolveVerifiedContacts(userId, contactIds);
+    const results = [];
+
+    for (const contact of contacts) {
+      try {
+        const delivery = await sendTemplatedSms({
+          userId,
+          to: contact.phone,
+          template,
+          language,
+          variables,
+        });
+        results.push({ ...serializeSmsDelivery(delivery), contactId: contact.id, error: null });
+      } catch (error: any) {
+        results.push({
+          id: null,
+          contactId: contact.id,
+          recipient: `******${contact.phone.slice(-4)}`,
+          status: "failed",
+          error: error.code || ERROR_CODES.SMS_SEND_FAILED,
+        });
+      }
+    }
+
+    const sent = results.filter((result) => result.status !== "failed").length;
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "SMS_SENT",
+        userId,
+        entityType: "SHARING_SESSION",
+        entityId: session.id,
+        action: "SAFETY_ALERTS_SENT",
+        metadata: { template, language, sent, failed: results.length - sent },
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"],
+      },
+    });
+
+    return reply.status(200).send({ success: true, data: results });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /sms/deliveries/:deliveryId
+ * Delivery status of a message the user sent
+ */
+export async function getSmsDeliveryRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: DeliveryParams }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const delivery = await prisma.smsDelivery.findUnique({
+      where: { id: request.params.deliveryId },
+    });
+
+    if (!delivery || delivery.userId !== userId) {
+      throw createError(ERROR_CODES.SMS_DELIVERY_NOT_FOUND, "SMS delivery not found.", 404);
+    }
+
+    return reply.status(200).send({ success: true, data: serializeSmsDelivery(delivery) });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /webhooks/sms/:provider
+ * Delivery receipts from the configured provider, authenticated by the shared
+ * token in the webhook URL
+ */
+export async function smsDeliveryReceiptRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Params: DeliveryReceiptParams; Querystring: DeliveryReceiptQuery }>,
+  reply: FastifyReply
+) {
+  try {
+    const expected = Buffer.from(process.env.SMS_DLR_TOKEN || "");
+    const provided = Buffer.from(
+      typeof request.query.token === "string" ? request.query.token : ""
+    );
+
+    // Byte lengths, not string lengths: timingSafeEqual throws on a multi-byte token
+    if (
+      expected.length === 0 ||
+      provided.length !== expected.length ||
+      !crypto.timingSafeEqual(provided, expected)
+    ) {
+      throw createError(ERROR_CODES.WEBHOOK_SIGNATURE_INVALID, "Invalid delivery receipt token.", 401);
+    }
+
+    const provider = getSmsProvider();
+
+    if (request.params.provider !== provider.name) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Unknown SMS provider.", 400);
+    }
+
+    const updated = await recordDeliveryReports(
+      provider.name,
+      provider.parseDeliveryReports(request.body)
+    );
+
+    return reply.status(200).send({ success: true, data: { updated } });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register SMS routes with Fastify
+ */
+export async function smsRoutes(fastify: FastifyInstance) {
+  fastify.post<{ Body: SafetyAlertBody }>(
+    "/sms/safety-alerts",
+    { preHandler: [authenticate] },
+    (request, reply) => sendSafetyAlertsRoute(fastify, request, reply)
+  );
+
+  fastify.get<{ Params: DeliveryParams }>(
+    "/sms/deliveries/:deliveryId",
+    { preHandler: [authenticate] },
+    (request, reply) => getSmsDeliveryRoute(fastify, request, reply)
+  );
+}
+
+/**
+ * Register the SMS delivery receipt webhook
+ * Scoped form parser: MSG91 posts receipts form-encoded
+ */
+export async function smsWebhookRoutes(fastify: FastifyInstance) {
+  fastify.addContentTypeParser(
+    "application/x-www-form-urlencoded",
+    { parseAs: "string" },
+    (request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  fastify.post<{ Params: DeliveryReceiptParams; Querystring: DeliveryReceiptQuery }>(
+    "/webhooks/sms/:provider",
+    (request, reply) => smsDeliveryReceiptRoute(fastify, request, reply)
+  );
+}
@@ -0,0 +1,483 @@
+/**
+ * Subscription Routes
+ * Plan listing, Razorpay order creation, checkout verification and the payment webhook
+ * DPDP Act 2023 Compliance - Entitlements change only after a signature-verified
+ * payment; every billing state change is audit logged
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { ageGate } from "../middleware/ageGate";
+import { ERROR_CODES, createError, handleError } from "../utils/errors";
+import { getEntitlements } from "../utils/entitlements";
+import {
+  CaptureResult,
+  capturePayment,
+  createOrderForPlan,
+  failPayment,
+  findPaymentByOrder,
+  getActivePlans,
+  refundPayment,
+  serializeEntitlements,
+  serializePlan,
+} from "../utils/billing";
+import {
+  LocalRazorpayStandIn,
+  getRazorpayGateway,
+  verifyPaymentSignature,
+  verifyWebhookSignature,
+} from "../utils/razorpay";
+
+const prisma = new PrismaClient();
+
+const createOrderSchema = z.object({
+  planId: z.string().min(1),
+});
+
+type CreateOrderBody = z.input<typeof createOrderSchema>;
+
+const verifyPaymentSchema = z.object({
+  razorpayOrderId: z.string().min(1),
+  razorpayPaymentId: z.string().min(1),
+  razorpaySignature: z.string().min(1),
+});
+
+type VerifyPaymentBody = z.input<typeof verifyPaymentSchema>;
+
+const standInPaymentSchema = z.object({
+  orderId: z.string().min(1),
+  outcome: z.enum(["captured", "failed"]).default("captured"),
+});
+
+type StandInPaymentBody = z.input<typeof standInPaymentSchema>;
+
+// Only the fields the handlers act on; Razorpay sends many more. Anything the
+// events we ignore carry is optional, so they are still acknowledged
+const razorpayWebhookEventSchema = z.object({
+  event: z.string().min(1),
+  payload: z
+    .object({
+      payment: z
+        .object({
+          entity: z.object({
+            id: z.string().min(1),
+            order_id: z.string().nullish(),
+            amount: z.number().int(),
+            method: z.string().nullish(),
+            error_description: z.string().nullish(),
+          }),
+        })
+        .optional(),
+      refund: z
+        .object({
+          entity: z.object({
+            id: z.string().min(1),
+            payment_id: z.string().min(1),
+          }),
+        })
+        .optional(),
+    })
+    .default({}),
+});
+
+const parseBody = <T extends z.ZodTypeAny>(schema: T, body: unknown, message: string) => {
+  const parsed = schema.safeParse(body);
+
+  if (!parsed.success) {
+    throw createError(
+      ERROR_CODES.VALIDATION_ERROR,
+      message,
+      400,
+      { fields: parsed.error.flatten().fieldErrors }
+    );
+  }
+
+  return parsed.data as z.output<T>;
+};
+
+/**
+ * Audit a billing transition triggered by the user or by a webhook
+ */
+const auditPayment = (
+  request: FastifyRequest,
+  eventType: string,
+  action: string,
+  userId: string,
+  entityId: string,
+  metadata: Record<string, any>
+) =>
+  prisma.auditLog.create({
+    data: {
+      eventType,
+      userId,
+      entityType: "PAYMENT",
+      entityId,
+      action,
+      metadata,
+      ipAddress: request.ip,
+      userAgent: request.headers["user-agent"],
+    },
+  });
+
+const auditCapture = (request: FastifyRequest, result: CaptureResult, source: string) =>
+  auditPayment(
+    request,
+    "PAYMENT_CAPTURED",
+    "SUBSCRIPTION_ACTIVATED",
+    result.payment.userId,
+    result.payment.id,
+    {
+      source,
+      planId: result.subscription.planId,
+      amountPaise: result.payment.amountPaise,
+      razorpayOrderId: result.payment.razorpayOrderId,
+      razorpayPaymentId: result.payment.razorpayPaymentId,
+      currentPeriodEnd: result.subscription.currentPeriodEnd?.toISOString(),
+    }
+  );
+
+/**
+ * GET /subscription
+ * Current plan, expiry and unlocked features
+ */
+export async function getSubscriptionRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const entitlements = await getEntitlements(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: serializeEntitlements(entitlements),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * GET /subscription/plans
+ * Purchasable plans with prices in paise
+ */
+export async function getPlansRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const plans = await getActivePlans();
+
+    return reply.status(200).send({
+      success: true,
+      data: plans.map(serializePlan),
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /subscription/create-order
+ * Create a Razorpay order for a plan; the client opens checkout with it
+ */
+export async function createOrderRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: CreateOrderBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const { planId } = parseBody(createOrderSchema, request.body, "Invalid plan.");
+    const order = await createOrderForPlan(userId, planId);
+
+    await auditPayment(
+      request,
+      "PAYMENT_ORDER_CREATED",
+      "USER_STARTED_CHECKOUT",
+      userId,
+      order.orderId,
+      { planId, amountPaise: order.amount }
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: order,
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /subscription/verify-payment
+ * Verify the checkout handler signature and activate the subscription
+ * The webhook may already have done so; capture is idempotent
+ */
+export async function verifyPaymentRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: VerifyPaymentBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const { razorpayOrderId, razorpayPaymentId, razorpaySignature } = parseBody(
+      verifyPaymentSchema,
+      request.body,
+      "Invalid payment confirmation."
+    );
+
+    const payment = await findPaymentByOrder(razorpayOrderId, userId);
+
+    if (!verifyPaymentSignature(razorpayOrderId, razorpayPaymentId, razorpaySignature)) {
+      await auditPayment(
+        request,
+        "PAYMENT_VERIFICATION_FAILED",
+        "SIGNATURE_MISMATCH",
+        userId,
+        payment.id,
+        { razorpayOrderId, razorpayPaymentId }
+      );
+
+      throw createError(
+        ERROR_CODES.PAYMENT_VERIFICATION_FAILED,
+        "We could not verify this payment. Contact support if money was debited.",
+        400
+      );
+    }
+
+    const result = await capturePayment({ orderId: razorpayOrderId, paymentId: razorpayPaymentId });
+
+    if (!result.alreadyCaptured) {
+      await auditCapture(request, result, "checkout");
+    }
+
+    const entitlements = await getEntitlements(userId);
+
+    return reply.status(200).send({
+      success: true,
+      data: { success: true, ...serializeEntitlements(entitlements) },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /subscription/stand-in/pay
+ * Local Razorpay stand-in only: complete an order as the checkout widget would,
+ * then deliver the signed webhook to ourselves
+ */
+export async function standInPaymentRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest<{ Body: StandInPaymentBody }>,
+  reply: FastifyReply
+) {
+  try {
+    await request.jwtVerify();
+    const userId = (request.user as any).userId;
+
+    const { orderId, outcome } = parseBody(standInPaymentSchema, request.body, "Invalid order.");
+    await findPaymentByOrder(orderId, userId);
+
+    const standIn = getRazorpayGateway() as LocalRazorpayStandIn;
+    const { webhook, ...checkoutResponse } = standIn.completePayment(orderId, outcome);
+
+    await fastify.inject({
+      method: "POST",
+      url: "/webhooks/razorpay",
+      headers: {
+        "content-type": "application/json",
+        "x-razorpay-event-id": webhook.eventId,
+        "x-razorpay-signature": webhook.signature,
+      },
+      payload: webhook.body,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: { outcome, ...checkoutResponse },
+    });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * POST /webhooks/razorpay
+ * Signature-verified, idempotent on X-Razorpay-Event-Id
+ */
+export async function razorpayWebhookRoute(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  try {
+    const rawBody = (request as any).rawBody as string | undefined;
+    const signature = request.headers["x-razorpay-signature"];
+    const eventId = request.headers["x-razorpay-event-id"];
+
+    if (!rawBody || typeof signature !== "string" || !verifyWebhookSignature(rawBody, signature)) {
+      throw createError(ERROR_CODES.WEBHOOK_SIGNATURE_INVALID, "Invalid webhook signature.", 401);
+    }
+
+    if (typeof eventId !== "string" || !eventId) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Missing X-Razorpay-Event-Id header.", 400);
+    }
+
+    const event = parseBody(razorpayWebhookEventSchema, request.body, "Invalid webhook event.");
+
+    const alreadyProcessed = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+
+    if (alreadyProcessed) {
+      return reply.status(200).send({ success: true, data: { duplicate: true } });
+    }
+
+    const paymentEntity = event.payload.payment?.entity;
+
+    switch (event.event) {
+      case "payment.captured":
+      case "order.paid": {
+        if (!paymentEntity?.order_id) break;
+
+        const result = await capturePayment({
+          orderId: paymentEntity.order_id,
+          paymentId: paymentEntity.id,
+          method: paymentEntity.method,
+          amountPaise: paymentEntity.amount,
+        });
+
+        if (!result.alreadyCaptured) {
+          await auditCapture(request, result, "webhook");
+        }
+        break;
+      }
+
+      case "payment.failed": {
+        if (!paymentEntity?.order_id) break;
+
+        const failed = await failPayment(
+          paymentEntity.order_id,
+          paymentEntity.id,
+          paymentEntity.error_description
+        );
+
+        if (failed) {
+          await auditPayment(
+            request,
+            "PAYMENT_FAILED",
+            "PAYMENT_DECLINED",
+            failed.userId,
+            failed.id,
+            { razorpayOrderId: failed.razorpayOrderId, reason: failed.failureReason }
+          );
+        }
+        break;
+      }
+
+      case "refund.processed": {
+        const refundEntity = event.payload.refund?.entity;
+        if (!refundEntity) break;
+
+        const refunded = await refundPayment(refundEntity.payment_id);
+
+        if (refunded) {
+          await auditPayment(
+            request,
+            "PAYMENT_REFUNDED",
+            "SUBSCRIPTION_REVOKED",
+            refunded.userId,
+            refunded.id,
+            { razorpayPaymentId: refunded.razorpayPaymentId, refundId: refundEntity.id }
+          );
+        }
+        break;
+      }
+
+      default:
+        // Acknowledge events we do not subscribe to so Razorpay stops retrying
+        break;
+    }
+
+    // Recorded after processing so a crash mid-way lets Razorpay's retry finish the job;
+    // the handlers above are idempotent, a concurrent duplicate only hits the unique key
+    await prisma.webhookEvent
+      .create({ data: { id: eventId, eventType: event.event } })
+      .catch((error: any) => {
+        if (error.code !== "P2002") throw error;
+      });
+
+    return reply.status(200).send({ success: true, data: { duplicate: false } });
+  } catch (error: any) {
+    return handleError(error, request, reply);
+  }
+}
+
+/**
+ * Register subscription routes with Fastify
+ */
+export async function subscriptionRoutes(fastify: FastifyInstance) {
+  fastify.get("/subscription/plans", (request, reply) => getPlansRoute(fastify, request, reply));
+
+  fastify.get(
+    "/subscription",
+    { preHandler: [authenticate] },
+    (request, reply) => getSubscriptionRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: CreateOrderBody }>(
+    "/subscription/create-order",
+    { preHandler: [authenticate, ageGate] },
+    (request, reply) => createOrderRoute(fastify, request, reply)
+  );
+
+  fastify.post<{ Body: VerifyPaymentBody }>(
+    "/subscription/verify-payment",
+    { preHandler: [authenticate] },
+    (request, reply) => verifyPaymentRoute(fastify, request, reply)
+  );
+
+  // Never reachable against live Razorpay
+  if (getRazorpayGateway().mode === "stand-in") {
+    fastify.post<{ Body: StandInPaymentBody }>(
+      "/subscription/stand-in/pay",
+      { preHandler: [authenticate] },
+      (request, reply) => standInPaymentRoute(fastify, request, reply)
+    );
+  }
+}
+
+/**
+ * Register the Razorpay webhook
+ * Scoped JSON parser keeps the raw body for signature verification
+ */
+export async function razorpayWebhookRoutes(fastify: FastifyInstance) {
+  fastify.addContentTypeParser(
+    "application/json",
+    { parseAs: "string" },
+    (request, body, done) => {
+      (request as any).rawBody = body;
+
+      try {
+        done(null, body ? JSON.parse(body as string) : {});
+      } catch (error: any) {
+        error.statusCode = 400;
+        done(error, undefined);
+      }
+    }
+  );
+
+  fastify.post("/webhooks/razorpay", (request, reply) =>
+    razorpayWebhookRoute(fastify, request, reply)
+  );
+}
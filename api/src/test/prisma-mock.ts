@@ -0,0 +1,229 @@
+/**
+ * Prisma Test Double
+ * An in-memory stand-in for PrismaClient: each model is a list of rows and the
+ * delegate methods the services use filter and update it the way the database
+ * would, so guarded updates behave as they do in production
+ * Install it in a test file with
+ *   vi.mock("@prisma/client", async (importOriginal) =>
+ *     (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal()))
+ */
+
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+import { vi } from "vitest";
+
+export type RowData = Record<string, unknown>;
+
+export type MockRow = RowData & { id: string; createdAt: Date };
+
+type Where = Record<string, unknown>;
+
+interface FindArgs {
+  where?: Where;
+  select?: Record<string, boolean | FindArgs>;
+  include?: Record<string, boolean>;
+}
+
+export type ModelKey = Uncapitalize<Prisma.ModelName>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+// Dates compare by time; numbers and strings with their own kind only
+const compare = (value: unknown, operand: unknown): number | null => {
+  const a = value instanceof Date ? value.getTime() : value;
+  const b = operand instanceof Date ? operand.getTime() : operand;
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+};
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  if (condition instanceof Date) return compare(value, condition) === 0;
+  if (!isPlainObject(condition)) return value === condition;
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const order = compare(value, operand);
+
+    switch (operator) {
+      case "equals":
+        return matchesValue(value, operand);
+      case "not":
+        return !matchesValue(value, operand);
+      case "in":
+        return Array.isArray(operand) && operand.some((item) => matchesValue(value, item));
+      case "lt":
+        return order !== null && order < 0;
+      case "lte":
+        return order !== null && order <= 0;
+      case "gt":
+        return order !== null && order > 0;
+      case "gte":
+        return order !== null && order >= 0;
+      default:
+        throw new Error(`Unsupported filter "${operator}" in the Prisma test double`);
+    }
+  });
+};
+
+export const matchesWhere = (row: RowData, where: Where = {}): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    const branches = Array.isArray(condition) ? (condition as Where[]) : [];
+
+    if (field === "OR") return branches.some((branch) => matchesWhere(row, branch));
+    if (field === "AND") return branches.every((branch) => matchesWhere(row, branch));
+    if (field === "NOT") return !matchesWhere(row, condition as Where);
+    return matchesValue(row[field] ?? null, condition);
+  });
+
+const applyData = (row: RowData, data: RowData): void => {
+  for (const [field, value] of Object.entries(data)) {
+    if (!isPlainObject(value)) {
+      if (value !== undefined) row[field] = value;
+      continue;
+    }
+
+    const current = row[field];
+
+    if ("increment" in value) row[field] = Number(current ?? 0) + Number(value.increment);
+    else if ("decrement" in value) row[field] = Number(current ?? 0) - Number(value.decrement);
+    else if ("push" in value) row[field] = [...(Array.isArray(current) ? current : []), value.push];
+    else if ("set" in value) row[field] = value.set;
+    else row[field] = value;
+  }
+};
+
+const models = new Map<string, MockModel>();
+
+// To-one relations only: "user" resolves userId against the user model
+const findRelated = (row: MockRow, relation: string): MockRow | undefined =>
+  models.get(relation)?.rows.find((related) => related.id === row[`${relation}Id`]);
+
+const include = (row: MockRow, relations: Record<string, boolean>): RowData => ({
+  ...row,
+  ...Object.fromEntries(
+    Object.keys(relations).map((relation) => [relation, findRelated(row, relation) ?? null])
+  ),
+});
+
+const select = (row: MockRow | undefined, args: FindArgs = {}): RowData | null => {
+  if (!row) return null;
+  if (args.include) return include(row, args.include);
+
+  const fields = args.select;
+  if (!fields) return { ...row };
+
+  return Object.fromEntries(
+    Object.keys(fields)
+      .filter((field) => fields[field])
+      .map((field) => {
+        const nested = fields[field];
+        const value = isPlainObject(nested) ? select(findRelated(row, field), nested) : row[field];
+        return [field, value];
+      })
+  );
+};
+
+/**
+ * One model's rows and the delegate methods over them
+ * Rows get an id and createdAt; findFirst returns the newest match, as the
+ * services' createdAt-descending lookups expect
+ */
+export const createModel = (defaults: () => RowData = () => ({})) => {
+  const rows: MockRow[] = [];
+
+  const find = (where?: Where) => rows.filter((row) => matchesWhere(row, where));
+
+  return {
+    rows,
+    create: vi.fn(async (args: { data: RowData }): Promise<MockRow> => {
+      const row: MockRow = { id: crypto.randomUUID(), createdAt: new Date(), ...defaults() };
+      applyData(row, args.data);
+      rows.push(row);
+      return { ...row };
+    }),
+    findUnique: vi.fn(async (args: FindArgs) => select(find(args.where)[0], args)),
+    findUniqueOrThrow: vi.fn(async (args: FindArgs) => {
+      const row = find(args.where)[0];
+      if (!row) throw new Error("No record found");
+      return select(row, args);
+    }),
+    findFirst: vi.fn(async (args: FindArgs = {}) => select(find(args.where).slice(-1)[0], args)),
+    findMany: vi.fn(async (args: FindArgs = {}) =>
+      find(args.where).map((row) => select(row, args))
+    ),
+    count: vi.fn(async (args: { where?: Where } = {}) => find(args.where).length),
+    update: vi.fn(async (args: { where: Where; data: RowData }): Promise<MockRow> => {
+      const row = find(args.where)[0];
+      if (!row) throw new Error("Record to update not found");
+      applyData(row, args.data);
+      return { ...row };
+    }),
+    updateMany: vi.fn(async (args: { where?: Where; data: RowData }) => {
+      const matched = find(args.where);
+      matched.forEach((row) => applyData(row, args.data));
+      return { count: matched.length };
+    }),
+    deleteMany: vi.fn(async (args: { where?: Where } = {}) => {
+      const matched = find(args.where);
+      matched.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: matched.length };
+    }),
+  };
+};
+
+export type MockModel = ReturnType<typeof createModel>;
+
+export type PrismaMock = Record<ModelKey, MockModel> & {
+  $transaction: (operations: unknown) => Promise<unknown>;
+};
+
+const transaction = async (operations: unknown): Promise<unknown> =>
+  typeof operations === "function" ? operations(prismaMock) : Promise.all(operations as unknown[]);
+
+/**
+ * The shared client every `new PrismaClient()` returns; models appear on first use
+ */
+export const prismaMock = new Proxy({} as PrismaMock, {
+  get: (_target, property) => {
+    if (property === "$transaction") return transaction;
+    if (typeof property !== "string" || property.startsWith("$") || property === "then") {
+      return undefined;
+    }
+
+    if (!models.has(property)) models.set(property, createModel());
+    return models.get(property);
+  },
+});
+
+/**
+ * Swap in a model with its own row defaults (call before the rows are created)
+ */
+export const defineModel = (name: ModelKey, defaults: () => RowData): MockModel => {
+  const model = createModel(defaults);
+  models.set(name, model);
+  return model;
+};
+
+/**
+ * Insert a row and get it back typed with the fields the test set
+ */
+export const seedRow = async <T extends RowData>(model: ModelKey, data: T) =>
+  ({ ...(await prismaMock[model].create({ data })), ...data }) as MockRow & T;
+
+/**
+ * Drop every row and recorded call; for beforeEach
+ */
+export const resetPrismaMock = (): void => {
+  models.clear();
+};
+
+/**
+ * Module factory for vi.mock("@prisma/client"): the real enums and Prisma
+ * namespace, with PrismaClient replaced by the test double
+ */
+export const mockPrismaModule = (actual: Record<string, unknown>) => ({
+  ...actual,
+  PrismaClient: vi.fn(() => prismaMock),
+});
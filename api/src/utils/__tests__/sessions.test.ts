@@ -0,0 +1,141 @@
+import Fastify, { FastifyInstance } from "fastify";
+import jwt from "@fastify/jwt";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockRow, defineModel, prismaMock, resetPrismaMock, seedRow } from "../../test/prisma-mock";
+import { disconnectSession, disconnectUser } from "../../routes/chat-gateway";
+import {
+  isAccessTokenTrusted,
+  issueSession,
+  revokeAllSessions,
+  rotateRefreshToken,
+} from "../sessions";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+vi.mock("../../routes/chat-gateway", () => ({
+  disconnectSession: vi.fn(),
+  disconnectUser: vi.fn(),
+}));
+
+describe("refresh token rotation", () => {
+  let app: FastifyInstance;
+  let user: MockRow & { phone: string; verificationLevel: number; isActive: boolean };
+
+  const context = { deviceInfo: "test-device", ipAddress: "127.0.0.1" };
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    app.register(jwt, { secret: "test-secret" });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    resetPrismaMock();
+    vi.mocked(disconnectSession).mockClear();
+    vi.mocked(disconnectUser).mockClear();
+    defineModel("session", () => ({ isRevoked: false, rotatedAt: null }));
+    user = await seedRow("user", {
+      phone: "+919876543210",
+      verificationLevel: 1,
+      isActive: true,
+    });
+  });
+
+  const signIn = () => issueSession(app, user, context);
+
+  const rotate = (refreshToken: string) => rotateRefreshToken(app, refreshToken, context);
+
+  it("exchanges a refresh token for a new pair in the same family", async () => {
+    const first = await signIn();
+    const second = await rotate(first.refreshToken);
+
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(prismaMock.session.rows).toHaveLength(2);
+    expect(prismaMock.session.rows[0].rotatedAt).toBeInstanceOf(Date);
+  });
+
+  it("revokes the whole family when a rotated token is presented again", async () => {
+    const first = await signIn();
+    const second = await rotate(first.refreshToken);
+
+    await expect(rotate(first.refreshToken)).rejects.toMatchObject({
+      code: "REFRESH_TOKEN_REUSED",
+      statusCode: 401,
+    });
+
+    expect(prismaMock.session.rows.every((row) => row.isRevoked)).toBe(true);
+    expect(prismaMock.auditLog.rows[0]).toMatchObject({
+      eventType: "SESSION_REUSE_DETECTED",
+      entityId: first.sessionId,
+    });
+    expect(disconnectSession).toHaveBeenCalledWith(first.sessionId);
+
+    // The legitimate holder of the newer token is signed out too
+    await expect(rotate(second.refreshToken)).rejects.toMatchObject({
+      code: "REFRESH_TOKEN_INVALID",
+    });
+  });
+
+  it("lets only one of two concurrent refreshes with the same token through", async () => {
+    const { refreshToken } = await signIn();
+
+    const results = await Promise.allSettled([rotate(refreshToken), rotate(refreshToken)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("does not accept an access token as a refresh token", async () => {
+    const { accessToken } = await signIn();
+
+    await expect(rotate(accessToken)).rejects.toMatchObject({ code: "REFRESH_TOKEN_INVALID" });
+  });
+
+  it("trusts access tokens only while their family is signed in", async () => {
+    const { accessToken, refreshToken } = await signIn();
+    const payload = app.jwt.verify<{ userId: string; sid: string }>(accessToken);
+
+    expect(await isAccessTokenTrusted(payload)).toBe(true);
+    expect(await isAccessTokenTrusted({ ...payload, sid: undefined })).toBe(false);
+    expect(await isAccessTokenTrusted({ ...payload, type: "refresh" })).toBe(false);
+
+    // Replaying the rotated refresh token signs the family out
+    await rotate(refreshToken);
+    await rotate(refreshToken).catch(() => undefined);
+
+    expect(await isAccessTokenTrusted(payload)).toBe(false);
+  });
+
+  it("signs a suspended user out of refresh and of the access tokens they hold", async () => {
+    const { accessToken, refreshToken } = await signIn();
+    const payload = app.jwt.verify<{ userId: string; sid: string }>(accessToken);
+
+    await prismaMock.user.update({ where: { id: user.id }, data: { isActive: false } });
+
+    await expect(rotate(refreshToken)).rejects.toMatchObject({
+      code: "ACCOUNT_SUSPENDED",
+      statusCode: 403,
+    });
+    expect(await isAccessTokenTrusted(payload)).toBe(false);
+  });
+
+  it("closes the chat sockets of every session when signing out everywhere", async () => {
+    const { refreshToken } = await signIn();
+
+    expect(await revokeAllSessions(user.id, "logout")).toBe(1);
+    expect(disconnectUser).toHaveBeenCalledWith(user.id);
+    await expect(rotate(refreshToken)).rejects.toMatchObject({ code: "REFRESH_TOKEN_INVALID" });
+  });
+
+  it("never verifies a refresh token with the access token key", async () => {
+    const { refreshToken } = await signIn();
+
+    expect(() => app.jwt.verify(refreshToken)).toThrow();
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { findUncoveredUserModels, findUserOwnedModels } from "../user-data-coverage";
+
+// The real Prisma namespace supplies the schema; nothing here touches a database
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+describe("user data coverage", () => {
+  afterEach(() => {
+    vi.doUnmock("../data-export");
+    vi.doUnmock("../account-erasure");
+    vi.resetModules();
+  });
+
+  it("finds every model in the schema holding a user's data", () => {
+    const owned = findUserOwnedModels();
+
+    // Owned through another model rather than User directly
+    expect(owned).toEqual(
+      expect.arrayContaining(["Message", "SharingLocationPoint", "GrievanceResponse", "Payment"])
+    );
+    // Keyed by phone or a plain id, with no relation to follow
+    expect(owned).toEqual(expect.arrayContaining(["OtpRequest", "AuditLog"]));
+    // Reference data shared by everyone
+    expect(owned).not.toContain("Plan");
+    expect(owned).not.toContain("ConsentNotice");
+    expect(owned).not.toContain("WebhookEvent");
+  });
+
+  it("has every user-owned model covered by the export and the erasure purge", () => {
+    expect(findUncoveredUserModels()).toEqual({
+      missingFromExport: [],
+      missingFromErasure: [],
+      notCascading: [],
+    });
+  });
+
+  it("reports a model left out of the export or the purge", async () => {
+    vi.doMock("../data-export", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("../data-export")>();
+      return {
+        ...actual,
+        EXPORTED_MODELS: actual.EXPORTED_MODELS.filter((model) => model !== "Session"),
+      };
+    });
+    vi.doMock("../account-erasure", async (importOriginal) => {
+      const actual = await importOriginal<typeof import("../account-erasure")>();
+      const { SmsDelivery, ...handling } = actual.ERASURE_HANDLING;
+      // A tombstone survives the user row, so its relation does not cascade
+      return {
+        ...actual,
+        ERASURE_HANDLING: { ...handling, AccountDeletionRequest: "cascade" },
+      };
+    });
+    vi.resetModules();
+
+    const coverage = await import("../user-data-coverage");
+
+    expect(coverage.findUncoveredUserModels()).toMatchObject({
+      missingFromExport: ["Session"],
+      missingFromErasure: ["SmsDelivery"],
+      notCascading: ["AccountDeletionRequest"],
+    });
+  });
+});
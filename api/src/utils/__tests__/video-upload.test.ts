@@ -0,0 +1,158 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineModel, prismaMock, resetPrismaMock } from "../../test/prisma-mock";
+import { StoredObject, registerStorageDriver } from "../media-storage";
+import {
+  appendVideoChunk,
+  claimCompletedUpload,
+  createVideoUpload,
+  discardVideoUpload,
+  findActiveUpload,
+  readVideoUpload,
+} from "../video-upload";
+
+vi.mock("@prisma/client", async (importOriginal) =>
+  (await import("../../test/prisma-mock")).mockPrismaModule(await importOriginal())
+);
+
+const objects = new Map<string, StoredObject>();
+
+const USER_ID = "user-1";
+
+// An MP4 header ("ftyp" box) padded to the given length
+const mp4 = (length: number): Buffer => {
+  const clip = Buffer.alloc(length, 7);
+  clip.write("\x00\x00\x00\x20ftypisom", 0, "latin1");
+  return clip;
+};
+
+describe("chunked video selfie upload", () => {
+  const clip = mp4(5000);
+
+  beforeAll(() => {
+    registerStorageDriver("memory", () => ({
+      put: async (key, body, contentType) => void objects.set(key, { body, contentType }),
+      get: async (key) => objects.get(key) ?? null,
+      delete: async (key) => void objects.delete(key),
+    }));
+    vi.stubEnv("MEDIA_STORAGE_DRIVER", "memory");
+  });
+
+  beforeEach(() => {
+    resetPrismaMock();
+    objects.clear();
+    defineModel("videoSelfieUpload", () => ({
+      offset: 0,
+      chunkKeys: [],
+      status: "uploading",
+      completedAt: null,
+    }));
+  });
+
+  const start = () => createVideoUpload(USER_ID, "challenge-1", clip.length);
+
+  const send = async (uploadId: string, offset: number, chunk: Buffer) =>
+    appendVideoChunk(await findActiveUpload(USER_ID, uploadId), offset, chunk);
+
+  it("reassembles the clip from chunks sent at the advertised offsets", async () => {
+    const upload = await start();
+
+    let current = await send(upload.id, 0, clip.subarray(0, 2000));
+    expect(current.offset).toBe(2000);
+
+    current = await send(upload.id, 2000, clip.subarray(2000, 4000));
+    current = await send(upload.id, 4000, clip.subarray(4000));
+
+    expect(current.offset).toBe(clip.length);
+    expect(await readVideoUpload(await claimCompletedUpload(USER_ID, upload.id))).toEqual(clip);
+  });
+
+  it("refuses a retried chunk that already arrived and returns the offset to resume from", async () => {
+    const upload = await start();
+    await send(upload.id, 0, clip.subarray(0, 2000));
+
+    await expect(send(upload.id, 0, clip.subarray(0, 2000))).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_OFFSET_MISMATCH",
+      statusCode: 409,
+      details: { offset: 2000 },
+    });
+  });
+
+  it("refuses a chunk that would leave a gap", async () => {
+    const upload = await start();
+
+    await expect(send(upload.id, 2000, clip.subarray(2000, 4000))).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_OFFSET_MISMATCH",
+      details: { offset: 0 },
+    });
+  });
+
+  it("lands only one of two chunks racing for the same offset", async () => {
+    const upload = await start();
+    const stale = await findActiveUpload(USER_ID, upload.id);
+
+    const results = await Promise.allSettled([
+      appendVideoChunk(stale, 0, clip.subarray(0, 2000)),
+      appendVideoChunk(stale, 0, clip.subarray(0, 2000)),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(prismaMock.videoSelfieUpload.rows[0]).toMatchObject({ offset: 2000 });
+    expect(prismaMock.videoSelfieUpload.rows[0].chunkKeys).toHaveLength(1);
+    // The losing request removes the chunk it stored
+    expect(objects.size).toBe(1);
+  });
+
+  it("refuses a chunk that runs past the declared length", async () => {
+    const upload = await start();
+
+    await expect(send(upload.id, 0, Buffer.concat([clip, Buffer.alloc(1)]))).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+    });
+  });
+
+  it("rejects a first chunk that is not a video", async () => {
+    const upload = await start();
+
+    await expect(send(upload.id, 0, Buffer.alloc(2000, 1))).rejects.toMatchObject({
+      code: "INVALID_VIDEO_FORMAT",
+    });
+  });
+
+  it("will not verify an unfinished upload, or a finished one twice", async () => {
+    const upload = await start();
+    await send(upload.id, 0, clip.subarray(0, 2000));
+
+    await expect(claimCompletedUpload(USER_ID, upload.id)).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_INCOMPLETE",
+      details: { offset: 2000, size: clip.length },
+    });
+
+    await send(upload.id, 2000, clip.subarray(2000));
+    await claimCompletedUpload(USER_ID, upload.id);
+
+    await expect(claimCompletedUpload(USER_ID, upload.id)).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_INCOMPLETE",
+    });
+  });
+
+  it("deletes the chunks once the upload is discarded", async () => {
+    const upload = await start();
+    await send(upload.id, 0, clip);
+
+    await discardVideoUpload(await claimCompletedUpload(USER_ID, upload.id));
+
+    expect(objects.size).toBe(0);
+    await expect(findActiveUpload(USER_ID, upload.id)).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_NOT_FOUND",
+    });
+  });
+
+  it("hides another user's upload", async () => {
+    const upload = await start();
+
+    await expect(findActiveUpload("user-2", upload.id)).rejects.toMatchObject({
+      code: "VIDEO_UPLOAD_NOT_FOUND",
+      statusCode: 404,
+    });
+  });
+});
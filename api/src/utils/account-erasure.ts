@@ -0,0 +1,450 @@
+/**
+ * Account Erasure Service
+ * Deletion requests with a grace period (logging in cancels them) and the
+ * scheduled purge that removes the account, its media and its identifiers
+ * DPDP Act 2023 Compliance - Right to erasure (Section 12); the only record left
+ * behind is a tombstone audit entry with counts, never personal data
+ */
+
+import { AccountDeletionRequest, Prisma, PrismaClient } from "@prisma/client";
+import { addDays, subMinutes } from "date-fns";
+import { decryptWithKMS } from "./kms-encryption";
+import { revokeDigiLockerToken } from "./digilocker";
+import { getStorage } from "./media-storage";
+import { EvidenceMessage } from "./moderation";
+import { revokeAllSessions } from "./sessions";
+import { collectVideoUploadKeys } from "./video-upload";
+
+const prisma = new PrismaClient();
+
+// A purge that died mid-way leaves the row "processing"; retry it after this
+const STALE_PURGE_MINUTES = 60;
+
+export type DeletionCancelSource = "login" | "user";
+
+/**
+ * How the purge disposes of each model holding a user's data, checked against
+ * the schema by findUncoveredUserModels (utils/user-data-coverage.ts)
+ * cascade: deleted with the user row through onDelete: Cascade
+ * deleted / anonymised: handled explicitly in purgeAccount
+ * tombstone: kept as proof of erasure with the user reference nulled
+ */
+export const ERASURE_HANDLING = {
+  User: "deleted",
+  Profile: "cascade",
+  Photo: "cascade",
+  Consent: "cascade",
+  LocationHistory: "cascade",
+  SharingSession: "cascade",
+  SharingLocationPoint: "cascade",
+  EmergencyContact: "cascade",
+  SafetyCheckIn: "cascade",
+  SmsDelivery: "cascade",
+  Session: "cascade",
+  OAuthState: "cascade",
+  OtpRequest: "deleted",
+  LivenessChallenge: "cascade",
+  VideoSelfieUpload: "cascade",
+  Like: "cascade",
+  Pass: "cascade",
+  Match: "cascade",
+  Conversation: "cascade",
+  Message: "cascade",
+  ScreenCaptureEvent: "cascade",
+  Block: "cascade",
+  Report: "cascade", // Reports filed; reports received are kept with the reference nulled
+  Subscription: "cascade",
+  Payment: "cascade",
+  DataExport: "cascade",
+  AccountDeletionRequest: "tombstone",
+  Grievance: "cascade",
+  GrievanceResponse: "cascade",
+  AuditLog: "anonymised",
+} as const;
+
+export type ErasureHandling = typeof ERASURE_HANDLING[keyof typeof ERASURE_HANDLING];
+
+export interface AuditContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const getDeletionGraceDays = (): number =>
+  parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || "14", 10);
+
+export const findPendingDeletion = (userId: string) =>
+  prisma.accountDeletionRequest.findFirst({
+    where: { userId, status: "pending" },
+    orderBy: { createdAt: "desc" },
+  });
+
+export const serializeDeletionRequest = (deletion: AccountDeletionRequest) => ({
+  id: deletion.id,
+  status: deletion.status,
+  requestedAt: deletion.createdAt,
+  scheduledFor: deletion.scheduledFor,
+  cancelledAt: deletion.cancelledAt,
+});
+
+/**
+ * Schedule the account for erasure and sign it out everywhere
+ * Repeating the request returns the pending one unchanged
+ */
+export const requestAccountDeletion = async (
+  userId: string,
+  reason?: string
+): Promise<AccountDeletionRequest> => {
+  const pending = await findPendingDeletion(userId);
+
+  if (pending) {
+    return pending;
+  }
+
+  const scheduledFor = addDays(new Date(), getDeletionGraceDays());
+
+  const [deletion] = await prisma.$transaction([
+    prisma.accountDeletionRequest.create({
+      data: { userId, reason, scheduledFor },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledFor: scheduledFor },
+    }),
+  ]);
+
+  await revokeAllSessions(userId, "account_deletion");
+
+  return deletion;
+};
+
+/**
+ * Cancel a pending erasure; returns false when there was nothing to cancel
+ */
+export const cancelAccountDeletion = async (
+  userId: string,
+  via: DeletionCancelSource,
+  context: AuditContext = {}
+): Promise<boolean> => {
+  const pending = await findPendingDeletion(userId);
+
+  if (!pending) {
+    return false;
+  }
+
+  // Guarded update: a purge that already claimed the request wins
+  const { count } = await prisma.accountDeletionRequest.updateMany({
+    where: { id: pending.id, status: "pending" },
+    data: { status: "cancelled", cancelledAt: new Date(), cancelledVia: via },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledFor: null },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "ACCOUNT_DELETION_CANCELLED",
+      userId,
+      entityType: "ACCOUNT_DELETION_REQUEST",
+      entityId: pending.id,
+      action: via === "login" ? "CANCELLED_BY_LOGIN" : "CANCELLED_BY_USER",
+      metadata: { scheduledFor: pending.scheduledFor.toISOString() },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  return true;
+};
+
+/**
+ * Storage keys owned by the account or by rows its deletion cascades into
+ */
+const collectMediaKeys = async (userId: string): Promise<string[]> => {
+  const [photos, messages, reports, dataExports, videoUploadKeys] = await Promise.all([
+    prisma.photo.findMany({ where: { profile: { userId } } }),
+    prisma.message.findMany({
+      where: {
+        mediaKey: { not: null },
+        conversation: { match: { OR: [{ userAId: userId }, { userBId: userId }] } },
+      },
+      select: { mediaKey: true, blurredMediaKey: true },
+    }),
+    // Reports about the user outlive the account (reportedUserId is nulled), evidence included
+    prisma.report.findMany({
+      where: { reporterId: userId },
+      select: { evidence: true },
+    }),
+    prisma.dataExport.findMany({
+      where: { userId },
+      select: { archiveKey: true, summaryKey: true },
+    }),
+    collectVideoUploadKeys(userId),
+  ]);
+
+  const keys = [
+    ...photos.flatMap((photo) => [photo.originalKey, photo.thumbnailKey, photo.blurredKey]),
+    ...messages.flatMap((message) => [message.mediaKey, message.blurredMediaKey]),
+    ...reports.flatMap((report) =>
+      ((report.evidence as EvidenceMessage[] | null) ?? []).map((message) => message.mediaKey)
+    ),
+    ...dataExports.flatMap((dataExport) => [dataExport.archiveKey, dataExport.summaryKey]),
+    ...videoUploadKeys,
+  ];
+
+  return keys.filter((key): key is string => Boolean(key));
+};
+
+/**
+ * Row counts for the tombstone (what was erased, not whose it was)
+ */
+const countAccountRecords = async (userId: string) => {
+  const [
+    consents,
+    locationHistory,
+    sessions,
+    photos,
+    likes,
+    passes,
+    matches,
+    messages,
+    blocks,
+    reports,
+    subscriptions,
+    payments,
+    dataExports,
+    grievances,
+    sharingSessions,
+    safetyCheckIns,
+    smsDeliveries,
+    emergencyContacts,
+    screenCaptures,
+    livenessChallenges,
+    videoSelfieUploads,
+    oauthStates,
+  ] = await Promise.all([
+    prisma.consent.count({ where: { userId } }),
+    prisma.locationHistory.count({ where: { userId } }),
+    prisma.session.count({ where: { userId } }),
+    prisma.photo.count({ where: { profile: { userId } } }),
+    prisma.like.count({ where: { OR: [{ fromUserId: userId }, { toUserId: userId }] } }),
+    prisma.pass.count({ where: { OR: [{ fromUserId: userId }, { toUserId: userId }] } }),
+    prisma.match.count({ where: { OR: [{ userAId: userId }, { userBId: userId }] } }),
+    prisma.message.count({ where: { senderId: userId } }),
+    prisma.block.count({ where: { OR: [{ blockerId: userId }, { blockedId: userId }] } }),
+    prisma.report.count({ where: { reporterId: userId } }),
+    prisma.subscription.count({ where: { userId } }),
+    prisma.payment.count({ where: { userId } }),
+    prisma.dataExport.count({ where: { userId } }),
+    prisma.grievance.count({ where: { userId } }),
+    prisma.sharingSession.count({ where: { userId } }),
+    prisma.safetyCheckIn.count({ where: { userId } }),
+    prisma.smsDelivery.count({ where: { userId } }),
+    prisma.emergencyContact.count({ where: { userId } }),
+    prisma.screenCaptureEvent.count({ where: { userId } }),
+    prisma.livenessChallenge.count({ where: { userId } }),
+    prisma.videoSelfieUpload.count({ where: { userId } }),
+    prisma.oAuthState.count({ where: { userId } }),
+  ]);
+
+  return {
+    consents,
+    locationHistory,
+    sessions,
+    photos,
+    likes,
+    passes,
+    matches,
+    messages,
+    blocks,
+    reports,
+    subscriptions,
+    payments,
+    dataExports,
+    grievances,
+    sharingSessions,
+    safetyCheckIns,
+    smsDeliveries,
+    emergencyContacts,
+    screenCaptures,
+    livenessChallenges,
+    videoSelfieUploads,
+    oauthStates,
+  };
+};
+
+/**
+ * Revoke the stored DigiLocker tokens with MeitY before the ciphertext is deleted
+ * The refresh token goes first: it is the grant itself
+ */
+const revokeStoredDigiLockerToken = async (user: {
+  digiLockerToken: string | null;
+  digiLockerTokenIv: string | null;
+  digiLockerTokenTag: string | null;
+  digiLockerRefreshToken: string | null;
+  digiLockerRefreshTokenIv: string | null;
+  digiLockerRefreshTokenTag: string | null;
+}): Promise<boolean | null> => {
+  if (!user.digiLockerToken || !user.digiLockerTokenIv || !user.digiLockerTokenTag) {
+    return null;
+  }
+
+  try {
+    let refreshRevoked = true;
+
+    if (
+      user.digiLockerRefreshToken &&
+      user.digiLockerRefreshTokenIv &&
+      user.digiLockerRefreshTokenTag
+    ) {
+      const refreshToken = await decryptWithKMS(
+        user.digiLockerRefreshToken,
+        user.digiLockerRefreshTokenIv,
+        user.digiLockerRefreshTokenTag
+      );
+      refreshRevoked = await revokeDigiLockerToken(refreshToken, "refresh_token");
+    }
+
+    const accessToken = await decryptWithKMS(
+      user.digiLockerToken,
+      user.digiLockerTokenIv,
+      user.digiLockerTokenTag
+    );
+    const accessRevoked = await revokeDigiLockerToken(accessToken);
+
+    return refreshRevoked && accessRevoked;
+  } catch (error) {
+    console.error("[Account Erasure] DigiLocker token could not be decrypted:", error);
+    return false;
+  }
+};
+
+/**
+ * Erase one account whose grace period has ended
+ * Database rows go through the schema's cascades in one transaction; OTP rows
+ * (keyed by phone) are deleted, audit entries lose every identifier and reports
+ * about the user are kept for moderation with the reference nulled
+ */
+export const purgeAccount = async (deletionId: string): Promise<boolean> => {
+  const { count } = await prisma.accountDeletionRequest.updateMany({
+    where: {
+      id: deletionId,
+      OR: [
+        { status: "pending", scheduledFor: { lte: new Date() } },
+        { status: "processing", updatedAt: { lt: subMinutes(new Date(), STALE_PURGE_MINUTES) } },
+      ],
+    },
+    data: { status: "processing" },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const deletion = await prisma.accountDeletionRequest.findUniqueOrThrow({
+    where: { id: deletionId },
+  });
+  const user = deletion.userId
+    ? await prisma.user.findUnique({ where: { id: deletion.userId } })
+    : null;
+
+  try {
+    let records: Record<string, number> = {};
+    let mediaObjectsDeleted = 0;
+    let digiLockerRevoked: boolean | null = null;
+    let auditEntriesAnonymised = 0;
+    let otpRequestsDeleted = 0;
+
+    if (user) {
+      records = await countAccountRecords(user.id);
+      digiLockerRevoked = await revokeStoredDigiLockerToken(user);
+
+      for (const key of await collectMediaKeys(user.id)) {
+        await getStorage().delete(key);
+        mediaObjectsDeleted++;
+      }
+
+      const [otpResult, auditByUser, auditByEntity] = await prisma.$transaction([
+        prisma.otpRequest.deleteMany({ where: { phone: { in: user.phone ? [user.phone] : [] } } }),
+        prisma.auditLog.updateMany({
+          where: { userId: user.id },
+          data: { userId: null, ipAddress: null, userAgent: null, metadata: Prisma.DbNull },
+        }),
+        prisma.auditLog.updateMany({
+          where: { entityId: user.id },
+          data: { entityId: null },
+        }),
+        prisma.user.delete({ where: { id: user.id } }),
+      ]);
+
+      otpRequestsDeleted = otpResult.count;
+      auditEntriesAnonymised = auditByUser.count + auditByEntity.count;
+    }
+
+    await prisma.accountDeletionRequest.update({
+      where: { id: deletion.id },
+      data: { status: "completed", completedAt: new Date(), reason: null, userId: null },
+    });
+
+    // Tombstone: proves the erasure happened without saying whose account it was
+    await prisma.auditLog.create({
+      data: {
+        eventType: "ACCOUNT_ERASED",
+        entityType: "ACCOUNT_DELETION_REQUEST",
+        entityId: deletion.id,
+        action: "SCHEDULED_ERASURE_COMPLETED",
+        metadata: {
+          requestedAt: deletion.createdAt.toISOString(),
+          scheduledFor: deletion.scheduledFor.toISOString(),
+          records,
+          otpRequestsDeleted,
+          mediaObjectsDeleted,
+          auditEntriesAnonymised,
+          digiLockerRevoked,
+        },
+      },
+    });
+
+    return true;
+  } catch (error) {
+    // Leave it for the next run
+    await prisma.accountDeletionRequest.update({
+      where: { id: deletion.id },
+      data: { status: "pending" },
+    });
+    throw error;
+  }
+};
+
+/**
+ * Purge every account whose grace period has ended
+ */
+export const purgeDueAccountDeletions = async (): Promise<{ purgedCount: number }> => {
+  const due = await prisma.accountDeletionRequest.findMany({
+    where: {
+      OR: [
+        { status: "pending", scheduledFor: { lte: new Date() } },
+        { status: "processing", updatedAt: { lt: subMinutes(new Date(), STALE_PURGE_MINUTES) } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { scheduledFor: "asc" },
+  });
+
+  let purgedCount = 0;
+
+  for (const { id } of due) {
+    try {
+      if (await purgeAccount(id)) purgedCount++;
+    } catch (error) {
+      console.error(`[Account Erasure] Purge of request ${id} failed:`, error);
+    }
+  }
+
+  return { purgedCount };
+};
@@ -0,0 +1,333 @@
+/**
+ * Billing Service
+ * Plan catalog and the Razorpay payment lifecycle: order -> captured -> active subscription
+ * Capture is idempotent so the checkout callback and the webhook can both report
+ * the same payment without double-activating a subscription
+ * DPDP Act 2023 Compliance - Only gateway ids and amounts are stored, never instrument details
+ */
+
+import { Payment, Plan, PrismaClient, Subscription } from "@prisma/client";
+import { addMonths, subMilliseconds } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import { ERROR_CODES, createError } from "./errors";
+import { Entitlements, PlanTier } from "./entitlements";
+import { getRazorpayGateway } from "./razorpay";
+
+const prisma = new PrismaClient();
+
+type CatalogPlan = Pick<Plan, "id" | "tier" | "name" | "amountPaise" | "intervalMonths">;
+
+// Amounts are in paise (₹499, ₹2,999, ₹799)
+export const PLAN_CATALOG: CatalogPlan[] = [
+  {
+    id: "premium_monthly",
+    tier: "premium",
+    name: "Premium (Monthly)",
+    amountPaise: 49900,
+    intervalMonths: 1,
+  },
+  {
+    id: "premium_yearly",
+    tier: "premium",
+    name: "Premium (Yearly)",
+    amountPaise: 299900,
+    intervalMonths: 12,
+  },
+  {
+    id: "family_monthly",
+    tier: "family",
+    name: "Family (Monthly)",
+    amountPaise: 79900,
+    intervalMonths: 1,
+  },
+];
+
+export interface CreatedOrder {
+  orderId: string;
+  amount: number;
+  currency: string;
+  planId: string;
+  keyId: string;
+  mode: string;
+}
+
+export interface CaptureInput {
+  orderId: string;
+  paymentId: string;
+  method?: string | null;
+  amountPaise?: number;
+}
+
+export interface CaptureResult {
+  payment: Payment;
+  subscription: Subscription & { plan: Plan };
+  alreadyCaptured: boolean;
+}
+
+/**
+ * Upsert the plan catalog so prices live in code review, not ad-hoc SQL
+ */
+export const syncPlans = async (): Promise<void> => {
+  await Promise.all(
+    PLAN_CATALOG.map((plan) =>
+      prisma.plan.upsert({
+        where: { id: plan.id },
+        update: { ...plan, isActive: true },
+        create: plan,
+      })
+    )
+  );
+
+  await prisma.plan.updateMany({
+    where: { id: { notIn: PLAN_CATALOG.map((plan) => plan.id) } },
+    data: { isActive: false },
+  });
+};
+
+export const getActivePlans = () =>
+  prisma.plan.findMany({
+    where: { isActive: true },
+    orderBy: [{ tier: "asc" }, { intervalMonths: "asc" }],
+  });
+
+/**
+ * Create a Razorpay order and the pending subscription/payment it will activate
+ */
+export const createOrderForPlan = async (userId: string, planId: string): Promise<CreatedOrder> => {
+  const plan = await prisma.plan.findFirst({ where: { id: planId, isActive: true } });
+
+  if (!plan) {
+    throw createError(ERROR_CODES.PLAN_NOT_FOUND, "This plan is not available.", 404);
+  }
+
+  const gateway = getRazorpayGateway();
+  const subscriptionId = uuidv4();
+
+  const order = await gateway.createOrder({
+    amount: plan.amountPaise,
+    currency: plan.currency,
+    receipt: subscriptionId,
+    notes: { userId, planId: plan.id },
+  });
+
+  await prisma.subscription.create({
+    data: {
+      id: subscriptionId,
+      userId,
+      planId: plan.id,
+      payments: {
+        create: {
+          userId,
+          razorpayOrderId: order.id,
+          amountPaise: order.amount,
+          currency: order.currency,
+        },
+      },
+    },
+  });
+
+  return {
+    orderId: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    planId: plan.id,
+    keyId: gateway.keyId,
+    mode: gateway.mode,
+  };
+};
+
+/**
+ * Payment for an order, optionally scoped to its owner
+ */
+export const findPaymentByOrder = async (orderId: string, userId?: string): Promise<Payment> => {
+  const payment = await prisma.payment.findUnique({ where: { razorpayOrderId: orderId } });
+
+  if (!payment || (userId && payment.userId !== userId)) {
+    throw createError(ERROR_CODES.PAYMENT_NOT_FOUND, "Payment not found.", 404);
+  }
+
+  return payment;
+};
+
+/**
+ * Mark an order paid and activate its subscription (idempotent)
+ * Renewals of the same tier start when the current period ends
+ */
+export const capturePayment = async (input: CaptureInput): Promise<CaptureResult> =>
+  prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { razorpayOrderId: input.orderId },
+      include: { subscription: { include: { plan: true } } },
+    });
+
+    if (!payment) {
+      throw createError(ERROR_CODES.PAYMENT_NOT_FOUND, "Payment not found.", 404);
+    }
+
+    if (input.amountPaise !== undefined && input.amountPaise !== payment.amountPaise) {
+      throw createError(
+        ERROR_CODES.PAYMENT_VERIFICATION_FAILED,
+        "Payment amount does not match the order.",
+        400
+      );
+    }
+
+    const { subscription, ...paymentRow } = payment;
+
+    // Guarded update: only one of the callback/webhook racers wins
+    const now = new Date();
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: ["created", "failed"] } },
+      data: {
+        status: "captured",
+        razorpayPaymentId: input.paymentId,
+        method: input.method ?? undefined,
+        failureReason: null,
+        capturedAt: now,
+      },
+    });
+
+    if (count === 0) {
+      return { payment: paymentRow, subscription, alreadyCaptured: true };
+    }
+
+    const latestSameTier = await tx.subscription.findFirst({
+      where: {
+        userId: payment.userId,
+        status: "active",
+        currentPeriodEnd: { gt: now },
+        plan: { tier: subscription.plan.tier },
+      },
+      orderBy: { currentPeriodEnd: "desc" },
+    });
+
+    const periodStart = latestSameTier?.currentPeriodEnd ?? now;
+
+    const activated = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: "active",
+        currentPeriodStart: periodStart,
+        currentPeriodEnd: addMonths(periodStart, subscription.plan.intervalMonths),
+      },
+      include: { plan: true },
+    });
+
+    const captured = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+
+    return { payment: captured, subscription: activated, alreadyCaptured: false };
+  });
+
+/**
+ * Record a failed attempt; the order stays open so checkout can retry it
+ */
+export const failPayment = async (
+  orderId: string,
+  paymentId: string,
+  reason?: string | null
+): Promise<Payment | null> => {
+  const payment = await findPaymentByOrder(orderId);
+
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, status: "created" },
+    data: { status: "failed", razorpayPaymentId: paymentId, failureReason: reason ?? null },
+  });
+
+  return count > 0 ? prisma.payment.findUnique({ where: { id: payment.id } }) : null;
+};
+
+/**
+ * Refund a captured payment and revoke the entitlements it granted
+ * Renewals stacked behind the refunded period move up by its unused length,
+ * so the refunded days do not linger in the latest currentPeriodEnd
+ */
+export const refundPayment = async (paymentId: string): Promise<Payment | null> =>
+  prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: { razorpayPaymentId: paymentId },
+      include: { subscription: { include: { plan: true } } },
+    });
+
+    if (!payment) return null;
+
+    // Guarded update: a repeated refund event changes nothing
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { not: "refunded" } },
+      data: { status: "refunded" },
+    });
+
+    if (count === 0) return null;
+
+    const { subscription } = payment;
+
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "refunded" },
+    });
+
+    const { currentPeriodStart, currentPeriodEnd } = subscription;
+    const now = new Date();
+
+    if (subscription.status === "active" && currentPeriodStart && currentPeriodEnd) {
+      const unusedMs =
+        currentPeriodEnd.getTime() - Math.max(currentPeriodStart.getTime(), now.getTime());
+
+      if (unusedMs > 0) {
+        const stacked = await tx.subscription.findMany({
+          where: {
+            userId: payment.userId,
+            status: "active",
+            id: { not: subscription.id },
+            currentPeriodStart: { gte: currentPeriodEnd },
+            plan: { tier: subscription.plan.tier },
+          },
+        });
+
+        for (const renewal of stacked) {
+          await tx.subscription.update({
+            where: { id: renewal.id },
+            data: {
+              currentPeriodStart: subMilliseconds(renewal.currentPeriodStart!, unusedMs),
+              currentPeriodEnd: subMilliseconds(renewal.currentPeriodEnd!, unusedMs),
+            },
+          });
+        }
+      }
+    }
+
+    return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  });
+
+/**
+ * Mark lapsed subscriptions expired (entitlements already ignore them)
+ */
+export const expireSubscriptions = async (): Promise<{ expiredCount: number }> => {
+  const result = await prisma.subscription.updateMany({
+    where: { status: "active", currentPeriodEnd: { lte: new Date() } },
+    data: { status: "expired" },
+  });
+
+  return { expiredCount: result.count };
+};
+
+/**
+ * Subscription status shape the frontend subscriptionService expects
+ */
+export const serializeEntitlements = (entitlements: Entitlements) => ({
+  plan: entitlements.tier,
+  expiresAt: entitlements.expiresAt,
+  features: (["advancedFilters", "familyView", "compatibilityInsights"] as const).filter(
+    (feature) => entitlements[feature]
+  ),
+  dailyLimits: entitlements.dailyLimits,
+  linkedProfiles: entitlements.linkedProfiles,
+});
+
+export const serializePlan = (plan: Plan) => ({
+  id: plan.id,
+  tier: plan.tier as Exclude<PlanTier, "free">,
+  name: plan.name,
+  amount: plan.amountPaise,
+  currency: plan.currency,
+  intervalMonths: plan.intervalMonths,
+});
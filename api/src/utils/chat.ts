@@ -0,0 +1,214 @@
+/**
+ * Chat Service
+ * Conversation access checks and message persistence shared by the REST routes
+ * and the Socket.IO gateway
+ * DPDP Act 2023 Compliance - A conversation is only reachable by its two mutually matched participants
+ */
+
+import { Match, Message, PrismaClient } from "@prisma/client";
+import { ERROR_CODES, createError } from "./errors";
+import { consumeDistinctDailyLimit } from "./daily-limits";
+import { getSignedMediaUrl } from "./media-storage";
+import { isBlockedBetween } from "./moderation";
+
+const prisma = new PrismaClient();
+
+export const MESSAGE_TYPES = ["text", "photo", "voice", "interest"] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export type MessageStatus = "sent" | "delivered" | "read";
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * The participant of a match who is not `userId`
+ */
+export const getOtherParticipantId = (
+  match: Pick<Match, "userAId" | "userBId">,
+  userId: string
+): string => (match.userAId === userId ? match.userBId : match.userAId);
+
+/**
+ * Load a conversation the user participates in, whatever its match status
+ * Used by safety actions (block, report) that must work after a chat is closed
+ */
+export const findParticipantConversation = async (userId: string, conversationId: string) => {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: { match: true },
+  });
+
+  if (
+    !conversation ||
+    (conversation.match.userAId !== userId && conversation.match.userBId !== userId)
+  ) {
+    throw createError(
+      ERROR_CODES.CONVERSATION_NOT_FOUND,
+      "This conversation is no longer available.",
+      404
+    );
+  }
+
+  return {
+    conversation,
+    otherUserId: getOtherParticipantId(conversation.match, userId),
+  };
+};
+
+/**
+ * Load a conversation the user participates in
+ * Throws CHAT_NOT_ALLOWED once the underlying match is no longer accepted or
+ * either participant has blocked the other
+ */
+export const getConversationForUser = async (userId: string, conversationId: string) => {
+  const result = await findParticipantConversation(userId, conversationId);
+
+  if (
+    result.conversation.match.status !== "accepted" ||
+    (await isBlockedBetween(userId, result.otherUserId))
+  ) {
+    throw createError(
+      ERROR_CODES.CHAT_NOT_ALLOWED,
+      "You can only chat with mutual matches.",
+      403
+    );
+  }
+
+  return result;
+};
+
+/**
+ * The sender's first message in a conversation opens a chat and uses the daily
+ * chats quota; later messages are free. Call before storing any media
+ */
+export const consumeChatQuota = async (senderId: string, conversationId: string) => {
+  const alreadyWritten = await prisma.message.findFirst({
+    where: { conversationId, senderId },
+    select: { id: true },
+  });
+
+  if (!alreadyWritten) {
+    await consumeDistinctDailyLimit(senderId, "chats", [conversationId]);
+  }
+};
+
+/**
+ * Get or create the conversation for an accepted match
+ */
+export const ensureConversation = (matchId: string) =>
+  prisma.conversation.upsert({
+    where: { matchId },
+    update: {},
+    create: { matchId },
+  });
+
+export interface MessageMedia {
+  mediaKey: string;
+  blurredMediaKey?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Message shape the frontend expects, relative to the viewer
+ * Photo and voice messages carry a signed media URL as their content.
+ * With `blurPhotos` (the viewer's screen captures crossed the threshold) the
+ * other participant's photos only ever resolve to their blurred variant
+ */
+export const serializeMessage = (message: Message, viewerId: string, blurPhotos = false) => {
+  const isBlurred = blurPhotos && message.type === "photo" && message.senderId !== viewerId;
+  const mediaKey = isBlurred ? message.blurredMediaKey : message.mediaKey;
+
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    type: message.type as MessageType,
+    content: mediaKey ? getSignedMediaUrl(mediaKey) : isBlurred ? "" : message.content,
+    duration: message.durationSeconds ?? undefined,
+    timestamp: message.createdAt.toISOString(),
+    status: message.status as MessageStatus,
+    isRead: message.status === "read",
+    isFromMe: message.senderId === viewerId,
+    isBlurred,
+  };
+};
+
+export type SerializedMessage = ReturnType<typeof serializeMessage>;
+
+/**
+ * Persist a message and bump the conversation ordering
+ */
+export const createMessage = async (
+  senderId: string,
+  conversationId: string,
+  type: MessageType,
+  content: string,
+  media?: MessageMedia
+): Promise<Message> => {
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        conversationId,
+        senderId,
+        type,
+        content,
+        mediaKey: media?.mediaKey,
+        blurredMediaKey: media?.blurredMediaKey,
+        durationSeconds: media?.durationSeconds,
+      },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: new Date() },
+    }),
+  ]);
+
+  return message;
+};
+
+/**
+ * Advance the other participant's messages to `status`
+ * Returns the ids that changed so the sender can be notified
+ */
+const advanceStatus = async (
+  recipientId: string,
+  conversationId: string,
+  status: "delivered" | "read",
+  messageIds?: string[]
+): Promise<string[]> => {
+  const pending = await prisma.message.findMany({
+    where: {
+      conversationId,
+      senderId: { not: recipientId },
+      deletedAt: null,
+      status: { in: status === "read" ? ["sent", "delivered"] : ["sent"] },
+      ...(messageIds ? { id: { in: messageIds } } : {}),
+    },
+    select: { id: true },
+  });
+
+  const ids = pending.map((message) => message.id);
+  if (ids.length === 0) return ids;
+
+  const now = new Date();
+
+  await prisma.message.updateMany({
+    where: { id: { in: ids } },
+    data:
+      status === "read"
+        ? { status: "read", readAt: now }
+        : { status: "delivered", deliveredAt: now },
+  });
+
+  return ids;
+};
+
+export const markDelivered = (
+  recipientId: string,
+  conversationId: string,
+  messageIds?: string[]
+): Promise<string[]> => advanceStatus(recipientId, conversationId, "delivered", messageIds);
+
+export const markRead = (readerId: string, conversationId: string): Promise<string[]> =>
+  advanceStatus(readerId, conversationId, "read");
@@ -0,0 +1,165 @@
+/**
+ * Consent Notice Service
+ * Versioned bilingual (English/Hindi) notice text for each consent purpose, and
+ * the hash that ties a consent record to the exact notice the user accepted
+ * DPDP Act 2023 Compliance - Consent must follow a notice in clear language
+ * (Section 5); a changed notice needs fresh consent
+ */
+
+import { createHash } from "crypto";
+import { ConsentNotice, PrismaClient } from "@prisma/client";
+import { ConsentPurpose, VALID_CONSENT_PURPOSES } from "./consent";
+
+const prisma = new PrismaClient();
+
+type CatalogNoticeText = Pick<ConsentNotice, "titleEn" | "titleHi" | "bodyEn" | "bodyHi">;
+
+interface CatalogNoticeVersion {
+  version: string;
+  effectiveAt: Date;
+  purposes: Record<ConsentPurpose, CatalogNoticeText>;
+}
+
+// Publish a policy change by appending a version; never edit a published one
+export const CONSENT_NOTICE_CATALOG: CatalogNoticeVersion[] = [
+  {
+    version: "1.0",
+    effectiveAt: new Date("2026-01-01T00:00:00+05:30"),
+    purposes: {
+      purposeMatching: {
+        titleEn: "Matchmaking",
+        titleHi: "मैचमेकिंग",
+        bodyEn:
+          "We use your profile, photos, preferences and verification status to show you to compatible members and to show them to you. Withdrawing this consent hides you from match feeds and cancels your pending likes.",
+        bodyHi:
+          "हम आपकी प्रोफ़ाइल, फ़ोटो, पसंद और सत्यापन स्थिति का उपयोग आपको संगत सदस्यों को दिखाने और उन्हें आपको दिखाने के लिए करते हैं। यह सहमति वापस लेने पर आप मैच फ़ीड से छिप जाएंगे और आपकी लंबित पसंद रद्द हो जाएंगी।",
+      },
+      purposeMarketing: {
+        titleEn: "Offers and updates",
+        titleHi: "ऑफ़र और अपडेट",
+        bodyEn:
+          "We may send you offers and product updates by SMS, email or notification. You can stop these at any time without affecting your account.",
+        bodyHi:
+          "हम आपको SMS, ईमेल या सूचना के माध्यम से ऑफ़र और उत्पाद अपडेट भेज सकते हैं। आप इन्हें कभी भी बंद कर सकते हैं, इससे आपके खाते पर कोई असर नहीं पड़ेगा।",
+      },
+      purposeAnalytics: {
+        titleEn: "Location and usage analytics",
+        titleHi: "स्थान और उपयोग विश्लेषण",
+        bodyEn:
+          "We record your approximate location and how you use the app to improve nearby matches and fix problems. Location history is deleted after 90 days, or at once if you withdraw this consent.",
+        bodyHi:
+          "हम आस-पास के बेहतर मैच और समस्याओं को ठीक करने के लिए आपका अनुमानित स्थान और ऐप का उपयोग दर्ज करते हैं। स्थान इतिहास 90 दिनों के बाद, या यह सहमति वापस लेने पर तुरंत, हटा दिया जाता है।",
+      },
+      purposeThirdParty: {
+        titleEn: "Sharing with partners",
+        titleHi: "भागीदारों के साथ साझा करना",
+        bodyEn:
+          "We may share limited profile details with verified partners, such as wedding service providers, only for the services you ask for. We never share your verification documents.",
+        bodyHi:
+          "हम सीमित प्रोफ़ाइल विवरण सत्यापित भागीदारों, जैसे विवाह सेवा प्रदाताओं, के साथ केवल आपके द्वारा मांगी गई सेवाओं के लिए साझा कर सकते हैं। हम आपके सत्यापन दस्तावेज़ कभी साझा नहीं करते।",
+      },
+    },
+  },
+];
+
+export interface CurrentConsentNotice {
+  version: string;
+  effectiveAt: Date;
+  hash: string;
+  notices: ConsentNotice[];
+}
+
+/**
+ * Insert catalog versions that are not published yet
+ * A published version whose text differs from the catalog stops startup: users
+ * have accepted that text, so a change must ship as a new version
+ */
+export const syncConsentNotices = async (): Promise<void> => {
+  for (const { version, effectiveAt, purposes } of CONSENT_NOTICE_CATALOG) {
+    for (const purpose of VALID_CONSENT_PURPOSES) {
+      const text = purposes[purpose];
+      const published = await prisma.consentNotice.findUnique({
+        where: { version_purpose: { version, purpose } },
+      });
+
+      if (!published) {
+        await prisma.consentNotice.create({ data: { version, purpose, effectiveAt, ...text } });
+        continue;
+      }
+
+      if (
+        published.titleEn !== text.titleEn ||
+        published.titleHi !== text.titleHi ||
+        published.bodyEn !== text.bodyEn ||
+        published.bodyHi !== text.bodyHi
+      ) {
+        throw new Error(
+          `Consent notice ${version} (${purpose}) differs from the published text; publish a new version instead`
+        );
+      }
+    }
+  }
+};
+
+/**
+ * SHA-256 over every purpose's text in both languages, in a fixed order
+ */
+export const hashConsentNotice = (version: string, notices: ConsentNotice[]): string => {
+  const canonical = VALID_CONSENT_PURPOSES.map((purpose) => {
+    const notice = notices.find((entry) => entry.purpose === purpose);
+    return [purpose, notice?.titleEn, notice?.titleHi, notice?.bodyEn, notice?.bodyHi];
+  });
+
+  return createHash("sha256").update(JSON.stringify([version, canonical])).digest("hex");
+};
+
+/**
+ * The notice version in force: the latest one already effective
+ */
+export const getCurrentConsentNotice = async (): Promise<CurrentConsentNotice | null> => {
+  const latest = await prisma.consentNotice.findFirst({
+    where: { effectiveAt: { lte: new Date() } },
+    orderBy: [{ effectiveAt: "desc" }, { createdAt: "desc" }],
+  });
+
+  if (!latest) {
+    return null;
+  }
+
+  const notices = await prisma.consentNotice.findMany({ where: { version: latest.version } });
+
+  return {
+    version: latest.version,
+    effectiveAt: latest.effectiveAt,
+    hash: hashConsentNotice(latest.version, notices),
+    notices,
+  };
+};
+
+/**
+ * Whether accepted consent predates the notice in force
+ * Records from before notices were hashed count as current while their version is
+ */
+export const isConsentStale = (
+  consent: { consentVersion: string; noticeHash: string | null; consentWithdrawnAt: Date | null } | null,
+  notice: CurrentConsentNotice | null
+): boolean => {
+  if (!consent || consent.consentWithdrawnAt) return true;
+  if (!notice) return false;
+  if (consent.consentVersion !== notice.version) return true;
+  return consent.noticeHash !== null && consent.noticeHash !== notice.hash;
+};
+
+export const serializeConsentNotice = (notice: CurrentConsentNotice) => ({
+  version: notice.version,
+  effectiveAt: notice.effectiveAt,
+  hash: notice.hash,
+  purposes: VALID_CONSENT_PURPOSES.map((purpose) => {
+    const entry = notice.notices.find((item) => item.purpose === purpose);
+    return {
+      purpose,
+      title: { en: entry?.titleEn ?? "", hi: entry?.titleHi ?? "" },
+      body: { en: entry?.bodyEn ?? "", hi: entry?.bodyHi ?? "" },
+    };
+  }),
+});
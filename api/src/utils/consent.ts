@@ -0,0 +1,174 @@
+/**
+ * Consent Service
+ * Cached lookup of each user's latest consent record and the downstream effects
+ * of changing it
+ * DPDP Act 2023 Compliance - Only the latest record counts; a withdrawn record
+ * grants nothing, and withdrawal stops the processing it covered
+ */
+
+import { Consent, PrismaClient } from "@prisma/client";
+import { redis } from "./redis";
+
+const prisma = new PrismaClient();
+
+// Valid consent purposes as per DPDP Act 2023
+export const VALID_CONSENT_PURPOSES = [
+  "purposeMatching",    // For identity matching
+  "purposeMarketing",   // For marketing communications
+  "purposeAnalytics",   // For usage analytics
+  "purposeThirdParty",  // For third-party sharing
+] as const;
+
+export type ConsentPurpose = typeof VALID_CONSENT_PURPOSES[number];
+
+export type ConsentFlags = Pick<
+  Consent,
+  ConsentPurpose | "consentVersion" | "consentGivenAt" | "consentWithdrawnAt"
+>;
+
+// Cache entries are deleted on every consent write; the TTL only bounds drift
+// from writes made outside this service
+const CONSENT_CACHE_TTL_SECONDS = 5 * 60;
+
+const cacheKey = (userId: string): string => `consent:${userId}`;
+
+// Cached marker for "no consent record yet"
+const NO_CONSENT = "none";
+
+export const consentToFlags = (consent: Consent): ConsentFlags => ({
+  purposeMatching: consent.purposeMatching,
+  purposeMarketing: consent.purposeMarketing,
+  purposeAnalytics: consent.purposeAnalytics,
+  purposeThirdParty: consent.purposeThirdParty,
+  consentVersion: consent.consentVersion,
+  consentGivenAt: consent.consentGivenAt,
+  consentWithdrawnAt: consent.consentWithdrawnAt,
+});
+
+/**
+ * The user's most recent consent record, withdrawn or not
+ */
+export const findLatestConsent = (userId: string) =>
+  prisma.consent.findFirst({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Latest consent flags for a user, served from Redis when possible
+ * The database stays authoritative: a cache outage falls through to it
+ */
+export const getLatestConsent = async (userId: string): Promise<ConsentFlags | null> => {
+  try {
+    const cached = await redis.get(cacheKey(userId));
+
+    if (cached === NO_CONSENT) return null;
+    if (cached) {
+      const flags = JSON.parse(cached);
+      return {
+        ...flags,
+        consentGivenAt: new Date(flags.consentGivenAt),
+        consentWithdrawnAt: flags.consentWithdrawnAt ? new Date(flags.consentWithdrawnAt) : null,
+      };
+    }
+  } catch (error) {
+    console.error("Consent cache unavailable:", error);
+  }
+
+  const consent = await findLatestConsent(userId);
+  const flags = consent ? consentToFlags(consent) : null;
+
+  try {
+    await redis.set(
+      cacheKey(userId),
+      flags ? JSON.stringify(flags) : NO_CONSENT,
+      "EX",
+      CONSENT_CACHE_TTL_SECONDS
+    );
+  } catch (error) {
+    console.error("Consent cache unavailable:", error);
+  }
+
+  return flags;
+};
+
+/**
+ * Drop the cached consent after any write
+ */
+export const invalidateConsentCache = async (userId: string): Promise<void> => {
+  try {
+    await redis.del(cacheKey(userId));
+  } catch (error) {
+    console.error("Consent cache unavailable:", error);
+  }
+};
+
+/**
+ * Whether consent flags grant a purpose (withdrawn consent grants nothing)
+ */
+export const hasConsentFor = (
+  consent: Pick<ConsentFlags, ConsentPurpose | "consentWithdrawnAt"> | null | undefined,
+  purpose: ConsentPurpose
+): boolean => !!consent && !consent.consentWithdrawnAt && consent[purpose];
+
+/**
+ * Purposes granted before a change and not after it
+ */
+export const getRevokedPurposes = (
+  before: ConsentFlags | null,
+  after: ConsentFlags | null
+): ConsentPurpose[] =>
+  VALID_CONSENT_PURPOSES.filter(
+    (purpose) => hasConsentFor(before, purpose) && !hasConsentFor(after, purpose)
+  );
+
+/**
+ * Stop the processing that revoked purposes covered
+ * - purposeMatching: feeds and profile views read the latest consent, so the user
+ *   drops out of them at once; pending likes have no remaining purpose and are deleted
+ * - purposeAnalytics: location history was collected under it and is erased
+ * Marketing and third-party sharing have no stored data to act on yet
+ */
+export const applyConsentRevocation = async (
+  userId: string,
+  revoked: ConsentPurpose[]
+): Promise<Record<string, number>> => {
+  const effects: Record<string, number> = {};
+
+  if (revoked.includes("purposeMatching")) {
+    const matchedUserIds = (
+      await prisma.match.findMany({
+        where: { OR: [{ userAId: userId }, { userBId: userId }] },
+        select: { userAId: true, userBId: true },
+      })
+    ).map((match) => (match.userAId === userId ? match.userBId : match.userAId));
+
+    const { count } = await prisma.like.deleteMany({
+      where: { fromUserId: userId, toUserId: { notIn: matchedUserIds } },
+    });
+    effects.pendingLikesWithdrawn = count;
+  }
+
+  if (revoked.includes("purposeAnalytics")) {
+    const { count } = await prisma.locationHistory.deleteMany({ where: { userId } });
+    effects.locationRecordsDeleted = count;
+  }
+
+  return effects;
+};
+
+/**
+ * Record a consent change: refresh the cache and apply withdrawal effects
+ */
+export const handleConsentChange = async (
+  userId: string,
+  before: ConsentFlags | null,
+  after: ConsentFlags | null
+): Promise<{ revoked: ConsentPurpose[]; effects: Record<string, number> }> => {
+  await invalidateConsentCache(userId);
+
+  const revoked = getRevokedPurposes(before, after);
+  const effects = revoked.length ? await applyConsentRevocation(userId, revoked) : {};
+
+  return { revoked, effects };
+};
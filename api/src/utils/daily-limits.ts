@@ -0,0 +1,201 @@
+/**
+ * Daily Limits Service
+ * Server-authoritative per-plan daily quotas, reset at midnight IST
+ * likes: each like; profiles: each distinct profile suggested in the feed;
+ * views: each distinct profile opened; chats: each conversation the user first writes in
+ * DPDP Act 2023 Compliance - Counters are keyed by user id only and expire at reset
+ */
+
+import { redis } from "./redis";
+import { ERROR_CODES, createError } from "./errors";
+import { getEntitlements } from "./entitlements";
+
+// India Standard Time is a fixed UTC+05:30 with no daylight saving
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export const DAILY_LIMIT_ACTIONS = ["profiles", "chats", "likes", "views"] as const;
+
+export type DailyLimitAction = typeof DAILY_LIMIT_ACTIONS[number];
+
+export interface DailyLimitStatus {
+  used: number;
+  total: number;
+  resetsAt: string;
+}
+
+/**
+ * IST calendar date (YYYY-MM-DD) and the UTC instant of the next IST midnight
+ */
+const getISTDay = (now: Date = new Date()): { dateKey: string; resetsAt: Date } => {
+  const ist = new Date(now.getTime() + IST_OFFSET_MS);
+  const dateKey = ist.toISOString().slice(0, 10);
+  const nextMidnight = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate() + 1);
+
+  return { dateKey, resetsAt: new Date(nextMidnight - IST_OFFSET_MS) };
+};
+
+const counterKey = (userId: string, action: DailyLimitAction, dateKey: string): string =>
+  `daily-limit:${action}:${userId}:${dateKey}`;
+
+// Items (profile or conversation ids) already counted today, so repeat fetches are free
+const seenKey = (userId: string, action: DailyLimitAction, dateKey: string): string =>
+  `daily-limit-seen:${action}:${userId}:${dateKey}`;
+
+/**
+ * Today's quota for an action under the user's current plan
+ */
+const getDailyTotal = async (userId: string, action: DailyLimitAction): Promise<number> =>
+  (await getEntitlements(userId)).dailyLimits[action];
+
+/**
+ * Wrap Redis failures so limits fail closed instead of silently allowing actions
+ */
+const withRedis = async <T>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    console.error("Daily limit store unavailable:", error);
+    throw createError(
+      ERROR_CODES.SERVICE_UNAVAILABLE,
+      "Daily limits are temporarily unavailable. Please try again shortly.",
+      503
+    );
+  }
+};
+
+const limitReached = (action: DailyLimitAction, total: number, resetsAt: Date) =>
+  createError(
+    ERROR_CODES.DAILY_LIMIT_REACHED,
+    `You have reached today's limit of ${total} ${action}. It resets at midnight IST.`,
+    429,
+    { action, used: total, total, resetsAt: resetsAt.toISOString() }
+  );
+
+/**
+ * Add to a counter that expires at the next reset, returning the new count
+ */
+const incrementCounter = (key: string, by: number, resetsAt: Date): Promise<number> =>
+  withRedis(async () => {
+    const results = await redis
+      .multi()
+      .incrby(key, by)
+      .expireat(key, Math.ceil(resetsAt.getTime() / 1000))
+      .exec();
+
+    const [error, count] = results?.[0] ?? [new Error("Empty Redis transaction result"), null];
+    if (error) throw error;
+
+    return count as number;
+  });
+
+/**
+ * Current usage for one action type
+ */
+export const getDailyLimitStatus = async (
+  userId: string,
+  action: DailyLimitAction
+): Promise<DailyLimitStatus> => {
+  const { dateKey, resetsAt } = getISTDay();
+  const total = await getDailyTotal(userId, action);
+
+  const used = await withRedis(() => redis.get(counterKey(userId, action, dateKey)));
+
+  return {
+    used: Math.min(parseInt(used || "0", 10), total),
+    total,
+    resetsAt: resetsAt.toISOString(),
+  };
+};
+
+/**
+ * Atomically consume one unit of quota, throwing DAILY_LIMIT_REACHED when exhausted
+ */
+export const consumeDailyLimit = async (
+  userId: string,
+  action: DailyLimitAction
+): Promise<DailyLimitStatus> => {
+  const { dateKey, resetsAt } = getISTDay();
+  const total = await getDailyTotal(userId, action);
+  const key = counterKey(userId, action, dateKey);
+
+  const used = await incrementCounter(key, 1, resetsAt);
+
+  if (used > total) {
+    await withRedis(() => redis.decr(key));
+    throw limitReached(action, total, resetsAt);
+  }
+
+  return { used, total, resetsAt: resetsAt.toISOString() };
+};
+
+/**
+ * Consume one unit per distinct item not yet counted today (e.g. each profile shown)
+ * Returns the items the user may have: those already counted plus as many new
+ * ones as quota remains, in their original order. Throws DAILY_LIMIT_REACHED
+ * only when none of them can be given
+ */
+export const consumeDistinctDailyLimit = async (
+  userId: string,
+  action: DailyLimitAction,
+  itemIds: string[]
+): Promise<string[]> => {
+  if (itemIds.length === 0) return [];
+
+  const { dateKey, resetsAt } = getISTDay();
+  const total = await getDailyTotal(userId, action);
+  const key = counterKey(userId, action, dateKey);
+  const itemsKey = seenKey(userId, action, dateKey);
+
+  const seen = new Set(await withRedis(() => redis.smembers(itemsKey)));
+  const unseen = [...new Set(itemIds.filter((id) => !seen.has(id)))];
+
+  if (unseen.length > 0) {
+    const used = await incrementCounter(key, unseen.length, resetsAt);
+    const overflow = Math.min(unseen.length, Math.max(0, used - total));
+
+    if (overflow > 0) {
+      await withRedis(() => redis.decrby(key, overflow));
+    }
+
+    const granted = unseen.slice(0, unseen.length - overflow);
+
+    if (granted.length > 0) {
+      await withRedis(() =>
+        redis
+          .multi()
+          .sadd(itemsKey, ...granted)
+          .expireat(itemsKey, Math.ceil(resetsAt.getTime() / 1000))
+          .exec()
+      );
+      granted.forEach((id) => seen.add(id));
+    }
+  }
+
+  const allowed = itemIds.filter((id) => seen.has(id));
+
+  if (allowed.length === 0) {
+    throw limitReached(action, total, resetsAt);
+  }
+
+  return allowed;
+};
+
+/**
+ * Give back one unit of quota, e.g. when a like is undone
+ * Only today's counter is touched so yesterday's actions never credit today
+ */
+export const refundDailyLimit = async (
+  userId: string,
+  action: DailyLimitAction,
+  consumedAt: Date
+): Promise<void> => {
+  const { dateKey } = getISTDay();
+  if (getISTDay(consumedAt).dateKey !== dateKey) return;
+
+  const key = counterKey(userId, action, dateKey);
+
+  await withRedis(async () => {
+    const remaining = await redis.decr(key);
+    if (remaining < 0) await redis.set(key, 0, "KEEPTTL");
+  });
+};
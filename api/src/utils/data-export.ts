@@ -0,0 +1,696 @@
+/**
+ * Data Export Service
+ * Builds the "download my data" archive for a data principal access request:
+ * a machine-readable JSON file plus a plain-text summary, stored privately and
+ * handed out through short-lived signed links
+ * DPDP Act 2023 Compliance - Right to access personal data (Section 11)
+ */
+
+import { DataExport, PrismaClient } from "@prisma/client";
+import { addDays, addMinutes, format, subMinutes } from "date-fns";
+import { ERROR_CODES, createError } from "./errors";
+import { getPublicBaseUrl, getSignedUrlParams, getStorage } from "./media-storage";
+import { serializeGrievance } from "./grievance";
+import { serializeDeletionRequest } from "./account-erasure";
+import { openSharingPoint, serializeSharingSession } from "./location-sharing";
+import { serializeEmergencyContact } from "./emergency-contacts";
+import { CHECK_IN_REPEAT_ALERT_MINUTES, serializeCheckIn } from "./safety-checkin";
+import { serializeSmsDelivery } from "./sms-gateway";
+import { serializeScreenCapture } from "./screen-capture";
+
+const prisma = new PrismaClient();
+
+export const EXPORT_FORMAT_VERSION = "1.0";
+
+// Generated files are deleted after this many days
+export const EXPORT_RETENTION_DAYS = 7;
+
+// Each download link is valid for an hour; the user can fetch a fresh one until expiry
+export const EXPORT_LINK_TTL_SECONDS = 60 * 60;
+
+// A worker that died mid-export leaves the row "processing"; retry it after this
+const STALE_PROCESSING_MINUTES = 30;
+
+export const EXPORT_FILES = ["archive", "summary"] as const;
+
+export type ExportFile = typeof EXPORT_FILES[number];
+
+/**
+ * Signed download links cover the storage key under a separate prefix, so an
+ * export link can never be replayed against GET /media/*
+ */
+export const exportSigningSubject = (key: string): string => `download:${key}`;
+
+export const exportFileKey = (dataExport: DataExport, file: ExportFile): string | null =>
+  file === "archive" ? dataExport.archiveKey : dataExport.summaryKey;
+
+export const exportFileName = (dataExport: DataExport, file: ExportFile): string => {
+  const date = format(dataExport.completedAt ?? dataExport.createdAt, "yyyy-MM-dd");
+  return file === "archive"
+    ? `bandhan-data-export-${date}.json`
+    : `bandhan-data-export-${date}-summary.txt`;
+};
+
+/**
+ * Prisma models collectUserData reads, checked against the schema by
+ * findUncoveredUserModels (utils/user-data-coverage.ts)
+ */
+export const EXPORTED_MODELS = [
+  "User",
+  "Profile",
+  "Photo",
+  "Consent",
+  "LocationHistory",
+  "SharingSession",
+  "SharingLocationPoint",
+  "EmergencyContact",
+  "SafetyCheckIn",
+  "SmsDelivery",
+  "Session",
+  "OAuthState",
+  "OtpRequest",
+  "LivenessChallenge",
+  "VideoSelfieUpload",
+  "Like",
+  "Pass",
+  "Match",
+  "Conversation",
+  "Message",
+  "ScreenCaptureEvent",
+  "Block",
+  "Report",
+  "Subscription",
+  "Payment",
+  "DataExport",
+  "AccountDeletionRequest",
+  "Grievance",
+  "GrievanceResponse",
+  "AuditLog",
+] as const;
+
+/**
+ * Everything held about a user, grouped by feature
+ * Secrets (PIN hashes, encrypted DigiLocker tokens, token, nonce and OTP hashes,
+ * KMS-sealed payloads) are never exported; other members' data appears only
+ * where the user already sees it in the app, and a duress check-in stays
+ * indistinguishable from a completed one
+ */
+export const collectUserData = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw createError(ERROR_CODES.USER_NOT_FOUND, "User not found", 404);
+  }
+
+  const [
+    profile,
+    consents,
+    locationHistory,
+    sessions,
+    otpRequests,
+    likesGiven,
+    passesGiven,
+    matches,
+    blocks,
+    reportsFiled,
+    reportsReceived,
+    subscriptions,
+    payments,
+    grievances,
+    auditEvents,
+    sharingSessions,
+    emergencyContacts,
+    checkIns,
+    smsDeliveries,
+    oauthStates,
+    livenessChallenges,
+    videoSelfieUploads,
+    screenCaptures,
+    dataExports,
+    deletionRequests,
+  ] = await Promise.all([
+    prisma.profile.findUnique({ where: { userId }, include: { photos: true } }),
+    prisma.consent.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.locationHistory.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.session.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    }),
+    user.phone
+      ? prisma.otpRequest.findMany({ where: { phone: user.phone }, orderBy: { createdAt: "asc" } })
+      : Promise.resolve([]),
+    prisma.like.findMany({ where: { fromUserId: userId }, orderBy: { createdAt: "asc" } }),
+    prisma.pass.findMany({ where: { fromUserId: userId }, orderBy: { createdAt: "asc" } }),
+    prisma.match.findMany({
+      where: { OR: [{ userAId: userId }, { userBId: userId }] },
+      include: {
+        userA: { select: { id: true, name: true } },
+        userB: { select: { id: true, name: true } },
+        conversation: {
+          include: { messages: { orderBy: { createdAt: "asc" } } },
+        },
+      },
+      orderBy: { matchedAt: "asc" },
+    }),
+    prisma.block.findMany({ where: { blockerId: userId }, orderBy: { createdAt: "asc" } }),
+    prisma.report.findMany({ where: { reporterId: userId }, orderBy: { createdAt: "asc" } }),
+    prisma.report.findMany({ where: { reportedUserId: userId }, orderBy: { createdAt: "asc" } }),
+    prisma.subscription.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.payment.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.grievance.findMany({
+      where: { userId },
+      include: { responses: { orderBy: { createdAt: "asc" } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.auditLog.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.sharingSession.findMany({
+      where: { userId },
+      include: { points: { orderBy: { recordedAt: "asc" } } },
+      orderBy: { startedAt: "asc" },
+    }),
+    prisma.emergencyContact.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.safetyCheckIn.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.smsDelivery.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.oAuthState.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.livenessChallenge.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.videoSelfieUpload.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.screenCaptureEvent.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.dataExport.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+    prisma.accountDeletionRequest.findMany({ where: { userId }, orderBy: { createdAt: "asc" } }),
+  ]);
+
+  // What a duress PIN set off (alerts, the sharing session they link to) is left
+  // out, as it is in the app: whoever reads the export may be the person it was for
+  const duressWindows = checkIns
+    .filter((checkIn) => checkIn.duressAt !== null)
+    .map((checkIn) => ({
+      from: checkIn.duressAt!,
+      to: addMinutes(checkIn.lastAlertAt ?? checkIn.duressAt!, CHECK_IN_REPEAT_ALERT_MINUTES),
+    }));
+  const duringDuress = (at: Date) =>
+    duressWindows.some((window) => at >= window.from && at <= window.to);
+
+  const visibleSharingSessions = sharingSessions.filter(
+    (session) => !duringDuress(session.startedAt)
+  );
+  const visibleSmsDeliveries = smsDeliveries.filter(
+    (delivery) => delivery.templateKey !== "emergency" || !duringDuress(delivery.createdAt)
+  );
+  const hiddenEntityIds = new Set([
+    ...checkIns.filter((checkIn) => checkIn.duressAt !== null).map((checkIn) => checkIn.id),
+    ...sharingSessions
+      .filter((session) => !visibleSharingSessions.includes(session))
+      .map((session) => session.id),
+    ...smsDeliveries
+      .filter((delivery) => !visibleSmsDeliveries.includes(delivery))
+      .map((delivery) => delivery.id),
+  ]);
+
+  const sharingPoints = await Promise.all(
+    visibleSharingSessions.map((session) =>
+      Promise.all(
+        session.points.map((point) => openSharingPoint(point).catch(() => null))
+      )
+    )
+  );
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    generatedAt: new Date().toISOString(),
+    userId,
+    account: {
+      id: user.id,
+      phone: user.phone,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      isActive: user.isActive,
+      isPhoneVerified: user.isPhoneVerified,
+      phoneVerifiedAt: user.phoneVerifiedAt,
+      verificationLevel: user.verificationLevel,
+      digiLockerLinked: user.digiLockerToken !== null,
+      digiLockerVerifiedAt: user.digiLockerVerifiedAt,
+      digiLockerLastCheckedAt: user.digiLockerCheckedAt,
+      digiLockerLastCheckAttemptedAt: user.digiLockerCheckAttemptedAt,
+      videoSelfieVerifiedAt: user.videoSelfieVerifiedAt,
+      faceTemplateStored: user.faceTemplate !== null,
+      dateOfBirth: user.dateOfBirth,
+      isAgeVerified: user.isAgeVerified,
+      ageVerifiedAt: user.ageVerifiedAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      lastLoginAt: user.lastLoginAt,
+    },
+    profile: profile
+      ? {
+          ...profile,
+          photos: profile.photos.map((photo) => ({
+            id: photo.id,
+            width: photo.width,
+            height: photo.height,
+            sizeBytes: photo.sizeBytes,
+            isPrimary: photo.isPrimary,
+            faceMatch: photo.faceMatch,
+            faceCheckedAt: photo.faceCheckedAt,
+            uploadedAt: photo.uploadedAt,
+          })),
+        }
+      : null,
+    consents,
+    locationHistory: locationHistory.map((location) => ({
+      latitude: location.latitude.toString(),
+      longitude: location.longitude.toString(),
+      accuracy: location.accuracy,
+      recordedAt: location.createdAt,
+      expiresAt: location.expiresAt,
+    })),
+    sessions: sessions.map((session) => ({
+      id: session.id,
+      deviceSessionId: session.familyId,
+      deviceInfo: session.deviceInfo,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      rotatedAt: session.rotatedAt,
+      revokedAt: session.revokedAt,
+      revokedReason: session.revokedReason,
+    })),
+    otpRequests: otpRequests.map((otp) => ({
+      sentAt: otp.createdAt,
+      smsProvider: otp.smsProvider,
+      failedAttempts: otp.attemptCount,
+      usedAt: otp.usedAt,
+      expiresAt: otp.expiresAt,
+    })),
+    likesGiven: likesGiven.map((like) => ({ userId: like.toUserId, likedAt: like.createdAt })),
+    passesGiven: passesGiven.map((pass) => ({ userId: pass.toUserId, passedAt: pass.createdAt })),
+    matches: matches.map((match) => {
+      const other = match.userAId === userId ? match.userB : match.userA;
+
+      return {
+        id: match.id,
+        matchedWith: { userId: other.id, name: other.name },
+        status: match.status,
+        compatibility: match.compatibility,
+        matchedAt: match.matchedAt,
+        messages: (match.conversation?.messages ?? []).map((message) => {
+          const fromMe = message.senderId === userId;
+          // The other member's deleted messages are theirs to withdraw
+          const withheld = !fromMe && message.deletedAt !== null;
+
+          return {
+            id: message.id,
+            fromMe,
+            type: message.type,
+            content: withheld || message.mediaKey ? null : message.content,
+            hasMedia: message.mediaKey !== null,
+            durationSeconds: message.durationSeconds,
+            sentAt: message.createdAt,
+            readAt: message.readAt,
+            deletedAt: message.deletedAt,
+          };
+        }),
+      };
+    }),
+    blocks: blocks.map((block) => ({ userId: block.blockedId, blockedAt: block.createdAt })),
+    reportsFiled: reportsFiled.map((report) => ({
+      id: report.id,
+      reportedUserId: report.reportedUserId,
+      category: report.category,
+      description: report.description,
+      status: report.status,
+      createdAt: report.createdAt,
+      reviewedAt: report.reviewedAt,
+    })),
+    // Reporter identity and evidence stay confidential
+    moderationActions: reportsReceived
+      .filter((report) => report.status === "actioned")
+      .map((report) => ({
+        category: report.category,
+        action: report.action,
+        reviewedAt: report.reviewedAt,
+      })),
+    subscriptions,
+    payments: payments.map((payment) => ({
+      id: payment.id,
+      subscriptionId: payment.subscriptionId,
+      razorpayPaymentId: payment.razorpayPaymentId,
+      amountPaise: payment.amountPaise,
+      currency: payment.currency,
+      status: payment.status,
+      method: payment.method,
+      capturedAt: payment.capturedAt,
+      createdAt: payment.createdAt,
+    })),
+    grievances: grievances.map((grievance) => serializeGrievance(grievance)),
+    deletionRequests: deletionRequests.map((deletion) => ({
+      ...serializeDeletionRequest(deletion),
+      reason: deletion.reason,
+    })),
+    dataExports: dataExports.map((dataExport) => ({
+      id: dataExport.id,
+      status: dataExport.status,
+      requestedAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+      downloadCount: dataExport.downloadCount,
+      lastDownloadedAt: dataExport.lastDownloadedAt,
+    })),
+    emergencyContacts: emergencyContacts.map((contact) => serializeEmergencyContact(contact)),
+    locationSharing: visibleSharingSessions.map((session, index) => ({
+      ...serializeSharingSession(session),
+      pointsDeleted: session.pointsDeleted,
+      points: sharingPoints[index].filter((point) => point !== null),
+    })),
+    safetyCheckIns: checkIns.map((checkIn) => serializeCheckIn(checkIn)),
+    smsDeliveries: visibleSmsDeliveries.map((delivery) => serializeSmsDelivery(delivery)),
+    screenCaptures: screenCaptures.map((event) => serializeScreenCapture(event)),
+    livenessChallenges: livenessChallenges.map((challenge) => ({
+      id: challenge.id,
+      steps: challenge.steps,
+      status: challenge.status,
+      provider: challenge.provider,
+      confidence: challenge.confidence,
+      failureReason: challenge.failureReason,
+      expiresAt: challenge.expiresAt,
+      completedAt: challenge.completedAt,
+      createdAt: challenge.createdAt,
+    })),
+    videoSelfieUploads: videoSelfieUploads.map((upload) => ({
+      id: upload.id,
+      challengeId: upload.challengeId,
+      sizeBytes: upload.size,
+      receivedBytes: upload.offset,
+      status: upload.status,
+      expiresAt: upload.expiresAt,
+      completedAt: upload.completedAt,
+      createdAt: upload.createdAt,
+    })),
+    pendingAuthorizations: oauthStates.map((state) => ({
+      provider: state.provider,
+      createdAt: state.createdAt,
+      expiresAt: state.expiresAt,
+    })),
+    auditEvents: auditEvents
+      .filter((event) => !event.entityId || !hiddenEntityIds.has(event.entityId))
+      .map((event) => ({
+        eventType: event.eventType,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        metadata: event.metadata,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt,
+      })),
+  };
+};
+
+export type UserDataArchive = Awaited<ReturnType<typeof collectUserData>>;
+
+const formatDate = (value: Date | string | null | undefined): string =>
+  value ? format(new Date(value), "d MMM yyyy, HH:mm") : "-";
+
+/**
+ * Plain-text overview of the archive for people who will not read JSON
+ */
+export const renderExportSummary = (archive: UserDataArchive): string => {
+  const { account, profile } = archive;
+  const latestConsent = archive.consents[archive.consents.length - 1];
+  const messageCount = archive.matches.reduce((total, match) => total + match.messages.length, 0);
+  const sentCount = archive.matches.reduce(
+    (total, match) => total + match.messages.filter((message) => message.fromMe).length,
+    0
+  );
+
+  const lines = [
+    "BANDHAN AI - YOUR PERSONAL DATA",
+    "================================",
+    "",
+    `Generated: ${formatDate(archive.generatedAt)}`,
+    `Account ID: ${account.id}`,
+    "",
+    "This summary accompanies the JSON file in the same export, which holds the",
+    "complete records. Photos and voice notes are listed but not included; you can",
+    "view them in the app.",
+    "",
+    "ACCOUNT",
+    `  Name: ${account.name ?? "-"}`,
+    `  Phone: ${account.phone ?? "-"}`,
+    `  Email: ${account.email ?? "-"}`,
+    `  Date of birth: ${account.dateOfBirth ? format(account.dateOfBirth, "d MMM yyyy") : "-"}`,
+    `  Verification level: ${account.verificationLevel}`,
+    `  DigiLocker linked: ${account.digiLockerLinked ? "yes" : "no"}`,
+    `  Member since: ${formatDate(account.createdAt)}`,
+    `  Last login: ${formatDate(account.lastLoginAt)}`,
+    "",
+    "PROFILE",
+    ...(profile
+      ? [
+          `  City: ${[profile.city, profile.state].filter(Boolean).join(", ") || "-"}`,
+          `  Occupation: ${profile.occupation ?? "-"}`,
+          `  Photos: ${profile.photos.length}`,
+          `  Photo privacy: ${profile.photoPrivacy}`,
+          `  Screenshot alerts: ${profile.screenshotAlerts ? "on" : "off"}`,
+        ]
+      : ["  No profile created"]),
+    "",
+    "CONSENT",
+    ...(latestConsent
+      ? [
+          `  Matching: ${latestConsent.purposeMatching ? "granted" : "not granted"}`,
+          `  Marketing: ${latestConsent.purposeMarketing ? "granted" : "not granted"}`,
+          `  Analytics: ${latestConsent.purposeAnalytics ? "granted" : "not granted"}`,
+          `  Third-party sharing: ${latestConsent.purposeThirdParty ? "granted" : "not granted"}`,
+          `  Policy version: ${latestConsent.consentVersion}`,
+          `  Notice hash: ${latestConsent.noticeHash ?? "not recorded"}`,
+          `  Records in history: ${archive.consents.length}`,
+        ]
+      : ["  No consent recorded"]),
+    "",
+    "ACTIVITY",
+    `  Location points (kept for 90 days): ${archive.locationHistory.length}`,
+    `  Sign-in sessions: ${archive.sessions.length}`,
+    `  Profiles liked: ${archive.likesGiven.length}`,
+    `  Profiles passed: ${archive.passesGiven.length}`,
+    `  Matches: ${archive.matches.length}`,
+    `  Messages: ${messageCount} (${sentCount} sent by you)`,
+    `  Members blocked: ${archive.blocks.length}`,
+    `  Reports filed: ${archive.reportsFiled.length}`,
+    `  Moderation actions on your account: ${archive.moderationActions.length}`,
+    `  Subscriptions: ${archive.subscriptions.length}`,
+    `  Payments: ${archive.payments.length}`,
+    `  Grievances filed: ${archive.grievances.length}`,
+    `  Emergency contacts: ${archive.emergencyContacts.length}`,
+    `  Location sharing sessions: ${archive.locationSharing.length}`,
+    `  Safety check-ins: ${archive.safetyCheckIns.length}`,
+    `  Safety SMS sent for you: ${archive.smsDeliveries.length}`,
+    `  Video selfie attempts: ${archive.livenessChallenges.length}`,
+    `  Data exports requested: ${archive.dataExports.length}`,
+    `  Account deletion requests: ${archive.deletionRequests.length}`,
+    `  Audit log entries: ${archive.auditEvents.length}`,
+    "",
+    "YOUR RIGHTS",
+    "  Under the DPDP Act 2023 you can ask us to correct or erase this data,",
+    "  withdraw consent at any time, and raise a grievance with our Grievance Officer",
+    "  from the app.",
+    "",
+  ];
+
+  return lines.join("\n");
+};
+
+/**
+ * Queue an export for the user; only one may be in flight at a time
+ */
+export const createDataExport = async (userId: string): Promise<DataExport> => {
+  const inFlight = await prisma.dataExport.findFirst({
+    where: { userId, status: { in: ["pending", "processing"] } },
+  });
+
+  if (inFlight) {
+    throw createError(
+      ERROR_CODES.DATA_EXPORT_IN_PROGRESS,
+      "Your previous export is still being prepared.",
+      409,
+      { exportId: inFlight.id }
+    );
+  }
+
+  return prisma.dataExport.create({ data: { userId } });
+};
+
+/**
+ * Generate and store an export's files
+ * The row is claimed with a guarded update, so concurrent workers never build it twice
+ */
+export const processDataExport = async (exportId: string): Promise<DataExport | null> => {
+  const { count } = await prisma.dataExport.updateMany({
+    where: {
+      id: exportId,
+      OR: [
+        { status: "pending" },
+        { status: "processing", startedAt: { lt: subMinutes(new Date(), STALE_PROCESSING_MINUTES) } },
+      ],
+    },
+    data: { status: "processing", startedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const dataExport = await prisma.dataExport.findUniqueOrThrow({ where: { id: exportId } });
+
+  try {
+    const archive = await collectUserData(dataExport.userId);
+    const archiveBody = Buffer.from(JSON.stringify(archive, null, 2));
+    const summaryBody = Buffer.from(renderExportSummary(archive));
+    const prefix = `exports/${dataExport.userId}/${dataExport.id}`;
+    const archiveKey = `${prefix}/data.json`;
+    const summaryKey = `${prefix}/summary.txt`;
+
+    await getStorage().put(archiveKey, archiveBody, "application/json");
+    await getStorage().put(summaryKey, summaryBody, "text/plain; charset=utf-8");
+
+    const ready = await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: "ready",
+        archiveKey,
+        summaryKey,
+        sizeBytes: archiveBody.length + summaryBody.length,
+        failureReason: null,
+        completedAt: new Date(),
+        expiresAt: addDays(new Date(), EXPORT_RETENTION_DAYS),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_EXPORT_READY",
+        userId: dataExport.userId,
+        entityType: "DATA_EXPORT",
+        entityId: exportId,
+        action: "ACCESS_REQUEST_FULFILLED",
+        metadata: { sizeBytes: ready.sizeBytes, formatVersion: EXPORT_FORMAT_VERSION },
+      },
+    });
+
+    return ready;
+  } catch (error: any) {
+    const failed = await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: "failed", failureReason: String(error?.message ?? error).slice(0, 500) },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "DATA_EXPORT_FAILED",
+        userId: dataExport.userId,
+        entityType: "DATA_EXPORT",
+        entityId: exportId,
+        action: "ACCESS_REQUEST_FAILED",
+        metadata: { reason: failed.failureReason },
+      },
+    });
+
+    return failed;
+  }
+};
+
+/**
+ * Build exports still waiting (e.g. after a restart interrupted the request handler's run)
+ */
+export const processPendingDataExports = async (): Promise<{ processedCount: number }> => {
+  const waiting = await prisma.dataExport.findMany({
+    where: {
+      OR: [
+        { status: "pending" },
+        { status: "processing", startedAt: { lt: subMinutes(new Date(), STALE_PROCESSING_MINUTES) } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let processedCount = 0;
+
+  for (const { id } of waiting) {
+    if (await processDataExport(id)) processedCount++;
+  }
+
+  return { processedCount };
+};
+
+/**
+ * Delete the files of exports past their retention window
+ */
+export const expireDataExports = async (): Promise<{ expiredCount: number }> => {
+  const expired = await prisma.dataExport.findMany({
+    where: { status: "ready", expiresAt: { lte: new Date() } },
+  });
+
+  for (const dataExport of expired) {
+    for (const key of [dataExport.archiveKey, dataExport.summaryKey]) {
+      if (key) await getStorage().delete(key);
+    }
+
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { status: "expired", archiveKey: null, summaryKey: null },
+    });
+  }
+
+  return { expiredCount: expired.length };
+};
+
+/**
+ * Signed link for one export file, never outliving the export itself
+ */
+export const getExportDownloadUrl = (dataExport: DataExport, file: ExportFile): string | null => {
+  const key = exportFileKey(dataExport, file);
+
+  if (dataExport.status !== "ready" || !key || !dataExport.expiresAt) {
+    return null;
+  }
+
+  const secondsLeft = Math.floor((dataExport.expiresAt.getTime() - Date.now()) / 1000);
+  const ttlSeconds = Math.min(EXPORT_LINK_TTL_SECONDS, secondsLeft);
+
+  if (ttlSeconds <= 0) {
+    return null;
+  }
+
+  const params = getSignedUrlParams(exportSigningSubject(key), ttlSeconds);
+
+  return `${getPublicBaseUrl()}/privacy/exports/${dataExport.id}/files/${file}?${params.toString()}`;
+};
+
+/**
+ * Client view of an export with fresh download links when it is ready
+ */
+export const serializeDataExport = (dataExport: DataExport) => {
+  const archiveUrl = getExportDownloadUrl(dataExport, "archive");
+
+  return {
+    id: dataExport.id,
+    status: dataExport.status,
+    requestedAt: dataExport.createdAt,
+    completedAt: dataExport.completedAt,
+    expiresAt: dataExport.expiresAt,
+    sizeBytes: dataExport.sizeBytes,
+    downloads: archiveUrl
+      ? {
+          archiveUrl,
+          summaryUrl: getExportDownloadUrl(dataExport, "summary"),
+          linkExpiresAt: new Date(
+            Math.min(
+              Date.now() + EXPORT_LINK_TTL_SECONDS * 1000,
+              dataExport.expiresAt?.getTime() ?? Date.now()
+            )
+          ),
+        }
+      : null,
+  };
+};
@@ -0,0 +1,250 @@
+/**
+ * DigiLocker Token Lifecycle
+ * Stored access and refresh tokens, the periodic re-verification that refreshes
+ * and introspects them, and what happens when the user withdraws access
+ * DIGILOCKER_RECHECK_HOURS sets how often a linked account is re-verified
+ * (default 24); each check rotates the refresh token so it never lapses
+ * Every attempt pushes the account's next check back, failed ones with an
+ * exponential backoff, so accounts DigiLocker keeps failing on cannot hold up the rest
+ * DPDP Act 2023 Compliance - Both tokens are KMS-encrypted; a withdrawn grant
+ * removes the tokens and the badge they backed
+ */
+
+import { PrismaClient, User } from "@prisma/client";
+import { addHours, addSeconds } from "date-fns";
+import {
+  DigiLockerTokenResponse,
+  refreshDigiLockerToken,
+  verifyDigiLockerToken,
+} from "./digilocker";
+import { decryptWithKMS, encryptWithKMS } from "./kms-encryption";
+import { sendTemplatedSms } from "./sms-gateway";
+import { emitToUser } from "../routes/chat-gateway";
+
+const prisma = new PrismaClient();
+
+// Accounts re-verified per scheduled run, to stay well inside DigiLocker's rate limits
+const RECHECK_BATCH_SIZE = 100;
+
+export type DigiLockerCheckOutcome = "refreshed" | "revoked" | "no_refresh_token" | "unavailable";
+
+export const getDigiLockerRecheckHours = (): number =>
+  parseInt(process.env.DIGILOCKER_RECHECK_HOURS || "24", 10);
+
+const getVerifyUrl = (): string => process.env.VERIFY_PUBLIC_URL || "https://bandhan.ai/verify";
+
+/**
+ * Encrypted token columns for the user row
+ * DigiLocker does not always rotate the refresh token; pass the current one to keep it
+ */
+export const sealDigiLockerTokens = async (
+  tokens: DigiLockerTokenResponse,
+  currentRefreshToken: string | null = null
+) => {
+  const accessToken = await encryptWithKMS(tokens.access_token);
+  const refreshToken = tokens.refresh_token ?? currentRefreshToken;
+  const encryptedRefresh = refreshToken ? await encryptWithKMS(refreshToken) : null;
+
+  return {
+    digiLockerToken: accessToken.ciphertext,
+    digiLockerTokenIv: accessToken.iv,
+    digiLockerTokenTag: accessToken.authTag,
+    digiLockerRefreshToken: encryptedRefresh?.ciphertext ?? null,
+    digiLockerRefreshTokenIv: encryptedRefresh?.iv ?? null,
+    digiLockerRefreshTokenTag: encryptedRefresh?.authTag ?? null,
+    digiLockerTokenExpiresAt: addSeconds(new Date(), tokens.expires_in),
+    digiLockerCheckedAt: new Date(),
+    digiLockerCheckFailures: 0,
+    digiLockerNextCheckAt: addHours(new Date(), getDigiLockerRecheckHours()),
+  };
+};
+
+const openRefreshToken = async (user: User): Promise<string | null> => {
+  if (
+    !user.digiLockerRefreshToken ||
+    !user.digiLockerRefreshTokenIv ||
+    !user.digiLockerRefreshTokenTag
+  ) {
+    return null;
+  }
+
+  return decryptWithKMS(
+    user.digiLockerRefreshToken,
+    user.digiLockerRefreshTokenIv,
+    user.digiLockerRefreshTokenTag
+  );
+};
+
+/**
+ * DigiLocker withdrew access: drop the tokens and the Tier 2 badge (and Gold,
+ * which sits on top of it), then tell the user
+ * The update is guarded on the token that was checked, so a reconnect that
+ * landed in the meantime is left alone; returns false in that case
+ */
+export const revokeDigiLockerVerification = async (
+  user: User,
+  reason: "refresh_rejected" | "introspection_inactive"
+): Promise<boolean> => {
+  const verificationLevel = Math.min(user.verificationLevel, user.isPhoneVerified ? 1 : 0);
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, digiLockerToken: user.digiLockerToken },
+    data: {
+      digiLockerToken: null,
+      digiLockerTokenIv: null,
+      digiLockerTokenTag: null,
+      digiLockerRefreshToken: null,
+      digiLockerRefreshTokenIv: null,
+      digiLockerRefreshTokenTag: null,
+      digiLockerTokenExpiresAt: null,
+      digiLockerCheckedAt: null,
+      digiLockerCheckAttemptedAt: null,
+      digiLockerCheckFailures: 0,
+      digiLockerNextCheckAt: null,
+      digiLockerVerifiedAt: null,
+      verificationLevel,
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "VERIFICATION_REVOKED",
+      userId: user.id,
+      entityType: "USER",
+      entityId: user.id,
+      action: "DIGILOCKER_ACCESS_REVOKED",
+      metadata: {
+        reason,
+        previousLevel: user.verificationLevel,
+        verificationLevel,
+      },
+    },
+  });
+
+  // A connected app refreshes its session to pick up the lower level
+  emitToUser(user.id, "verification:revoked", {
+    tier: 2,
+    verificationLevel,
+  });
+
+  if (user.phone) {
+    const profile = await prisma.profile.findUnique({
+      where: { userId: user.id },
+      select: { motherTongue: true },
+    });
+
+    try {
+      await sendTemplatedSms({
+        userId: user.id,
+        to: user.phone,
+        template: "digilocker_revoked",
+        language: profile?.motherTongue === "Hindi" ? "hi" : "en",
+        variables: { verifyUrl: getVerifyUrl() },
+      });
+    } catch (error) {
+      console.error(`[DigiLocker] Revocation SMS for ${user.id} failed:`, error);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Refresh the user's DigiLocker access token and introspect the new one
+ * DigiLocker being unreachable changes nothing; the next run tries again
+ */
+export const recheckDigiLockerAccess = async (user: User): Promise<DigiLockerCheckOutcome> => {
+  const refreshToken = await openRefreshToken(user);
+
+  if (!refreshToken) {
+    return "no_refresh_token";
+  }
+
+  let tokens: DigiLockerTokenResponse;
+
+  try {
+    tokens = await refreshDigiLockerToken(refreshToken);
+  } catch (error: any) {
+    if (error.message !== "DIGILOCKER_TOKEN_REVOKED") {
+      return "unavailable";
+    }
+
+    await revokeDigiLockerVerification(user, "refresh_rejected");
+    return "revoked";
+  }
+
+  const active = await verifyDigiLockerToken(tokens.access_token);
+
+  if (active === false) {
+    await revokeDigiLockerVerification(user, "introspection_inactive");
+    return "revoked";
+  }
+
+  // null (introspection unreachable) passes: the refresh already proved the grant stands
+  await prisma.user.updateMany({
+    where: { id: user.id, digiLockerToken: user.digiLockerToken },
+    data: await sealDigiLockerTokens(tokens, refreshToken),
+  });
+
+  return "refreshed";
+};
+
+/**
+ * Hours until the next attempt after `failures` attempts in a row without success:
+ * 1, 2, 4, ... up to DIGILOCKER_RECHECK_HOURS
+ */
+export const getDigiLockerRetryHours = (failures: number): number =>
+  Math.min(2 ** Math.max(failures - 1, 0), getDigiLockerRecheckHours());
+
+/**
+ * Re-verify linked accounts whose next check is due
+ * Each account is claimed before it is checked: the attempt is recorded and the
+ * next check scheduled as if it will fail, and a success reschedules it
+ */
+export const recheckDueDigiLockerTokens = async (): Promise<{
+  refreshedCount: number;
+  revokedCount: number;
+}> => {
+  const now = new Date();
+  const due = await prisma.user.findMany({
+    where: {
+      digiLockerRefreshToken: { not: null },
+      OR: [{ digiLockerNextCheckAt: null }, { digiLockerNextCheckAt: { lte: now } }],
+    },
+    orderBy: { digiLockerNextCheckAt: { sort: "asc", nulls: "first" } },
+    take: RECHECK_BATCH_SIZE,
+  });
+
+  let refreshedCount = 0;
+  let revokedCount = 0;
+
+  for (const user of due) {
+    const failures = user.digiLockerCheckFailures + 1;
+
+    // Guarded update: overlapping runs check each account once
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, digiLockerNextCheckAt: user.digiLockerNextCheckAt },
+      data: {
+        digiLockerCheckAttemptedAt: now,
+        digiLockerCheckFailures: failures,
+        digiLockerNextCheckAt: addHours(now, getDigiLockerRetryHours(failures)),
+      },
+    });
+
+    if (count === 0) continue;
+
+    try {
+      const outcome = await recheckDigiLockerAccess(user);
+      if (outcome === "refreshed") refreshedCount++;
+      if (outcome === "revoked") revokedCount++;
+    } catch (error) {
+      console.error(`[DigiLocker] Re-verification of ${user.id} failed:`, error);
+    }
+  }
+
+  return { refreshedCount, revokedCount };
+};
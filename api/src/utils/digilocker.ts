@@ -6,11 +6,12 @@
 
 import axios from "axios";
 
-interface DigiLockerTokenResponse {
+export interface DigiLockerTokenResponse {
   access_token: string;
   token_type: string;
   expires_in: number;
   scope: string;
+  refresh_token?: string;
   error?: string;
   error_description?: string;
 }
@@ -27,9 +28,10 @@ interface DigiLockerUserInfo {
 /**
  * Get DigiLocker authorization URL
  * @param state - Random state parameter for CSRF protection
+ * @param codeChallenge - PKCE S256 challenge of the code verifier
  * @returns DigiLocker OAuth authorization URL
  */
-export const getDigiLockerAuthUrl = (state: string): string => {
+export const getDigiLockerAuthUrl = (state: string, codeChallenge: string): string => {
   const baseUrl = process.env.DIGILOCKER_AUTH_URL ||
     "https://digilocker.meripehchaan.gov.in/public/oauth2/1/authorize";
 
@@ -39,6 +41,8 @@ export const getDigiLockerAuthUrl = (state: string): string => {
     redirect_uri: process.env.DIGILOCKER_REDIRECT_URI!,
     scope: "profile",
     state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
   });
 
   return `${baseUrl}?${params.toString()}`;
@@ -47,10 +51,12 @@ export const getDigiLockerAuthUrl = (state: string): string => {
 /**
  * Exchange authorization code for access token
  * @param code - Authorization code from DigiLocker callback
+ * @param codeVerifier - PKCE code verifier the authorization URL was built from
  * @returns Access token response
  */
 export const exchangeDigiLockerCode = async (
-  code: string
+  code: string,
+  codeVerifier: string
 ): Promise<DigiLockerTokenResponse> => {
   try {
     const tokenUrl = process.env.DIGILOCKER_TOKEN_URL ||
@@ -59,6 +65,7 @@ export const exchangeDigiLockerCode = async (
     const params = new URLSearchParams({
       grant_type: "authorization_code",
       code,
+      code_verifier: codeVerifier,
       redirect_uri: process.env.DIGILOCKER_REDIRECT_URI!,
       client_id: process.env.DIGILOCKER_CLIENT_ID!,
       client_secret: process.env.DIGILOCKER_CLIENT_SECRET!,
@@ -109,11 +116,12 @@ export const getDigiLockerProfile = async (
 /**
  * Verify DigiLocker token validity
  * @param accessToken - DigiLocker access token
- * @returns True if token is valid
+ * @returns True if token is valid, false if DigiLocker reports it inactive,
+ * null if DigiLocker could not be reached
  */
 export const verifyDigiLockerToken = async (
   accessToken: string
-): Promise<boolean> => {
+): Promise<boolean | null> => {
   try {
     const introspectUrl = process.env.DIGILOCKER_INTROSPECT_URL ||
       "https://digilocker.meripehchaan.gov.in/public/oauth2/1/introspect";
@@ -133,7 +141,7 @@ export const verifyDigiLockerToken = async (
     return response.data.active === true;
   } catch (error) {
     console.error("DigiLocker token introspection failed:", error);
-    return false;
+    return null;
   }
 };
 
@@ -169,6 +177,47 @@ export const refreshDigiLockerToken = async (
     return response.data;
   } catch (error: any) {
     console.error("DigiLocker token refresh failed:", error);
+
+    // The grant is gone (user revoked access, or the refresh token expired)
+    const errorCode = error.response?.data?.error;
+    if (errorCode === "invalid_grant") {
+      throw new Error("DIGILOCKER_TOKEN_REVOKED");
+    }
+
     throw new Error("DIGILOCKER_TOKEN_REFRESH_FAILED");
   }
 };
+
+/**
+ * Revoke a DigiLocker token (account erasure, unlinking)
+ * @param token - DigiLocker access or refresh token
+ * @param tokenTypeHint - Which of the two it is
+ * @returns True if DigiLocker accepted the revocation
+ */
+export const revokeDigiLockerToken = async (
+  token: string,
+  tokenTypeHint: "access_token" | "refresh_token" = "access_token"
+): Promise<boolean> => {
+  try {
+    const revokeUrl = process.env.DIGILOCKER_REVOKE_URL ||
+      "https://digilocker.meripehchaan.gov.in/public/oauth2/1/revoke";
+
+    const params = new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      client_id: process.env.DIGILOCKER_CLIENT_ID!,
+      client_secret: process.env.DIGILOCKER_CLIENT_SECRET!,
+    });
+
+    await axios.post(revokeUrl, params, {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    });
+
+    return true;
+  } catch (error) {
+    console.error("DigiLocker token revocation failed:", error);
+    return false;
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * Emergency Contacts Service
+ * Up to three trusted contacts per user; each confirms once through an opt-in
+ * SMS link before any safety SMS is sent to them
+ * DPDP Act 2023 Compliance - Numbers are KMS-encrypted and shown back only as
+ * their last four digits; a contact who declines is never messaged again
+ */
+
+import crypto from "crypto";
+import { EmergencyContact, PrismaClient } from "@prisma/client";
+import { addDays } from "date-fns";
+import { decryptWithKMS, encryptWithKMS } from "./kms-encryption";
+import { ERROR_CODES, createError } from "./errors";
+import { hashSmsRecipient, sendTemplatedSms } from "./sms-gateway";
+import { SmsLanguage } from "./sms-templates";
+
+const prisma = new PrismaClient();
+
+export const MAX_EMERGENCY_CONTACTS = 3;
+export const CONTACT_OPT_IN_VALID_DAYS = 7;
+
+export interface VerifiedContact {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+export const hashOptInToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const getContactOptInUrl = (token: string): string =>
+  `${process.env.CONTACT_OPT_IN_PUBLIC_URL || "https://bandhan.ai/contacts/confirm"}/${token}`;
+
+export const sealContactPhone = async (phone: string) => {
+  const encrypted = await encryptWithKMS(phone);
+
+  return {
+    phoneCiphertext: encrypted.ciphertext,
+    phoneIv: encrypted.iv,
+    phoneAuthTag: encrypted.authTag,
+    phoneHash: hashSmsRecipient(phone),
+    phoneLast4: phone.slice(-4),
+  };
+};
+
+const openContactPhone = (contact: EmergencyContact): Promise<string> =>
+  decryptWithKMS(contact.phoneCiphertext, contact.phoneIv, contact.phoneAuthTag);
+
+export const serializeEmergencyContact = (contact: EmergencyContact) => ({
+  id: contact.id,
+  name: contact.name,
+  relationship: contact.relationship,
+  phone: `+91 ******${contact.phoneLast4}`,
+  status: contact.status,
+  language: contact.language,
+  optInSentAt: contact.optInSentAt,
+  optInExpiresAt: contact.optInExpiresAt,
+  verifiedAt: contact.verifiedAt,
+  createdAt: contact.createdAt,
+});
+
+/**
+ * Issue a fresh opt-in link (replacing any earlier one) and text it to the contact
+ * The link is stored before sending so it works the moment the SMS arrives
+ */
+export const sendContactOptIn = async (contact: EmergencyContact): Promise<EmergencyContact> => {
+  const token = crypto.randomBytes(24).toString("base64url");
+  const now = new Date();
+
+  await prisma.emergencyContact.update({
+    where: { id: contact.id },
+    data: {
+      optInTokenHash: hashOptInToken(token),
+      optInExpiresAt: addDays(now, CONTACT_OPT_IN_VALID_DAYS),
+    },
+  });
+
+  const owner = await prisma.user.findUnique({
+    where: { id: contact.userId },
+    select: { name: true },
+  });
+
+  await sendTemplatedSms({
+    userId: contact.userId,
+    to: await openContactPhone(contact),
+    template: "contact_opt_in",
+    language: contact.language as SmsLanguage,
+    variables: {
+      name: owner?.name?.split(" ")[0] || "A Bandhan AI user",
+      confirmUrl: getContactOptInUrl(token),
+    },
+  });
+
+  return prisma.emergencyContact.update({
+    where: { id: contact.id },
+    data: { optInSentAt: now },
+  });
+};
+
+/**
+ * A pending contact whose opt-in link is still valid
+ */
+export const findContactByOptInToken = (token: string) =>
+  prisma.emergencyContact.findFirst({
+    where: {
+      optInTokenHash: hashOptInToken(token),
+      status: "pending",
+      optInExpiresAt: { gt: new Date() },
+    },
+    include: { user: { select: { name: true } } },
+  });
+
+/**
+ * The user's chosen contacts with their numbers, for a safety SMS or check-in
+ * Every contact must belong to the user and have opted in
+ */
+export const resolveVerifiedContacts = async (
+  userId: string,
+  contactIds: string[]
+): Promise<VerifiedContact[]> => {
+  const ids = [...new Set(contactIds)];
+
+  const contacts = await prisma.emergencyContact.findMany({
+    where: { id: { in: ids }, userId },
+  });
+
+  if (contacts.length !== ids.length) {
+    throw createError(ERROR_CODES.EMERGENCY_CONTACT_NOT_FOUND, "Emergency contact not found.", 404);
+  }
+
+  const unverified = contacts.filter((contact) => contact.status !== "verified");
+
+  if (unverified.length > 0) {
+    throw createError(
+      ERROR_CODES.EMERGENCY_CONTACT_NOT_VERIFIED,
+      "Some contacts have not confirmed yet.",
+      409,
+      { contactIds: unverified.map((contact) => contact.id) }
+    );
+  }
+
+  return Promise.all(
+    contacts.map(async (contact) => ({
+      id: contact.id,
+      name: contact.name,
+      phone: await openContactPhone(contact),
+    }))
+  );
+};
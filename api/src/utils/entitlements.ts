@@ -0,0 +1,127 @@
+/**
+ * Entitlements Service
+ * Resolves what a user's paid plan unlocks; the single place other routes
+ * (daily limits, advanced filters, family view) ask "is this allowed?"
+ * DPDP Act 2023 Compliance - Derived only from verified payments, never from client claims
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { ERROR_CODES, createError } from "./errors";
+import type { DailyLimitAction } from "./daily-limits";
+
+const prisma = new PrismaClient();
+
+export const PLAN_TIERS = ["free", "premium", "family"] as const;
+
+export type PlanTier = typeof PLAN_TIERS[number];
+
+export type EntitlementFeature = "advancedFilters" | "familyView" | "compatibilityInsights";
+
+export interface PlanEntitlements {
+  dailyLimits: Record<DailyLimitAction, number>;
+  advancedFilters: boolean;
+  familyView: boolean;
+  compatibilityInsights: boolean;
+  linkedProfiles: number;
+}
+
+export interface Entitlements extends PlanEntitlements {
+  tier: PlanTier;
+  expiresAt: string | null;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanTier, PlanEntitlements> = {
+  free: {
+    dailyLimits: { profiles: 5, chats: 10, likes: 20, views: 50 },
+    advancedFilters: false,
+    familyView: false,
+    compatibilityInsights: false,
+    linkedProfiles: 1,
+  },
+  premium: {
+    dailyLimits: { profiles: 25, chats: 50, likes: 100, views: 250 },
+    advancedFilters: true,
+    familyView: true,
+    compatibilityInsights: true,
+    linkedProfiles: 1,
+  },
+  family: {
+    dailyLimits: { profiles: 25, chats: 50, likes: 100, views: 250 },
+    advancedFilters: true,
+    familyView: true,
+    compatibilityInsights: true,
+    linkedProfiles: 2,
+  },
+};
+
+// When several subscriptions overlap (e.g. an upgrade), the highest tier wins
+const TIER_RANK: Record<PlanTier, number> = { free: 0, premium: 1, family: 2 };
+
+/**
+ * Cheapest tier that unlocks a feature, for upgrade prompts
+ */
+const requiredTierFor = (feature: EntitlementFeature): PlanTier =>
+  PLAN_TIERS.find((tier) => PLAN_ENTITLEMENTS[tier][feature]) ?? "premium";
+
+/**
+ * Resolve a user's effective entitlements from their active, unexpired subscriptions
+ */
+export const getEntitlements = async (userId: string): Promise<Entitlements> => {
+  const now = new Date();
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      userId,
+      status: "active",
+      currentPeriodEnd: { gt: now },
+    },
+    include: { plan: true },
+  });
+
+  let tier: PlanTier = "free";
+  let expiresAt: Date | null = null;
+
+  for (const subscription of subscriptions) {
+    const subscriptionTier = subscription.plan.tier as PlanTier;
+
+    if (TIER_RANK[subscriptionTier] > TIER_RANK[tier]) {
+      tier = subscriptionTier;
+      expiresAt = subscription.currentPeriodEnd;
+    } else if (subscriptionTier === tier && subscription.currentPeriodEnd! > expiresAt!) {
+      expiresAt = subscription.currentPeriodEnd;
+    }
+  }
+
+  return {
+    tier,
+    expiresAt: expiresAt?.toISOString() ?? null,
+    ...PLAN_ENTITLEMENTS[tier],
+  };
+};
+
+/**
+ * Resolve the plan whose quotas and features apply to a user
+ */
+export const getPlanTier = async (userId: string): Promise<PlanTier> =>
+  (await getEntitlements(userId)).tier;
+
+/**
+ * Throw ENTITLEMENT_REQUIRED unless the user's plan unlocks `feature`
+ */
+export const assertEntitlement = async (
+  userId: string,
+  feature: EntitlementFeature
+): Promise<void> => {
+  const entitlements = await getEntitlements(userId);
+
+  if (!entitlements[feature]) {
+    const requiredTier = requiredTierFor(feature);
+
+    throw createError(
+      ERROR_CODES.ENTITLEMENT_REQUIRED,
+      "Upgrade your plan to use this feature.",
+      402,
+      { feature, currentTier: entitlements.tier, requiredTier, requiresAction: "UPGRADE_PLAN" }
+    );
+  }
+};
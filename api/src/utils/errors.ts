@@ -15,6 +15,10 @@ export const ERROR_CODES = {
   TOKEN_INVALID: "TOKEN_INVALID",
   NO_REFRESH_TOKEN: "NO_REFRESH_TOKEN",
   REFRESH_TOKEN_INVALID: "REFRESH_TOKEN_INVALID",
+  REFRESH_TOKEN_REUSED: "REFRESH_TOKEN_REUSED",
+  SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
+  FORBIDDEN: "FORBIDDEN",
+  ACCOUNT_SUSPENDED: "ACCOUNT_SUSPENDED",
 
   // Age Verification Errors
   AGE_RESTRICTION_VIOLATION: "AGE_RESTRICTION_VIOLATION",
@@ -41,17 +45,96 @@ export const ERROR_CODES = {
   LIVENESS_DETECTION_FAILED: "LIVENESS_DETECTION_FAILED",
   INVALID_VIDEO_FORMAT: "INVALID_VIDEO_FORMAT",
   VIDEO_TOO_LARGE: "VIDEO_TOO_LARGE",
+  LIVENESS_CHALLENGE_INVALID: "LIVENESS_CHALLENGE_INVALID",
+  FACE_MATCH_FAILED: "FACE_MATCH_FAILED",
+  VIDEO_UPLOAD_NOT_FOUND: "VIDEO_UPLOAD_NOT_FOUND",
+  VIDEO_UPLOAD_OFFSET_MISMATCH: "VIDEO_UPLOAD_OFFSET_MISMATCH",
+  VIDEO_UPLOAD_INCOMPLETE: "VIDEO_UPLOAD_INCOMPLETE",
 
   // Consent Errors
   CONSENT_REQUIRED: "CONSENT_REQUIRED",
   CONSENT_WITHDRAWN: "CONSENT_WITHDRAWN",
   INVALID_CONSENT_PURPOSE: "INVALID_CONSENT_PURPOSE",
+  CONSENT_NOTICE_OUTDATED: "CONSENT_NOTICE_OUTDATED",
 
   // Encryption Errors
   ENCRYPTION_FAILED: "ENCRYPTION_FAILED",
   DECRYPTION_FAILED: "DECRYPTION_FAILED",
   DATA_KEY_GENERATION_FAILED: "DATA_KEY_GENERATION_FAILED",
 
+  // Profile Errors
+  PROFILE_NOT_FOUND: "PROFILE_NOT_FOUND",
+  PROFILE_INCOMPLETE: "PROFILE_INCOMPLETE",
+  PHOTO_NOT_FOUND: "PHOTO_NOT_FOUND",
+
+  // Match Errors
+  MATCH_NOT_FOUND: "MATCH_NOT_FOUND",
+  MATCH_ALREADY_LIKED: "MATCH_ALREADY_LIKED",
+  NOTHING_TO_UNDO: "NOTHING_TO_UNDO",
+  UNDO_WINDOW_EXPIRED: "UNDO_WINDOW_EXPIRED",
+  DAILY_LIMIT_REACHED: "DAILY_LIMIT_REACHED",
+
+  // Chat Errors
+  CONVERSATION_NOT_FOUND: "CONVERSATION_NOT_FOUND",
+  CHAT_NOT_ALLOWED: "CHAT_NOT_ALLOWED",
+  MESSAGE_NOT_FOUND: "MESSAGE_NOT_FOUND",
+
+  // Media Errors
+  MEDIA_TOO_LARGE: "MEDIA_TOO_LARGE",
+  UNSUPPORTED_MEDIA_TYPE: "UNSUPPORTED_MEDIA_TYPE",
+  INVALID_VOICE_DURATION: "INVALID_VOICE_DURATION",
+  PHOTO_LIMIT_REACHED: "PHOTO_LIMIT_REACHED",
+  MEDIA_NOT_FOUND: "MEDIA_NOT_FOUND",
+  MEDIA_ACCESS_DENIED: "MEDIA_ACCESS_DENIED",
+
+  // Moderation Errors
+  BLOCK_NOT_FOUND: "BLOCK_NOT_FOUND",
+  REPORT_NOT_FOUND: "REPORT_NOT_FOUND",
+  REPORT_ALREADY_OPEN: "REPORT_ALREADY_OPEN",
+  INVALID_REPORT_TRANSITION: "INVALID_REPORT_TRANSITION",
+
+  // Data Rights Errors
+  DATA_EXPORT_NOT_FOUND: "DATA_EXPORT_NOT_FOUND",
+  DATA_EXPORT_IN_PROGRESS: "DATA_EXPORT_IN_PROGRESS",
+  DATA_EXPORT_LINK_INVALID: "DATA_EXPORT_LINK_INVALID",
+  DELETION_REQUEST_NOT_FOUND: "DELETION_REQUEST_NOT_FOUND",
+
+  // Grievance Errors
+  GRIEVANCE_NOT_FOUND: "GRIEVANCE_NOT_FOUND",
+  INVALID_GRIEVANCE_TRANSITION: "INVALID_GRIEVANCE_TRANSITION",
+
+  // Location Sharing Errors
+  SHARING_SESSION_NOT_FOUND: "SHARING_SESSION_NOT_FOUND",
+  SHARING_SESSION_ENDED: "SHARING_SESSION_ENDED",
+
+  // Safety Check-in Errors
+  SAFETY_PIN_REQUIRED: "SAFETY_PIN_REQUIRED",
+  INVALID_SAFETY_PIN: "INVALID_SAFETY_PIN",
+  CHECK_IN_NOT_FOUND: "CHECK_IN_NOT_FOUND",
+  CHECK_IN_ALREADY_ACTIVE: "CHECK_IN_ALREADY_ACTIVE",
+
+  // Emergency Contact Errors
+  EMERGENCY_CONTACT_NOT_FOUND: "EMERGENCY_CONTACT_NOT_FOUND",
+  EMERGENCY_CONTACT_LIMIT_REACHED: "EMERGENCY_CONTACT_LIMIT_REACHED",
+  EMERGENCY_CONTACT_EXISTS: "EMERGENCY_CONTACT_EXISTS",
+  EMERGENCY_CONTACT_NOT_VERIFIED: "EMERGENCY_CONTACT_NOT_VERIFIED",
+  EMERGENCY_CONTACT_ALREADY_VERIFIED: "EMERGENCY_CONTACT_ALREADY_VERIFIED",
+  CONTACT_OPT_IN_DECLINED: "CONTACT_OPT_IN_DECLINED",
+  CONTACT_OPT_IN_INVALID: "CONTACT_OPT_IN_INVALID",
+
+  // SMS Gateway Errors
+  SMS_SEND_FAILED: "SMS_SEND_FAILED",
+  SMS_TEMPLATE_NOT_CONFIGURED: "SMS_TEMPLATE_NOT_CONFIGURED",
+  SMS_DELIVERY_NOT_FOUND: "SMS_DELIVERY_NOT_FOUND",
+
+  // Billing Errors
+  PLAN_NOT_FOUND: "PLAN_NOT_FOUND",
+  PAYMENT_NOT_FOUND: "PAYMENT_NOT_FOUND",
+  PAYMENT_VERIFICATION_FAILED: "PAYMENT_VERIFICATION_FAILED",
+  PAYMENT_GATEWAY_ERROR: "PAYMENT_GATEWAY_ERROR",
+  WEBHOOK_SIGNATURE_INVALID: "WEBHOOK_SIGNATURE_INVALID",
+  ENTITLEMENT_REQUIRED: "ENTITLEMENT_REQUIRED",
+
   // Database Errors
   USER_NOT_FOUND: "USER_NOT_FOUND",
   USER_ALREADY_EXISTS: "USER_ALREADY_EXISTS",
@@ -106,6 +189,14 @@ export const createError = (
   return error;
 };
 
+export const accountSuspendedError = (): ApiError =>
+  createError(
+    ERROR_CODES.ACCOUNT_SUSPENDED,
+    "This account has been suspended. Please contact support.",
+    403,
+    { requiresAction: "ACCOUNT_RESTRICTION" }
+  );
+
 export const ageRestrictionError = (): ApiError =>
   createError(
     ERROR_CODES.AGE_RESTRICTION_VIOLATION,
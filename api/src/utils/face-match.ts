@@ -0,0 +1,358 @@
+/**
+ * Face Match
+ * Compares the face in the video selfie with the owner's profile photos, so a
+ * Gold badge vouches for the person in the pictures and not just a live person
+ * FACE_MATCHER selects the matcher (default "http", a vendor endpoint); "stub"
+ * sees the same person in every image unless given another identity
+ * DPDP Act 2023 Compliance - Only KMS-encrypted embeddings are kept, never the
+ * selfie frames; they are erased with the account
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { Photo, PrismaClient } from "@prisma/client";
+import { ERROR_CODES, createError } from "./errors";
+import { decryptWithKMS, encryptWithKMS } from "./kms-encryption";
+import { getSignedMediaUrl, getStorage } from "./media-storage";
+
+const prisma = new PrismaClient();
+
+export type FaceMatchOutcome = "matched" | "mismatched" | "no_face";
+
+export interface FaceComparison {
+  faceMatch: FaceMatchOutcome;
+  score: number | null; // Best cosine similarity; null when no face was found
+}
+
+export interface FaceMatcher {
+  readonly name: string;
+  // One embedding per face in the image; empty when there is none
+  embedImage(image: Buffer): Promise<number[][]>;
+  // Embeddings of the face across sampled selfie frames
+  embedVideo(video: Buffer, mimeType: string): Promise<number[][]>;
+}
+
+/**
+ * Similarity at or above which two faces are taken to be the same person
+ */
+export const getFaceMatchThreshold = (): number =>
+  parseFloat(process.env.FACE_MATCH_THRESHOLD || "0.6");
+
+/**
+ * Vendor endpoint returning face embeddings:
+ * POST { media (base64), mimeType, kind: "image" | "video" } -> { embeddings: number[][] }
+ * Embeddings from the same endpoint are compared here, so any model works
+ * as long as images and video frames go through the same one
+ */
+class HttpFaceMatcher implements FaceMatcher {
+  readonly name = "http";
+
+  embedImage(image: Buffer): Promise<number[][]> {
+    return this.embed(image, "image/webp", "image");
+  }
+
+  embedVideo(video: Buffer, mimeType: string): Promise<number[][]> {
+    return this.embed(video, mimeType, "video");
+  }
+
+  private async embed(media: Buffer, mimeType: string, kind: "image" | "video") {
+    const url = process.env.FACE_MATCH_API_URL;
+    const apiKey = process.env.FACE_MATCH_API_KEY;
+
+    if (!url || !apiKey) {
+      throw createError(
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        "Video verification is not available right now. Please try again later.",
+        503
+      );
+    }
+
+    try {
+      const response = await axios.post<{ embeddings: number[][] }>(
+        url,
+        { media: media.toString("base64"), mimeType, kind },
+        {
+          headers: { Authorization: `Bearer ${apiKey}` },
+          timeout: 30000,
+          maxBodyLength: Infinity,
+        }
+      );
+
+      return Array.isArray(response.data.embeddings) ? response.data.embeddings : [];
+    } catch (error: any) {
+      console.error("Face match request failed:", error.response?.data || error.message);
+      throw createError(
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        "Video verification is not available right now. Please try again later.",
+        503
+      );
+    }
+  }
+}
+
+/**
+ * Deterministic matcher for development and tests
+ * Every image and clip shows the "default" person unless a test assigns the
+ * content another identity, or null for no face at all
+ */
+export class StubFaceMatcher implements FaceMatcher {
+  readonly name = "stub";
+
+  private identities = new Map<string, string | null>();
+
+  setIdentity(content: Buffer, identity: string | null): void {
+    this.identities.set(this.hash(content), identity);
+  }
+
+  async embedImage(image: Buffer): Promise<number[][]> {
+    return this.embed(image);
+  }
+
+  async embedVideo(video: Buffer): Promise<number[][]> {
+    return this.embed(video);
+  }
+
+  private embed(content: Buffer): number[][] {
+    const key = this.hash(content);
+    const identity = this.identities.has(key) ? this.identities.get(key) : "default";
+
+    if (!identity) return [];
+
+    const seed = crypto.createHash("sha256").update(identity).digest();
+    return [Array.from(seed, (byte) => byte - 127.5)];
+  }
+
+  private hash(content: Buffer): string {
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+}
+
+const matcherFactories: Record<string, () => FaceMatcher> = {
+  http: () => new HttpFaceMatcher(),
+  stub: () => new StubFaceMatcher(),
+};
+
+/**
+ * Register an additional matcher selectable via FACE_MATCHER
+ */
+export const registerFaceMatcher = (name: string, factory: () => FaceMatcher): void => {
+  matcherFactories[name] = factory;
+};
+
+let matcher: FaceMatcher | null = null;
+
+/**
+ * The configured face matcher (FACE_MATCHER, default "http")
+ */
+export const getFaceMatcher = (): FaceMatcher => {
+  if (!matcher) {
+    const name = process.env.FACE_MATCHER || "http";
+
+    // The stub matches everyone with everyone
+    if (name === "stub" && process.env.NODE_ENV === "production") {
+      throw new Error('FACE_MATCHER "stub" cannot be used in production');
+    }
+
+    const factory = matcherFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown FACE_MATCHER "${name}"`);
+    }
+
+    matcher = factory();
+  }
+
+  return matcher;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Best match between any selfie embedding and any face in a photo
+ * Group photos match as long as one of the faces is the owner
+ */
+export const compareFaces = (template: number[][], faces: number[][]): FaceComparison => {
+  if (template.length === 0 || faces.length === 0) {
+    return { faceMatch: "no_face", score: null };
+  }
+
+  const score = Math.max(
+    ...template.flatMap((selfie) => faces.map((face) => cosineSimilarity(selfie, face)))
+  );
+
+  return {
+    faceMatch: score >= getFaceMatchThreshold() ? "matched" : "mismatched",
+    score,
+  };
+};
+
+/**
+ * Encrypted template columns for the user row
+ */
+export const encryptFaceTemplate = async (embeddings: number[][]) => {
+  const encrypted = await encryptWithKMS(JSON.stringify(embeddings));
+
+  return {
+    faceTemplate: encrypted.ciphertext,
+    faceTemplateIv: encrypted.iv,
+    faceTemplateTag: encrypted.authTag,
+  };
+};
+
+const loadFaceTemplate = async (userId: string): Promise<number[][] | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { faceTemplate: true, faceTemplateIv: true, faceTemplateTag: true },
+  });
+
+  if (!user?.faceTemplate || !user.faceTemplateIv || !user.faceTemplateTag) return null;
+
+  return JSON.parse(
+    await decryptWithKMS(user.faceTemplate, user.faceTemplateIv, user.faceTemplateTag)
+  );
+};
+
+/**
+ * Compare a profile photo with the selfie template and record the outcome on it
+ * Anything but a match is flagged for moderation
+ */
+export const checkPhoto = async (photo: Photo, template: number[][]): Promise<Photo> => {
+  const stored = await getStorage().get(photo.originalKey);
+  const faces = stored ? await getFaceMatcher().embedImage(stored.body) : [];
+  const { faceMatch, score } = compareFaces(template, faces);
+
+  return prisma.photo.update({
+    where: { id: photo.id },
+    data: {
+      faceMatch,
+      faceMatchScore: score,
+      faceCheckedAt: new Date(),
+      faceReviewStatus: faceMatch === "matched" ? null : "pending",
+    },
+  });
+};
+
+/**
+ * Compare every photo on a profile, one at a time to keep vendor calls in check
+ */
+export const checkProfilePhotos = async (
+  profileId: string,
+  template: number[][]
+): Promise<Photo[]> => {
+  const photos = await prisma.photo.findMany({
+    where: { profileId },
+    orderBy: { uploadedAt: "asc" },
+  });
+  const checked: Photo[] = [];
+
+  for (const photo of photos) {
+    checked.push(await checkPhoto(photo, template));
+  }
+
+  return checked;
+};
+
+/**
+ * Compare a photo with its owner's selfie template; unchanged if they have none
+ */
+export const checkPhotoForOwner = async (userId: string, photo: Photo): Promise<Photo> => {
+  const template = await loadFaceTemplate(userId);
+  return template ? checkPhoto(photo, template) : photo;
+};
+
+/**
+ * Whether a photo may stand as the primary photo of a Gold profile
+ * Unchecked photos pass; they belong to users verified before face match
+ */
+export const isPhotoFaceAccepted = (photo: Photo): boolean =>
+  photo.faceCheckedAt === null ||
+  photo.faceMatch === "matched" ||
+  photo.faceReviewStatus === "cleared";
+
+/**
+ * Take Gold away when the primary photo does not show the verified face
+ * Returns true when the badge was revoked
+ */
+export const revokeGoldIfPrimaryMismatched = async (
+  userId: string,
+  primary: Photo
+): Promise<boolean> => {
+  if (isPhotoFaceAccepted(primary)) return false;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { digiLockerVerifiedAt: true, isPhoneVerified: true },
+  });
+
+  if (!user) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, verificationLevel: 3 },
+    data: {
+      verificationLevel: user.digiLockerVerifiedAt ? 2 : user.isPhoneVerified ? 1 : 0,
+      videoSelfieVerifiedAt: null,
+    },
+  });
+
+  return count > 0;
+};
+
+/**
+ * After the primary photo is deleted, make the oldest remaining photo primary
+ * It goes through the same face check as a photo chosen by hand, so Gold is
+ * revoked if it does not show the verified face. Null when no photos remain
+ */
+export const promoteNextPrimaryPhoto = async (
+  userId: string,
+  profileId: string
+): Promise<{ photo: Photo; goldRevoked: boolean } | null> => {
+  const next = await prisma.photo.findFirst({
+    where: { profileId },
+    orderBy: { uploadedAt: "asc" },
+  });
+
+  if (!next) return null;
+
+  if (!next.faceCheckedAt) {
+    await checkPhotoForOwner(userId, next);
+  }
+
+  const photo = await prisma.photo.update({
+    where: { id: next.id },
+    data: { isPrimary: true },
+  });
+
+  return { photo, goldRevoked: await revokeGoldIfPrimaryMismatched(userId, photo) };
+};
+
+export const FACE_REVIEW_DECISIONS = ["clear", "remove"] as const;
+
+export type FaceReviewDecision = typeof FACE_REVIEW_DECISIONS[number];
+
+/**
+ * Flagged photo as moderators see it, original included
+ */
+export const serializeFlaggedPhoto = (photo: Photo & { profile: { userId: string } }) => ({
+  id: photo.id,
+  userId: photo.profile.userId,
+  url: getSignedMediaUrl(photo.originalKey),
+  isPrimary: photo.isPrimary,
+  faceMatch: photo.faceMatch as FaceMatchOutcome,
+  faceMatchScore: photo.faceMatchScore,
+  faceCheckedAt: photo.faceCheckedAt?.toISOString() ?? null,
+  faceReviewStatus: photo.faceReviewStatus,
+});
@@ -79,6 +79,23 @@ export const verifyPhoneOTP = async (
   }
 };
 
+/**
+ * Verify a Firebase ID token minted after client-side Phone Auth
+ * @param idToken - ID token from the Firebase Client SDK
+ * @returns Decoded token, or null if it is invalid, expired or revoked
+ */
+export const verifyFirebaseIdToken = async (
+  idToken: string
+): Promise<admin.auth.DecodedIdToken | null> => {
+  try {
+    const auth = initializeFirebase().auth();
+    return await auth.verifyIdToken(idToken, true);
+  } catch (error: any) {
+    console.error("Firebase ID token verification failed:", error.code || error.message);
+    return null;
+  }
+};
+
 /**
  * Create or update Firebase user after successful OTP verification
  * @param phoneNumber - Verified phone number
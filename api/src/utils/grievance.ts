@@ -0,0 +1,236 @@
+/**
+ * Grievance Service
+ * Ticketed complaints to the Grievance Officer: categories, statutory deadlines,
+ * status transitions and overdue alerts
+ * DPDP Act 2023 Compliance - Right to grievance redressal (Section 13); a data
+ * principal must be able to reach the Grievance Officer before the Data
+ * Protection Board, so every ticket carries its response deadline
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { Grievance, GrievanceResponse, Prisma, PrismaClient } from "@prisma/client";
+import { addDays, format } from "date-fns";
+
+const prisma = new PrismaClient();
+
+export const GRIEVANCE_CATEGORIES = [
+  "data_access",
+  "correction",
+  "erasure",
+  "consent",
+  "safety",
+] as const;
+
+export type GrievanceCategory = typeof GRIEVANCE_CATEGORIES[number];
+
+export const GRIEVANCE_STATUSES = ["open", "in_progress", "escalated", "closed"] as const;
+
+export type GrievanceStatus = typeof GRIEVANCE_STATUSES[number];
+
+// Days to resolve, from filing. Data principal rights follow the DPDP Rules 2025
+// (90 days); safety complaints follow the IT Rules 2021 intermediary timeline (15 days)
+export const GRIEVANCE_RESPONSE_DAYS: Record<GrievanceCategory, number> = {
+  data_access: 90,
+  correction: 90,
+  erasure: 90,
+  consent: 90,
+  safety: 15,
+};
+
+// Escalated tickets still need a resolution; a closed ticket is never reopened
+const GRIEVANCE_TRANSITIONS: Record<GrievanceStatus, GrievanceStatus[]> = {
+  open: ["in_progress", "escalated", "closed"],
+  in_progress: ["escalated", "closed"],
+  escalated: ["closed"],
+  closed: [],
+};
+
+// Ticket suffix alphabet without look-alikes (0/O, 1/I)
+const TICKET_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const TICKET_SUFFIX_LENGTH = 6;
+const TICKET_ATTEMPTS = 3;
+
+export interface GrievanceInput {
+  category: GrievanceCategory;
+  subject: string;
+  description: string;
+}
+
+export type GrievanceWithResponses = Grievance & { responses: GrievanceResponse[] };
+
+export const canTransitionGrievance = (from: string, to: GrievanceStatus): boolean =>
+  (GRIEVANCE_TRANSITIONS[from as GrievanceStatus] ?? []).includes(to);
+
+export const getGrievanceOfficerContact = () => ({
+  name: process.env.GRIEVANCE_OFFICER_NAME || "Grievance Officer",
+  email: process.env.GRIEVANCE_OFFICER_EMAIL || "grievance.officer@bandhan.ai",
+});
+
+export const isGrievanceOverdue = (grievance: Pick<Grievance, "status" | "responseDueAt">) =>
+  grievance.status !== "closed" && grievance.responseDueAt < new Date();
+
+/**
+ * Ticket numbers are quoted over phone and email, so they are short and readable
+ */
+export const generateTicketNumber = (filedAt: Date = new Date()): string => {
+  const suffix = Array.from(
+    { length: TICKET_SUFFIX_LENGTH },
+    () => TICKET_ALPHABET[crypto.randomInt(TICKET_ALPHABET.length)]
+  ).join("");
+
+  return `GRV-${format(filedAt, "yyyyMMdd")}-${suffix}`;
+};
+
+/**
+ * File a grievance with its deadline; retries the rare ticket number collision
+ */
+export const createGrievance = async (
+  userId: string,
+  input: GrievanceInput
+): Promise<Grievance> => {
+  const filedAt = new Date();
+  const responseDueAt = addDays(filedAt, GRIEVANCE_RESPONSE_DAYS[input.category]);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.grievance.create({
+        data: {
+          userId,
+          ticketNumber: generateTicketNumber(filedAt),
+          category: input.category,
+          subject: input.subject,
+          description: input.description,
+          responseDueAt,
+          createdAt: filedAt,
+        },
+      });
+    } catch (error) {
+      const collided =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+      if (!collided || attempt >= TICKET_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * What the complainant sees: the officer's replies without officer account ids
+ */
+export const serializeGrievance = (grievance: Grievance | GrievanceWithResponses) => ({
+  id: grievance.id,
+  ticketNumber: grievance.ticketNumber,
+  category: grievance.category,
+  subject: grievance.subject,
+  description: grievance.description,
+  status: grievance.status,
+  responseDueAt: grievance.responseDueAt,
+  isOverdue: isGrievanceOverdue(grievance),
+  createdAt: grievance.createdAt,
+  closedAt: grievance.closedAt,
+  ...("responses" in grievance
+    ? {
+        responses: grievance.responses.map((response) => ({
+          type: response.type,
+          message: response.message,
+          createdAt: response.createdAt,
+        })),
+      }
+    : {}),
+});
+
+/**
+ * What the officer sees: the full ticket including who handled it
+ */
+export const serializeGrievanceForOfficer = (grievance: GrievanceWithResponses) => ({
+  ...serializeGrievance(grievance),
+  userId: grievance.userId,
+  firstRespondedAt: grievance.firstRespondedAt,
+  escalatedAt: grievance.escalatedAt,
+  overdueAlertedAt: grievance.overdueAlertedAt,
+  updatedAt: grievance.updatedAt,
+  responses: grievance.responses.map((response) => ({
+    id: response.id,
+    type: response.type,
+    message: response.message,
+    officerId: response.officerId,
+    createdAt: response.createdAt,
+  })),
+});
+
+/**
+ * POST an overdue alert to the configured webhook (ticket metadata only)
+ */
+const sendOverdueAlert = async (grievance: Grievance): Promise<boolean> => {
+  const webhookUrl = process.env.GRIEVANCE_ALERT_WEBHOOK_URL;
+
+  if (!webhookUrl) {
+    return false;
+  }
+
+  try {
+    await axios.post(
+      webhookUrl,
+      {
+        event: "grievance.overdue",
+        ticketNumber: grievance.ticketNumber,
+        category: grievance.category,
+        status: grievance.status,
+        responseDueAt: grievance.responseDueAt.toISOString(),
+      },
+      { timeout: 10000 }
+    );
+    return true;
+  } catch (error) {
+    console.error(`[Grievance] Overdue alert for ${grievance.ticketNumber} failed:`, error);
+    return false;
+  }
+};
+
+/**
+ * Alert once for every unresolved grievance past its deadline
+ */
+export const alertOverdueGrievances = async (): Promise<{ ticketNumbers: string[] }> => {
+  const overdue = await prisma.grievance.findMany({
+    where: {
+      status: { not: "closed" },
+      responseDueAt: { lt: new Date() },
+      overdueAlertedAt: null,
+    },
+    orderBy: { responseDueAt: "asc" },
+  });
+
+  const ticketNumbers: string[] = [];
+
+  for (const grievance of overdue) {
+    // Guarded update: overlapping runs alert once
+    const { count } = await prisma.grievance.updateMany({
+      where: { id: grievance.id, overdueAlertedAt: null },
+      data: { overdueAlertedAt: new Date() },
+    });
+
+    if (count === 0) continue;
+
+    const webhookDelivered = await sendOverdueAlert(grievance);
+
+    await prisma.auditLog.create({
+      data: {
+        eventType: "GRIEVANCE_OVERDUE",
+        userId: grievance.userId,
+        entityType: "GRIEVANCE",
+        entityId: grievance.id,
+        action: "DEADLINE_MISSED",
+        metadata: {
+          ticketNumber: grievance.ticketNumber,
+          status: grievance.status,
+          responseDueAt: grievance.responseDueAt.toISOString(),
+          webhookDelivered,
+        },
+      },
+    });
+
+    ticketNumbers.push(grievance.ticketNumber);
+  }
+
+  return { ticketNumbers };
+};
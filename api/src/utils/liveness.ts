@@ -0,0 +1,319 @@
+/**
+ * Liveness Detection
+ * Server-issued challenges (random head turns and blink counts) and the
+ * pluggable providers that check a recorded clip against them
+ * LIVENESS_PROVIDER selects the provider (default "http", a vendor endpoint);
+ * "local" reads the challenge response from a marker embedded in the clip
+ * DPDP Act 2023 Compliance - The clip is only held in memory while it is checked;
+ * the outcome and the challenge it answered are all that is kept
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { LivenessChallenge, PrismaClient } from "@prisma/client";
+import { ERROR_CODES, createError } from "./errors";
+
+const prisma = new PrismaClient();
+
+export const LIVENESS_CHALLENGE_TTL_SECONDS = 120;
+
+export const HEAD_TURN_DIRECTIONS = ["left", "right", "up", "down"] as const;
+
+export type HeadTurnDirection = typeof HEAD_TURN_DIRECTIONS[number];
+
+export type LivenessStep =
+  | { type: "head_turn"; direction: HeadTurnDirection }
+  | { type: "blink"; count: number };
+
+export interface LivenessChallengeSpec {
+  nonce: string;
+  steps: LivenessStep[];
+}
+
+export interface LivenessCheckInput {
+  video: Buffer;
+  mimeType: string;
+  challenge: LivenessChallengeSpec;
+}
+
+export interface LivenessResult {
+  isLive: boolean;
+  confidence: number; // 0-1
+  // One entry per challenge step, in the order they were asked for
+  stepsCompleted: boolean[];
+  checks: {
+    faceDetected: boolean;
+    singleFace: boolean;
+    spoofSuspected: boolean;
+  };
+  referenceId?: string; // The vendor's id for this check
+}
+
+export interface LivenessProvider {
+  readonly name: string;
+  check(input: LivenessCheckInput): Promise<LivenessResult>;
+}
+
+const getLimit = (name: string, fallback: number): number =>
+  parseFloat(process.env[name] || String(fallback));
+
+/**
+ * Compact form of the expected response, e.g. "turn_left,blink_2,turn_up"
+ * Also what the local provider looks for in a test clip
+ */
+export const encodeLivenessResponse = (steps: LivenessStep[]): string =>
+  steps
+    .map((step) => (step.type === "head_turn" ? `turn_${step.direction}` : `blink_${step.count}`))
+    .join(",");
+
+/**
+ * Vendor endpoint speaking our liveness contract:
+ * POST { video (base64), mimeType, challenge: { nonce, steps } } ->
+ * { isLive, confidence, stepsCompleted, faceCount, spoofSuspected, referenceId }
+ * Vendors with their own API are wired in through a thin shim or registerLivenessProvider
+ */
+class HttpLivenessProvider implements LivenessProvider {
+  readonly name = "http";
+
+  async check(input: LivenessCheckInput): Promise<LivenessResult> {
+    const url = process.env.LIVENESS_API_URL;
+    const apiKey = process.env.LIVENESS_API_KEY;
+
+    if (!url || !apiKey) {
+      throw createError(
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        "Video verification is not available right now. Please try again later.",
+        503
+      );
+    }
+
+    try {
+      const response = await axios.post<{
+        isLive: boolean;
+        confidence: number;
+        stepsCompleted: boolean[];
+        faceCount: number;
+        spoofSuspected: boolean;
+        referenceId?: string;
+      }>(
+        url,
+        {
+          video: input.video.toString("base64"),
+          mimeType: input.mimeType,
+          challenge: input.challenge,
+        },
+        {
+          headers: { Authorization: `Bearer ${apiKey}` },
+          timeout: 30000,
+          maxBodyLength: Infinity,
+        }
+      );
+
+      const { data } = response;
+
+      return {
+        isLive: data.isLive === true,
+        confidence: Number(data.confidence) || 0,
+        stepsCompleted: Array.isArray(data.stepsCompleted)
+          ? data.stepsCompleted.map((completed) => completed === true)
+          : [],
+        checks: {
+          faceDetected: data.faceCount > 0,
+          singleFace: data.faceCount === 1,
+          spoofSuspected: data.spoofSuspected !== false,
+        },
+        referenceId: data.referenceId,
+      };
+    } catch (error: any) {
+      console.error("Liveness provider request failed:", error.response?.data || error.message);
+      throw createError(
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        "Video verification is not available right now. Please try again later.",
+        503
+      );
+    }
+  }
+}
+
+/**
+ * Deterministic provider for development and tests
+ * A clip passes when it contains "bandhan-liveness:<nonce>:<encoded response>";
+ * each step counts as completed where the encoded response matches it
+ */
+export class LocalLivenessProvider implements LivenessProvider {
+  readonly name = "local";
+
+  async check(input: LivenessCheckInput): Promise<LivenessResult> {
+    const { nonce, steps } = input.challenge;
+    const marker = `bandhan-liveness:${nonce}:`;
+    const clip = input.video.toString("latin1");
+    const start = clip.indexOf(marker);
+
+    if (start === -1) {
+      return {
+        isLive: false,
+        confidence: 0,
+        stepsCompleted: steps.map(() => false),
+        checks: { faceDetected: false, singleFace: false, spoofSuspected: false },
+      };
+    }
+
+    const answered = clip.slice(start + marker.length).split(/[^a-z0-9_,]/)[0].split(",");
+    const expected = encodeLivenessResponse(steps).split(",");
+    const stepsCompleted = expected.map((step, index) => answered[index] === step);
+
+    return {
+      isLive: true,
+      confidence: stepsCompleted.every(Boolean) ? 0.99 : 0.5,
+      stepsCompleted,
+      checks: { faceDetected: true, singleFace: true, spoofSuspected: false },
+      referenceId: `local_${crypto.randomBytes(6).toString("hex")}`,
+    };
+  }
+}
+
+const providerFactories: Record<string, () => LivenessProvider> = {
+  http: () => new HttpLivenessProvider(),
+  local: () => new LocalLivenessProvider(),
+};
+
+/**
+ * Register an additional provider selectable via LIVENESS_PROVIDER
+ */
+export const registerLivenessProvider = (
+  name: string,
+  factory: () => LivenessProvider
+): void => {
+  providerFactories[name] = factory;
+};
+
+let provider: LivenessProvider | null = null;
+
+/**
+ * The configured liveness provider (LIVENESS_PROVIDER, default "http")
+ */
+export const getLivenessProvider = (): LivenessProvider => {
+  if (!provider) {
+    const name = process.env.LIVENESS_PROVIDER || "http";
+
+    // The local provider would hand out Gold badges for a crafted file
+    if (name === "local" && process.env.NODE_ENV === "production") {
+      throw new Error('LIVENESS_PROVIDER "local" cannot be used in production');
+    }
+
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown LIVENESS_PROVIDER "${name}"`);
+    }
+
+    provider = factory();
+  }
+
+  return provider;
+};
+
+/**
+ * Two different head turns and a blink count, in random order
+ */
+export const generateLivenessSteps = (): LivenessStep[] => {
+  const directions = [...HEAD_TURN_DIRECTIONS];
+  const [first] = directions.splice(crypto.randomInt(directions.length), 1);
+  const second = directions[crypto.randomInt(directions.length)];
+
+  const steps: LivenessStep[] = [
+    { type: "head_turn", direction: first },
+    { type: "head_turn", direction: second },
+    { type: "blink", count: 2 + crypto.randomInt(2) },
+  ];
+
+  for (let i = steps.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [steps[i], steps[j]] = [steps[j], steps[i]];
+  }
+
+  return steps;
+};
+
+/**
+ * Issue a fresh challenge; attempts are capped per hour so the steps cannot be
+ * farmed until an easy combination comes up
+ */
+export const issueLivenessChallenge = async (userId: string): Promise<LivenessChallenge> => {
+  const limit = getLimit("LIVENESS_MAX_CHALLENGES_PER_HOUR", 5);
+  const recent = await prisma.livenessChallenge.count({
+    where: { userId, createdAt: { gt: new Date(Date.now() - 60 * 60 * 1000) } },
+  });
+
+  if (recent >= limit) {
+    throw createError(
+      ERROR_CODES.RATE_LIMIT_EXCEEDED,
+      "Too many verification attempts. Please try again in an hour.",
+      429,
+      { scope: "liveness_hourly" }
+    );
+  }
+
+  return prisma.livenessChallenge.create({
+    data: {
+      userId,
+      nonce: crypto.randomBytes(16).toString("hex"),
+      steps: generateLivenessSteps(),
+      expiresAt: new Date(Date.now() + LIVENESS_CHALLENGE_TTL_SECONDS * 1000),
+    },
+  });
+};
+
+/**
+ * Claim an issued, unexpired challenge for checking; each challenge is answered once
+ */
+export const consumeLivenessChallenge = async (
+  userId: string,
+  challengeId: string
+): Promise<LivenessChallenge> => {
+  const { count } = await prisma.livenessChallenge.updateMany({
+    where: { id: challengeId, userId, status: "issued", expiresAt: { gt: new Date() } },
+    data: { status: "verifying" },
+  });
+
+  if (count === 0) {
+    throw createError(
+      ERROR_CODES.LIVENESS_CHALLENGE_INVALID,
+      "This verification prompt has expired. Please start again.",
+      410
+    );
+  }
+
+  return prisma.livenessChallenge.findUniqueOrThrow({ where: { id: challengeId } });
+};
+
+/**
+ * Names of the checks a result failed; empty means the clip answered the challenge
+ */
+export const getFailedLivenessChecks = (
+  result: LivenessResult,
+  challenge: LivenessChallengeSpec
+): string[] => {
+  const failed: string[] = [];
+
+  if (!result.isLive) failed.push("isLive");
+  if (result.confidence < getLimit("LIVENESS_MIN_CONFIDENCE", 0.9)) failed.push("confidence");
+  if (!result.checks.faceDetected) failed.push("faceDetected");
+  if (!result.checks.singleFace) failed.push("singleFace");
+  if (result.checks.spoofSuspected) failed.push("spoofSuspected");
+
+  const stepsAnswered =
+    result.stepsCompleted.length === challenge.steps.length &&
+    result.stepsCompleted.every(Boolean);
+
+  if (!stepsAnswered) failed.push("challenge");
+
+  return failed;
+};
+
+export const serializeLivenessChallenge = (challenge: LivenessChallenge) => ({
+  id: challenge.id,
+  nonce: challenge.nonce,
+  steps: challenge.steps as unknown as LivenessStep[],
+  expiresAt: challenge.expiresAt.toISOString(),
+});
@@ -0,0 +1,245 @@
+/**
+ * Location Sharing Service
+ * Live "share my date location" sessions: the owner streams KMS-encrypted
+ * points and trusted contacts follow the latest one through an unguessable link
+ * DPDP Act 2023 Compliance - Purpose-limited safety data with a hard 2-hour
+ * cutoff; every point is deleted the moment sharing ends
+ */
+
+import crypto from "crypto";
+import { PrismaClient, SharingLocationPoint, SharingSession } from "@prisma/client";
+import { addMinutes } from "date-fns";
+import { decryptWithKMS, encryptWithKMS } from "./kms-encryption";
+
+const prisma = new PrismaClient();
+
+// Hard cutoff promised in the consent screen and the contacts' SMS
+export const SHARING_MAX_MINUTES = 120;
+
+export type SharingEndReason = "ended" | "expired";
+
+export interface SharingPointInput {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  recordedAt: Date;
+}
+
+export interface SharedLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recordedAt: Date;
+}
+
+export interface AuditContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const hashTrackingToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const getTrackingUrl = (token: string): string =>
+  `${process.env.TRACKING_PUBLIC_URL || "https://bandhan.ai/track"}/${token}`;
+
+export const isSharingLive = (session: Pick<SharingSession, "status" | "expiresAt">): boolean =>
+  session.status === "active" && session.expiresAt > new Date();
+
+export const serializeSharingSession = (session: SharingSession) => ({
+  id: session.id,
+  status: isSharingLive(session) ? "active" : session.status === "active" ? "expired" : session.status,
+  startedAt: session.startedAt,
+  expiresAt: session.expiresAt,
+  endedAt: session.endedAt,
+  lastPointAt: session.lastPointAt,
+});
+
+/**
+ * End a session and delete its points; a no-op if it already ended
+ * The audit entry keeps the timing and point count, never a position
+ */
+export const endSharingSession = async (
+  session: SharingSession,
+  reason: SharingEndReason,
+  context: AuditContext = {}
+): Promise<number | null> => {
+  // The status change and the purge commit together (see recordSharingPoint)
+  const pointsDeleted = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.sharingSession.updateMany({
+      where: { id: session.id, status: "active" },
+      data: { status: reason, endedAt: new Date(), matchName: null },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const { count: deleted } = await tx.sharingLocationPoint.deleteMany({
+      where: { sessionId: session.id },
+    });
+
+    await tx.sharingSession.update({
+      where: { id: session.id },
+      data: { pointsDeleted: deleted },
+    });
+
+    return deleted;
+  });
+
+  if (pointsDeleted === null) {
+    return null;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "LOCATION_SHARING_ENDED",
+      userId: session.userId,
+      entityType: "SHARING_SESSION",
+      entityId: session.id,
+      action: reason === "expired" ? "AUTO_STOPPED" : "STOPPED_BY_USER",
+      metadata: {
+        startedAt: session.startedAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+        pointsDeleted,
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  return pointsDeleted;
+};
+
+/**
+ * Start sharing; any session still running for the user is ended first so
+ * there is only ever one live link
+ */
+export const startSharingSession = async (
+  userId: string,
+  options: { durationMinutes: number; matchName?: string },
+  context: AuditContext = {}
+): Promise<{ session: SharingSession; trackingToken: string }> => {
+  const running = await prisma.sharingSession.findMany({
+    where: { userId, status: "active" },
+  });
+
+  for (const session of running) {
+    await endSharingSession(session, isSharingLive(session) ? "ended" : "expired", context);
+  }
+
+  const trackingToken = crypto.randomBytes(24).toString("base64url");
+  const startedAt = new Date();
+
+  const session = await prisma.sharingSession.create({
+    data: {
+      userId,
+      trackingTokenHash: hashTrackingToken(trackingToken),
+      matchName: options.matchName,
+      startedAt,
+      expiresAt: addMinutes(startedAt, Math.min(options.durationMinutes, SHARING_MAX_MINUTES)),
+    },
+  });
+
+  return { session, trackingToken };
+};
+
+/**
+ * A session that is still running, expiring it on the spot if its time is up
+ * (the scheduled sweep may not have reached it yet)
+ */
+export const ensureSharingLive = async (session: SharingSession): Promise<boolean> => {
+  if (isSharingLive(session)) {
+    return true;
+  }
+
+  if (session.status === "active") {
+    await endSharingSession(session, "expired");
+  }
+
+  return false;
+};
+
+/**
+ * Encrypt and store one position; false if the session ended or expired in the meantime
+ */
+export const recordSharingPoint = async (
+  session: SharingSession,
+  point: SharingPointInput
+): Promise<boolean> => {
+  const encrypted = await encryptWithKMS(
+    JSON.stringify({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: point.accuracy ?? null,
+    })
+  );
+
+  // The guarded update takes the session row lock first, so the point is only
+  // inserted while the session is live and never outlives endSharingSession's purge;
+  // the expiry guard keeps a session that ran out before the expiry job from growing
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.sharingSession.updateMany({
+      where: { id: session.id, status: "active", expiresAt: { gt: new Date() } },
+      data: { lastPointAt: point.recordedAt },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.sharingLocationPoint.create({
+      data: {
+        sessionId: session.id,
+        ciphertext: encrypted.ciphertext,
+        iv: encrypted.iv,
+        authTag: encrypted.authTag,
+        recordedAt: point.recordedAt,
+      },
+    });
+
+    return true;
+  });
+};
+
+/**
+ * Decrypt a stored position
+ */
+export const openSharingPoint = async (point: SharingLocationPoint): Promise<SharedLocation> => {
+  const { latitude, longitude, accuracy } = JSON.parse(
+    await decryptWithKMS(point.ciphertext, point.iv, point.authTag)
+  );
+
+  return { latitude, longitude, accuracy, recordedAt: point.recordedAt };
+};
+
+/**
+ * Most recent position, decrypted for the tracking page
+ */
+export const getLatestSharedLocation = async (
+  sessionId: string
+): Promise<SharedLocation | null> => {
+  const point = await prisma.sharingLocationPoint.findFirst({
+    where: { sessionId },
+    orderBy: { recordedAt: "desc" },
+  });
+
+  return point ? openSharingPoint(point) : null;
+};
+
+/**
+ * End every session past its cutoff and delete its points
+ */
+export const expireSharingSessions = async (): Promise<{ expiredCount: number }> => {
+  const due = await prisma.sharingSession.findMany({
+    where: { status: "active", expiresAt: { lte: new Date() } },
+  });
+
+  let expiredCount = 0;
+
+  for (const session of due) {
+    if ((await endSharingSession(session, "expired")) !== null) expiredCount++;
+  }
+
+  return { expiredCount };
+};
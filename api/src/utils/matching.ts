@@ -0,0 +1,392 @@
+/**
+ * Match Discovery Engine
+ * Candidate selection and compatibility scoring for the match feed
+ * DPDP Act 2023 Compliance - Only users with active purposeMatching consent are ever processed
+ */
+
+import { Consent, Photo, Prisma, PrismaClient, Profile, User } from "@prisma/client";
+import { calculateAge } from "../middleware/ageGate";
+
+const prisma = new PrismaClient();
+
+// Upper bound on profiles scored per feed request
+const MAX_CANDIDATE_POOL = 500;
+
+// Weights sum to 100 so the weighted score is already a percentage
+const FACTOR_WEIGHTS = {
+  lifestyle: 25,
+  loveLanguages: 15,
+  weekend: 10,
+  vision: 20,
+  intent: 15,
+  mutualPreferences: 15,
+} as const;
+
+export type CompatibilityFactor = keyof typeof FACTOR_WEIGHTS;
+
+export interface MatchPreferences {
+  ageRange: { min: number; max: number };
+  heightRange: { min: number; max: number };
+  location: string[];
+  religion: string[];
+  caste: string[];
+  education: string[];
+  occupation: string[];
+  diet: string[];
+  manglik: "any" | "yes" | "no";
+  maritalStatus: string[];
+}
+
+export interface ProfileValues {
+  loveLanguages: string[];
+  dealbreakers: Record<string, number>;
+  weekendPreferences: string[];
+  fiveYearVision: string | null;
+}
+
+export interface MatchFilters {
+  ageMin?: number;
+  ageMax?: number;
+  location?: string;
+  religion?: string;
+  caste?: string;
+  education?: string;
+  diet?: string;
+  manglik?: boolean;
+  intent?: string;
+}
+
+export type CandidateProfile = Profile & {
+  photos: Photo[];
+  user: User & { consents: Consent[] };
+};
+
+export interface CompatibilityResult {
+  score: number;
+  factors: Record<CompatibilityFactor, number>;
+}
+
+export interface ScoredCandidate {
+  profile: CandidateProfile;
+  compatibility: CompatibilityResult;
+}
+
+// Dealbreaker level meaning: 0 = dealbreaker, 1 = dislike, 2 = don't mind, 3 = I do it too
+const DEALBREAKER_LEVEL = 0;
+const DOES_IT_TOO_LEVEL = 3;
+
+// Dealbreaker ids that map onto a Profile lifestyle field
+const LIFESTYLE_DEALBREAKERS: Record<string, "smoking" | "drinking"> = {
+  smoking: "smoking",
+  drinking: "drinking",
+};
+
+/**
+ * Check whether the latest consent record allows matching
+ * A withdrawn or missing consent never matches
+ */
+export const hasMatchingConsent = (
+  latestConsent: Pick<Consent, "purposeMatching" | "consentWithdrawnAt"> | undefined | null
+): boolean => {
+  return !!latestConsent?.purposeMatching && !latestConsent.consentWithdrawnAt;
+};
+
+/**
+ * Parse a height string into centimetres
+ * Accepts "170", "170 cm" and "5'7"" / "5 ft 7 in"
+ */
+export const parseHeightCm = (height?: string | null): number | null => {
+  if (!height) return null;
+
+  const imperial = height.match(/^\s*(\d)\s*(?:'|ft)\s*(\d{1,2})?/i);
+  if (imperial) {
+    const feet = parseInt(imperial[1], 10);
+    const inches = imperial[2] ? parseInt(imperial[2], 10) : 0;
+    return Math.round((feet * 12 + inches) * 2.54);
+  }
+
+  const metric = height.match(/^\s*(\d{2,3})/);
+  return metric ? parseInt(metric[1], 10) : null;
+};
+
+const asPreferences = (value: Prisma.JsonValue | null): MatchPreferences | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as unknown as MatchPreferences)
+    : null;
+
+const asValues = (value: Prisma.JsonValue | null): ProfileValues | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as unknown as ProfileValues)
+    : null;
+
+const includesIgnoreCase = (list: string[], value?: string | null): boolean =>
+  !!value && list.some((item) => item.toLowerCase() === value.toLowerCase());
+
+/**
+ * Jaccard overlap of two selections, 0.5 when either side is unknown
+ */
+const overlap = (a?: string[], b?: string[]): number => {
+  if (!a?.length || !b?.length) return 0.5;
+  const union = new Set([...a, ...b]);
+  const shared = a.filter((item) => b.includes(item)).length;
+  return shared / union.size;
+};
+
+/**
+ * Whether a lifestyle dealbreaker rules the candidate out entirely
+ */
+const violatesDealbreakers = (
+  values: ProfileValues | null,
+  candidate: Pick<Profile, "smoking" | "drinking">
+): boolean => {
+  if (!values?.dealbreakers) return false;
+
+  return Object.entries(LIFESTYLE_DEALBREAKERS).some(
+    ([dealbreakerId, field]) =>
+      values.dealbreakers[dealbreakerId] === DEALBREAKER_LEVEL &&
+      !!candidate[field] &&
+      candidate[field] !== "never"
+  );
+};
+
+/**
+ * Lifestyle fit: how tolerant each side is of the other's habits
+ */
+const lifestyleScore = (
+  mine: ProfileValues | null,
+  myProfile: Pick<Profile, "smoking" | "drinking">,
+  theirs: ProfileValues | null,
+  theirProfile: Pick<Profile, "smoking" | "drinking">
+): number => {
+  const scores: number[] = [];
+
+  const tolerance = (values: ProfileValues | null, other: Pick<Profile, "smoking" | "drinking">) => {
+    for (const [dealbreakerId, field] of Object.entries(LIFESTYLE_DEALBREAKERS)) {
+      const level = values?.dealbreakers?.[dealbreakerId];
+      const habit = other[field];
+      if (level === undefined || !habit) continue;
+
+      // Someone who never smokes/drinks suits everyone
+      if (habit === "never") {
+        scores.push(1);
+        continue;
+      }
+
+      const weight = habit === "regularly" ? 1 : 0.5;
+      scores.push(Math.min(1, level / DOES_IT_TOO_LEVEL + (1 - weight) * 0.5));
+    }
+  };
+
+  tolerance(mine, theirProfile);
+  tolerance(theirs, myProfile);
+
+  // Non-lifestyle dealbreakers (late nights, social media): closer levels fit better
+  const otherIds = new Set(
+    [...Object.keys(mine?.dealbreakers ?? {}), ...Object.keys(theirs?.dealbreakers ?? {})].filter(
+      (id) => !(id in LIFESTYLE_DEALBREAKERS)
+    )
+  );
+
+  for (const id of otherIds) {
+    const a = mine?.dealbreakers?.[id];
+    const b = theirs?.dealbreakers?.[id];
+    if (a === undefined || b === undefined) continue;
+    scores.push(1 - Math.abs(a - b) / DOES_IT_TOO_LEVEL);
+  }
+
+  if (!scores.length) return 0.5;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+};
+
+const visionScore = (a?: string | null, b?: string | null): number => {
+  if (!a || !b) return 0.5;
+  if (a === b) return 1;
+  if (a === "flexible" || b === "flexible") return 0.6;
+  return 0;
+};
+
+/**
+ * How well a profile satisfies someone's stated partner preferences (soft check)
+ */
+const preferenceFit = (
+  preferences: MatchPreferences | null,
+  profile: Profile,
+  age: number | null
+): number => {
+  if (!preferences) return 0.5;
+
+  const checks: boolean[] = [];
+
+  if (age !== null) {
+    checks.push(age >= preferences.ageRange.min && age <= preferences.ageRange.max);
+  }
+
+  const heightCm = parseHeightCm(profile.height);
+  if (heightCm !== null) {
+    checks.push(heightCm >= preferences.heightRange.min && heightCm <= preferences.heightRange.max);
+  }
+
+  const listChecks: [string[], string | null][] = [
+    [preferences.location, profile.city],
+    [preferences.religion, profile.religion],
+    [preferences.caste, profile.caste],
+    [preferences.education, profile.education],
+    [preferences.occupation, profile.occupation],
+    [preferences.diet, profile.diet],
+  ];
+
+  for (const [list, value] of listChecks) {
+    if (list?.length) checks.push(includesIgnoreCase(list, value));
+  }
+
+  if (preferences.manglik !== "any") {
+    checks.push(profile.manglik === (preferences.manglik === "yes"));
+  }
+
+  if (!checks.length) return 0.5;
+  return checks.filter(Boolean).length / checks.length;
+};
+
+/**
+ * Score compatibility between two profiles (0-100) with per-factor breakdown
+ * Factor values are 0-1 before weighting
+ */
+export const scoreCompatibility = (
+  me: Profile & { user: Pick<User, "dateOfBirth"> },
+  candidate: Profile & { user: Pick<User, "dateOfBirth"> }
+): CompatibilityResult => {
+  const myValues = asValues(me.values);
+  const theirValues = asValues(candidate.values);
+  const myAge = me.user.dateOfBirth ? calculateAge(me.user.dateOfBirth) : null;
+  const theirAge = candidate.user.dateOfBirth ? calculateAge(candidate.user.dateOfBirth) : null;
+
+  const factors: Record<CompatibilityFactor, number> = {
+    lifestyle: lifestyleScore(myValues, me, theirValues, candidate),
+    loveLanguages: overlap(myValues?.loveLanguages, theirValues?.loveLanguages),
+    weekend: overlap(myValues?.weekendPreferences, theirValues?.weekendPreferences),
+    vision: visionScore(myValues?.fiveYearVision, theirValues?.fiveYearVision),
+    intent: !me.intent || !candidate.intent ? 0.5 : me.intent === candidate.intent ? 1 : 0,
+    mutualPreferences: preferenceFit(asPreferences(candidate.preferences), me, myAge),
+  };
+
+  // Soft-penalise candidates outside my own soft preferences (education, occupation)
+  const myFit = preferenceFit(asPreferences(me.preferences), candidate, theirAge);
+
+  const weighted = (Object.keys(FACTOR_WEIGHTS) as CompatibilityFactor[]).reduce(
+    (sum, factor) => sum + factors[factor] * FACTOR_WEIGHTS[factor],
+    0
+  );
+
+  return {
+    score: Math.round(weighted * (0.7 + 0.3 * myFit)),
+    factors: Object.fromEntries(
+      Object.entries(factors).map(([factor, value]) => [factor, Math.round(value * 100)])
+    ) as Record<CompatibilityFactor, number>,
+  };
+};
+
+/**
+ * Build the Prisma filter for candidates from stored preferences and request filters
+ * Request filters override the stored preferences for a single field
+ */
+const buildCandidateWhere = (
+  me: Profile,
+  preferences: MatchPreferences | null,
+  filters: MatchFilters
+): Prisma.ProfileWhereInput => {
+  const now = new Date();
+  const ageMin = filters.ageMin ?? preferences?.ageRange.min ?? 18;
+  const ageMax = filters.ageMax ?? preferences?.ageRange.max;
+
+  const dateOfBirth: Prisma.DateTimeNullableFilter = {
+    lte: new Date(now.getFullYear() - ageMin, now.getMonth(), now.getDate()),
+  };
+  if (ageMax !== undefined) {
+    dateOfBirth.gt = new Date(now.getFullYear() - ageMax - 1, now.getMonth(), now.getDate());
+  }
+
+  const inList = (override: string | undefined, list: string[] | undefined) => {
+    if (override) return { equals: override, mode: "insensitive" as const };
+    if (list?.length) return { in: list };
+    return undefined;
+  };
+
+  const manglik =
+    filters.manglik ??
+    (preferences?.manglik && preferences.manglik !== "any"
+      ? preferences.manglik === "yes"
+      : undefined);
+
+  return {
+    userId: { not: me.userId },
+    // Matrimonial feed: opposite gender, "other" sees everyone
+    gender:
+      me.gender === "male" ? "female" : me.gender === "female" ? "male" : undefined,
+    city: inList(filters.location, preferences?.location),
+    religion: inList(filters.religion, preferences?.religion),
+    caste: inList(filters.caste, preferences?.caste),
+    education: inList(filters.education, undefined),
+    diet: inList(filters.diet, preferences?.diet),
+    intent: filters.intent || undefined,
+    manglik,
+    user: {
+      isActive: true,
+      deletionScheduledFor: null,
+      isAgeVerified: true,
+      dateOfBirth,
+      // Pre-filter; the latest record is re-checked in memory
+      consents: { some: { purposeMatching: true, consentWithdrawnAt: null } },
+    },
+  };
+};
+
+/**
+ * Build a ranked candidate feed for a user
+ * Hard filters (age, religion, caste, diet, manglik, location, dealbreakers) exclude,
+ * everything else contributes to the compatibility score
+ */
+export const getRankedCandidates = async (
+  me: Profile & { user: Pick<User, "dateOfBirth"> },
+  filters: MatchFilters,
+  excludeUserIds: string[] = []
+): Promise<ScoredCandidate[]> => {
+  const preferences = asPreferences(me.preferences);
+  const myValues = asValues(me.values);
+
+  const where = buildCandidateWhere(me, preferences, filters);
+  if (excludeUserIds.length) {
+    where.AND = [{ userId: { notIn: excludeUserIds } }];
+  }
+
+  const candidates = await prisma.profile.findMany({
+    where,
+    include: {
+      photos: true,
+      user: {
+        include: {
+          consents: { orderBy: { createdAt: "desc" }, take: 1 },
+        },
+      },
+    },
+    orderBy: { updatedAt: "desc" },
+    take: MAX_CANDIDATE_POOL,
+  });
+
+  return candidates
+    .filter((candidate) => hasMatchingConsent(candidate.user.consents[0]))
+    .filter((candidate) => {
+      if (!preferences) return true;
+      const heightCm = parseHeightCm(candidate.height);
+      return (
+        heightCm === null ||
+        (heightCm >= preferences.heightRange.min && heightCm <= preferences.heightRange.max)
+      );
+    })
+    .filter((candidate) => !violatesDealbreakers(myValues, candidate))
+    .filter((candidate) => !violatesDealbreakers(asValues(candidate.values), me))
+    .map((candidate) => ({
+      profile: candidate,
+      compatibility: scoreCompatibility(me, candidate),
+    }))
+    .sort((a, b) => b.compatibility.score - a.compatibility.score);
+};
@@ -0,0 +1,252 @@
+/**
+ * Media Processing
+ * Multipart ingestion, validation and variant generation for photos and voice notes
+ * DPDP Act 2023 Compliance - Images are re-encoded so EXIF data (GPS location,
+ * device ids) never reaches storage; blurred variants are generated from a tiny
+ * downscale so the original cannot be reconstructed from them
+ */
+
+import "@fastify/multipart";
+import { FastifyRequest } from "fastify";
+import sharp from "sharp";
+import { parseBuffer } from "music-metadata";
+import { ERROR_CODES, createError } from "./errors";
+
+export const PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+export const VOICE_MAX_BYTES = 5 * 1024 * 1024;
+
+export const VOICE_MIN_SECONDS = 1;
+export const VOICE_MAX_SECONDS = 60;
+
+// Tolerance between the client-reported and measured voice note duration
+const VOICE_DURATION_TOLERANCE_SECONDS = 2;
+
+// Upper bound on voice bitrate (320 kbps) used to sanity check declared durations
+const VOICE_MAX_BYTES_PER_SECOND = 40_000;
+
+// Guard against decompression bombs
+const PHOTO_MAX_INPUT_PIXELS = 40_000_000;
+
+const ALLOWED_PHOTO_FORMATS = ["jpeg", "png", "webp"];
+
+const DISPLAY_MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 400;
+const BLUR_SOURCE_SIZE = 24;
+
+export interface MultipartUpload {
+  buffer: Buffer;
+  mimetype: string;
+  fields: Record<string, string>;
+}
+
+export interface ProcessedPhoto {
+  original: Buffer;
+  thumbnail: Buffer;
+  blurred: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedVoiceNote {
+  extension: string;
+  contentType: string;
+  durationSeconds: number;
+}
+
+/**
+ * Read a single file field (plus any text fields) from a multipart request
+ * Files over `maxBytes` are rejected while streaming, never buffered in full
+ */
+export const readMultipartUpload = async (
+  request: FastifyRequest,
+  fieldName: string,
+  maxBytes: number
+): Promise<MultipartUpload> => {
+  if (!request.isMultipart()) {
+    throw createError(ERROR_CODES.VALIDATION_ERROR, "Expected a multipart/form-data upload.", 400);
+  }
+
+  let file: Omit<MultipartUpload, "fields"> | null = null;
+  const fields: Record<string, string> = {};
+
+  try {
+    for await (const part of request.parts({ limits: { fileSize: maxBytes, files: 1 } })) {
+      if (part.type === "file") {
+        const buffer = await part.toBuffer();
+
+        if (part.fieldname === fieldName) {
+          file = { buffer, mimetype: part.mimetype };
+        }
+      } else {
+        fields[part.fieldname] = String(part.value);
+      }
+    }
+  } catch (error: any) {
+    if (error.code === "FST_REQ_FILE_TOO_LARGE") {
+      throw createError(
+        ERROR_CODES.MEDIA_TOO_LARGE,
+        `File is too large. Maximum size is ${Math.round(maxBytes / (1024 * 1024))} MB.`,
+        413,
+        { maxBytes }
+      );
+    }
+
+    if (error.code === "FST_FILES_LIMIT") {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Upload one file at a time.", 400);
+    }
+
+    throw error;
+  }
+
+  if (!file || file.buffer.length === 0) {
+    throw createError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Missing "${fieldName}" file.`,
+      400,
+      { fields: { [fieldName]: ["Required"] } }
+    );
+  }
+
+  return { ...file, fields };
+};
+
+/**
+ * Validate an image by its decoded format (not the client MIME type) and
+ * produce display, thumbnail and blurred WebP variants
+ */
+export const processPhoto = async (buffer: Buffer): Promise<ProcessedPhoto> => {
+  const metadata = await sharp(buffer, { limitInputPixels: PHOTO_MAX_INPUT_PIXELS })
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.format || !ALLOWED_PHOTO_FORMATS.includes(metadata.format)) {
+    throw createError(
+      ERROR_CODES.UNSUPPORTED_MEDIA_TYPE,
+      "Unsupported photo format. Please upload a JPEG, PNG or WebP image.",
+      415,
+      { allowed: ALLOWED_PHOTO_FORMATS }
+    );
+  }
+
+  // rotate() bakes in EXIF orientation; output never carries input metadata
+  const source = sharp(buffer, { limitInputPixels: PHOTO_MAX_INPUT_PIXELS }).rotate();
+
+  const [original, thumbnail, blurSource] = await Promise.all([
+    source
+      .clone()
+      .resize({
+        width: DISPLAY_MAX_DIMENSION,
+        height: DISPLAY_MAX_DIMENSION,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 85 })
+      .toBuffer({ resolveWithObject: true }),
+    source
+      .clone()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+      .webp({ quality: 80 })
+      .toBuffer(),
+    source
+      .clone()
+      .resize(BLUR_SOURCE_SIZE, BLUR_SOURCE_SIZE, { fit: "cover" })
+      .toBuffer(),
+  ]);
+
+  const blurred = await sharp(blurSource)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+    .blur(8)
+    .webp({ quality: 60 })
+    .toBuffer();
+
+  return {
+    original: original.data,
+    thumbnail,
+    blurred,
+    width: original.info.width,
+    height: original.info.height,
+  };
+};
+
+/**
+ * Map a parsed audio container to the stored extension and content type
+ */
+const resolveAudioContainer = (
+  container: string | undefined
+): { extension: string; contentType: string } | null => {
+  const normalized = container?.toLowerCase() ?? "";
+
+  if (normalized.includes("webm")) return { extension: "webm", contentType: "audio/webm" };
+  if (normalized.includes("ogg")) return { extension: "ogg", contentType: "audio/ogg" };
+  if (normalized.includes("mpeg")) return { extension: "mp3", contentType: "audio/mpeg" };
+  if (normalized.includes("m4a") || normalized.includes("mp4") || normalized.includes("isom")) {
+    return { extension: "m4a", contentType: "audio/mp4" };
+  }
+  if (normalized.includes("wave")) return { extension: "wav", contentType: "audio/wav" };
+
+  return null;
+};
+
+const invalidDurationError = (reason: string) =>
+  createError(ERROR_CODES.INVALID_VOICE_DURATION, reason, 400, {
+    minSeconds: VOICE_MIN_SECONDS,
+    maxSeconds: VOICE_MAX_SECONDS,
+  });
+
+/**
+ * Validate a voice note's container and duration
+ * MediaRecorder WebM often has no duration header, so the client-declared
+ * duration is accepted only when it is plausible for the file size
+ */
+export const processVoiceNote = async (
+  buffer: Buffer,
+  mimetype: string,
+  declaredDuration?: number
+): Promise<ProcessedVoiceNote> => {
+  const metadata = await parseBuffer(buffer, { mimeType: mimetype }, { duration: true }).catch(
+    () => null
+  );
+
+  const container = resolveAudioContainer(metadata?.format.container);
+
+  if (!metadata || !container) {
+    throw createError(
+      ERROR_CODES.UNSUPPORTED_MEDIA_TYPE,
+      "Unsupported audio format. Please record again.",
+      415
+    );
+  }
+
+  const measured = metadata.format.duration;
+  const hasDeclared = declaredDuration !== undefined && Number.isFinite(declaredDuration);
+  let duration: number;
+
+  if (measured !== undefined && Number.isFinite(measured)) {
+    if (
+      hasDeclared &&
+      Math.abs(measured - declaredDuration!) > VOICE_DURATION_TOLERANCE_SECONDS
+    ) {
+      throw invalidDurationError("Voice note duration does not match the recording.");
+    }
+
+    duration = measured;
+  } else {
+    if (!hasDeclared) {
+      throw invalidDurationError("Voice note duration is required.");
+    }
+
+    if (declaredDuration! < buffer.length / VOICE_MAX_BYTES_PER_SECOND) {
+      throw invalidDurationError("Voice note duration does not match the recording.");
+    }
+
+    duration = declaredDuration!;
+  }
+
+  if (duration < VOICE_MIN_SECONDS || duration > VOICE_MAX_SECONDS) {
+    throw invalidDurationError(
+      `Voice notes must be between ${VOICE_MIN_SECONDS} and ${VOICE_MAX_SECONDS} seconds.`
+    );
+  }
+
+  return { ...container, durationSeconds: Math.round(duration) };
+};
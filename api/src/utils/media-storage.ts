@@ -0,0 +1,160 @@
+/**
+ * Media Storage
+ * Pluggable object storage for photos and voice notes plus signed URL helpers
+ * DPDP Act 2023 Compliance - Media is never publicly listable; every read needs a
+ * short-lived HMAC-signed URL issued to a viewer who is allowed to see that variant
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { ERROR_CODES, createError } from "./errors";
+
+// Signed media URLs stay valid long enough to render a screen, not to be shared
+export const SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".webp": "image/webp",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webm": "audio/webm",
+  ".ogg": "audio/ogg",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".json": "application/json",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+/**
+ * Local-disk driver
+ * Keys map to files below MEDIA_STORAGE_DIR; the content type is derived from the extension
+ */
+export class LocalDiskStorageDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    // Keys are generated server-side, but never let one escape the root
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw createError(ERROR_CODES.INVALID_INPUT, "Invalid media key.", 400);
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.resolve(key));
+      const contentType =
+        CONTENT_TYPES_BY_EXTENSION[path.extname(key)] ?? "application/octet-stream";
+
+      return { body, contentType };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+const driverFactories: Record<string, () => StorageDriver> = {
+  local: () =>
+    new LocalDiskStorageDriver(
+      process.env.MEDIA_STORAGE_DIR || path.resolve(process.cwd(), "storage")
+    ),
+};
+
+/**
+ * Register an additional driver (e.g. S3) selectable via MEDIA_STORAGE_DRIVER
+ */
+export const registerStorageDriver = (name: string, factory: () => StorageDriver): void => {
+  driverFactories[name] = factory;
+};
+
+let storage: StorageDriver | null = null;
+
+/**
+ * The configured storage driver (MEDIA_STORAGE_DRIVER, default "local")
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    const name = process.env.MEDIA_STORAGE_DRIVER || "local";
+    const factory = driverFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown MEDIA_STORAGE_DRIVER "${name}"`);
+    }
+
+    storage = factory();
+  }
+
+  return storage;
+};
+
+const getSigningSecret = (): string =>
+  process.env.MEDIA_SIGNING_SECRET || process.env.JWT_SECRET || "supersecretkey";
+
+const signKey = (key: string, expires: number): string =>
+  crypto.createHmac("sha256", getSigningSecret()).update(`${key}:${expires}`).digest("hex");
+
+/**
+ * Base URL clients use to reach links served by this API
+ */
+export const getPublicBaseUrl = (): string =>
+  process.env.MEDIA_PUBLIC_URL || `http://localhost:${process.env.PORT || 4000}`;
+
+/**
+ * `expires` and `signature` query parameters authorising access to `key`
+ */
+export const getSignedUrlParams = (key: string, ttlSeconds: number): URLSearchParams => {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+  return new URLSearchParams({
+    expires: expires.toString(),
+    signature: signKey(key, expires),
+  });
+};
+
+/**
+ * Issue a signed, expiring URL for a stored object served by GET /media/*
+ */
+export const getSignedMediaUrl = (
+  key: string,
+  ttlSeconds: number = SIGNED_URL_TTL_SECONDS
+): string => `${getPublicBaseUrl()}/media/${key}?${getSignedUrlParams(key, ttlSeconds).toString()}`;
+
+/**
+ * Check a signature produced by getSignedUrlParams (constant-time)
+ */
+export const verifyMediaSignature = (key: string, expires: number, signature: string): boolean => {
+  if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signKey(key, expires), "hex");
+  const provided = Buffer.from(signature, "hex");
+
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+};
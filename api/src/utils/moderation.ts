@@ -0,0 +1,151 @@
+/**
+ * Moderation Service
+ * Block lookups shared by the feed, chat and profile views, plus the report
+ * queue's categories, status transitions and evidence snapshots
+ * DPDP Act 2023 Compliance - Evidence holds only the reported user's own messages
+ * in the reported conversation and is visible to moderators only
+ */
+
+import path from "path";
+import { Message, PrismaClient, Report } from "@prisma/client";
+import { getSignedMediaUrl, getStorage } from "./media-storage";
+
+const prisma = new PrismaClient();
+
+export const REPORT_CATEGORIES = [
+  "harassment",
+  "fake_profile",
+  "inappropriate_content",
+  "scam",
+  "underage",
+  "other",
+] as const;
+
+export type ReportCategory = typeof REPORT_CATEGORIES[number];
+
+export const REPORT_STATUSES = ["open", "actioned", "dismissed"] as const;
+
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export const REPORT_ACTIONS = ["warn", "suspend"] as const;
+
+export type ReportAction = typeof REPORT_ACTIONS[number];
+
+// Reports are resolved exactly once; a closed report is never reopened
+const REPORT_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  open: ["actioned", "dismissed"],
+  actioned: [],
+  dismissed: [],
+};
+
+// Most recent messages from the reported user copied into a report
+export const EVIDENCE_MESSAGE_LIMIT = 20;
+
+export interface EvidenceMessage {
+  id: string;
+  senderId: string;
+  type: string;
+  content: string;
+  mediaKey: string | null;
+  durationSeconds: number | null;
+  createdAt: string;
+  deletedAt: string | null;
+}
+
+export const canTransitionReport = (from: string, to: ReportStatus): boolean =>
+  (REPORT_TRANSITIONS[from as ReportStatus] ?? []).includes(to);
+
+/**
+ * Users hidden from `userId`: everyone they blocked and everyone who blocked them
+ */
+export const getBlockedUserIds = async (userId: string): Promise<string[]> => {
+  const blocks = await prisma.block.findMany({
+    where: { OR: [{ blockerId: userId }, { blockedId: userId }] },
+    select: { blockerId: true, blockedId: true },
+  });
+
+  return blocks.map((block) => (block.blockerId === userId ? block.blockedId : block.blockerId));
+};
+
+/**
+ * Whether either user has blocked the other
+ */
+export const isBlockedBetween = async (userId: string, otherUserId: string): Promise<boolean> => {
+  const block = await prisma.block.findFirst({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return block !== null;
+};
+
+/**
+ * Copy one message into evidence; media is duplicated under the report so the
+ * sender deleting the message does not delete the evidence
+ */
+const snapshotMessage = async (reportId: string, message: Message): Promise<EvidenceMessage> => {
+  let mediaKey: string | null = null;
+
+  if (message.mediaKey) {
+    const stored = await getStorage().get(message.mediaKey);
+
+    if (stored) {
+      mediaKey = `moderation/${reportId}/${message.id}${path.extname(message.mediaKey)}`;
+      await getStorage().put(mediaKey, stored.body, stored.contentType);
+    }
+  }
+
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    type: message.type,
+    content: message.mediaKey ? "" : message.content,
+    mediaKey,
+    durationSeconds: message.durationSeconds,
+    createdAt: message.createdAt.toISOString(),
+    deletedAt: message.deletedAt?.toISOString() ?? null,
+  };
+};
+
+/**
+ * Snapshot the reported user's messages in a conversation
+ * `messageIds` narrows the snapshot to specific messages the reporter selected
+ */
+export const snapshotEvidence = async (
+  reportId: string,
+  conversationId: string,
+  reportedUserId: string,
+  messageIds?: string[]
+): Promise<EvidenceMessage[]> => {
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      senderId: reportedUserId,
+      ...(messageIds?.length ? { id: { in: messageIds } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: EVIDENCE_MESSAGE_LIMIT,
+  });
+
+  const evidence: EvidenceMessage[] = [];
+
+  for (const message of messages.reverse()) {
+    evidence.push(await snapshotMessage(reportId, message));
+  }
+
+  return evidence;
+};
+
+/**
+ * Evidence with signed URLs for moderators
+ */
+export const serializeEvidence = (evidence: Report["evidence"]) =>
+  ((evidence as EvidenceMessage[] | null) ?? []).map((message) => ({
+    ...message,
+    mediaUrl: message.mediaKey ? getSignedMediaUrl(message.mediaKey) : null,
+  }));
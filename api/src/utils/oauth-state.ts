@@ -0,0 +1,150 @@
+/**
+ * OAuth State Store
+ * Short-lived, single-use records of authorizations we sent a user off to:
+ * the state parameter, the PKCE code verifier, the nonce and where to return
+ * Redis holds them under a TTL; while Redis is unreachable they go to the
+ * OAuthState table instead, and lookups always fall through to it
+ * New providers (e.g. server-side Google sign-in) only need an OAUTH_PROVIDERS entry
+ * DPDP Act 2023 Compliance - No personal data; the state itself is stored only
+ * as a hash and every record is deleted once used or expired
+ */
+
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { redis } from "./redis";
+
+const prisma = new PrismaClient();
+
+export const OAUTH_PROVIDERS = ["digilocker"] as const;
+
+export type OAuthProvider = typeof OAUTH_PROVIDERS[number];
+
+export const OAUTH_STATE_TTL_SECONDS = 15 * 60;
+
+export interface OAuthStateRecord {
+  provider: OAuthProvider;
+  userId: string | null; // Null for sign-in flows started while signed out
+  sessionId: string | null; // Session family the callback's access token is bound to
+  codeVerifier: string;
+  nonce: string;
+  redirectTo: string | null;
+  expiresAt: Date;
+}
+
+export interface IssuedOAuthState {
+  state: string;
+  codeChallenge: string; // S256 of the code verifier, for the authorization URL
+  nonce: string;
+  expiresAt: Date;
+}
+
+const randomToken = (bytes = 32): string => crypto.randomBytes(bytes).toString("base64url");
+
+const hashState = (state: string): string =>
+  crypto.createHash("sha256").update(state).digest("hex");
+
+const cacheKey = (stateHash: string): string => `oauth-state:${stateHash}`;
+
+/**
+ * PKCE S256 challenge for a code verifier (RFC 7636)
+ */
+export const getCodeChallenge = (codeVerifier: string): string =>
+  crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+/**
+ * Only paths within the app; anything else would make the callback an open redirect
+ */
+export const isSafeRedirectPath = (path: string): boolean =>
+  path.startsWith("/") && !path.startsWith("//") && !path.includes("\\") && path.length <= 200;
+
+/**
+ * Record a new authorization and return what goes into the authorization URL
+ */
+export const createOAuthState = async (
+  provider: OAuthProvider,
+  options: { userId?: string; sessionId?: string; redirectTo?: string } = {}
+): Promise<IssuedOAuthState> => {
+  const state = randomToken();
+  const stateHash = hashState(state);
+  const record: OAuthStateRecord = {
+    provider,
+    userId: options.userId ?? null,
+    sessionId: options.sessionId ?? null,
+    codeVerifier: randomToken(48),
+    nonce: randomToken(16),
+    redirectTo: options.redirectTo ?? null,
+    expiresAt: new Date(Date.now() + OAUTH_STATE_TTL_SECONDS * 1000),
+  };
+
+  try {
+    await redis.set(cacheKey(stateHash), JSON.stringify(record), "EX", OAUTH_STATE_TTL_SECONDS);
+  } catch (error) {
+    console.error("OAuth state cache unavailable, using the database:", error);
+    await prisma.oAuthState.create({ data: { stateHash, ...record } });
+  }
+
+  return {
+    state,
+    codeChallenge: getCodeChallenge(record.codeVerifier),
+    nonce: record.nonce,
+    expiresAt: record.expiresAt,
+  };
+};
+
+/**
+ * Take the record for a returned state; each state can be used once
+ * Null when it is unknown, expired, already used or belongs to another provider
+ */
+export const consumeOAuthState = async (
+  provider: OAuthProvider,
+  state: string
+): Promise<OAuthStateRecord | null> => {
+  const stateHash = hashState(state);
+
+  try {
+    const cached = await redis.getdel(cacheKey(stateHash));
+
+    if (cached) {
+      const record = JSON.parse(cached);
+      return record.provider === provider
+        ? { ...record, expiresAt: new Date(record.expiresAt) }
+        : null;
+    }
+  } catch (error) {
+    console.error("OAuth state cache unavailable, using the database:", error);
+  }
+
+  const row = await prisma.oAuthState.findUnique({ where: { stateHash } });
+
+  if (!row) {
+    return null;
+  }
+
+  // Guarded delete: of two callbacks racing with the same state only one wins
+  const { count } = await prisma.oAuthState.deleteMany({ where: { id: row.id } });
+
+  if (count === 0 || row.provider !== provider || row.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return {
+    provider,
+    userId: row.userId,
+    sessionId: row.sessionId,
+    codeVerifier: row.codeVerifier,
+    nonce: row.nonce,
+    redirectTo: row.redirectTo,
+    expiresAt: row.expiresAt,
+  };
+};
+
+/**
+ * Delete database fallback rows past their expiry (Redis expires its own)
+ */
+export const purgeExpiredOAuthStates = async (): Promise<{ deletedCount: number }> => {
+  const result = await prisma.oAuthState.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  return { deletedCount: result.count };
+};
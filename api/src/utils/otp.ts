@@ -0,0 +1,45 @@
+/**
+ * OTP Service
+ * Generates server-issued OTPs and verifies them against their stored HMAC
+ * The code itself is never persisted; comparison is constant-time
+ * DPDP Act 2023 Compliance - Hashes are bound to the phone number and expire with the request
+ */
+
+import crypto from "crypto";
+
+export const OTP_LENGTH = 6;
+
+export const getOtpExpiryMinutes = (): number =>
+  parseInt(process.env.OTP_EXPIRY_MINUTES || "5", 10);
+
+export const getOtpMaxAttempts = (): number =>
+  parseInt(process.env.OTP_MAX_ATTEMPTS || "5", 10);
+
+export const getOtpRateLimitPerHour = (): number =>
+  parseInt(process.env.OTP_RATE_LIMIT_PER_HOUR || "5", 10);
+
+const getOtpSecret = (): string =>
+  process.env.OTP_HASH_SECRET || process.env.JWT_SECRET || "supersecretkey";
+
+/**
+ * Uniformly random numeric code (crypto.randomInt, not Math.random)
+ */
+export const generateOtp = (): string =>
+  crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+
+/**
+ * HMAC-SHA256 of phone:otp, so a leaked hash cannot be replayed for another number
+ */
+export const hashOtp = (phone: string, otp: string): string =>
+  crypto.createHmac("sha256", getOtpSecret()).update(`${phone}:${otp}`).digest("hex");
+
+/**
+ * Constant-time check of a submitted code against the stored hash
+ */
+export const verifyOtpHash = (phone: string, otp: string, otpHash: string): boolean => {
+  const expected = Buffer.from(otpHash, "hex");
+  const provided = Buffer.from(hashOtp(phone, otp), "hex");
+
+  return expected.length > 0 && expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided);
+};
@@ -0,0 +1,236 @@
+/**
+ * Razorpay Gateway
+ * Order creation plus checkout and webhook signature verification
+ * RAZORPAY_MODE=stand-in swaps the HTTP client for an in-process stand-in that
+ * signs payments and webhooks with the same secrets, so local runs exercise the
+ * real verification path end to end
+ * DPDP Act 2023 Compliance - Card/UPI details never touch our servers; only
+ * Razorpay order and payment ids are stored
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { ERROR_CODES, createError } from "./errors";
+
+const RAZORPAY_API_URL = "https://api.razorpay.com/v1";
+
+// Used only in stand-in mode when no secrets are configured
+const STAND_IN_KEY_ID = "rzp_test_standin";
+const STAND_IN_SECRET = "razorpay-stand-in-secret";
+
+export type RazorpayMode = "live" | "stand-in";
+
+export interface RazorpayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt: string;
+  status: string;
+}
+
+export interface CreateOrderInput {
+  amount: number;
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayGateway {
+  readonly mode: RazorpayMode;
+  readonly keyId: string;
+  createOrder(input: CreateOrderInput): Promise<RazorpayOrder>;
+}
+
+export interface SignedWebhook {
+  eventId: string;
+  body: string;
+  signature: string;
+}
+
+export interface StandInPaymentResult {
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+  webhook: SignedWebhook;
+}
+
+// The stand-in mints valid signatures, so NODE_ENV=production always gets live
+export const getRazorpayMode = (): RazorpayMode =>
+  process.env.RAZORPAY_MODE === "stand-in" && process.env.NODE_ENV !== "production"
+    ? "stand-in"
+    : "live";
+
+const getKeyId = (): string =>
+  process.env.RAZORPAY_KEY_ID || (getRazorpayMode() === "stand-in" ? STAND_IN_KEY_ID : "");
+
+const getKeySecret = (): string =>
+  process.env.RAZORPAY_KEY_SECRET || (getRazorpayMode() === "stand-in" ? STAND_IN_SECRET : "");
+
+const getWebhookSecret = (): string =>
+  process.env.RAZORPAY_WEBHOOK_SECRET || (getRazorpayMode() === "stand-in" ? STAND_IN_SECRET : "");
+
+const hmacHex = (secret: string, payload: string): string =>
+  crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+const safeEqualHex = (expected: string, provided: string): boolean => {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(provided, "hex");
+
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Verify the checkout handler signature: HMAC(order_id|payment_id, key secret)
+ */
+export const verifyPaymentSignature = (
+  orderId: string,
+  paymentId: string,
+  signature: string
+): boolean => {
+  const secret = getKeySecret();
+  if (!secret) return false;
+
+  return safeEqualHex(hmacHex(secret, `${orderId}|${paymentId}`), signature);
+};
+
+/**
+ * Verify X-Razorpay-Signature: HMAC(raw request body, webhook secret)
+ */
+export const verifyWebhookSignature = (rawBody: string, signature: string): boolean => {
+  const secret = getWebhookSecret();
+  if (!secret) return false;
+
+  return safeEqualHex(hmacHex(secret, rawBody), signature);
+};
+
+/**
+ * Razorpay Orders API over HTTPS
+ */
+class RazorpayApiGateway implements RazorpayGateway {
+  readonly mode = "live" as const;
+
+  get keyId(): string {
+    return getKeyId();
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<RazorpayOrder> {
+    const keySecret = getKeySecret();
+
+    if (!this.keyId || !keySecret) {
+      throw createError(
+        ERROR_CODES.PAYMENT_GATEWAY_ERROR,
+        "Payments are not configured. Please try again later.",
+        503
+      );
+    }
+
+    try {
+      const response = await axios.post<RazorpayOrder>(
+        `${process.env.RAZORPAY_API_URL || RAZORPAY_API_URL}/orders`,
+        input,
+        {
+          auth: { username: this.keyId, password: keySecret },
+          timeout: 10000,
+        }
+      );
+
+      return response.data;
+    } catch (error: any) {
+      console.error("Razorpay order creation failed:", error.response?.data || error.message);
+      throw createError(
+        ERROR_CODES.PAYMENT_GATEWAY_ERROR,
+        "Could not start the payment. Please try again.",
+        502
+      );
+    }
+  }
+}
+
+/**
+ * In-process Razorpay stand-in for development and tests
+ * Orders live in memory; completePayment plays the part of the checkout widget
+ * and of Razorpay's webhook sender
+ */
+export class LocalRazorpayStandIn implements RazorpayGateway {
+  readonly mode = "stand-in" as const;
+  private readonly orders = new Map<string, RazorpayOrder>();
+
+  get keyId(): string {
+    return getKeyId();
+  }
+
+  async createOrder(input: CreateOrderInput): Promise<RazorpayOrder> {
+    const order: RazorpayOrder = {
+      id: `order_${crypto.randomBytes(7).toString("hex")}`,
+      amount: input.amount,
+      currency: input.currency,
+      receipt: input.receipt,
+      status: "created",
+    };
+
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  /**
+   * Simulate the customer paying (or failing to pay) an order
+   * Returns the checkout handler response and the webhook Razorpay would send
+   */
+  completePayment(orderId: string, outcome: "captured" | "failed"): StandInPaymentResult {
+    const order = this.orders.get(orderId);
+
+    if (!order) {
+      throw createError(ERROR_CODES.PAYMENT_NOT_FOUND, "Unknown stand-in order.", 404);
+    }
+
+    const paymentId = `pay_${crypto.randomBytes(7).toString("hex")}`;
+    const body = JSON.stringify({
+      entity: "event",
+      event: outcome === "captured" ? "payment.captured" : "payment.failed",
+      contains: ["payment"],
+      payload: {
+        payment: {
+          entity: {
+            id: paymentId,
+            order_id: order.id,
+            amount: order.amount,
+            currency: order.currency,
+            status: outcome,
+            method: "upi",
+            error_description: outcome === "failed" ? "Payment was declined by the bank" : null,
+          },
+        },
+      },
+      created_at: Math.floor(Date.now() / 1000),
+    });
+
+    if (outcome === "captured") {
+      order.status = "paid";
+    }
+
+    return {
+      razorpayOrderId: order.id,
+      razorpayPaymentId: paymentId,
+      razorpaySignature: hmacHex(getKeySecret(), `${order.id}|${paymentId}`),
+      webhook: {
+        eventId: `evt_${crypto.randomBytes(7).toString("hex")}`,
+        body,
+        signature: hmacHex(getWebhookSecret(), body),
+      },
+    };
+  }
+}
+
+let gateway: RazorpayGateway | null = null;
+
+/**
+ * The configured gateway (RAZORPAY_MODE, default live)
+ */
+export const getRazorpayGateway = (): RazorpayGateway => {
+  if (!gateway) {
+    gateway =
+      getRazorpayMode() === "stand-in" ? new LocalRazorpayStandIn() : new RazorpayApiGateway();
+  }
+
+  return gateway;
+};
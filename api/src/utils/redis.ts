@@ -0,0 +1,23 @@
+/**
+ * Redis Client
+ * Shared ioredis connection for counters and short-lived state
+ * DPDP Act 2023 Compliance - Only opaque ids, counters and consent flags are stored,
+ * never personal data
+ */
+
+import Redis from "ioredis";
+
+/**
+ * Lazily connected so importing modules does not open a socket until the first command
+ */
+export const redis = new Redis({
+  host: process.env.REDIS_HOST || "localhost",
+  port: parseInt(process.env.REDIS_PORT || "6379", 10),
+  password: process.env.REDIS_PASSWORD || undefined,
+  lazyConnect: true,
+  maxRetriesPerRequest: 2,
+});
+
+redis.on("error", (error) => {
+  console.error("Redis connection error:", error.message);
+});
@@ -0,0 +1,363 @@
+/**
+ * Safety Check-in Service
+ * "Did you get home safe?" timers: once the expected end time passes without a
+ * confirmation, the user is reminded, then their emergency contacts get the
+ * emergency SMS with a live tracking link, then repeat alerts
+ * There is no push channel, so the reminder goes to a connected app over the
+ * socket and, for a closed app, as an SMS to the user's own number
+ * A duress PIN ends the check-in as far as the device can tell while the
+ * escalation jumps straight to the contacts; so does running out of PIN attempts
+ * DPDP Act 2023 Compliance - Contact numbers and tracking tokens are KMS-encrypted;
+ * every escalation step is written to the audit log
+ */
+
+import crypto from "crypto";
+import { PrismaClient, SafetyCheckIn, User } from "@prisma/client";
+import { addMinutes } from "date-fns";
+import { decryptWithKMS, encryptWithKMS } from "./kms-encryption";
+import { sendTemplatedSms } from "./sms-gateway";
+import {
+  SHARING_MAX_MINUTES,
+  getTrackingUrl,
+  hashTrackingToken,
+  isSharingLive,
+  startSharingSession,
+} from "./location-sharing";
+import { emitToUser } from "../routes/chat-gateway";
+
+const prisma = new PrismaClient();
+
+export const MAX_CHECK_IN_CONTACTS = 3;
+export const MAX_CHECK_IN_HOURS = 12;
+
+// Time between the reminder and the first alert to contacts
+export const CHECK_IN_REMINDER_GRACE_MINUTES = 10;
+export const CHECK_IN_REPEAT_ALERT_MINUTES = 15;
+// The first alert plus repeats; after this the check-in is left "escalated"
+export const CHECK_IN_MAX_ALERTS = 4;
+// Wrong PINs before the check-in is treated as duress
+export const CHECK_IN_MAX_PIN_ATTEMPTS = 5;
+
+export type CheckInLanguage = "en" | "hi";
+export type PinMatch = "safety" | "duress";
+
+export interface CheckInContact {
+  name: string;
+  phone: string;
+}
+
+interface CheckInPayload {
+  contacts: CheckInContact[];
+  trackingToken?: string;
+}
+
+const getSafetyPinSecret = (): string =>
+  process.env.SAFETY_PIN_SECRET || process.env.JWT_SECRET || "supersecretkey";
+
+/**
+ * HMAC-SHA256 of userId:pin, so equal PINs of different users hash differently
+ */
+export const hashSafetyPin = (userId: string, pin: string): string =>
+  crypto.createHmac("sha256", getSafetyPinSecret()).update(`${userId}:${pin}`).digest("hex");
+
+const pinHashMatches = (stored: string | null, provided: string): boolean => {
+  if (!stored) return false;
+
+  const expected = Buffer.from(stored, "hex");
+  const actual = Buffer.from(provided, "hex");
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Which PIN was entered; both hashes are always compared so timing gives nothing away
+ */
+export const matchSafetyPin = (
+  user: Pick<User, "id" | "safetyPinHash" | "duressPinHash">,
+  pin: string
+): PinMatch | null => {
+  const provided = hashSafetyPin(user.id, pin);
+  const isSafety = pinHashMatches(user.safetyPinHash, provided);
+  const isDuress = pinHashMatches(user.duressPinHash, provided);
+
+  if (isDuress) return "duress";
+  if (isSafety) return "safety";
+  return null;
+};
+
+export const sealCheckInPayload = async (payload: CheckInPayload) => {
+  const encrypted = await encryptWithKMS(JSON.stringify(payload));
+
+  return {
+    payloadCiphertext: encrypted.ciphertext,
+    payloadIv: encrypted.iv,
+    payloadAuthTag: encrypted.authTag,
+  };
+};
+
+const openCheckInPayload = async (checkIn: SafetyCheckIn): Promise<CheckInPayload> =>
+  JSON.parse(
+    await decryptWithKMS(checkIn.payloadCiphertext, checkIn.payloadIv, checkIn.payloadAuthTag)
+  );
+
+/**
+ * What the device sees; a duress check-in is indistinguishable from a completed one
+ */
+export const serializeCheckIn = (checkIn: SafetyCheckIn) => {
+  const duress = checkIn.duressAt !== null;
+
+  return {
+    id: checkIn.id,
+    status: duress ? "completed" : checkIn.status,
+    expectedEndAt: checkIn.expectedEndAt,
+    contactsAlerted: duress ? 0 : checkIn.alertCount,
+    createdAt: checkIn.createdAt,
+    completedAt: duress ? checkIn.duressAt : checkIn.completedAt,
+  };
+};
+
+const writeCheckInAudit = async (
+  checkIn: SafetyCheckIn,
+  action: string,
+  metadata: Record<string, unknown> = {}
+) => {
+  await prisma.auditLog.create({
+    data: {
+      eventType: "SAFETY_CHECKIN",
+      userId: checkIn.userId,
+      entityType: "SAFETY_CHECKIN",
+      entityId: checkIn.id,
+      action,
+      metadata: { expectedEndAt: checkIn.expectedEndAt.toISOString(), ...metadata },
+    },
+  });
+};
+
+/**
+ * The link for contacts: the session the user linked if it is still live,
+ * otherwise a fresh one (kept on the check-in so repeat alerts reuse it)
+ */
+const resolveTrackingUrl = async (
+  checkIn: SafetyCheckIn,
+  payload: CheckInPayload
+): Promise<string> => {
+  if (payload.trackingToken) {
+    const linked = await prisma.sharingSession.findUnique({
+      where: { trackingTokenHash: hashTrackingToken(payload.trackingToken) },
+    });
+
+    if (linked && linked.userId === checkIn.userId && isSharingLive(linked)) {
+      return getTrackingUrl(payload.trackingToken);
+    }
+  }
+
+  const { session, trackingToken } = await startSharingSession(checkIn.userId, {
+    durationMinutes: SHARING_MAX_MINUTES,
+  });
+
+  await prisma.safetyCheckIn.update({
+    where: { id: checkIn.id },
+    data: await sealCheckInPayload({ ...payload, trackingToken }),
+  });
+
+  // A connected app starts streaming into the new session
+  emitToUser(checkIn.userId, "safety:share_location", {
+    sessionId: session.id,
+    expiresAt: session.expiresAt,
+  });
+
+  return getTrackingUrl(trackingToken);
+};
+
+/**
+ * Send the emergency SMS to every contact; failures are counted, not thrown
+ * Rate limits are skipped: an alert must never be held back
+ */
+const alertContacts = async (checkIn: SafetyCheckIn) => {
+  const payload = await openCheckInPayload(checkIn);
+  const trackingUrl = await resolveTrackingUrl(checkIn, payload);
+
+  const user = await prisma.user.findUnique({
+    where: { id: checkIn.userId },
+    select: { name: true },
+  });
+
+  const language: CheckInLanguage = checkIn.language === "hi" ? "hi" : "en";
+
+  let delivered = 0;
+
+  for (const contact of payload.contacts) {
+    try {
+      await sendTemplatedSms({
+        userId: checkIn.userId,
+        to: contact.phone,
+        template: "emergency",
+        language,
+        variables: { name: user?.name?.split(" ")[0] || "Your contact", trackingUrl },
+        skipRateLimit: true,
+      });
+      delivered++;
+    } catch (error) {
+      console.error(`[Check-in] Emergency SMS for ${checkIn.id} failed:`, error);
+    }
+  }
+
+  return { delivered, failed: payload.contacts.length - delivered };
+};
+
+/**
+ * Text the reminder to the user's own number; a failure is logged, since the
+ * contacts are alerted after the grace period either way
+ */
+const sendReminderSms = async (checkIn: SafetyCheckIn): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: checkIn.userId },
+    select: { phone: true },
+  });
+
+  if (!user?.phone) return false;
+
+  try {
+    await sendTemplatedSms({
+      userId: checkIn.userId,
+      to: user.phone,
+      template: "checkin_reminder",
+      language: checkIn.language === "hi" ? "hi" : "en",
+      variables: { minutes: String(CHECK_IN_REMINDER_GRACE_MINUTES) },
+      skipRateLimit: true,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[Check-in] Reminder SMS for ${checkIn.id} failed:`, error);
+    return false;
+  }
+};
+
+/**
+ * Run the next escalation step of a due check-in
+ * Each step is claimed with a guarded update so overlapping runs act once
+ */
+export const escalateCheckIn = async (checkIn: SafetyCheckIn): Promise<boolean> => {
+  const now = new Date();
+  const duress = checkIn.duressAt !== null;
+
+  if (checkIn.stage === "scheduled") {
+    const { count } = await prisma.safetyCheckIn.updateMany({
+      where: { id: checkIn.id, status: "active", stage: "scheduled" },
+      data: { stage: "reminded", nextActionAt: addMinutes(now, CHECK_IN_REMINDER_GRACE_MINUTES) },
+    });
+
+    if (count === 0) return false;
+
+    emitToUser(checkIn.userId, "safety:checkin_reminder", {
+      id: checkIn.id,
+      expectedEndAt: checkIn.expectedEndAt,
+      alertsAt: addMinutes(now, CHECK_IN_REMINDER_GRACE_MINUTES),
+    });
+
+    const smsSent = await sendReminderSms(checkIn);
+
+    await writeCheckInAudit(checkIn, "REMINDER_SENT", { smsSent });
+    return true;
+  }
+
+  const alertCount = checkIn.alertCount + 1;
+  const exhausted = alertCount >= CHECK_IN_MAX_ALERTS;
+
+  const { count } = await prisma.safetyCheckIn.updateMany({
+    where: { id: checkIn.id, status: "active", alertCount: checkIn.alertCount },
+    data: {
+      stage: "alerting",
+      alertCount,
+      lastAlertAt: now,
+      status: exhausted ? "escalated" : "active",
+      nextActionAt: exhausted ? null : addMinutes(now, CHECK_IN_REPEAT_ALERT_MINUTES),
+    },
+  });
+
+  if (count === 0) return false;
+
+  const result = await alertContacts(checkIn);
+
+  await writeCheckInAudit(checkIn, alertCount === 1 ? "CONTACTS_ALERTED" : "REPEAT_ALERT", {
+    alertNumber: alertCount,
+    duress,
+    ...result,
+  });
+
+  return true;
+};
+
+/**
+ * Duress PIN entered: the check-in stays active on the server and alerts go out
+ * now, skipping the reminder that would show on the user's device
+ */
+export const triggerDuress = async (checkIn: SafetyCheckIn): Promise<SafetyCheckIn> => {
+  const duressAt = new Date();
+
+  const updated = await prisma.safetyCheckIn.update({
+    where: { id: checkIn.id },
+    data: {
+      duressAt,
+      status: "active",
+      stage: "alerting",
+      nextActionAt: duressAt,
+    },
+  });
+
+  await writeCheckInAudit(updated, "DURESS_TRIGGERED");
+
+  // Not awaited: the response must take as long as a genuine confirmation
+  escalateCheckIn(updated).catch((error) => {
+    console.error(`[Check-in] Duress escalation for ${checkIn.id} failed:`, error);
+  });
+
+  return updated;
+};
+
+/**
+ * Count a wrong PIN; someone guessing at it may be why the user cannot confirm,
+ * so the last allowed miss on a live check-in triggers duress
+ * The increment is atomic, so exactly one concurrent miss reaches the limit
+ */
+export const recordWrongPin = async (checkIn: SafetyCheckIn): Promise<void> => {
+  const updated = await prisma.safetyCheckIn.update({
+    where: { id: checkIn.id },
+    data: { failedPinAttempts: { increment: 1 } },
+  });
+
+  if (
+    updated.failedPinAttempts !== CHECK_IN_MAX_PIN_ATTEMPTS ||
+    updated.status !== "active" ||
+    updated.duressAt
+  ) {
+    return;
+  }
+
+  await writeCheckInAudit(updated, "PIN_ATTEMPTS_EXHAUSTED", {
+    attempts: updated.failedPinAttempts,
+  });
+  await triggerDuress(updated);
+};
+
+/**
+ * Run every escalation step that is due
+ */
+export const processDueCheckIns = async (): Promise<{ escalatedCount: number }> => {
+  const due = await prisma.safetyCheckIn.findMany({
+    where: { status: "active", nextActionAt: { lte: new Date() } },
+    orderBy: { nextActionAt: "asc" },
+  });
+
+  let escalatedCount = 0;
+
+  for (const checkIn of due) {
+    try {
+      if (await escalateCheckIn(checkIn)) escalatedCount++;
+    } catch (error) {
+      console.error(`[Check-in] Escalation for ${checkIn.id} failed:`, error);
+    }
+  }
+
+  return { escalatedCount };
+};
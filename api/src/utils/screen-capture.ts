@@ -0,0 +1,116 @@
+/**
+ * Screen Capture Service
+ * Records screenshots and screen recordings reported by a participant's client
+ * and decides when the other participant's photos are blurred for them
+ * DPDP Act 2023 Compliance - Events hold only who captured, when and how it was
+ * detected; never any image or message content
+ */
+
+import { PrismaClient, ScreenCaptureEvent } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export const SCREEN_CAPTURE_KINDS = ["screenshot", "screen_recording"] as const;
+
+export type ScreenCaptureKind = typeof SCREEN_CAPTURE_KINDS[number];
+
+export const SCREEN_CAPTURE_SOURCES = [
+  "print_screen",
+  "shortcut",
+  "visibility",
+  "media_capture",
+  "native",
+] as const;
+
+export type ScreenCaptureSource = typeof SCREEN_CAPTURE_SOURCES[number];
+
+// One capture often trips several detectors at once (key + visibility blip)
+const DUPLICATE_WINDOW_MS = 5000;
+
+/**
+ * Captures after which the capturer only receives blurred copies of the other
+ * participant's photos in that conversation; 0 disables auto-blur
+ */
+export const getBlurThreshold = (): number =>
+  parseInt(process.env.SCREEN_CAPTURE_BLUR_THRESHOLD || "2", 10);
+
+export interface RecordedCapture {
+  event: ScreenCaptureEvent;
+  // False when the report repeated one already recorded moments ago
+  isNew: boolean;
+  // True only for the capture that crossed the blur threshold
+  photosBlurred: boolean;
+}
+
+/**
+ * Record a capture, folding duplicates from the same moment into one event
+ */
+export const recordScreenCapture = async (
+  userId: string,
+  conversationId: string,
+  kind: ScreenCaptureKind,
+  source: ScreenCaptureSource
+): Promise<RecordedCapture> => {
+  const recent = await prisma.screenCaptureEvent.findFirst({
+    where: {
+      conversationId,
+      userId,
+      kind,
+      createdAt: { gt: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (recent) {
+    return { event: recent, isNew: false, photosBlurred: false };
+  }
+
+  const event = await prisma.screenCaptureEvent.create({
+    data: { conversationId, userId, kind, source },
+  });
+
+  const threshold = getBlurThreshold();
+  const captures = await prisma.screenCaptureEvent.count({ where: { conversationId, userId } });
+
+  return { event, isNew: true, photosBlurred: threshold > 0 && captures === threshold };
+};
+
+/**
+ * Conversations (of those given) in which the viewer's captures have blurred
+ * the other participant's photos for them
+ */
+export const getBlurredConversationIds = async (
+  viewerId: string,
+  conversationIds: string[]
+): Promise<Set<string>> => {
+  const threshold = getBlurThreshold();
+
+  if (threshold <= 0 || conversationIds.length === 0) return new Set();
+
+  const counts = await prisma.screenCaptureEvent.groupBy({
+    by: ["conversationId"],
+    where: { userId: viewerId, conversationId: { in: conversationIds } },
+    _count: { _all: true },
+  });
+
+  return new Set(
+    counts
+      .filter((count) => count._count._all >= threshold)
+      .map((count) => count.conversationId)
+  );
+};
+
+export const arePhotosBlurredFor = async (
+  viewerId: string,
+  conversationId: string
+): Promise<boolean> =>
+  (await getBlurredConversationIds(viewerId, [conversationId])).has(conversationId);
+
+export const serializeScreenCapture = (event: ScreenCaptureEvent) => ({
+  id: event.id,
+  conversationId: event.conversationId,
+  userId: event.userId,
+  kind: event.kind as ScreenCaptureKind,
+  source: event.source as ScreenCaptureSource,
+  createdAt: event.createdAt.toISOString(),
+});
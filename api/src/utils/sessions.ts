@@ -0,0 +1,323 @@
+/**
+ * Session Service
+ * Rotating refresh tokens backed by the Session table
+ * Each refresh exchanges the presented token for a new one in the same family;
+ * presenting an already-rotated token means it leaked, so the whole family is revoked
+ * Refresh tokens are signed with JWT_REFRESH_SECRET, so they never pass as access tokens,
+ * and access tokens are only honoured while their session family is live
+ * Suspended users can neither refresh nor use the access tokens they still hold
+ * DPDP Act 2023 Compliance - Only SHA-256 hashes of refresh tokens are stored
+ */
+
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import { PrismaClient, Session, User } from "@prisma/client";
+import { addDays } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import { ERROR_CODES, accountSuspendedError, createError } from "./errors";
+import { disconnectSession, disconnectUser } from "../routes/chat-gateway";
+
+const prisma = new PrismaClient();
+
+export const ACCESS_TOKEN_TTL = "15m";
+export const REFRESH_TOKEN_TTL_DAYS = 7;
+
+// Separate from JWT_SECRET so the access-token verifier rejects refresh tokens outright
+const getRefreshTokenSecret = (): string =>
+  process.env.JWT_REFRESH_SECRET || `${process.env.JWT_SECRET || "supersecretkey"}:refresh`;
+
+export type SessionRevokeReason =
+  | "logout"
+  | "user_revoked"
+  | "reuse_detected"
+  | "account_suspended"
+  | "account_deletion";
+
+export interface SessionContext {
+  deviceInfo?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  type: "refresh";
+  sid: string;
+  jti: string;
+}
+
+type TokenUser = Pick<User, "id" | "phone" | "verificationLevel">;
+
+export const hashRefreshToken = (refreshToken: string): string =>
+  crypto.createHash("sha256").update(refreshToken).digest("hex");
+
+const invalidRefreshToken = () =>
+  createError(ERROR_CODES.REFRESH_TOKEN_INVALID, "Invalid or expired refresh token", 403);
+
+/**
+ * Sign an access token bound to a session family
+ */
+export const signAccessToken = (
+  fastify: FastifyInstance,
+  user: TokenUser,
+  sessionId: string,
+  claims: Record<string, unknown> = {}
+): string =>
+  fastify.jwt.sign(
+    {
+      userId: user.id,
+      phone: user.phone,
+      verificationLevel: user.verificationLevel,
+      sid: sessionId,
+      ...claims,
+    },
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+
+/**
+ * Whether a verified access token may still be used: not a refresh token, bound to a
+ * session, that session family not signed out or expired, and its user not suspended
+ * Backs the JWT plugin's trusted check and the chat socket handshake; never throws
+ */
+export const isAccessTokenTrusted = async (payload: {
+  userId?: string;
+  sid?: string;
+  type?: string;
+}): Promise<boolean> => {
+  if (payload.type === "refresh" || !payload.userId || !payload.sid) {
+    return false;
+  }
+
+  try {
+    const live = await prisma.session.findFirst({
+      where: {
+        familyId: payload.sid,
+        userId: payload.userId,
+        isRevoked: false,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true, user: { select: { isActive: true } } },
+    });
+
+    return live !== null && live.user.isActive;
+  } catch (error) {
+    console.error("Session lookup for access token failed:", error);
+    return false;
+  }
+};
+
+/**
+ * Persist a refresh token in a (new or existing) family and sign its token pair
+ */
+const createSessionToken = async (
+  fastify: FastifyInstance,
+  user: TokenUser,
+  familyId: string,
+  context: SessionContext
+): Promise<IssuedTokens> => {
+  const id = uuidv4();
+  const payload: RefreshTokenPayload = { userId: user.id, type: "refresh", sid: familyId, jti: id };
+  const refreshToken = fastify.jwt.sign(payload, {
+    key: getRefreshTokenSecret(),
+    expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d`,
+  });
+
+  await prisma.session.create({
+    data: {
+      id,
+      userId: user.id,
+      familyId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      deviceInfo: context.deviceInfo,
+      ipAddress: context.ipAddress,
+      expiresAt: addDays(new Date(), REFRESH_TOKEN_TTL_DAYS),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(fastify, user, familyId),
+    refreshToken,
+    sessionId: familyId,
+  };
+};
+
+/**
+ * Start a new device session after sign-in
+ */
+export const issueSession = (
+  fastify: FastifyInstance,
+  user: TokenUser,
+  context: SessionContext
+): Promise<IssuedTokens> => createSessionToken(fastify, user, uuidv4(), context);
+
+/**
+ * Revoke every token in a session family and close its chat sockets;
+ * returns how many were still live
+ */
+export const revokeSessionFamily = async (
+  familyId: string,
+  reason: SessionRevokeReason
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: { familyId, isRevoked: false },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+
+  disconnectSession(familyId);
+
+  return count;
+};
+
+/**
+ * Revoke all of a user's sessions (sign out everywhere) and close their chat sockets
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokeReason
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, isRevoked: false },
+    data: { isRevoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+
+  disconnectUser(userId);
+
+  return count;
+};
+
+/**
+ * Exchange a refresh token for a new token pair in the same family
+ * Reuse of a rotated token revokes the family and is audited
+ */
+export const rotateRefreshToken = async (
+  fastify: FastifyInstance,
+  refreshToken: string,
+  context: SessionContext & { userAgent?: string }
+): Promise<IssuedTokens> => {
+  let payload: RefreshTokenPayload;
+  try {
+    payload = fastify.jwt.verify<RefreshTokenPayload>(refreshToken, {
+      key: getRefreshTokenSecret(),
+    });
+  } catch {
+    throw invalidRefreshToken();
+  }
+
+  if (payload.type !== "refresh") {
+    throw invalidRefreshToken();
+  }
+
+  const session = await prisma.session.findFirst({
+    where: { refreshTokenHash: hashRefreshToken(refreshToken), userId: payload.userId },
+    include: { user: true },
+  });
+
+  if (!session || session.isRevoked || session.expiresAt <= new Date()) {
+    throw invalidRefreshToken();
+  }
+
+  if (!session.user.isActive) {
+    throw accountSuspendedError();
+  }
+
+  // Guarded update: of two requests presenting the same token only one rotates it
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, rotatedAt: null, isRevoked: false },
+    data: { rotatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await handleTokenReuse(session, context);
+  }
+
+  return createSessionToken(fastify, session.user, session.familyId, context);
+};
+
+const handleTokenReuse = async (
+  session: Session,
+  context: SessionContext & { userAgent?: string }
+): Promise<never> => {
+  const revokedCount = await revokeSessionFamily(session.familyId, "reuse_detected");
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: "SESSION_REUSE_DETECTED",
+      userId: session.userId,
+      entityType: "SESSION",
+      entityId: session.familyId,
+      action: "SESSION_FAMILY_REVOKED",
+      metadata: { revokedCount, rotatedAt: session.rotatedAt?.toISOString() ?? null },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  throw createError(
+    ERROR_CODES.REFRESH_TOKEN_REUSED,
+    "This session has been signed out for your security. Please log in again.",
+    401
+  );
+};
+
+/**
+ * Active device sessions, one entry per family (newest token wins)
+ */
+export const listActiveSessions = async (userId: string) => {
+  const live = await prisma.session.findMany({
+    where: {
+      userId,
+      isRevoked: false,
+      rotatedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const families = await prisma.session.groupBy({
+    by: ["familyId"],
+    where: { familyId: { in: live.map((session) => session.familyId) } },
+    _min: { createdAt: true },
+  });
+
+  const signedInAt = new Map(families.map((family) => [family.familyId, family._min.createdAt]));
+  const seen = new Set<string>();
+
+  return live
+    .filter((session) => {
+      if (seen.has(session.familyId)) return false;
+      seen.add(session.familyId);
+      return true;
+    })
+    .map((session) => ({
+      id: session.familyId,
+      deviceInfo: session.deviceInfo,
+      ipAddress: session.ipAddress,
+      signedInAt: signedInAt.get(session.familyId) ?? session.createdAt,
+      lastActiveAt: session.createdAt,
+      expiresAt: session.expiresAt,
+    }));
+};
+
+/**
+ * Whether a session family belongs to the user and is still signed in
+ */
+export const findUserSessionFamily = (userId: string, familyId: string) =>
+  prisma.session.findFirst({
+    where: { userId, familyId, isRevoked: false },
+  });
+
+/**
+ * Delete sessions past their expiry; their refresh tokens can no longer verify anyway
+ */
+export const purgeExpiredSessions = async (): Promise<{ deletedCount: number }> => {
+  const result = await prisma.session.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  return { deletedCount: result.count };
+};
@@ -0,0 +1,219 @@
+/**
+ * SMS Gateway Service
+ * The only path for SMS sent on a user's behalf: checks the DLT template
+ * registry, applies per-user and per-recipient rate limits in Redis, records
+ * each message and applies the provider's delivery receipts
+ * DPDP Act 2023 Compliance - Recipient numbers are stored only as a keyed hash
+ * and their last four digits; the number itself goes to the provider alone
+ */
+
+import crypto from "crypto";
+import { PrismaClient, SmsDelivery } from "@prisma/client";
+import { redis } from "./redis";
+import { ERROR_CODES, createError } from "./errors";
+import { SmsDeliveryReport, getSmsProvider } from "./sms-provider";
+import {
+  SmsLanguage,
+  SmsTemplateKey,
+  getSmsTemplateId,
+  validateSmsVariables,
+} from "./sms-templates";
+
+const prisma = new PrismaClient();
+
+export interface TemplatedSmsRequest {
+  userId: string;
+  to: string; // +91XXXXXXXXXX
+  template: SmsTemplateKey;
+  language: SmsLanguage;
+  variables: Record<string, string>;
+  // Emergency alerts go out even when the sender or recipient is over the limit
+  skipRateLimit?: boolean;
+}
+
+interface SmsRateLimitWindow {
+  scope: "user_hourly" | "user_daily" | "recipient_hourly";
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+const getLimit = (name: string, fallback: number): number =>
+  parseInt(process.env[name] || String(fallback), 10);
+
+const getRecipientHashSecret = (): string =>
+  process.env.SMS_RECIPIENT_HASH_SECRET || process.env.JWT_SECRET || "supersecretkey";
+
+/**
+ * Keyed hash of a phone number; used for the delivery log and the rate limit keys
+ */
+export const hashSmsRecipient = (phone: string): string =>
+  crypto.createHmac("sha256", getRecipientHashSecret()).update(phone).digest("hex");
+
+/**
+ * Fixed windows: the sender per hour and per day, and each recipient per hour
+ * across all senders so one number cannot be flooded from many accounts
+ */
+const getRateLimitWindows = (userId: string, recipientHash: string): SmsRateLimitWindow[] => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  const windows: Omit<SmsRateLimitWindow, "key">[] = [
+    { scope: "user_hourly", limit: getLimit("SMS_USER_LIMIT_PER_HOUR", 10), windowSeconds: 3600 },
+    { scope: "user_daily", limit: getLimit("SMS_USER_LIMIT_PER_DAY", 50), windowSeconds: 86400 },
+    {
+      scope: "recipient_hourly",
+      limit: getLimit("SMS_RECIPIENT_LIMIT_PER_HOUR", 3),
+      windowSeconds: 3600,
+    },
+  ];
+
+  return windows.map((window) => {
+    const subject = window.scope === "recipient_hourly" ? recipientHash : userId;
+    const bucket = Math.floor(nowSeconds / window.windowSeconds);
+
+    return { ...window, key: `sms-limit:${window.scope}:${subject}:${bucket}` };
+  });
+};
+
+/**
+ * Count one message against every window, or none of them if any is exhausted
+ * Redis failures fail closed like the daily limits
+ */
+const consumeSmsRateLimits = async (userId: string, recipientHash: string): Promise<void> => {
+  const windows = getRateLimitWindows(userId, recipientHash);
+
+  let counts: number[];
+
+  try {
+    const transaction = redis.multi();
+
+    for (const window of windows) {
+      transaction.incr(window.key).expire(window.key, window.windowSeconds);
+    }
+
+    const results = (await transaction.exec()) ?? [];
+
+    counts = windows.map((_, index) => {
+      const [error, count] = results[index * 2] ?? [new Error("Empty Redis transaction result"), null];
+      if (error) throw error;
+
+      return count as number;
+    });
+  } catch (error) {
+    console.error("SMS rate limit store unavailable:", error);
+    throw createError(
+      ERROR_CODES.SERVICE_UNAVAILABLE,
+      "SMS is temporarily unavailable. Please try again shortly.",
+      503
+    );
+  }
+
+  const exceeded = windows.find((window, index) => counts[index] > window.limit);
+
+  if (exceeded) {
+    await Promise.all(windows.map((window) => redis.decr(window.key))).catch((error) => {
+      console.error("SMS rate limit rollback failed:", error);
+    });
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    throw createError(
+      ERROR_CODES.RATE_LIMIT_EXCEEDED,
+      exceeded.scope === "recipient_hourly"
+        ? "This number has received too many messages. Please try again later."
+        : "You have sent too many SMS. Please try again later.",
+      429,
+      {
+        scope: exceeded.scope,
+        retryAfterSeconds: exceeded.windowSeconds - (nowSeconds % exceeded.windowSeconds),
+      }
+    );
+  }
+};
+
+/**
+ * Send one DLT-templated SMS and record it
+ * Provider failures are recorded on the delivery and rethrown
+ */
+export const sendTemplatedSms = async (request: TemplatedSmsRequest): Promise<SmsDelivery> => {
+  const { userId, to, template, language, variables } = request;
+
+  validateSmsVariables(template, variables);
+
+  const provider = getSmsProvider();
+  const templateId = getSmsTemplateId(template, language, provider.name);
+  const recipientHash = hashSmsRecipient(to);
+
+  if (!request.skipRateLimit) {
+    await consumeSmsRateLimits(userId, recipientHash);
+  }
+
+  const delivery = await prisma.smsDelivery.create({
+    data: {
+      userId,
+      recipientHash,
+      recipientLast4: to.slice(-4),
+      templateKey: template,
+      language,
+      templateId,
+      provider: provider.name,
+    },
+  });
+
+  try {
+    const receipt = await provider.sendTemplate({ to, templateId, variables });
+
+    return await prisma.smsDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "sent",
+        providerMessageId: receipt.messageId || null,
+        sentAt: new Date(),
+      },
+    });
+  } catch (error: any) {
+    await prisma.smsDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "failed", failureReason: String(error.message || error).slice(0, 200) },
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Apply delivery receipts; only messages still marked sent are updated so a
+ * replayed receipt changes nothing
+ */
+export const recordDeliveryReports = async (
+  providerName: string,
+  reports: SmsDeliveryReport[]
+): Promise<number> => {
+  let updated = 0;
+
+  for (const report of reports) {
+    const { count } = await prisma.smsDelivery.updateMany({
+      where: { provider: providerName, providerMessageId: report.messageId, status: "sent" },
+      data:
+        report.status === "delivered"
+          ? { status: "delivered", deliveredAt: new Date() }
+          : { status: "failed", failureReason: report.reason?.slice(0, 200) || "Undelivered" },
+    });
+
+    updated += count;
+  }
+
+  return updated;
+};
+
+export const serializeSmsDelivery = (delivery: SmsDelivery) => ({
+  id: delivery.id,
+  template: delivery.templateKey,
+  language: delivery.language,
+  recipient: `******${delivery.recipientLast4}`,
+  status: delivery.status,
+  failureReason: delivery.failureReason,
+  sentAt: delivery.sentAt,
+  deliveredAt: delivery.deliveredAt,
+  createdAt: delivery.createdAt,
+});
@@ -0,0 +1,263 @@
+/**
+ * SMS Provider
+ * Pluggable transport for server-issued OTPs and DLT-templated alerts, plus
+ * parsing of each provider's delivery receipt webhook
+ * SMS_PROVIDER selects the provider (default "msg91"); "fake" keeps messages in
+ * memory and prints each OTP to the console
+ * DPDP Act 2023 Compliance - Only the phone number and message leave our servers
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { ERROR_CODES, createError } from "./errors";
+
+const MSG91_API_URL = "https://control.msg91.com/api/v5";
+
+export interface SmsMessage {
+  to: string;
+  otp: string;
+  expiresInMinutes: number;
+}
+
+export interface SmsTemplateMessage {
+  to: string;
+  templateId: string; // DLT template registered on the provider dashboard
+  variables: Record<string, string>;
+}
+
+export interface SmsReceipt {
+  provider: string;
+  messageId: string;
+}
+
+export interface SmsDeliveryReport {
+  messageId: string;
+  status: "delivered" | "failed";
+  reason?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  sendOtp(message: SmsMessage): Promise<SmsReceipt>;
+  sendTemplate(message: SmsTemplateMessage): Promise<SmsReceipt>;
+  // Final outcomes from a delivery receipt webhook body; interim states are skipped
+  parseDeliveryReports(body: unknown): SmsDeliveryReport[];
+}
+
+// MSG91 DLR status codes that are final; anything else is still in flight
+const MSG91_DELIVERED_STATUS = "1";
+const MSG91_FAILED_STATUSES = new Set(["2", "9", "16", "17", "25", "26"]);
+
+/**
+ * MSG91 OTP API (DLT template configured on the MSG91 dashboard)
+ */
+class Msg91SmsProvider implements SmsProvider {
+  readonly name = "msg91";
+
+  async sendOtp(message: SmsMessage): Promise<SmsReceipt> {
+    const authKey = process.env.MSG91_AUTHKEY;
+    const templateId = process.env.MSG91_OTP_TEMPLATE_ID;
+
+    if (!authKey || !templateId) {
+      throw createError(
+        ERROR_CODES.OTP_SEND_FAILED,
+        "SMS delivery is not configured. Please try again later.",
+        503
+      );
+    }
+
+    try {
+      const response = await axios.post<{ type: string; request_id?: string; message?: string }>(
+        `${process.env.MSG91_API_URL || MSG91_API_URL}/otp`,
+        {
+          template_id: templateId,
+          mobile: message.to.replace(/^\+/, ""),
+          otp: message.otp,
+          otp_expiry: message.expiresInMinutes,
+        },
+        {
+          headers: { authkey: authKey },
+          timeout: 10000,
+        }
+      );
+
+      if (response.data.type !== "success") {
+        throw new Error(response.data.message || "MSG91 rejected the request");
+      }
+
+      return { provider: this.name, messageId: response.data.request_id || "" };
+    } catch (error: any) {
+      console.error("MSG91 OTP send failed:", error.response?.data || error.message);
+      throw createError(
+        ERROR_CODES.OTP_SEND_FAILED,
+        "Could not send the OTP. Please try again.",
+        502
+      );
+    }
+  }
+
+  /**
+   * MSG91 Flow API; variables fill the placeholders of the DLT template
+   */
+  async sendTemplate(message: SmsTemplateMessage): Promise<SmsReceipt> {
+    const authKey = process.env.MSG91_AUTHKEY;
+
+    if (!authKey) {
+      throw createError(ERROR_CODES.SMS_SEND_FAILED, "SMS delivery is not configured.", 503);
+    }
+
+    try {
+      const response = await axios.post<{ type: string; message?: string }>(
+        `${process.env.MSG91_API_URL || MSG91_API_URL}/flow`,
+        {
+          template_id: message.templateId,
+          short_url: "0",
+          recipients: [{ mobiles: message.to.replace(/^\+/, ""), ...message.variables }],
+        },
+        {
+          headers: { authkey: authKey },
+          timeout: 10000,
+        }
+      );
+
+      if (response.data.type !== "success") {
+        throw new Error(response.data.message || "MSG91 rejected the request");
+      }
+
+      return { provider: this.name, messageId: response.data.message || "" };
+    } catch (error: any) {
+      console.error("MSG91 template send failed:", error.response?.data || error.message);
+      throw createError(ERROR_CODES.SMS_SEND_FAILED, "Could not send the SMS.", 502);
+    }
+  }
+
+  /**
+   * MSG91 posts { data: [{ requestId, report: [{ status, desc }] }] }, with data
+   * sometimes sent as a JSON string
+   */
+  parseDeliveryReports(body: unknown): SmsDeliveryReport[] {
+    let batches = (body as { data?: unknown } | null)?.data;
+
+    if (typeof batches === "string") {
+      try {
+        batches = JSON.parse(batches);
+      } catch {
+        return [];
+      }
+    }
+
+    if (!Array.isArray(batches)) return [];
+
+    return batches.flatMap((batch: any) =>
+      (Array.isArray(batch?.report) ? batch.report : [])
+        .map((report: any): SmsDeliveryReport | null => {
+          const status = String(report?.status ?? "");
+
+          if (status === MSG91_DELIVERED_STATUS) {
+            return { messageId: String(batch.requestId), status: "delivered" };
+          }
+
+          if (MSG91_FAILED_STATUSES.has(status)) {
+            return { messageId: String(batch.requestId), status: "failed", reason: report.desc };
+          }
+
+          return null;
+        })
+        .filter((report: SmsDeliveryReport | null): report is SmsDeliveryReport =>
+          Boolean(report?.messageId)
+        )
+    );
+  }
+}
+
+/**
+ * In-memory provider for development and tests
+ * Nothing is delivered; the last message per phone can be read back
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = "fake";
+  private readonly outbox = new Map<string, SmsMessage & { messageId: string }>();
+  private readonly templateOutbox: (SmsTemplateMessage & { messageId: string })[] = [];
+
+  async sendOtp(message: SmsMessage): Promise<SmsReceipt> {
+    const messageId = `fake_${crypto.randomBytes(6).toString("hex")}`;
+
+    this.outbox.set(message.to, { ...message, messageId });
+    console.info(`[fake-sms] OTP for ${message.to}: ${message.otp}`);
+
+    return { provider: this.name, messageId };
+  }
+
+  async sendTemplate(message: SmsTemplateMessage): Promise<SmsReceipt> {
+    const messageId = `fake_${crypto.randomBytes(6).toString("hex")}`;
+
+    this.templateOutbox.push({ ...message, messageId });
+    console.info(`[fake-sms] Template ${message.templateId} to ${message.to}`, message.variables);
+
+    return { provider: this.name, messageId };
+  }
+
+  /**
+   * Receipts are posted as { messageId, status, reason? } or an array of them
+   */
+  parseDeliveryReports(body: unknown): SmsDeliveryReport[] {
+    const reports = Array.isArray(body) ? body : [body];
+
+    return reports.filter(
+      (report: any): report is SmsDeliveryReport =>
+        typeof report?.messageId === "string" &&
+        (report.status === "delivered" || report.status === "failed")
+    );
+  }
+
+  lastOtpFor(phone: string): string | null {
+    return this.outbox.get(phone)?.otp ?? null;
+  }
+
+  templatesSentTo(phone: string): SmsTemplateMessage[] {
+    return this.templateOutbox.filter((message) => message.to === phone);
+  }
+
+  clear(): void {
+    this.outbox.clear();
+    this.templateOutbox.length = 0;
+  }
+}
+
+const providerFactories: Record<string, () => SmsProvider> = {
+  msg91: () => new Msg91SmsProvider(),
+  fake: () => new FakeSmsProvider(),
+};
+
+/**
+ * Register an additional provider selectable via SMS_PROVIDER
+ */
+export const registerSmsProvider = (name: string, factory: () => SmsProvider): void => {
+  providerFactories[name] = factory;
+};
+
+let provider: SmsProvider | null = null;
+
+/**
+ * The configured SMS provider (SMS_PROVIDER, default "msg91")
+ */
+export const getSmsProvider = (): SmsProvider => {
+  if (!provider) {
+    const name = process.env.SMS_PROVIDER || "msg91";
+
+    // The fake provider would let anyone read OTPs from the logs
+    if (name === "fake" && process.env.NODE_ENV === "production") {
+      throw new Error('SMS_PROVIDER "fake" cannot be used in production');
+    }
+
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown SMS_PROVIDER "${name}"`);
+    }
+
+    provider = factory();
+  }
+
+  return provider;
+};
@@ -0,0 +1,154 @@
+/**
+ * SMS Template Registry
+ * Every SMS we send on a user's behalf uses a TRAI DLT-registered template; this
+ * is the one place that lists them, their variables and their per-language
+ * template IDs (sender ID BNDHAN, service-implicit category, no promotional content)
+ * DPDP Act 2023 Compliance - Templates carry a first name and a link only
+ */
+
+import { ERROR_CODES, createError } from "./errors";
+
+export const SMS_LANGUAGES = ["en", "hi"] as const;
+
+export type SmsLanguage = typeof SMS_LANGUAGES[number];
+
+export const SMS_TEMPLATE_KEYS = [
+  "safety",
+  "safety_with_match",
+  "location_update",
+  "sharing_ended",
+  "emergency",
+  "contact_opt_in",
+  "digilocker_revoked",
+  "checkin_reminder",
+] as const;
+
+export type SmsTemplateKey = typeof SMS_TEMPLATE_KEYS[number];
+
+interface SmsTemplateDefinition {
+  variables: readonly string[];
+  // Registered text, kept here for review and for the fake provider's log;
+  // the provider renders its own copy from the template ID
+  text: Record<SmsLanguage, string>;
+}
+
+export const SMS_TEMPLATES: Record<SmsTemplateKey, SmsTemplateDefinition> = {
+  safety: {
+    variables: ["name", "trackingUrl"],
+    text: {
+      en: "{name} is on a date using Bandhan AI and shared their live location with you: {trackingUrl}. For safety only. - BNDHAN",
+      hi: "{name} बंधन एआई पर डेट पर हैं और उन्होंने अपना लाइव स्थान आपके साथ साझा किया है: {trackingUrl}। केवल सुरक्षा के लिए। - BNDHAN",
+    },
+  },
+  safety_with_match: {
+    variables: ["name", "matchName", "trackingUrl"],
+    text: {
+      en: "{name} is on a date with {matchName} using Bandhan AI and shared their live location with you: {trackingUrl}. For safety only. - BNDHAN",
+      hi: "{name} बंधन एआई पर {matchName} के साथ डेट पर हैं और उन्होंने अपना लाइव स्थान आपके साथ साझा किया है: {trackingUrl}। केवल सुरक्षा के लिए। - BNDHAN",
+    },
+  },
+  location_update: {
+    variables: ["name", "trackingUrl", "timeRemaining"],
+    text: {
+      en: "Location update: {name} is still sharing their live location: {trackingUrl}. Auto-stops in {timeRemaining}. - BNDHAN",
+      hi: "स्थान अपडेट: {name} अभी भी अपना लाइव स्थान साझा कर रहे हैं: {trackingUrl}। {timeRemaining} में स्वतः रुक जाएगा। - BNDHAN",
+    },
+  },
+  sharing_ended: {
+    variables: ["name"],
+    text: {
+      en: "{name} has stopped sharing their location. All location data has been deleted. - BNDHAN",
+      hi: "{name} ने अपना स्थान साझा करना बंद कर दिया है। सभी स्थान डेटा हटा दिया गया है। - BNDHAN",
+    },
+  },
+  emergency: {
+    variables: ["name", "trackingUrl"],
+    text: {
+      en: "EMERGENCY: {name} may need help. Live location: {trackingUrl}. Please contact them immediately or call 112. - BNDHAN",
+      hi: "आपातकालीन: {name} को मदद की जरूरत हो सकती है। लाइव स्थान: {trackingUrl}। कृपया तुरंत उनसे संपर्क करें या 112 पर कॉल करें। - BNDHAN",
+    },
+  },
+  contact_opt_in: {
+    variables: ["name", "confirmUrl"],
+    text: {
+      en: "{name} wants to add you as an emergency contact on Bandhan AI to receive safety alerts. Confirm or decline: {confirmUrl} - BNDHAN",
+      hi: "{name} आपको बंधन एआई पर सुरक्षा अलर्ट के लिए आपातकालीन संपर्क बनाना चाहते हैं। पुष्टि करें या मना करें: {confirmUrl} - BNDHAN",
+    },
+  },
+  digilocker_revoked: {
+    variables: ["verifyUrl"],
+    text: {
+      en: "Your DigiLocker access for Bandhan AI was withdrawn, so your ID verification badge has been removed. Reconnect DigiLocker to restore it: {verifyUrl} - BNDHAN",
+      hi: "बंधन एआई के लिए आपकी डिजीलॉकर अनुमति वापस ले ली गई है, इसलिए आपका आईडी सत्यापन बैज हटा दिया गया है। इसे वापस पाने के लिए डिजीलॉकर फिर से जोड़ें: {verifyUrl} - BNDHAN",
+    },
+  },
+  checkin_reminder: {
+    variables: ["minutes"],
+    text: {
+      en: "Your Bandhan AI safety check-in has ended. Confirm you are safe in the app within {minutes} minutes or your emergency contacts will be alerted. - BNDHAN",
+      hi: "आपका बंधन एआई सुरक्षा चेक-इन समाप्त हो गया है। {minutes} मिनट के भीतर ऐप में पुष्टि करें कि आप सुरक्षित हैं, अन्यथा आपके आपातकालीन संपर्कों को सूचित किया जाएगा। - BNDHAN",
+    },
+  },
+};
+
+/**
+ * Env var holding the DLT template ID, e.g. SMS_TEMPLATE_SAFETY_WITH_MATCH_HI
+ */
+const templateIdEnv = (key: SmsTemplateKey, language: SmsLanguage): string =>
+  `SMS_TEMPLATE_${key.toUpperCase()}_${language.toUpperCase()}`;
+
+/**
+ * DLT template ID for a template in a language
+ * The fake provider accepts a placeholder so local runs need no DLT setup
+ */
+export const getSmsTemplateId = (
+  key: SmsTemplateKey,
+  language: SmsLanguage,
+  providerName: string
+): string => {
+  const templateId = process.env[templateIdEnv(key, language)];
+
+  if (templateId) return templateId;
+  if (providerName === "fake") return `${key}_${language}`;
+
+  throw createError(
+    ERROR_CODES.SMS_TEMPLATE_NOT_CONFIGURED,
+    "SMS delivery is not configured. Please try again later.",
+    503,
+    { template: key, language }
+  );
+};
+
+/**
+ * Check that exactly the registered variables are supplied
+ */
+export const validateSmsVariables = (
+  key: SmsTemplateKey,
+  variables: Record<string, string>
+): void => {
+  const expected = SMS_TEMPLATES[key].variables;
+  const missing = expected.filter((name) => !variables[name]);
+  const unexpected = Object.keys(variables).filter((name) => !expected.includes(name));
+
+  if (missing.length > 0 || unexpected.length > 0) {
+    throw createError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `SMS template "${key}" variables do not match its registration.`,
+      400,
+      { missing, unexpected }
+    );
+  }
+};
+
+/**
+ * The registered text with its variables filled in
+ */
+export const renderSmsTemplate = (
+  key: SmsTemplateKey,
+  language: SmsLanguage,
+  variables: Record<string, string>
+): string =>
+  SMS_TEMPLATES[key].text[language].replace(
+    /\{(\w+)\}/g,
+    (placeholder, name: string) => variables[name] ?? placeholder
+  );
@@ -0,0 +1,72 @@
+/**
+ * User Data Coverage
+ * Cross-checks the Prisma schema against the access export and the erasure purge:
+ * a model that holds a user's data but is missing from either would silently be
+ * left out of a data principal request
+ * DPDP Act 2023 Compliance - Rights to access (Section 11) and erasure (Section 12)
+ */
+
+import { Prisma } from "@prisma/client";
+import { EXPORTED_MODELS } from "./data-export";
+import { ERASURE_HANDLING } from "./account-erasure";
+
+// Hold user data without a relation to User (keyed by phone, or by a plain id)
+const UNLINKED_USER_MODELS = ["OtpRequest", "AuditLog"];
+
+const getModels = () => Prisma.dmmf.datamodel.models;
+
+/**
+ * Relations through which a model belongs to its parent (the side holding the foreign key)
+ */
+const getOwningRelations = (modelName: string) =>
+  getModels()
+    .find((model) => model.name === modelName)
+    ?.fields.filter(
+      (field) => field.kind === "object" && (field.relationFromFields?.length ?? 0) > 0
+    ) ?? [];
+
+/**
+ * Every model holding a user's data: User, whatever points at it directly or
+ * through another such model, and the unlinked ones above
+ */
+export const findUserOwnedModels = (): string[] => {
+  const owned = new Set(["User", ...UNLINKED_USER_MODELS]);
+  let added = true;
+
+  while (added) {
+    added = false;
+
+    for (const model of getModels()) {
+      if (owned.has(model.name)) continue;
+
+      if (getOwningRelations(model.name).some((field) => owned.has(field.type))) {
+        owned.add(model.name);
+        added = true;
+      }
+    }
+  }
+
+  return [...owned].sort();
+};
+
+/**
+ * User-owned models the export or the purge does not account for, and models the
+ * purge expects to cascade whose relation to their owner does not
+ */
+export const findUncoveredUserModels = () => {
+  const owned = findUserOwnedModels();
+  const exported = new Set<string>(EXPORTED_MODELS);
+  const erasure: Record<string, string> = ERASURE_HANDLING;
+
+  return {
+    missingFromExport: owned.filter((model) => !exported.has(model)),
+    missingFromErasure: owned.filter((model) => !(model in erasure)),
+    notCascading: owned.filter(
+      (model) =>
+        erasure[model] === "cascade" &&
+        !getOwningRelations(model).some(
+          (field) => owned.includes(field.type) && field.relationOnDelete === "Cascade"
+        )
+    ),
+  };
+};
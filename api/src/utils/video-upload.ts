@@ -0,0 +1,295 @@
+/**
+ * Video Selfie Uploads
+ * Resumable (tus-style) upload of the clip answering a liveness challenge:
+ * create with the total length, PATCH chunks at the current offset, finalize
+ * Chunks are kept in media storage and read back whole when verifying
+ * DPDP Act 2023 Compliance - The raw clip is deleted as soon as liveness has been
+ * checked; abandoned uploads are purged when they expire
+ */
+
+import crypto from "crypto";
+import { PrismaClient, VideoSelfieUpload } from "@prisma/client";
+import { ERROR_CODES, createError } from "./errors";
+import { getStorage } from "./media-storage";
+
+const prisma = new PrismaClient();
+
+// Maximum video size: 10MB
+export const MAX_VIDEO_SIZE = 10 * 1024 * 1024;
+
+// Anything shorter cannot hold a recording of the challenge
+export const MIN_VIDEO_SIZE = 1000;
+
+// Largest chunk one PATCH may carry; clients on poor networks send smaller ones
+export const MAX_CHUNK_SIZE = 2 * 1024 * 1024;
+
+// Time to finish an upload once the challenge has been claimed for it
+export const VIDEO_UPLOAD_TTL_MINUTES = 30;
+
+export const ALLOWED_VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime"] as const;
+
+export type VideoContainerType = typeof ALLOWED_VIDEO_TYPES[number];
+
+// Unique per attempt, so a retry racing the original never overwrites its chunk
+const chunkKey = (uploadId: string, offset: number): string =>
+  `video-selfie/${uploadId}/${offset.toString().padStart(10, "0")}-${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+
+/**
+ * Container type from the file's own header, never from what the client claims
+ * ISO BMFF (MP4/QuickTime) has an "ftyp" box first; WebM is EBML with a "webm" DocType
+ */
+export const detectVideoContainer = (header: Buffer): VideoContainerType | null => {
+  if (header.length >= 12 && header.toString("latin1", 4, 8) === "ftyp") {
+    return header.toString("latin1", 8, 12) === "qt  " ? "video/quicktime" : "video/mp4";
+  }
+
+  const isEbml =
+    header.length >= 4 &&
+    header[0] === 0x1a &&
+    header[1] === 0x45 &&
+    header[2] === 0xdf &&
+    header[3] === 0xa3;
+
+  if (isEbml && header.subarray(0, 64).includes("webm", 0, "latin1")) {
+    return "video/webm";
+  }
+
+  return null;
+};
+
+/**
+ * Start an upload for a claimed challenge
+ */
+export const createVideoUpload = async (
+  userId: string,
+  challengeId: string,
+  size: number
+): Promise<VideoSelfieUpload> => {
+  if (size < MIN_VIDEO_SIZE) {
+    throw createError(
+      ERROR_CODES.INVALID_VIDEO_FORMAT,
+      "Video data is too short or invalid.",
+      400
+    );
+  }
+
+  if (size > MAX_VIDEO_SIZE) {
+    throw createError(
+      ERROR_CODES.VIDEO_TOO_LARGE,
+      `Video too large. Maximum size: ${MAX_VIDEO_SIZE / 1024 / 1024}MB`,
+      400,
+      { maxSize: MAX_VIDEO_SIZE, received: size }
+    );
+  }
+
+  return prisma.videoSelfieUpload.create({
+    data: {
+      userId,
+      challengeId,
+      size,
+      expiresAt: new Date(Date.now() + VIDEO_UPLOAD_TTL_MINUTES * 60 * 1000),
+    },
+  });
+};
+
+/**
+ * The user's upload, if it can still take chunks or be finalized
+ */
+export const findActiveUpload = async (
+  userId: string,
+  uploadId: string
+): Promise<VideoSelfieUpload> => {
+  const upload = await prisma.videoSelfieUpload.findUnique({ where: { id: uploadId } });
+
+  if (
+    !upload ||
+    upload.userId !== userId ||
+    upload.status === "completed" ||
+    upload.expiresAt <= new Date()
+  ) {
+    throw createError(ERROR_CODES.VIDEO_UPLOAD_NOT_FOUND, "Video upload not found or expired.", 404);
+  }
+
+  return upload;
+};
+
+/**
+ * Store a chunk at the upload's current offset
+ * A chunk sent for the wrong offset (a retry of one that did arrive, or a gap)
+ * is refused with the offset to resume from
+ */
+export const appendVideoChunk = async (
+  upload: VideoSelfieUpload,
+  offset: number,
+  chunk: Buffer
+): Promise<VideoSelfieUpload> => {
+  if (upload.status !== "uploading" || offset !== upload.offset) {
+    throw createError(
+      ERROR_CODES.VIDEO_UPLOAD_OFFSET_MISMATCH,
+      "Upload offset does not match. Resume from the returned offset.",
+      409,
+      { offset: upload.offset }
+    );
+  }
+
+  if (chunk.length === 0 || offset + chunk.length > upload.size) {
+    throw createError(
+      ERROR_CODES.VALIDATION_ERROR,
+      "Chunk is empty or runs past the declared upload length.",
+      400,
+      { offset: upload.offset, size: upload.size }
+    );
+  }
+
+  // Fail fast on a file that is not a video rather than after the whole upload
+  if (offset === 0 && chunk.length >= 64 && !detectVideoContainer(chunk)) {
+    throw createError(
+      ERROR_CODES.INVALID_VIDEO_FORMAT,
+      `Invalid video format. Allowed: ${ALLOWED_VIDEO_TYPES.join(", ")}`,
+      400,
+      { allowedTypes: ALLOWED_VIDEO_TYPES }
+    );
+  }
+
+  const key = chunkKey(upload.id, offset);
+  await getStorage().put(key, chunk, "application/octet-stream");
+
+  // Guarded update: of two requests racing for the same offset only one lands
+  const { count } = await prisma.videoSelfieUpload.updateMany({
+    where: { id: upload.id, status: "uploading", offset },
+    data: { offset: offset + chunk.length, chunkKeys: { push: key } },
+  });
+
+  if (count === 0) {
+    await getStorage().delete(key);
+    const current = await prisma.videoSelfieUpload.findUniqueOrThrow({ where: { id: upload.id } });
+
+    throw createError(
+      ERROR_CODES.VIDEO_UPLOAD_OFFSET_MISMATCH,
+      "Upload offset does not match. Resume from the returned offset.",
+      409,
+      { offset: current.offset }
+    );
+  }
+
+  return prisma.videoSelfieUpload.findUniqueOrThrow({ where: { id: upload.id } });
+};
+
+/**
+ * Claim a fully uploaded clip for verification; each upload is verified once
+ */
+export const claimCompletedUpload = async (
+  userId: string,
+  uploadId: string
+): Promise<VideoSelfieUpload> => {
+  const upload = await findActiveUpload(userId, uploadId);
+
+  if (upload.offset !== upload.size) {
+    throw createError(
+      ERROR_CODES.VIDEO_UPLOAD_INCOMPLETE,
+      "The video has not finished uploading.",
+      409,
+      { offset: upload.offset, size: upload.size }
+    );
+  }
+
+  const { count } = await prisma.videoSelfieUpload.updateMany({
+    where: { id: upload.id, status: "uploading" },
+    data: { status: "verifying" },
+  });
+
+  if (count === 0) {
+    throw createError(
+      ERROR_CODES.VIDEO_UPLOAD_INCOMPLETE,
+      "This video is already being verified.",
+      409
+    );
+  }
+
+  return upload;
+};
+
+/**
+ * Hand a claimed upload back, e.g. when the liveness provider was unavailable
+ */
+export const releaseUpload = async (uploadId: string): Promise<void> => {
+  await prisma.videoSelfieUpload.updateMany({
+    where: { id: uploadId, status: "verifying" },
+    data: { status: "uploading" },
+  });
+};
+
+/**
+ * Reassemble the clip from its chunks
+ */
+export const readVideoUpload = async (upload: VideoSelfieUpload): Promise<Buffer> => {
+  const storage = getStorage();
+  const chunks: Buffer[] = [];
+
+  for (const key of upload.chunkKeys) {
+    const stored = await storage.get(key);
+
+    if (!stored) {
+      throw createError(
+        ERROR_CODES.VIDEO_UPLOAD_INCOMPLETE,
+        "Part of the video is missing. Please upload it again.",
+        409
+      );
+    }
+
+    chunks.push(stored.body);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Delete the raw clip and close the upload
+ */
+export const discardVideoUpload = async (upload: VideoSelfieUpload): Promise<void> => {
+  const storage = getStorage();
+  await Promise.all(upload.chunkKeys.map((key) => storage.delete(key)));
+
+  await prisma.videoSelfieUpload.update({
+    where: { id: upload.id },
+    data: { status: "completed", chunkKeys: [], completedAt: new Date() },
+  });
+};
+
+/**
+ * Storage keys of chunks still held for a user (account erasure)
+ */
+export const collectVideoUploadKeys = async (userId: string): Promise<string[]> => {
+  const uploads = await prisma.videoSelfieUpload.findMany({
+    where: { userId },
+    select: { chunkKeys: true },
+  });
+
+  return uploads.flatMap((upload) => upload.chunkKeys);
+};
+
+/**
+ * Delete the chunks of uploads that were abandoned or outlived their window
+ */
+export const purgeExpiredVideoUploads = async (): Promise<{ purgedCount: number }> => {
+  const expired = await prisma.videoSelfieUpload.findMany({
+    where: { status: { not: "completed" }, expiresAt: { lt: new Date() } },
+  });
+
+  for (const upload of expired) {
+    await discardVideoUpload(upload);
+  }
+
+  return { purgedCount: expired.length };
+};
+
+export const serializeVideoUpload = (upload: VideoSelfieUpload) => ({
+  id: upload.id,
+  challengeId: upload.challengeId,
+  size: upload.size,
+  offset: upload.offset,
+  maxChunkSize: MAX_CHUNK_SIZE,
+  expiresAt: upload.expiresAt.toISOString(),
+});
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Loader2, ShieldCheck, RefreshCw, Lock, Building2 } from 'lucide-react';
 import { verifyOTP } from '@/lib/auth';
+import { authService } from '@/lib/api';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -131,8 +132,9 @@ export default function OTPVerifyPage() {
 
       const result = await verifyOTP(confirmationResult, otpCode);
 
-      // Get ID token
+      // Exchange the Firebase ID token for API tokens
       const idToken = await result.user.getIdToken();
+      const session = await authService.verifyFirebaseToken(phoneNumber, idToken);
 
       // Store auth data
       const userData = {
@@ -141,7 +143,8 @@ export default function OTPVerifyPage() {
         isPremium: false,
       };
 
-      localStorage.setItem('auth_token', idToken);
+      localStorage.setItem('auth_token', session.tokens.accessToken);
+      localStorage.setItem('refresh_token', session.tokens.refreshToken);
       localStorage.setItem('user', JSON.stringify(userData));
       localStorage.removeItem('pending_phone');
 
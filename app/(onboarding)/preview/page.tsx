@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { profileService, Profile } from '@/lib/api';
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
@@ -53,6 +54,49 @@ interface OnboardingData {
   };
 }
 
+// Onboarding option ids → Profile contract values
+const intentToProfile: Record<string, Profile['intent']> = {
+  'marriage-soon': 'marriage-soon',
+  'serious-relationship': 'serious-relationship',
+  'friendship-networking': 'friendship',
+  'healing-space': 'healing',
+};
+
+const dietToProfile: Record<string, Profile['diet']> = {
+  'strict-vegetarian': 'vegetarian',
+  eggetarian: 'eggetarian',
+  'non-veg': 'non-vegetarian',
+  jain: 'jain',
+  'halal-conscious': 'halal',
+};
+
+function toProfileUpdate(data: OnboardingData): Partial<Profile> {
+  const update: Partial<Profile> = {};
+  const life = data.lifeArchitecture;
+
+  if (data.intent && intentToProfile[data.intent]) {
+    update.intent = intentToProfile[data.intent];
+  }
+
+  if (life) {
+    update.city = life.city;
+    update.education = life.education;
+    update.occupation = life.careerField;
+    update.familyType = life.familyStructure === 'joint-family' ? 'joint' : 'nuclear';
+
+    const diet = dietToProfile[life.dietaryPreferences[0]];
+    if (diet) {
+      update.diet = diet;
+    }
+  }
+
+  if (data.values) {
+    update.values = data.values;
+  }
+
+  return update;
+}
+
 interface Translation {
   publishProfile: string;
   publishing: string;
@@ -228,7 +272,9 @@ export default function ProfilePreviewPage() {
     setIsPublishing(true);
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      if (onboardingData) {
+        await profileService.updateProfile(toProfileUpdate(onboardingData));
+      }
 
       // Mark profile as published
       localStorage.setItem('profile_published', 'true');
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeft,
@@ -22,10 +22,30 @@ import {
   Eye,
   EyeOff,
   Heart,
+  Ban,
+  Flag,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { formatDistanceToNowStrict } from 'date-fns';
+import {
+  chatService,
+  Conversation,
+  Message as ApiMessage,
+  ReportCategory,
+} from '@/lib/api';
+import { VoiceNoteRecorder } from '@/components/VoiceNoteRecorder';
+import {
+  CaptureDetectedEvent,
+  emitWithAck,
+  getChatSocket,
+  MessageDeletedEvent,
+  MessageStatusEvent,
+  PhotosBlurredEvent,
+  TypingEvent,
+} from '@/lib/chat-socket';
+import { startScreenCaptureDetection } from '@/lib/screen-capture';
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
@@ -36,13 +56,14 @@ function cn(...classes: (string | undefined | null | false)[]) {
 // ─────────────────────────────────────────────────────────────────────────────
 interface Message {
   id: string;
-  type: 'text' | 'photo' | 'voice';
+  type: 'text' | 'photo' | 'voice' | 'interest';
   content: string;
   isFromMe: boolean;
   timestamp: string;
   status?: 'sent' | 'delivered' | 'read';
   duration?: number; // for voice notes (seconds)
   isBlurred?: boolean; // for photos (consent-based)
+  isLocked?: boolean; // blurred by the server after repeated screen captures
 }
 
 interface ChatProfile {
@@ -55,77 +76,55 @@ interface ChatProfile {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Mock Data
+// Helpers
 // ─────────────────────────────────────────────────────────────────────────────
-const mockProfile: ChatProfile = {
-  id: 'p1',
-  name: 'Priya Sharma',
-  avatarUrl: '/avatars/priya.jpg',
-  verificationLevel: 'gold',
-  isOnline: true,
-  lastActive: 'Online',
-};
-
-const mockMessages: Message[] = [
-  {
-    id: '1',
-    type: 'text',
-    content: 'Hi! Thanks for connecting. I saw you like traveling too!',
-    isFromMe: false,
-    timestamp: '10:30 AM',
-    status: 'read',
-  },
-  {
-    id: '2',
-    type: 'text',
-    content: 'Yes! I just came back from a trip to Rajasthan. The culture there is amazing.',
-    isFromMe: true,
-    timestamp: '10:32 AM',
-    status: 'read',
-  },
-  {
-    id: '3',
-    type: 'text',
-    content: 'Oh wow! I\'ve always wanted to visit Jaipur. How was your experience?',
-    isFromMe: false,
-    timestamp: '10:35 AM',
-    status: 'read',
-  },
-  {
-    id: '4',
-    type: 'photo',
-    content: '/photos/jaipur.jpg',
-    isFromMe: true,
-    timestamp: '10:36 AM',
-    status: 'read',
-    isBlurred: true,
-  },
-  {
-    id: '5',
-    type: 'voice',
-    content: 'voice_note_1.webm',
-    isFromMe: false,
-    timestamp: '10:38 AM',
-    status: 'read',
-    duration: 12,
-  },
-  {
-    id: '6',
-    type: 'text',
-    content: 'That voice note was so sweet! Your voice is very calming.',
-    isFromMe: true,
-    timestamp: '10:40 AM',
-    status: 'delivered',
-  },
-  {
-    id: '7',
-    type: 'text',
-    content: 'Thank you! 🙏 Would you like to share more about yourself?',
-    isFromMe: false,
-    timestamp: '10:42 AM',
-    status: 'read',
-  },
-];
+const HISTORY_PAGE_SIZE = 30;
+const TYPING_IDLE_MS = 2000;
+
+function formatMessageTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function toChatMessage(message: ApiMessage): Message {
+  return {
+    id: message.id,
+    type: message.type,
+    content: message.content,
+    isFromMe: message.isFromMe,
+    timestamp: formatMessageTime(message.timestamp),
+    status: message.status,
+    duration: message.duration,
+    // Incoming photos stay blurred until the viewer opts in
+    isBlurred: message.type === 'photo' && !message.isFromMe,
+    isLocked: message.isBlurred,
+  };
+}
+
+function toChatProfile(conversation: Conversation): ChatProfile {
+  const { participant } = conversation;
+
+  return {
+    id: participant.id,
+    name: participant.name,
+    avatarUrl:
+      participant.photos.find((photo) => photo.isPrimary)?.thumbnailUrl ??
+      participant.photos[0]?.thumbnailUrl ??
+      '',
+    verificationLevel: participant.verificationLevel,
+    isOnline: false,
+    lastActive: '',
+  };
+}
+
+// Add or replace by id so socket echoes and acks never duplicate a message
+function upsertMessage(messages: Message[], message: Message): Message[] {
+  return messages.some((m) => m.id === message.id)
+    ? messages.map((m) => (m.id === message.id ? message : m))
+    : [...messages, message];
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Components
@@ -173,6 +172,29 @@ function MessageStatus({ status }: { status?: 'sent' | 'delivered' | 'read' }) {
   return <Icon className={cn('w-3.5 h-3.5', config[status].color)} />;
 }
 
+function TypingIndicator({ name }: { name: string }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className="flex justify-start mb-3"
+    >
+      <div className="px-4 py-3 rounded-2xl rounded-bl-sm bg-white/10 border border-white/10 flex items-center space-x-1">
+        {[0, 1, 2].map((i) => (
+          <motion.span
+            key={i}
+            className="w-1.5 h-1.5 rounded-full bg-white/60"
+            animate={{ y: [0, -4, 0] }}
+            transition={{ duration: 0.6, repeat: Infinity, delay: i * 0.15 }}
+          />
+        ))}
+        <span className="sr-only">{name} is typing</span>
+      </div>
+    </motion.div>
+  );
+}
+
 function WaveformVisualizer({ isPlaying }: { isPlaying: boolean }) {
   const bars = 20;
 
@@ -208,22 +230,21 @@ function VoiceNoteMessage({
   isFromMe: boolean;
 }) {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
 
-  useEffect(() => {
     if (isPlaying) {
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 100) {
-            setIsPlaying(false);
-            return 0;
-          }
-          return prev + 2;
-        });
-      }, 100);
-      return () => clearInterval(interval);
+      audio.pause();
+    } else {
+      audio.play().catch((error) => {
+        console.error('Error playing voice note:', error);
+        setIsPlaying(false);
+      });
     }
-  }, [isPlaying]);
+  };
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -233,8 +254,16 @@ function VoiceNoteMessage({
 
   return (
     <div className="flex items-center space-x-3 min-w-[200px]">
+      <audio
+        ref={audioRef}
+        src={message.content}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
       <button
-        onClick={() => setIsPlaying(!isPlaying)}
+        onClick={togglePlayback}
         className={cn(
           'w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0',
           isFromMe
@@ -264,14 +293,31 @@ function VoiceNoteMessage({
 function PhotoMessage({
   message,
   isFromMe,
+  onRevealChange,
 }: {
   message: Message;
   isFromMe: boolean;
+  onRevealChange?: (messageId: string, isRevealed: boolean) => void;
 }) {
   const [isRevealed, setIsRevealed] = useState(false);
   const [showConsent, setShowConsent] = useState(false);
 
+  // The capture detector only trusts visibility blips while a photo is open
+  useEffect(() => {
+    if (!isRevealed) return;
+
+    onRevealChange?.(message.id, true);
+    return () => onRevealChange?.(message.id, false);
+  }, [isRevealed, message.id, onRevealChange]);
+
+  // A photo blurred by the server cannot be revealed
+  useEffect(() => {
+    if (message.isLocked) setIsRevealed(false);
+  }, [message.isLocked]);
+
   const handleReveal = () => {
+    if (message.isLocked) return;
+
     if (message.isBlurred && !isRevealed) {
       setShowConsent(true);
     } else {
@@ -294,15 +340,19 @@ function PhotoMessage({
           message.isBlurred && !isRevealed ? 'blur-xl' : ''
         )}
       >
-        <div className="w-full h-full bg-gradient-to-br from-violet-500/20 to-saffron-500/20 flex items-center justify-center">
-          <Image className="w-8 h-8 text-midnight-400" />
-        </div>
+        {message.content ? (
+          <img src={message.content} alt="Shared photo" className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full bg-gradient-to-br from-violet-500/20 to-saffron-500/20 flex items-center justify-center">
+            <Image className="w-8 h-8 text-midnight-400" />
+          </div>
+        )}
 
         {message.isBlurred && !isRevealed && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/40 backdrop-blur-sm">
             <EyeOff className="w-6 h-6 text-white mb-2" />
             <p className="text-xs text-white text-center px-2">
-              Tap to reveal photo
+              {message.isLocked ? 'Hidden after repeated screenshots' : 'Tap to reveal photo'}
             </p>
           </div>
         )}
@@ -362,7 +412,13 @@ function PhotoMessage({
   );
 }
 
-function MessageBubble({ message }: { message: Message }) {
+function MessageBubble({
+  message,
+  onPhotoRevealChange,
+}: {
+  message: Message;
+  onPhotoRevealChange?: (messageId: string, isRevealed: boolean) => void;
+}) {
   const isFromMe = message.isFromMe;
 
   return (
@@ -388,8 +444,19 @@ function MessageBubble({ message }: { message: Message }) {
           <p className="text-sm text-white leading-relaxed">{message.content}</p>
         )}
 
+        {message.type === 'interest' && (
+          <p className="text-sm text-white leading-relaxed flex items-center space-x-1.5">
+            <Heart className="w-4 h-4" />
+            <span>{message.content}</span>
+          </p>
+        )}
+
         {message.type === 'photo' && (
-          <PhotoMessage message={message} isFromMe={isFromMe} />
+          <PhotoMessage
+            message={message}
+            isFromMe={isFromMe}
+            onRevealChange={onPhotoRevealChange}
+          />
         )}
 
         {message.type === 'voice' && (
@@ -441,18 +508,140 @@ function SafetyBanner() {
   );
 }
 
+const REPORT_CATEGORIES: { value: ReportCategory; label: string }[] = [
+  { value: 'harassment', label: 'Harassment or threats' },
+  { value: 'fake_profile', label: 'Fake profile' },
+  { value: 'inappropriate_content', label: 'Inappropriate photos or messages' },
+  { value: 'scam', label: 'Asking for money / scam' },
+  { value: 'underage', label: 'May be under 18' },
+  { value: 'other', label: 'Something else' },
+];
+
+function ReportModal({
+  name,
+  isOpen,
+  onClose,
+  onSubmit,
+}: {
+  name?: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (category: ReportCategory, reason: string) => Promise<void>;
+}) {
+  const [category, setCategory] = useState<ReportCategory>('harassment');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(category, reason.trim());
+      setReason('');
+    } catch (err: any) {
+      setError(err?.message || 'Could not send the report. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/80 backdrop-blur-md z-40"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          >
+            <div className="glass-md rounded-2xl p-6 max-w-sm w-full border border-white/10">
+              <div className="flex items-center space-x-3 mb-2">
+                <Flag className="w-6 h-6 text-rose-400" />
+                <h3 className="text-lg font-semibold text-white">Report {name}</h3>
+              </div>
+              <p className="text-xs text-midnight-400 mb-4">
+                Their recent messages are shared with our safety team. {name} will not be told who reported them.
+              </p>
+              <div className="space-y-2 mb-4">
+                {REPORT_CATEGORIES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setCategory(option.value)}
+                    className={cn(
+                      'w-full text-left px-3 py-2 rounded-xl border text-sm transition-colors',
+                      category === option.value
+                        ? 'border-rose-500/50 bg-rose-500/10 text-white'
+                        : 'border-white/10 text-midnight-300 hover:bg-white/5'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={1000}
+                rows={3}
+                placeholder="Tell us what happened (optional)"
+                className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-sm text-white placeholder:text-midnight-500 focus:outline-none focus:border-rose-500/50 mb-4"
+              />
+              {error && <p className="text-xs text-rose-400 mb-3">{error}</p>}
+              <div className="flex space-x-3">
+                <button
+                  onClick={onClose}
+                  className="flex-1 py-2.5 rounded-xl glass-sm border border-white/10 text-midnight-200 hover:bg-white/5"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                  className="flex-1 py-2.5 rounded-xl bg-rose-500 text-white font-semibold hover:bg-rose-600 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Sending...' : 'Report'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Page
 // ─────────────────────────────────────────────────────────────────────────────
 export default function ChatDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter();
-  const [messages, setMessages] = useState<Message[]>(mockMessages);
+  const conversationId = params.id;
+  const [profile, setProfile] = useState<ChatProfile | null>(null);
+  const [matchedAt, setMatchedAt] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isOtherTyping, setIsOtherTyping] = useState(false);
   const [inputText, setInputText] = useState('');
-  const [isRecording, setIsRecording] = useState(false);
+  const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const [showAttachment, setShowAttachment] = useState(false);
   const [showSafetyTip, setShowSafetyTip] = useState(true);
+  const [showMenu, setShowMenu] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [captureAlert, setCaptureAlert] = useState<CaptureDetectedEvent | null>(null);
+  const revealedPhotosRef = useRef<Set<string>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -460,39 +649,210 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, isOtherTyping]);
+
+  // Load the conversation and its latest history
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      chatService.getConversation(conversationId),
+      chatService.getMessages(conversationId, HISTORY_PAGE_SIZE),
+    ])
+      .then(([conversationResponse, messagesResponse]) => {
+        if (cancelled) return;
+
+        setProfile(toChatProfile(conversationResponse.data));
+        setMatchedAt(conversationResponse.data.matchedAt);
+        setMessages(messagesResponse.data.map(toChatMessage));
+      })
+      .catch((error) => {
+        console.error('Error loading conversation:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  // Live delivery, receipts and typing over the chat socket
+  useEffect(() => {
+    const socket = getChatSocket();
+
+    const markRead = () =>
+      emitWithAck('conversation:read', { conversationId }).catch((error) => {
+        console.error('Error marking conversation read:', error);
+      });
+
+    const join = () =>
+      emitWithAck('conversation:join', { conversationId })
+        .then(markRead)
+        .catch((error) => {
+          console.error('Error joining conversation:', error);
+        });
+
+    const handleNewMessage = (message: ApiMessage) => {
+      if (message.conversationId !== conversationId) return;
+
+      setMessages((prev) => upsertMessage(prev, toChatMessage(message)));
+
+      if (!message.isFromMe) {
+        setIsOtherTyping(false);
+        // We are looking at the conversation, so it is read as soon as it arrives
+        markRead();
+      }
+    };
+
+    const handleStatus = (event: MessageStatusEvent) => {
+      if (event.conversationId !== conversationId) return;
+
+      const ids = new Set(event.messageIds);
+      setMessages((prev) =>
+        prev.map((m) => (ids.has(m.id) ? { ...m, status: event.status } : m))
+      );
+    };
+
+    const handleDeleted = (event: MessageDeletedEvent) => {
+      if (event.conversationId !== conversationId) return;
+      setMessages((prev) => prev.filter((m) => m.id !== event.messageId));
+    };
+
+    const handleTyping = (event: TypingEvent) => {
+      if (event.conversationId !== conversationId) return;
+      setIsOtherTyping(event.isTyping);
+    };
+
+    const handleCaptureDetected = (event: CaptureDetectedEvent) => {
+      if (event.conversationId !== conversationId) return;
+      setCaptureAlert(event);
+    };
+
+    // Our own captures blurred their photos: drop the originals on screen,
+    // then pick up the blurred variants
+    const handlePhotosBlurred = (event: PhotosBlurredEvent) => {
+      if (event.conversationId !== conversationId) return;
+
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.type === 'photo' && !m.isFromMe ? { ...m, content: '', isLocked: true } : m
+        )
+      );
+
+      chatService
+        .getMessages(conversationId, HISTORY_PAGE_SIZE)
+        .then((response) =>
+          setMessages((prev) =>
+            response.data.reduce((acc, message) => upsertMessage(acc, toChatMessage(message)), prev)
+          )
+        )
+        .catch((error) => {
+          console.error('Error reloading blurred photos:', error);
+        });
+    };
+
+    socket.on('connect', join);
+    socket.on('message:new', handleNewMessage);
+    socket.on('message:status', handleStatus);
+    socket.on('message:deleted', handleDeleted);
+    socket.on('typing', handleTyping);
+    socket.on('capture:detected', handleCaptureDetected);
+    socket.on('capture:photos_blurred', handlePhotosBlurred);
+
+    if (socket.connected) join();
+
+    return () => {
+      socket.off('connect', join);
+      socket.off('message:new', handleNewMessage);
+      socket.off('message:status', handleStatus);
+      socket.off('message:deleted', handleDeleted);
+      socket.off('typing', handleTyping);
+      socket.off('capture:detected', handleCaptureDetected);
+      socket.off('capture:photos_blurred', handlePhotosBlurred);
+      emitWithAck('conversation:leave', { conversationId }).catch(() => undefined);
+    };
+  }, [conversationId]);
+
+  // Report screenshots and recordings taken on this device to the other side
+  useEffect(
+    () =>
+      startScreenCaptureDetection(
+        ({ kind, source }) => {
+          emitWithAck('capture:report', { conversationId, kind, source }).catch((error) => {
+            console.error('Error reporting screen capture:', error);
+          });
+        },
+        { isSensitiveContentVisible: () => revealedPhotosRef.current.size > 0 }
+      ),
+    [conversationId]
+  );
+
+  const handlePhotoRevealChange = useCallback((messageId: string, isRevealed: boolean) => {
+    if (isRevealed) {
+      revealedPhotosRef.current.add(messageId);
+    } else {
+      revealedPhotosRef.current.delete(messageId);
+    }
+  }, []);
+
+  const stopTyping = () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+      emitWithAck('typing:stop', { conversationId }).catch(() => undefined);
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setInputText(value);
+
+    if (!typingTimeoutRef.current) {
+      emitWithAck('typing:start', { conversationId }).catch(() => undefined);
+    } else {
+      clearTimeout(typingTimeoutRef.current);
+    }
+
+    typingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
 
   const handleSend = () => {
-    if (!inputText.trim()) return;
+    const content = inputText.trim();
+    if (!content) return;
 
-    const newMessage: Message = {
-      id: Date.now().toString(),
+    const tempId = `temp-${Date.now()}`;
+    const pendingMessage: Message = {
+      id: tempId,
       type: 'text',
-      content: inputText,
+      content,
       isFromMe: true,
-      timestamp: new Date().toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-      }),
-      status: 'sent',
+      timestamp: formatMessageTime(new Date().toISOString()),
     };
 
-    setMessages((prev) => [...prev, newMessage]);
+    setMessages((prev) => [...prev, pendingMessage]);
     setInputText('');
+    stopTyping();
 
-    // Simulate delivery status update
-    setTimeout(() => {
+    const replacePending = (message: ApiMessage) => {
       setMessages((prev) =>
-        prev.map((m) => (m.id === newMessage.id ? { ...m, status: 'delivered' } : m))
+        upsertMessage(
+          prev.filter((m) => m.id !== tempId),
+          toChatMessage(message)
+        )
       );
-    }, 1000);
+    };
 
-    // Simulate read status
-    setTimeout(() => {
-      setMessages((prev) =>
-        prev.map((m) => (m.id === newMessage.id ? { ...m, status: 'read' } : m))
-      );
-    }, 2000);
+    // Prefer the socket; fall back to REST when it is not connected
+    emitWithAck<ApiMessage>('message:send', { conversationId, type: 'text', content })
+      .then((message) => message && replacePending(message))
+      .catch(() =>
+        chatService
+          .sendMessage(conversationId, content)
+          .then((response) => replacePending(response.data))
+      )
+      .catch((error) => {
+        console.error('Error sending message:', error);
+        setMessages((prev) => prev.filter((m) => m.id !== tempId));
+        setInputText(content);
+      });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -506,42 +866,56 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
     setShowAttachment(false);
 
     if (type === 'photo') {
-      // Simulate photo upload
-      const newMessage: Message = {
-        id: Date.now().toString(),
-        type: 'photo',
-        content: '/photos/uploaded.jpg',
-        isFromMe: true,
-        timestamp: new Date().toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        }),
-        status: 'sent',
-        isBlurred: true,
-      };
-      setMessages((prev) => [...prev, newMessage]);
-    } else if (type === 'voice') {
-      setIsRecording(true);
-      // Simulate voice note recording
-      setTimeout(() => {
-        setIsRecording(false);
-        const newMessage: Message = {
-          id: Date.now().toString(),
-          type: 'voice',
-          content: 'voice_note_new.webm',
-          isFromMe: true,
-          timestamp: new Date().toLocaleTimeString('en-US', {
-            hour: 'numeric',
-            minute: '2-digit',
-          }),
-          status: 'sent',
-          duration: 8,
-        };
-        setMessages((prev) => [...prev, newMessage]);
-      }, 2000);
+      photoInputRef.current?.click();
+    } else {
+      setShowVoiceRecorder(true);
+    }
+  };
+
+  // Media is uploaded over REST; the server broadcasts it to the other participant
+  const uploadMedia = (upload: () => Promise<{ data: ApiMessage }>) => {
+    setIsUploading(true);
+
+    upload()
+      .then((response) => {
+        setMessages((prev) => upsertMessage(prev, toChatMessage(response.data)));
+      })
+      .catch((error) => {
+        console.error('Error sending attachment:', error);
+      })
+      .finally(() => setIsUploading(false));
+  };
+
+  const handlePhotoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    uploadMedia(() => chatService.sendPhoto(conversationId, file));
+  };
+
+  const handleVoiceNote = (audioBlob: Blob, duration: number) => {
+    uploadMedia(() => chatService.sendVoiceNote(conversationId, audioBlob, duration));
+  };
+
+  const handleBlock = async () => {
+    setShowMenu(false);
+    if (!window.confirm(`Block ${profile?.name ?? 'this person'}? You won't see each other anywhere on the app.`)) {
+      return;
+    }
+    try {
+      await chatService.blockUser(conversationId);
+      router.push('/chat');
+    } catch (error) {
+      console.error('Failed to block user:', error);
     }
   };
 
+  const handleReport = async (category: ReportCategory, reason: string) => {
+    await chatService.reportConversation(conversationId, reason, category);
+    setShowReport(false);
+  };
+
   const handleShareMyDate = () => {
     // Open safety date sharing modal
     console.log('Share My Date clicked');
@@ -575,22 +949,22 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
             <div className="relative">
               <div className="w-10 h-10 rounded-full bg-gradient-to-br from-violet-500/20 to-saffron-500/20 border border-white/10 flex items-center justify-center">
                 <span className="text-sm font-bold text-violet-400">
-                  {mockProfile.name.charAt(0)}
+                  {profile?.name.charAt(0)}
                 </span>
               </div>
-              {mockProfile.isOnline && (
+              {profile?.isOnline && (
                 <div className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-emerald-500 border-2 border-midnight-900" />
               )}
             </div>
             <div className="flex-1 min-w-0">
               <div className="flex items-center space-x-2">
                 <h2 className="font-semibold text-white truncate">
-                  {mockProfile.name}
+                  {profile?.name}
                 </h2>
-                <VerificationBadge level={mockProfile.verificationLevel} />
+                {profile && <VerificationBadge level={profile.verificationLevel} />}
               </div>
-              <p className={cn('text-xs', mockProfile.isOnline ? 'text-emerald-400' : 'text-midnight-500')}>
-                {mockProfile.lastActive}
+              <p className={cn('text-xs', isOtherTyping || profile?.isOnline ? 'text-emerald-400' : 'text-midnight-500')}>
+                {isOtherTyping ? 'typing...' : profile?.lastActive}
               </p>
             </div>
           </div>
@@ -603,9 +977,35 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
             <button className="p-2.5 rounded-xl hover:bg-white/10 transition-colors">
               <Video className="w-5 h-5 text-midnight-300" />
             </button>
-            <button className="p-2.5 rounded-xl hover:bg-white/10 transition-colors">
-              <MoreVertical className="w-5 h-5 text-midnight-300" />
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowMenu(!showMenu)}
+                className="p-2.5 rounded-xl hover:bg-white/10 transition-colors"
+              >
+                <MoreVertical className="w-5 h-5 text-midnight-300" />
+              </button>
+              {showMenu && (
+                <div className="absolute right-0 top-full mt-1 w-44 glass-md rounded-xl border border-white/10 py-1 z-30">
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      setShowReport(true);
+                    }}
+                    className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-midnight-200 hover:bg-white/10"
+                  >
+                    <Flag className="w-4 h-4" />
+                    <span>Report</span>
+                  </button>
+                  <button
+                    onClick={handleBlock}
+                    className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-rose-400 hover:bg-white/10"
+                  >
+                    <Ban className="w-4 h-4" />
+                    <span>Block</span>
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </motion.header>
@@ -618,55 +1018,42 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
       {/* Messages Container */}
       <main className="flex-1 overflow-y-auto px-4 py-4 space-y-1">
         {/* Match Date Banner */}
-        <div className="flex items-center justify-center my-4">
-          <div className="px-4 py-2 rounded-full glass-sm border border-white/10 flex items-center space-x-2">
-            <Heart className="w-3.5 h-3.5 text-saffron-400" />
-            <span className="text-xs text-midnight-300">
-              You matched with {mockProfile.name} 3 days ago
-            </span>
+        {profile && matchedAt && (
+          <div className="flex items-center justify-center my-4">
+            <div className="px-4 py-2 rounded-full glass-sm border border-white/10 flex items-center space-x-2">
+              <Heart className="w-3.5 h-3.5 text-saffron-400" />
+              <span className="text-xs text-midnight-300">
+                You matched with {profile.name}{' '}
+                {formatDistanceToNowStrict(new Date(matchedAt), { addSuffix: true })}
+              </span>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Messages */}
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble
+            key={message.id}
+            message={message}
+            onPhotoRevealChange={handlePhotoRevealChange}
+          />
         ))}
 
-        {/* Typing Indicator (if needed) */}
-        {/* <TypingIndicator /> */}
+        {/* Typing Indicator */}
+        <AnimatePresence>
+          {isOtherTyping && profile && <TypingIndicator name={profile.name} />}
+        </AnimatePresence>
 
         <div ref={messagesEndRef} />
       </main>
 
-      {/* Recording Overlay */}
-      <AnimatePresence>
-        {isRecording && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-30 bg-black/80 backdrop-blur-md flex items-center justify-center"
-          >
-            <div className="text-center">
-              <motion.div
-                animate={{ scale: [1, 1.2, 1] }}
-                transition={{ duration: 1, repeat: Infinity }}
-                className="w-20 h-20 rounded-full bg-gradient-to-r from-rose-500 to-rose-600 flex items-center justify-center mb-4"
-              >
-                <Mic className="w-8 h-8 text-white" />
-              </motion.div>
-              <p className="text-white font-medium">Recording voice note...</p>
-              <p className="text-midnight-400 text-sm mt-1">Tap to stop</p>
-              <button
-                onClick={() => setIsRecording(false)}
-                className="mt-6 px-6 py-2 rounded-full glass-sm border border-white/20 text-white hover:bg-white/10"
-              >
-                Cancel
-              </button>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      {/* Voice Note Recorder */}
+      <VoiceNoteRecorder
+        isOpen={showVoiceRecorder}
+        onClose={() => setShowVoiceRecorder(false)}
+        onSend={handleVoiceNote}
+        recipientName={profile?.name}
+      />
 
       {/* Input Area */}
       <motion.footer
@@ -704,13 +1091,22 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
             )}
           </AnimatePresence>
 
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            className="hidden"
+            onChange={handlePhotoSelected}
+          />
+
           {/* Input Row */}
           <div className="flex items-end space-x-2">
             {/* Attachment Button */}
             <button
               onClick={() => setShowAttachment(!showAttachment)}
+              disabled={isUploading}
               className={cn(
-                'p-3 rounded-xl transition-colors',
+                'p-3 rounded-xl transition-colors disabled:opacity-50',
                 showAttachment
                   ? 'bg-violet-500/20 border border-violet-500/30'
                   : 'glass-sm border border-white/10 hover:border-white/20'
@@ -725,7 +1121,7 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
                 ref={inputRef}
                 type="text"
                 value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
                 onKeyPress={handleKeyPress}
                 placeholder="Type a message..."
                 className="w-full px-4 py-3 pr-12 rounded-xl bg-white/5 border border-white/10 text-midnight-100 placeholder:text-midnight-500 focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition-all"
@@ -756,6 +1152,13 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
         </div>
       </motion.footer>
 
+      <ReportModal
+        name={profile?.name}
+        isOpen={showReport}
+        onClose={() => setShowReport(false)}
+        onSubmit={handleReport}
+      />
+
       {/* Safety FAB: Share My Date */}
       <motion.button
         initial={{ opacity: 0, scale: 0.8 }}
@@ -769,9 +1172,9 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
         <span className="text-xs font-semibold text-white">Share My Date</span>
       </motion.button>
 
-      {/* Screenshot Detection Alert (Demo) */}
+      {/* Screen Capture Alert */}
       <AnimatePresence>
-        {false && ( // Enable when screenshot detection is implemented
+        {captureAlert && (
           <motion.div
             initial={{ opacity: 0, y: 50 }}
             animate={{ opacity: 1, y: 0 }}
@@ -780,9 +1183,12 @@ export default function ChatDetailPage({ params }: { params: { id: string } }) {
           >
             <AlertTriangle className="w-5 h-5 text-white flex-shrink-0" />
             <p className="text-sm text-white flex-1">
-              {mockProfile.name} may have taken a screenshot of a photo you sent.
+              {captureAlert.kind === 'screen_recording'
+                ? `${profile?.name ?? 'Your match'} may be recording this chat.`
+                : `${profile?.name ?? 'Your match'} may have taken a screenshot of this chat.`}
+              {captureAlert.photosBlurred && ' Your photos are now blurred for them.'}
             </p>
-            <button className="p-1 hover:bg-white/20 rounded">
+            <button onClick={() => setCaptureAlert(null)} className="p-1 hover:bg-white/20 rounded">
               <X className="w-4 h-4 text-white" />
             </button>
           </motion.div>
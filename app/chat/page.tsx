@@ -17,8 +17,12 @@ import {
   Filter,
   RefreshCw,
 } from "lucide-react";
+import { useRouter } from "next/navigation";
 import { clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { differenceInCalendarDays, formatDistanceToNowStrict } from "date-fns";
+import { chatService, Conversation, Message } from "@/lib/api";
+import { getChatSocket } from "@/lib/chat-socket";
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
@@ -35,7 +39,7 @@ interface ChatConversation {
   verificationLevel: "bronze" | "silver" | "gold";
   lastActive: string;
   isOnline: boolean;
-  lastMessage: {
+  lastMessage?: {
     text?: string;
     type: "text" | "photo" | "voice" | "interest";
     isFromMe: boolean;
@@ -47,100 +51,38 @@ interface ChatConversation {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Mock Data
+// Helpers
 // ─────────────────────────────────────────────────────────────────────────────
-const mockConversations: ChatConversation[] = [
-  {
-    id: "1",
-    profileId: "p1",
-    name: "Priya Sharma",
-    avatarUrl: "/avatars/priya.jpg",
-    verificationLevel: "gold",
-    lastActive: "Online",
-    isOnline: true,
-    lastMessage: {
-      text: "Thanks for the voice note! I loved hearing about your...",
-      type: "text",
-      isFromMe: false,
-      timestamp: "2m ago",
-    },
-    unreadCount: 2,
-    matchedDate: "3 days ago",
-    matchedDaysAgo: 3,
-  },
-  {
-    id: "2",
-    profileId: "p2",
-    name: "Ananya Iyer",
-    avatarUrl: "/avatars/ananya.jpg",
-    verificationLevel: "silver",
-    lastActive: "2h ago",
-    isOnline: false,
-    lastMessage: {
-      text: "Would love to know more about your family values",
-      type: "text",
-      isFromMe: true,
-      timestamp: "5h ago",
-    },
-    unreadCount: 0,
-    matchedDate: "1 week ago",
-    matchedDaysAgo: 7,
-  },
-  {
-    id: "3",
-    profileId: "p3",
-    name: "Sneha Patel",
-    avatarUrl: "/avatars/sneha.jpg",
-    verificationLevel: "gold",
-    lastActive: "Yesterday",
-    isOnline: false,
-    lastMessage: {
-      text: "Sent you a voice introduction",
-      type: "voice",
-      isFromMe: false,
-      timestamp: "1d ago",
-    },
-    unreadCount: 1,
-    matchedDate: "2 weeks ago",
-    matchedDaysAgo: 14,
-  },
-  {
-    id: "4",
-    profileId: "p4",
-    name: "Kavya Nair",
-    avatarUrl: "/avatars/kavya.jpg",
-    verificationLevel: "bronze",
-    lastActive: "3d ago",
-    isOnline: false,
-    lastMessage: {
-      text: "Sent you an interest",
-      type: "interest",
-      isFromMe: true,
-      timestamp: "3d ago",
-    },
-    unreadCount: 0,
-    matchedDate: "3 weeks ago",
-    matchedDaysAgo: 21,
-  },
-  {
-    id: "5",
-    profileId: "p5",
-    name: "Riya Gupta",
-    avatarUrl: "/avatars/riya.jpg",
-    verificationLevel: "silver",
-    lastActive: "5d ago",
+function toChatConversation(conversation: Conversation): ChatConversation {
+  const { participant, lastMessage } = conversation;
+  const matchedAt = new Date(conversation.matchedAt);
+
+  return {
+    id: conversation.id,
+    profileId: participant.id,
+    name: participant.name,
+    avatarUrl:
+      participant.photos.find((photo) => photo.isPrimary)?.thumbnailUrl ??
+      participant.photos[0]?.thumbnailUrl ??
+      "",
+    verificationLevel: participant.verificationLevel,
+    lastActive: "",
     isOnline: false,
-    lastMessage: {
-      text: "📷 Photo",
-      type: "photo",
-      isFromMe: false,
-      timestamp: "5d ago",
-    },
-    unreadCount: 0,
-    matchedDate: "1 month ago",
-    matchedDaysAgo: 30,
-  },
-];
+    lastMessage: lastMessage
+      ? {
+          text: lastMessage.content,
+          type: lastMessage.type,
+          isFromMe: lastMessage.isFromMe,
+          timestamp: formatDistanceToNowStrict(new Date(lastMessage.timestamp), {
+            addSuffix: true,
+          }),
+        }
+      : undefined,
+    unreadCount: conversation.unreadCount,
+    matchedDate: formatDistanceToNowStrict(matchedAt, { addSuffix: true }),
+    matchedDaysAgo: differenceInCalendarDays(new Date(), matchedAt),
+  };
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Components
@@ -191,6 +133,12 @@ function ChatListItem({
   onClick: () => void;
 }) {
   const getMessagePreview = (msg: ChatConversation["lastMessage"]) => {
+    if (!msg) {
+      return (
+        <span className="text-saffron-400 truncate">New match - say hello!</span>
+      );
+    }
+
     switch (msg.type) {
       case "photo":
         return (
@@ -284,7 +232,7 @@ function ChatListItem({
           </div>
           <div className="flex items-center space-x-2 flex-shrink-0">
             <span className="text-xs text-midnight-500">
-              {conversation.lastMessage.timestamp}
+              {conversation.lastMessage?.timestamp}
             </span>
             {conversation.unreadCount > 0 && (
               <span className="min-w-[20px] h-5 px-1.5 flex items-center justify-center rounded-full bg-gradient-to-r from-saffron-500 to-rose-500 text-[10px] font-bold text-white">
@@ -418,6 +366,7 @@ function SearchModal({
 // Main Page
 // ─────────────────────────────────────────────────────────────────────────────
 export default function ChatListPage() {
+  const router = useRouter();
   const [conversations, setConversations] = useState<ChatConversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -429,33 +378,60 @@ export default function ChatListPage() {
   const touchStartY = useRef(0);
   const isPulling = useRef(false);
 
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await chatService.getConversations();
+      setConversations(response.data.map(toChatConversation));
+    } catch (error) {
+      console.error("Error loading conversations:", error);
+    }
+  }, []);
+
   useEffect(() => {
-    // Simulate loading conversations
-    const timer = setTimeout(() => {
-      setConversations(mockConversations);
-      setIsLoading(false);
-    }, 1000);
+    loadConversations().finally(() => setIsLoading(false));
+  }, [loadConversations]);
 
-    return () => clearTimeout(timer);
-  }, []);
+  // Live updates: move the conversation to the top with the new preview
+  useEffect(() => {
+    const socket = getChatSocket();
+
+    const handleNewMessage = (message: Message) => {
+      setConversations((prev) => {
+        const existing = prev.find((conv) => conv.id === message.conversationId);
+
+        if (!existing) {
+          // A conversation we have not loaded yet, e.g. a brand new match
+          loadConversations();
+          return prev;
+        }
+
+        const updated: ChatConversation = {
+          ...existing,
+          lastMessage: {
+            text: message.content,
+            type: message.type,
+            isFromMe: message.isFromMe,
+            timestamp: "Just now",
+          },
+          unreadCount: message.isFromMe ? existing.unreadCount : existing.unreadCount + 1,
+        };
+
+        return [updated, ...prev.filter((conv) => conv.id !== message.conversationId)];
+      });
+    };
+
+    socket.on("message:new", handleNewMessage);
+
+    return () => {
+      socket.off("message:new", handleNewMessage);
+    };
+  }, [loadConversations]);
 
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-    // Simulate new messages
-    setConversations((prev) => [
-      {
-        ...prev[0],
-        unreadCount: prev[0].unreadCount + 1,
-        lastMessage: {
-          ...prev[0].lastMessage,
-          timestamp: "Just now",
-        },
-      },
-      ...prev.slice(1),
-    ]);
+    await loadConversations();
     setIsRefreshing(false);
-  }, []);
+  }, [loadConversations]);
 
   const filteredConversations = conversations.filter((conv) => {
     if (filter === "unread") return conv.unreadCount > 0;
@@ -577,10 +553,7 @@ export default function ChatListPage() {
                 >
                   <ChatListItem
                     conversation={conv}
-                    onClick={() => {
-                      // Navigate to chat detail
-                      console.log("Navigate to chat:", conv.id);
-                    }}
+                    onClick={() => router.push(`/chat/${conv.id}`)}
                   />
                 </motion.div>
               ))}
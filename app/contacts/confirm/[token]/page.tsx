@@ -0,0 +1,205 @@
+/**
+ * Bandhan AI - Emergency Contact Confirmation Page
+ * Public page behind the opt-in SMS; the contact agrees (or declines) to
+ * receive safety alerts from the person who added them
+ *
+ * Privacy:
+ * - No login; the unguessable link is the only credential
+ * - Nothing is sent to the contact until they accept
+ * - Declining is final: the number is never messaged again
+ * - DPDP Act 2023 compliant
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Languages, Loader2, Shield, ShieldCheck, ShieldOff, X } from 'lucide-react';
+import {
+  emergencyContactService,
+  getUserMessage,
+  type ApiError,
+  type ContactOptInRequest,
+} from '@/lib/api';
+
+type ConfirmState = 'loading' | 'pending' | 'verified' | 'declined' | 'invalid';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Translations
+// ─────────────────────────────────────────────────────────────────────────────
+const TRANSLATIONS = {
+  en: {
+    title: 'Emergency contact',
+    greeting: (name: string) => `Hi ${name},`,
+    request: (name: string) =>
+      `${name} wants to add you as an emergency contact on Bandhan AI.`,
+    requestUnknown: 'A Bandhan AI user wants to add you as an emergency contact.',
+    whatThisMeans:
+      'If you accept, you may get an SMS with their live location when they go on a date, or if they miss a safety check-in. You will not get any other messages.',
+    accept: 'Accept',
+    decline: 'Decline',
+    expires: 'This link expires on',
+    verifiedTitle: 'Thank you',
+    verifiedBody: 'You will now receive their safety alerts.',
+    declinedTitle: 'Declined',
+    declinedBody: 'You will not receive any messages from us about this person.',
+    invalidTitle: 'Link not valid',
+    invalidBody: 'This link has expired or was already used.',
+    safetyNote: 'If you ever think someone is in danger, call 112.',
+    switchLanguage: 'हिंदी में देखें',
+  },
+  hi: {
+    title: 'आपातकालीन संपर्क',
+    greeting: (name: string) => `नमस्ते ${name},`,
+    request: (name: string) =>
+      `${name} आपको बंधन एआई पर आपातकालीन संपर्क बनाना चाहते हैं।`,
+    requestUnknown: 'बंधन एआई का एक उपयोगकर्ता आपको आपातकालीन संपर्क बनाना चाहता है।',
+    whatThisMeans:
+      'स्वीकार करने पर, जब वे डेट पर जाएंगे या सुरक्षा चेक-इन चूकेंगे, तो आपको उनके लाइव स्थान के साथ SMS मिल सकता है। आपको कोई अन्य संदेश नहीं मिलेगा।',
+    accept: 'स्वीकार करें',
+    decline: 'मना करें',
+    expires: 'यह लिंक समाप्त होगा',
+    verifiedTitle: 'धन्यवाद',
+    verifiedBody: 'अब आपको उनके सुरक्षा अलर्ट मिलेंगे।',
+    declinedTitle: 'अस्वीकृत',
+    declinedBody: 'इस व्यक्ति के बारे में आपको हमसे कोई संदेश नहीं मिलेगा।',
+    invalidTitle: 'लिंक मान्य नहीं है',
+    invalidBody: 'यह लिंक समाप्त हो गया है या पहले ही उपयोग किया जा चुका है।',
+    safetyNote: 'अगर आपको कभी लगे कि कोई खतरे में है, तो 112 पर कॉल करें।',
+    switchLanguage: 'View in English',
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Page
+// ─────────────────────────────────────────────────────────────────────────────
+export default function ConfirmContactPage({ params }: { params: { token: string } }) {
+  const [language, setLanguage] = useState<'en' | 'hi'>('en');
+  const [state, setState] = useState<ConfirmState>('loading');
+  const [request, setRequest] = useState<ContactOptInRequest | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = TRANSLATIONS[language];
+
+  useEffect(() => {
+    emergencyContactService
+      .getOptIn(params.token)
+      .then((response) => {
+        setRequest(response.data);
+        setState('pending');
+      })
+      .catch(() => setState('invalid'));
+  }, [params.token]);
+
+  const handleRespond = async (accept: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await emergencyContactService.respondToOptIn(params.token, accept);
+      setState(response.data.status);
+    } catch (err) {
+      if ((err as ApiError)?.code === 'CONTACT_OPT_IN_INVALID') {
+        setState('invalid');
+        return;
+      }
+
+      setError(getUserMessage(err as ApiError, language));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const outcome =
+    state === 'verified'
+      ? { icon: ShieldCheck, title: t.verifiedTitle, body: t.verifiedBody, color: 'text-emerald-400' }
+      : state === 'declined'
+        ? { icon: ShieldOff, title: t.declinedTitle, body: t.declinedBody, color: 'text-midnight-300' }
+        : state === 'invalid'
+          ? { icon: ShieldOff, title: t.invalidTitle, body: t.invalidBody, color: 'text-midnight-300' }
+          : null;
+  const OutcomeIcon = outcome?.icon;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-brand px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-md glass-md rounded-2xl p-6 space-y-6"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 rounded-2xl bg-violet-500/15 border border-violet-500/30 flex items-center justify-center">
+              <Shield className="w-6 h-6 text-violet-400" />
+            </div>
+            <h1 className="text-lg font-bold text-white">{t.title}</h1>
+          </div>
+          <button
+            onClick={() => setLanguage(language === 'en' ? 'hi' : 'en')}
+            className="flex items-center space-x-1 text-xs text-violet-300 hover:text-violet-200"
+          >
+            <Languages className="w-4 h-4" />
+            <span>{t.switchLanguage}</span>
+          </button>
+        </div>
+
+        {state === 'loading' && (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-8 h-8 text-violet-400 animate-spin" />
+          </div>
+        )}
+
+        {outcome && OutcomeIcon && (
+          <div className="text-center py-6 space-y-3">
+            <div className="w-14 h-14 mx-auto rounded-full bg-white/5 border border-white/10 flex items-center justify-center">
+              <OutcomeIcon className={`w-7 h-7 ${outcome.color}`} />
+            </div>
+            <p className="text-base font-semibold text-white">{outcome.title}</p>
+            <p className="text-sm text-midnight-300">{outcome.body}</p>
+          </div>
+        )}
+
+        {state === 'pending' && request && (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm text-white">{t.greeting(request.contactName)}</p>
+              <p className="text-sm text-white">
+                {request.ownerName ? t.request(request.ownerName) : t.requestUnknown}
+              </p>
+              <p className="text-sm text-midnight-300">{t.whatThisMeans}</p>
+              <p className="text-xs text-midnight-400">
+                {t.expires}{' '}
+                {new Date(request.expiresAt).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN')}
+              </p>
+            </div>
+
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => handleRespond(false)}
+                disabled={isSubmitting}
+                className="flex-1 py-3 rounded-xl glass-sm border border-white/10 text-gray-300 font-medium hover:bg-white/5 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                <span>{t.decline}</span>
+              </button>
+              <button
+                onClick={() => handleRespond(true)}
+                disabled={isSubmitting}
+                className="flex-1 py-3 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold flex items-center justify-center space-x-2 disabled:opacity-50"
+              >
+                {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                <span>{t.accept}</span>
+              </button>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-midnight-400">{t.safetyNote}</p>
+      </motion.div>
+    </div>
+  );
+}
@@ -20,13 +20,14 @@ import {
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { matchService, Match } from '@/lib/api';
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Types & Mock Data
+// Types & Helpers
 // ─────────────────────────────────────────────────────────────────────────────
 interface Profile {
   id: string;
@@ -43,78 +44,32 @@ interface Profile {
   isBlurred: boolean;
 }
 
-const mockProfiles: Profile[] = [
-  {
-    id: '1',
-    name: 'Priya Sharma',
-    age: 26,
-    city: 'Bangalore',
-    verificationLevel: 'gold',
-    intent: 'Marriage within 1-2 years',
-    compatibility: 94,
-    education: 'IIT Delhi',
-    religion: 'Hindu',
-    motherTongue: 'Hindi',
-    imageUrl: '/profiles/priya.jpg',
-    isBlurred: true,
-  },
-  {
-    id: '2',
-    name: 'Ananya Iyer',
-    age: 25,
-    city: 'Chennai',
-    verificationLevel: 'silver',
-    intent: 'Serious relationship',
-    compatibility: 87,
-    education: 'Anna University',
-    religion: 'Hindu',
-    motherTongue: 'Tamil',
-    imageUrl: '/profiles/ananya.jpg',
-    isBlurred: true,
-  },
-  {
-    id: '3',
-    name: 'Sneha Patel',
-    age: 27,
-    city: 'Ahmedabad',
-    verificationLevel: 'gold',
-    intent: 'Marriage within 1-2 years',
-    compatibility: 82,
-    education: 'NIT Surathkal',
-    religion: 'Hindu',
-    motherTongue: 'Gujarati',
-    imageUrl: '/profiles/sneha.jpg',
-    isBlurred: true,
-  },
-  {
-    id: '4',
-    name: 'Kavya Nair',
-    age: 24,
-    city: 'Kochi',
-    verificationLevel: 'bronze',
-    intent: 'Serious relationship',
-    compatibility: 78,
-    education: 'Cochin University',
-    religion: 'Christian',
-    motherTongue: 'Malayalam',
-    imageUrl: '/profiles/kavya.jpg',
-    isBlurred: true,
-  },
-  {
-    id: '5',
-    name: 'Riya Gupta',
-    age: 26,
-    city: 'Delhi',
-    verificationLevel: 'silver',
-    intent: 'Marriage within 1-2 years',
-    compatibility: 75,
-    education: 'Delhi University',
-    religion: 'Hindu',
-    motherTongue: 'Hindi',
-    imageUrl: '/profiles/riya.jpg',
-    isBlurred: true,
-  },
-];
+const intentLabels: Record<string, string> = {
+  'marriage-soon': 'Marriage within 1-2 years',
+  'serious-relationship': 'Serious relationship',
+  friendship: 'Friendship / Networking',
+  healing: 'Healing space',
+};
+
+function toCardProfile(match: Match): Profile {
+  const { profile } = match;
+  const primaryPhoto = profile.photos.find((photo) => photo.isPrimary) ?? profile.photos[0];
+
+  return {
+    id: profile.userId,
+    name: profile.name,
+    age: profile.age,
+    city: profile.city,
+    verificationLevel: profile.verificationLevel,
+    intent: intentLabels[profile.intent] ?? profile.intent,
+    compatibility: match.compatibility,
+    education: profile.education,
+    religion: profile.religion ?? '',
+    motherTongue: profile.motherTongue,
+    imageUrl: primaryPhoto?.url ?? '',
+    isBlurred: primaryPhoto?.isBlurred ?? true,
+  };
+}
 
 const intentColors: Record<string, string> = {
   'Marriage within 1-2 years': 'from-saffron-500 to-rose-500',
@@ -365,29 +320,65 @@ function EmptyState() {
 // ─────────────────────────────────────────────────────────────────────────────
 export default function MatchesPage() {
   const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [dailyLimit, setDailyLimit] = useState({ used: 3, total: 5 });
+  const [dailyLimit, setDailyLimit] = useState({ used: 0, total: 20 });
   const [showFilters, setShowFilters] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    // Simulate loading profiles
-    const timer = setTimeout(() => {
-      setProfiles(mockProfiles);
-      setIsLoading(false);
-    }, 1000);
+  // Likes are counted server-side; the local counter is only optimistic
+  const syncDailyLimit = () => {
+    matchService
+      .getDailyLimit('likes')
+      .then((response) => {
+        setDailyLimit({ used: response.data.used, total: response.data.total });
+      })
+      .catch((error) => {
+        console.error('Error loading daily limit:', error);
+      });
+  };
 
-    return () => clearTimeout(timer);
+  useEffect(() => {
+    let cancelled = false;
+
+    matchService
+      .getMatches({ limit: 10 })
+      .then((response) => {
+        if (!cancelled) {
+          setProfiles(response.data.map(toCardProfile));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading matches:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    syncDailyLimit();
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   const handleLike = (id: string) => {
-    console.log('Liked:', id);
     setProfiles((prev) => prev.filter((p) => p.id !== id));
     setDailyLimit((prev) => ({ ...prev, used: prev.used + 1 }));
+
+    matchService.likeUser(id).catch((error) => {
+      console.error('Error liking profile:', error);
+      // The server rejected or never counted the like, take its number
+      syncDailyLimit();
+    });
   };
 
   const handlePass = (id: string) => {
-    console.log('Passed:', id);
     setProfiles((prev) => prev.filter((p) => p.id !== id));
+
+    matchService.passUser(id).catch((error) => {
+      console.error('Error passing profile:', error);
+    });
   };
 
   const handleVoiceNote = (id: string) => {
@@ -440,7 +431,7 @@ export default function MatchesPage() {
             <div className="flex items-center space-x-2">
               <Crown className="w-5 h-5 text-gold-500" />
               <span className="text-sm text-midnight-200">
-                {dailyLimit.used}/{dailyLimit.total} profiles today
+                {dailyLimit.used}/{dailyLimit.total} likes today
               </span>
             </div>
             <div className="flex space-x-1">
@@ -473,7 +464,7 @@ export default function MatchesPage() {
             </p>
           ) : (
             <p className="text-xs text-midnight-400 mt-2">
-              {remainingProfiles} more {remainingProfiles === 1 ? 'profile' : 'profiles'} available today
+              {remainingProfiles} more {remainingProfiles === 1 ? 'like' : 'likes'} available today
             </p>
           )}
         </div>
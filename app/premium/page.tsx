@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import {
   Check,
@@ -25,6 +25,8 @@ import {
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { subscriptionService, PlanTier, SubscriptionStatus } from '@/lib/api';
+import { openRazorpayCheckout, CheckoutCancelledError } from '@/lib/razorpay';
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
@@ -57,6 +59,7 @@ const translations = {
     enterVpa: 'Enter UPI ID (e.g., yourname@upi)',
     payNow: 'Pay Now',
     processing: 'Processing...',
+    paymentFailed: 'Payment could not be completed. You have not been charged for a failed attempt.',
     trustBadges: {
       digilocker: 'DigiLocker Verified',
       dpdp: 'DPDP Compliant',
@@ -90,6 +93,7 @@ const translations = {
     enterVpa: 'UPI ID दर्ज करें (जैसे, yourname@upi)',
     payNow: 'अभी भुगतान करें',
     processing: 'प्रसंस्करण...',
+    paymentFailed: 'भुगतान पूरा नहीं हो सका। असफल प्रयास के लिए कोई शुल्क नहीं लिया गया है।',
     trustBadges: {
       digilocker: 'DigiLocker सत्यापित',
       dpdp: 'DPDP अनुपालित',
@@ -237,24 +241,44 @@ function TrustBadge({ icon: Icon, label, labelHi }: { icon: React.ComponentType<
 }
 
 function UPIPayment({
+  planId,
   onPaymentComplete,
   language,
 }: {
-  onPaymentComplete: () => void;
+  planId: string;
+  onPaymentComplete: (status: SubscriptionStatus) => void;
   language: 'en' | 'hi';
 }) {
   const [vpa, setVpa] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   const t = translations[language];
 
+  // Order -> Razorpay Checkout -> server-side signature verification
   const handlePay = async () => {
     if (!vpa) return;
     setIsProcessing(true);
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsProcessing(false);
-    onPaymentComplete();
+    setError(null);
+
+    try {
+      const { data: order } = await subscriptionService.createOrder(planId);
+      const payment = await openRazorpayCheckout(order, { vpa });
+      const { data: status } = await subscriptionService.verifyPayment(
+        payment.razorpayOrderId,
+        payment.razorpayPaymentId,
+        payment.razorpaySignature
+      );
+      onPaymentComplete(status);
+    } catch (err) {
+      if (!(err instanceof CheckoutCancelledError)) {
+        console.error('Payment failed:', err);
+        setError(t.paymentFailed);
+      }
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleCopyVPA = () => {
@@ -345,6 +369,10 @@ function UPIPayment({
           </button>
         </div>
 
+        {error && (
+          <p className="text-sm text-rose-400 text-center">{error}</p>
+        )}
+
         <button
           onClick={handlePay}
           disabled={!vpa || isProcessing}
@@ -398,18 +426,28 @@ function UPIPayment({
 export default function PremiumPage() {
   const [language, setLanguage] = useState<'en' | 'hi'>('en');
   const [selectedPlan, setSelectedPlan] = useState<'monthly' | 'yearly' | 'family'>('yearly');
-  const [showPayment, setShowPayment] = useState(false);
+  const [paymentPlanId, setPaymentPlanId] = useState<string | null>(null);
+  const [currentTier, setCurrentTier] = useState<PlanTier>('free');
 
   const t = translations[language];
-
-  const handleUpgrade = () => {
-    setShowPayment(true);
+  const showPayment = paymentPlanId !== null;
+
+  useEffect(() => {
+    subscriptionService
+      .getStatus()
+      .then((response) => setCurrentTier(response.data.plan))
+      .catch((error) => {
+        console.error('Error loading subscription:', error);
+      });
+  }, []);
+
+  const handleUpgrade = (planId: string) => {
+    setPaymentPlanId(planId);
   };
 
-  const handlePaymentComplete = () => {
-    // Handle successful payment
-    console.log('Payment complete!');
-    setShowPayment(false);
+  const handlePaymentComplete = (status: SubscriptionStatus) => {
+    setCurrentTier(status.plan);
+    setPaymentPlanId(null);
   };
 
   return (
@@ -514,10 +552,10 @@ export default function PremiumPage() {
             titleHi={translations.hi.freePlan}
             price="₹0"
             period={t.perMonth}
-            badge={t.currentPlan}
+            badge={currentTier === 'free' ? t.currentPlan : undefined}
             badgeColor="bg-midnight-700/50 text-midnight-300 border border-white/10"
             features={freeFeatures}
-            isCurrent
+            isCurrent={currentTier === 'free'}
             onSelect={() => {}}
           />
 
@@ -531,7 +569,10 @@ export default function PremiumPage() {
             badgeColor="bg-gradient-to-r from-gold-500/20 to-saffron-500/20 text-gold-400 border border-gold-500/30"
             features={premiumFeatures}
             highlight
-            onSelect={handleUpgrade}
+            isCurrent={currentTier === 'premium'}
+            onSelect={() =>
+              handleUpgrade(selectedPlan === 'yearly' ? 'premium_yearly' : 'premium_monthly')
+            }
           />
 
           {/* Family Plan */}
@@ -543,7 +584,8 @@ export default function PremiumPage() {
             badge={t.bestValue}
             badgeColor="bg-gradient-to-r from-violet-500/20 to-rose-500/20 text-violet-400 border border-violet-500/30"
             features={familyFeatures}
-            onSelect={handleUpgrade}
+            isCurrent={currentTier === 'family'}
+            onSelect={() => handleUpgrade('family_monthly')}
           />
         </div>
       </motion.main>
@@ -554,7 +596,7 @@ export default function PremiumPage() {
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md"
-          onClick={() => setShowPayment(false)}
+          onClick={() => setPaymentPlanId(null)}
         >
           <motion.div
             initial={{ scale: 0.9, y: 20 }}
@@ -565,7 +607,7 @@ export default function PremiumPage() {
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-bold text-white">Complete Payment</h2>
               <button
-                onClick={() => setShowPayment(false)}
+                onClick={() => setPaymentPlanId(null)}
                 className="p-2 rounded-xl hover:bg-white/10 transition-colors"
               >
                 <X className="w-5 h-5 text-midnight-300" />
@@ -573,6 +615,7 @@ export default function PremiumPage() {
             </div>
 
             <UPIPayment
+              planId={paymentPlanId}
               onPaymentComplete={handlePaymentComplete}
               language={language}
             />
@@ -30,9 +30,29 @@ import {
   Settings,
   Bell,
   Globe,
+  Smartphone,
+  Download,
+  Scale,
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import {
+  authService,
+  checkInService,
+  emergencyContactService,
+  getUserMessage,
+  grievanceService,
+  privacyService,
+  profileService,
+  safetyService,
+  ApiError,
+  BlockedUser,
+  DataExport,
+  DeviceSession,
+  EmergencyContact,
+  Grievance,
+  GrievanceCategory,
+} from '@/lib/api';
 
 function cn(...classes: (string | undefined | null | false)[]) {
   return twMerge(clsx(classes));
@@ -61,12 +81,23 @@ interface PrivacySettings {
   screenshotAlerts: boolean;
 }
 
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  relationship: string;
-}
+// ─────────────────────────────────────────────────────────────────────────────
+// Grievance Options
+// ─────────────────────────────────────────────────────────────────────────────
+const GRIEVANCE_CATEGORIES: { value: GrievanceCategory; label: string }[] = [
+  { value: 'data_access', label: 'Access to my data' },
+  { value: 'correction', label: 'Correcting my data' },
+  { value: 'erasure', label: 'Deleting my data' },
+  { value: 'consent', label: 'Consent' },
+  { value: 'safety', label: 'Safety' },
+];
+
+const GRIEVANCE_STATUS_LABELS: Record<Grievance['status'], string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  escalated: 'Escalated',
+  closed: 'Closed',
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Mock Data
@@ -91,15 +122,11 @@ const initialPrivacy: PrivacySettings = {
   screenshotAlerts: true,
 };
 
-const mockContacts: EmergencyContact[] = [
-  { id: '1', name: 'Mom', phone: '+91 98765 43210', relationship: 'Mother' },
-  { id: '2', name: 'Riya Sharma', phone: '+91 98765 43211', relationship: 'Sister' },
-];
-
-const blockedUsers = [
-  { id: '1', name: 'Blocked User 1', blockedDate: '2 days ago' },
-  { id: '2', name: 'Blocked User 2', blockedDate: '1 week ago' },
-];
+const CONTACT_STATUS_LABELS: Record<EmergencyContact['status'], string> = {
+  pending: 'Awaiting confirmation',
+  verified: 'Verified',
+  declined: 'Declined',
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Components
@@ -248,11 +275,30 @@ function SelectField({
 export default function ProfileSettingsPage() {
   const [profile, setProfile] = useState<ProfileData>(initialProfile);
   const [privacy, setPrivacy] = useState<PrivacySettings>(initialPrivacy);
-  const [contacts, setContacts] = useState<EmergencyContact[]>(mockContacts);
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [showContactForm, setShowContactForm] = useState(false);
+  const [contactName, setContactName] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [contactRelationship, setContactRelationship] = useState('');
+  const [contactError, setContactError] = useState<string | null>(null);
   const [openSection, setOpenSection] = useState<string | null>('details');
   const [showAvatarModal, setShowAvatarModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [grievances, setGrievances] = useState<Grievance[]>([]);
+  const [showGrievanceForm, setShowGrievanceForm] = useState(false);
+  const [grievanceCategory, setGrievanceCategory] = useState<GrievanceCategory>('data_access');
+  const [grievanceSubject, setGrievanceSubject] = useState('');
+  const [grievanceDescription, setGrievanceDescription] = useState('');
+  const [grievanceError, setGrievanceError] = useState<string | null>(null);
+  const [pinsSet, setPinsSet] = useState(false);
+  const [safetyPin, setSafetyPin] = useState('');
+  const [duressPin, setDuressPin] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
 
   const handleProfileChange = (field: keyof ProfileData, value: string) => {
     setProfile((prev) => ({ ...prev, [field]: value }));
@@ -264,24 +310,239 @@ export default function ProfileSettingsPage() {
     setHasChanges(true);
   };
 
+  // Photo privacy and screenshot alerts are enforced server-side, so load the stored settings
+  useEffect(() => {
+    profileService
+      .getProfile()
+      .then((response) => {
+        const { photoPrivacy, screenshotAlerts } = response.data;
+        if (photoPrivacy) {
+          setPrivacy((prev) => ({ ...prev, photoPrivacy }));
+        }
+        if (screenshotAlerts !== undefined) {
+          setPrivacy((prev) => ({ ...prev, screenshotAlerts }));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading privacy settings:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    authService
+      .getSessions()
+      .then((response) => setSessions(response.data))
+      .catch((error) => {
+        console.error('Error loading sessions:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    emergencyContactService
+      .getContacts()
+      .then((response) => setContacts(response.data))
+      .catch((error) => {
+        console.error('Error loading emergency contacts:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    checkInService
+      .getPinStatus()
+      .then((response) => setPinsSet(response.data.safetyPinSet && response.data.duressPinSet))
+      .catch((error) => {
+        console.error('Error loading safety PIN status:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    safetyService
+      .getBlockedUsers()
+      .then((response) => setBlockedUsers(response.data))
+      .catch((error) => {
+        console.error('Error loading blocked users:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    privacyService
+      .getDataExports()
+      .then((response) => setDataExport(response.data[0] ?? null))
+      .catch((error) => {
+        console.error('Error loading data exports:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    grievanceService
+      .getGrievances()
+      .then((response) => setGrievances(response.data))
+      .catch((error) => {
+        console.error('Error loading grievances:', error);
+      });
+  }, []);
+
+  // Exports are built in the background; poll until this one settles
+  const exportInProgress =
+    dataExport?.status === 'pending' || dataExport?.status === 'processing';
+
+  useEffect(() => {
+    if (!dataExport || !exportInProgress) return;
+
+    const timer = setTimeout(() => {
+      privacyService
+        .getDataExport(dataExport.id)
+        .then((response) => setDataExport(response.data))
+        .catch((error) => {
+          console.error('Error checking data export:', error);
+        });
+    }, 5000);
+
+    return () => clearTimeout(timer);
+  }, [dataExport, exportInProgress]);
+
+  const handleRequestExport = async () => {
+    try {
+      const response = await privacyService.requestDataExport();
+      setDataExport(response.data);
+    } catch (error) {
+      console.error('Error requesting data export:', error);
+    }
+  };
+
+  const handleAddContact = async () => {
+    setContactError(null);
+    try {
+      // The server expects +91XXXXXXXXXX
+      const digits = contactPhone.replace(/\D/g, '');
+      const response = await emergencyContactService.addContact({
+        name: contactName.trim(),
+        phone: `+91${digits.slice(-10)}`,
+        relationship: contactRelationship.trim() || undefined,
+        language: 'en',
+      });
+      setContacts((prev) => [...prev, response.data]);
+      setContactName('');
+      setContactPhone('');
+      setContactRelationship('');
+      setShowContactForm(false);
+    } catch (error) {
+      console.error('Error adding emergency contact:', error);
+      setContactError(getUserMessage(error as ApiError, 'en'));
+    }
+  };
+
+  const handleResendOptIn = async (contactId: string) => {
+    setContactError(null);
+    try {
+      const response = await emergencyContactService.resendOptIn(contactId);
+      setContacts((prev) => prev.map((c) => (c.id === contactId ? response.data : c)));
+    } catch (error) {
+      console.error('Error resending contact opt-in:', error);
+      setContactError(getUserMessage(error as ApiError, 'en'));
+    }
+  };
+
+  const handleRemoveContact = async (contactId: string) => {
+    try {
+      await emergencyContactService.removeContact(contactId);
+      setContacts((prev) => prev.filter((c) => c.id !== contactId));
+    } catch (error) {
+      console.error('Error removing emergency contact:', error);
+    }
+  };
+
+  const handleSavePins = async () => {
+    setPinMessage(null);
+    try {
+      await checkInService.setPins({
+        safetyPin,
+        duressPin,
+        currentPin: pinsSet ? currentPin : undefined,
+      });
+      setPinsSet(true);
+      setSafetyPin('');
+      setDuressPin('');
+      setCurrentPin('');
+      setPinMessage('PINs saved');
+    } catch (error) {
+      console.error('Error saving safety PINs:', error);
+      setPinMessage(getUserMessage(error as ApiError, 'en'));
+    }
+  };
+
+  const handleFileGrievance = async () => {
+    setGrievanceError(null);
+    try {
+      const response = await grievanceService.fileGrievance({
+        category: grievanceCategory,
+        subject: grievanceSubject,
+        description: grievanceDescription,
+      });
+      setGrievances((prev) => [response.data, ...prev]);
+      setGrievanceSubject('');
+      setGrievanceDescription('');
+      setShowGrievanceForm(false);
+    } catch (error) {
+      console.error('Error filing grievance:', error);
+      setGrievanceError('Please add a short subject and at least 10 characters of detail.');
+    }
+  };
+
+  const handleUnblock = async (userId: string) => {
+    try {
+      await safetyService.unblockUser(userId);
+      setBlockedUsers((prev) => prev.filter((user) => user.userId !== userId));
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      await authService.revokeSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    } catch (error) {
+      console.error('Error signing out device:', error);
+    }
+  };
+
   const handleSave = async () => {
-    // Save to backend
-    console.log('Saving:', { profile, privacy });
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setHasChanges(false);
+    try {
+      await profileService.updateProfile({
+        photoPrivacy: privacy.photoPrivacy,
+        screenshotAlerts: privacy.screenshotAlerts,
+      });
+      setHasChanges(false);
+    } catch (error) {
+      console.error('Error saving profile:', error);
+    }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('user');
     window.location.href = '/login';
   };
 
+  // The server signs out every device, so clear local auth without calling logout
   const handleDeleteAccount = async () => {
-    // Delete account logic
-    console.log('Deleting account...');
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    handleLogout();
+    try {
+      await privacyService.requestAccountDeletion();
+    } catch (error) {
+      console.error('Error requesting account deletion:', error);
+      return;
+    }
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+    localStorage.removeItem('user');
+    window.location.href = '/login';
   };
 
   return (
@@ -491,11 +752,53 @@ export default function ProfileSettingsPage() {
           <div>
             <div className="flex items-center justify-between mb-3">
               <label className="text-sm text-midnight-200">Emergency Contacts</label>
-              <button className="text-xs text-violet-400 flex items-center space-x-1 hover:text-violet-300">
-                <Plus className="w-3.5 h-3.5" />
-                <span>Add</span>
-              </button>
+              {contacts.length < 3 && (
+                <button
+                  onClick={() => setShowContactForm(!showContactForm)}
+                  className="text-xs text-violet-400 flex items-center space-x-1 hover:text-violet-300"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  <span>Add</span>
+                </button>
+              )}
             </div>
+            {showContactForm && (
+              <div className="space-y-2 mb-3">
+                {[
+                  { label: 'Name', value: contactName, onChange: setContactName, type: 'text' },
+                  { label: 'Phone (10 digits)', value: contactPhone, onChange: setContactPhone, type: 'tel' },
+                  {
+                    label: 'Relationship (optional)',
+                    value: contactRelationship,
+                    onChange: setContactRelationship,
+                    type: 'text',
+                  },
+                ].map((field) => (
+                  <input
+                    key={field.label}
+                    type={field.type}
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder={field.label}
+                    className="w-full px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-midnight-100 placeholder:text-midnight-500 focus:outline-none focus:border-violet-500/50"
+                  />
+                ))}
+                <p className="text-xs text-midnight-500">
+                  They get an SMS to confirm before they receive any safety alerts.
+                </p>
+                <button
+                  onClick={handleAddContact}
+                  disabled={!contactName.trim() || contactPhone.replace(/\D/g, '').length < 10}
+                  className="w-full py-2.5 rounded-xl glass-sm border border-violet-500/30 text-sm text-violet-300 hover:bg-violet-500/10 disabled:opacity-50"
+                >
+                  Send confirmation SMS
+                </button>
+              </div>
+            )}
+            {contactError && <p className="text-xs text-rose-400 mb-2">{contactError}</p>}
+            {contacts.length === 0 && !showContactForm && (
+              <p className="text-sm text-midnight-500 text-center py-4">No emergency contacts</p>
+            )}
             <div className="space-y-2">
               {contacts.map((contact) => (
                 <div
@@ -508,17 +811,83 @@ export default function ProfileSettingsPage() {
                     </div>
                     <div>
                       <p className="text-sm text-midnight-100">{contact.name}</p>
-                      <p className="text-xs text-midnight-500">{contact.relationship}</p>
+                      <p className="text-xs text-midnight-500">
+                        {[contact.relationship, contact.phone].filter(Boolean).join(' · ')}
+                      </p>
+                      <p
+                        className={cn(
+                          'text-xs',
+                          contact.status === 'verified' && 'text-emerald-400',
+                          contact.status === 'pending' && 'text-amber-400',
+                          contact.status === 'declined' && 'text-rose-400'
+                        )}
+                      >
+                        {CONTACT_STATUS_LABELS[contact.status]}
+                      </p>
                     </div>
                   </div>
-                  <button className="p-2 hover:bg-white/10 rounded-lg">
-                    <X className="w-4 h-4 text-midnight-400" />
-                  </button>
+                  <div className="flex items-center">
+                    {contact.status === 'pending' && (
+                      <button
+                        onClick={() => handleResendOptIn(contact.id)}
+                        className="text-xs text-violet-400 hover:text-violet-300"
+                      >
+                        Resend
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemoveContact(contact.id)}
+                      className="p-2 hover:bg-white/10 rounded-lg"
+                    >
+                      <X className="w-4 h-4 text-midnight-400" />
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
           </div>
 
+          {/* Check-in PINs */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm text-midnight-200">Check-in PINs</label>
+              <span className="text-xs text-midnight-500">{pinsSet ? 'Set' : 'Not set'}</span>
+            </div>
+            <p className="text-xs text-midnight-500 mb-3">
+              Confirm date check-ins with your safety PIN. The duress PIN looks the same on
+              screen but alerts your contacts.
+            </p>
+            <div className="space-y-2">
+              {[
+                ...(pinsSet
+                  ? [{ label: 'Current safety PIN', value: currentPin, onChange: setCurrentPin }]
+                  : []),
+                { label: 'Safety PIN', value: safetyPin, onChange: setSafetyPin },
+                { label: 'Duress PIN', value: duressPin, onChange: setDuressPin },
+              ].map((field) => (
+                <input
+                  key={field.label}
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value.replace(/\D/g, ''))}
+                  placeholder={field.label}
+                  className="w-full px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-midnight-100 placeholder:text-midnight-500 focus:outline-none focus:border-violet-500/50"
+                />
+              ))}
+              {pinMessage && <p className="text-xs text-midnight-400">{pinMessage}</p>}
+              <button
+                onClick={handleSavePins}
+                disabled={safetyPin.length < 4 || duressPin.length < 4}
+                className="w-full py-2.5 rounded-xl glass-sm border border-violet-500/30 text-sm text-violet-300 hover:bg-violet-500/10 disabled:opacity-50"
+              >
+                {pinsSet ? 'Change PINs' : 'Set PINs'}
+              </button>
+            </div>
+          </div>
+
           {/* Block List */}
           <div>
             <div className="flex items-center justify-between mb-3">
@@ -531,14 +900,19 @@ export default function ProfileSettingsPage() {
               <div className="space-y-2">
                 {blockedUsers.map((user) => (
                   <div
-                    key={user.id}
+                    key={user.userId}
                     className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10"
                   >
                     <div>
                       <p className="text-sm text-midnight-100">{user.name}</p>
-                      <p className="text-xs text-midnight-500">Blocked {user.blockedDate}</p>
+                      <p className="text-xs text-midnight-500">
+                        Blocked {new Date(user.blockedAt).toLocaleDateString('en-IN')}
+                      </p>
                     </div>
-                    <button className="text-xs text-violet-400 hover:text-violet-300">
+                    <button
+                      onClick={() => handleUnblock(user.userId)}
+                      className="text-xs text-violet-400 hover:text-violet-300"
+                    >
                       Unblock
                     </button>
                   </div>
@@ -578,6 +952,129 @@ export default function ProfileSettingsPage() {
             </button>
           </div>
 
+          {/* Signed-in Devices */}
+          <div>
+            <label className="text-sm text-midnight-200 mb-3 block">Signed-in Devices</label>
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="w-8 h-8 rounded-full bg-violet-500/10 border border-violet-500/20 flex items-center justify-center flex-shrink-0">
+                      <Smartphone className="w-4 h-4 text-violet-400" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm text-midnight-100 truncate">
+                        {session.deviceInfo || 'Unknown device'}
+                      </p>
+                      <p className="text-xs text-midnight-500">
+                        {session.isCurrent
+                          ? 'This device'
+                          : `Active ${new Date(session.lastActiveAt).toLocaleDateString('en-IN')}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <button
+                      onClick={() => handleRevokeSession(session.id)}
+                      className="text-xs text-rose-400 hover:text-rose-300 flex-shrink-0 ml-2"
+                    >
+                      Sign out
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Your Data (DPDP right to access) */}
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <div className="flex items-center space-x-2 mb-1">
+              <Download className="w-4 h-4 text-violet-400" />
+              <span className="text-sm text-midnight-100">Download My Data</span>
+            </div>
+            <p className="text-xs text-midnight-400 mb-3">
+              {exportInProgress
+                ? 'Preparing your data. This usually takes a few minutes.'
+                : dataExport?.downloads
+                  ? `Ready until ${new Date(dataExport.expiresAt!).toLocaleDateString('en-IN')}`
+                  : 'Get a copy of everything Bandhan holds about you (DPDP Act 2023).'}
+            </p>
+            {dataExport?.downloads ? (
+              <div className="flex items-center space-x-4">
+                <a
+                  href={dataExport.downloads.archiveUrl}
+                  className="text-xs text-violet-400 hover:text-violet-300"
+                >
+                  Data (JSON) →
+                </a>
+                {dataExport.downloads.summaryUrl && (
+                  <a
+                    href={dataExport.downloads.summaryUrl}
+                    className="text-xs text-violet-400 hover:text-violet-300"
+                  >
+                    Summary →
+                  </a>
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={handleRequestExport}
+                disabled={exportInProgress}
+                className="text-xs text-violet-400 hover:text-violet-300 disabled:opacity-50"
+              >
+                {dataExport?.status === 'failed' ? 'Try again →' : 'Request my data →'}
+              </button>
+            )}
+          </div>
+
+          {/* Grievances (DPDP grievance redressal) */}
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <div className="flex items-center space-x-2 mb-1">
+              <Scale className="w-4 h-4 text-violet-400" />
+              <span className="text-sm text-midnight-100">Grievances</span>
+            </div>
+            <p className="text-xs text-midnight-400 mb-3">
+              Raise a complaint with our Grievance Officer about your data, consent or safety.
+            </p>
+            {grievances.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {grievances.slice(0, 3).map((grievance) => (
+                  <div
+                    key={grievance.id}
+                    className="p-3 rounded-xl bg-white/5 border border-white/10"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-mono text-midnight-200">{grievance.ticketNumber}</span>
+                      <span
+                        className={cn(
+                          'text-xs',
+                          grievance.status === 'closed' ? 'text-emerald-400' : 'text-saffron-400'
+                        )}
+                      >
+                        {GRIEVANCE_STATUS_LABELS[grievance.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-midnight-100 truncate mt-1">{grievance.subject}</p>
+                    {grievance.status !== 'closed' && (
+                      <p className="text-xs text-midnight-500 mt-0.5">
+                        Response due by {new Date(grievance.responseDueAt).toLocaleDateString('en-IN')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => setShowGrievanceForm(true)}
+              className="text-xs text-violet-400 hover:text-violet-300"
+            >
+              Raise a grievance →
+            </button>
+          </div>
+
           {/* Logout */}
           <button
             onClick={handleLogout}
@@ -654,6 +1151,76 @@ export default function ProfileSettingsPage() {
         </motion.div>
       )}
 
+      {/* Grievance Form */}
+      {showGrievanceForm && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4"
+          onClick={() => setShowGrievanceForm(false)}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            className="glass-md rounded-2xl p-6 max-w-sm w-full border border-white/10"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white">Raise a Grievance</h3>
+              <button onClick={() => setShowGrievanceForm(false)} className="p-2 hover:bg-white/10 rounded-xl">
+                <X className="w-5 h-5 text-midnight-300" />
+              </button>
+            </div>
+            <div className="space-y-3">
+              <select
+                value={grievanceCategory}
+                onChange={(e) => setGrievanceCategory(e.target.value as GrievanceCategory)}
+                className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-midnight-100 focus:outline-none focus:border-violet-500/50"
+              >
+                {GRIEVANCE_CATEGORIES.map((category) => (
+                  <option key={category.value} value={category.value} className="bg-midnight-900">
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={grievanceSubject}
+                onChange={(e) => setGrievanceSubject(e.target.value)}
+                maxLength={150}
+                placeholder="Subject"
+                className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-midnight-100 placeholder:text-midnight-500 focus:outline-none focus:border-violet-500/50"
+              />
+              <textarea
+                value={grievanceDescription}
+                onChange={(e) => setGrievanceDescription(e.target.value)}
+                maxLength={2000}
+                rows={4}
+                placeholder="Tell us what happened"
+                className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-midnight-100 placeholder:text-midnight-500 focus:outline-none focus:border-violet-500/50 resize-none"
+              />
+              {grievanceError && <p className="text-xs text-rose-400">{grievanceError}</p>}
+              <p className="text-xs text-midnight-500">
+                You will get a ticket number and the date by which we must respond.
+              </p>
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowGrievanceForm(false)}
+                className="flex-1 py-3 rounded-xl glass-sm border border-white/10 text-midnight-200 hover:bg-white/5 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleFileGrievance}
+                className="flex-1 py-3 rounded-xl bg-gradient-to-r from-saffron-500 to-violet-500 text-white font-semibold hover:shadow-lg transition-shadow"
+              >
+                Submit
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+
       {/* Delete Account Confirmation */}
       {showDeleteConfirm && (
         <motion.div
@@ -675,7 +1242,8 @@ export default function ProfileSettingsPage() {
               <h3 className="text-lg font-semibold text-white">Delete Account?</h3>
             </div>
             <p className="text-sm text-midnight-300 mb-6">
-              This action cannot be undone. All your data, matches, and conversations will be permanently deleted.
+              You will be signed out everywhere and your account will be permanently deleted after 14 days,
+              including your matches and conversations. Log in again before then to keep it.
             </p>
             <div className="flex space-x-3">
               <button
@@ -0,0 +1,254 @@
+/**
+ * Bandhan AI - Live Location Tracking Page
+ * Public page behind the link sent to trusted contacts; shows the sharer's
+ * latest position until sharing ends
+ *
+ * Privacy:
+ * - No login; the unguessable link is the only credential
+ * - Only the latest position is shown, never a trail
+ * - Sharing stops after 2 hours and every point is deleted
+ * - DPDP Act 2023 compliant
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Clock, Languages, Loader2, MapPin, Navigation, Shield, ShieldOff } from 'lucide-react';
+import { sharingService, type ApiError, type SharedLocationView } from '@/lib/api';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...classes: (string | undefined | null | false)[]) {
+  return twMerge(clsx(classes));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+const POLL_INTERVAL_MS = 15000;
+
+type TrackingState = 'loading' | 'live' | 'ended' | 'invalid';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Translations
+// ─────────────────────────────────────────────────────────────────────────────
+const TRANSLATIONS = {
+  en: {
+    title: 'Live location',
+    sharedBy: (name: string) => `${name} is sharing their location with you`,
+    sharedByUnknown: 'Someone is sharing their location with you',
+    onDateWith: (name: string) => `On a date with ${name}`,
+    waiting: 'Waiting for the first location update...',
+    lastUpdated: 'Last updated',
+    accuracy: 'Accuracy',
+    openInMaps: 'Open in Maps',
+    endsIn: 'Sharing ends in',
+    endedTitle: 'Location sharing has ended',
+    endedBody: 'All location data has been deleted.',
+    invalidTitle: 'Link not valid',
+    invalidBody: 'Please check the link in your SMS.',
+    safetyNote: 'Shared for safety only. If you think they are in danger, call 112.',
+    switchLanguage: 'हिंदी में देखें',
+  },
+  hi: {
+    title: 'लाइव स्थान',
+    sharedBy: (name: string) => `${name} आपके साथ अपना स्थान साझा कर रहे हैं`,
+    sharedByUnknown: 'कोई आपके साथ अपना स्थान साझा कर रहा है',
+    onDateWith: (name: string) => `${name} के साथ डेट पर`,
+    waiting: 'पहले स्थान अपडेट की प्रतीक्षा है...',
+    lastUpdated: 'अंतिम अपडेट',
+    accuracy: 'सटीकता',
+    openInMaps: 'मैप्स में खोलें',
+    endsIn: 'साझाकरण समाप्त होगा',
+    endedTitle: 'स्थान साझाकरण समाप्त हो गया है',
+    endedBody: 'सभी स्थान डेटा हटा दिया गया है।',
+    invalidTitle: 'लिंक मान्य नहीं है',
+    invalidBody: 'कृपया अपने SMS में दिया गया लिंक जांचें।',
+    safetyNote: 'केवल सुरक्षा के लिए साझा किया गया। अगर आपको लगता है कि वे खतरे में हैं, तो 112 पर कॉल करें।',
+    switchLanguage: 'View in English',
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+function formatRemaining(expiresAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((Date.parse(expiresAt) - now) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`
+    : `${minutes}:${String(secs).padStart(2, '0')}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Page
+// ─────────────────────────────────────────────────────────────────────────────
+export default function TrackLocationPage({ params }: { params: { token: string } }) {
+  const [language, setLanguage] = useState<'en' | 'hi'>('en');
+  const [state, setState] = useState<TrackingState>('loading');
+  const [view, setView] = useState<SharedLocationView | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const t = TRANSLATIONS[language];
+
+  // Poll for the latest position until the server reports the session over
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await sharingService.track(params.token);
+        if (cancelled) return;
+
+        setView(response.data);
+        setState('live');
+      } catch (err) {
+        if (cancelled) return;
+
+        const code = (err as ApiError)?.code;
+
+        if (code === 'SHARING_SESSION_ENDED') {
+          setView(null);
+          setState('ended');
+          return;
+        }
+
+        if (code === 'SHARING_SESSION_NOT_FOUND') {
+          setState('invalid');
+          return;
+        }
+
+        // Network hiccup: keep showing the last position and try again
+        console.warn('[Tracking] Poll failed:', err);
+      }
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [params.token]);
+
+  // Countdown tick
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const location = view?.location;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-brand px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-md glass-md rounded-2xl p-6 space-y-6"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 rounded-2xl bg-violet-500/15 border border-violet-500/30 flex items-center justify-center">
+              <Shield className="w-6 h-6 text-violet-400" />
+            </div>
+            <h1 className="text-lg font-bold text-white">{t.title}</h1>
+          </div>
+          <button
+            onClick={() => setLanguage(language === 'en' ? 'hi' : 'en')}
+            className="flex items-center space-x-1 text-xs text-violet-300 hover:text-violet-200"
+          >
+            <Languages className="w-4 h-4" />
+            <span>{t.switchLanguage}</span>
+          </button>
+        </div>
+
+        {state === 'loading' && (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-8 h-8 text-violet-400 animate-spin" />
+          </div>
+        )}
+
+        {(state === 'ended' || state === 'invalid') && (
+          <div className="text-center py-6 space-y-3">
+            <div className="w-14 h-14 mx-auto rounded-full bg-white/5 border border-white/10 flex items-center justify-center">
+              <ShieldOff className="w-7 h-7 text-midnight-300" />
+            </div>
+            <p className="text-base font-semibold text-white">
+              {state === 'ended' ? t.endedTitle : t.invalidTitle}
+            </p>
+            <p className="text-sm text-midnight-300">
+              {state === 'ended' ? t.endedBody : t.invalidBody}
+            </p>
+          </div>
+        )}
+
+        {state === 'live' && view && (
+          <>
+            <div className="space-y-1">
+              <p className="text-sm text-white">
+                {view.ownerName ? t.sharedBy(view.ownerName) : t.sharedByUnknown}
+              </p>
+              {view.matchName && (
+                <p className="text-xs text-midnight-300">{t.onDateWith(view.matchName)}</p>
+              )}
+            </div>
+
+            {location ? (
+              <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+                <div className="flex items-center space-x-2">
+                  <MapPin className="w-5 h-5 text-violet-400" />
+                  <p className="text-sm font-medium text-white">
+                    {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                  </p>
+                </div>
+                <p className="text-xs text-midnight-400">
+                  {t.lastUpdated}: {new Date(location.recordedAt).toLocaleTimeString(language === 'hi' ? 'hi-IN' : 'en-IN')}
+                  {location.accuracy !== null && ` · ${t.accuracy} ±${Math.round(location.accuracy)} m`}
+                </p>
+                <a
+                  href={`https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full py-3 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold flex items-center justify-center space-x-2"
+                >
+                  <Navigation className="w-4 h-4" />
+                  <span>{t.openInMaps}</span>
+                </a>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2 p-4 rounded-xl bg-white/5 border border-white/10">
+                <Loader2 className="w-4 h-4 text-violet-400 animate-spin" />
+                <p className="text-sm text-midnight-300">{t.waiting}</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center space-x-2 text-midnight-300">
+                <Clock className="w-4 h-4" />
+                <span>{t.endsIn}</span>
+              </span>
+              <span
+                className={cn(
+                  'font-mono font-semibold',
+                  Date.parse(view.expiresAt) - now < 10 * 60 * 1000 ? 'text-amber-400' : 'text-white'
+                )}
+              >
+                {formatRemaining(view.expiresAt, now)}
+              </span>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-midnight-400">{t.safetyNote}</p>
+      </motion.div>
+    </div>
+  );
+}
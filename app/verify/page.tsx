@@ -10,7 +10,7 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -32,6 +32,14 @@ import {
 } from 'lucide-react';
 import { VerificationTier, VerificationBadgeLarge } from '@/components/VerificationBadge';
 import { VerificationProgress } from '@/components/VerificationProgress';
+import {
+  digiLockerService,
+  videoSelfieService,
+  getUserMessage,
+  type ApiError,
+  type LivenessChallenge,
+  type LivenessStep,
+} from '@/lib/api';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -44,6 +52,17 @@ function cn(...classes: (string | undefined | null | false)[]) {
 // ─────────────────────────────────────────────────────────────────────────────
 type VerificationStep = 'intro' | 'phone' | 'digilocker' | 'video' | 'complete';
 
+type RecordingPhase = 'idle' | 'countdown' | 'recording' | 'recorded' | 'submitting';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+// Time given for each challenge prompt while recording
+const PROMPT_SECONDS = 3;
+
+// Reuse a challenge for a retake only if there is time left to record and upload
+const CHALLENGE_REUSE_MARGIN_MS = 45 * 1000;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Translations
 // ─────────────────────────────────────────────────────────────────────────────
@@ -72,6 +91,7 @@ const TRANSLATIONS = {
       connect: 'Connect with DigiLocker',
       benefit: 'Get Silver badge + 10% premium discount',
       supported: 'Supported IDs: Aadhaar, PAN, Passport, Driving License',
+      failed: 'DigiLocker verification did not complete. Please try again.',
     },
     video: {
       title: 'Video Selfie',
@@ -79,13 +99,23 @@ const TRANSLATIONS = {
       description: 'This helps prevent fake profiles and catfishing',
       record: 'Record Selfie',
       retake: 'Retake',
-      use: 'Use This Photo',
+      use: 'Use This Video',
+      verifying: 'Verifying...',
+      uploading: 'Uploading',
       instructions: [
         'Look directly at the camera',
         'Ensure good lighting',
         'Remove glasses or face coverings',
-        'Smile naturally',
+        'Follow each prompt on screen, in order',
       ],
+      prompts: {
+        left: 'Turn your head left',
+        right: 'Turn your head right',
+        up: 'Look up',
+        down: 'Look down',
+        blink: 'Blink {count} times',
+      },
+      cameraDenied: 'Camera access denied. Please enable permissions.',
       benefit: 'Get Gold badge + Priority matching',
     },
     complete: {
@@ -122,6 +152,7 @@ const TRANSLATIONS = {
       connect: 'DigiLocker से कनेक्ट करें',
       benefit: 'सिल्वर बैज + 10% प्रीमियम छूट प्राप्त करें',
       supported: 'समर्थित ID: आधार, पैन, पासपोर्ट, ड्राइविंग लाइसेंस',
+      failed: 'DigiLocker सत्यापन पूरा नहीं हुआ। कृपया पुनः प्रयास करें।',
     },
     video: {
       title: 'वीडियो सेल्फी',
@@ -129,13 +160,23 @@ const TRANSLATIONS = {
       description: 'यह नकली प्रोफ़ाइल और कैटफिशिंग को रोकने में मदद करता है',
       record: 'सेल्फी रिकॉर्ड करें',
       retake: 'पुनः लें',
-      use: 'यह फ़ोटो उपयोग करें',
+      use: 'यह वीडियो उपयोग करें',
+      verifying: 'सत्यापित हो रहा है...',
+      uploading: 'अपलोड हो रहा है',
       instructions: [
         'कैमरे की ओर सीधे देखें',
         'अच्छी रोशनी सुनिश्चित करें',
         'चश्मा या चेहरा कवर हटाएं',
-        'प्राकृतिक रूप से मुस्कुराएं',
+        'स्क्रीन पर हर निर्देश क्रम से पूरा करें',
       ],
+      prompts: {
+        left: 'सिर बाईं ओर घुमाएं',
+        right: 'सिर दाईं ओर घुमाएं',
+        up: 'ऊपर देखें',
+        down: 'नीचे देखें',
+        blink: '{count} बार पलकें झपकाएं',
+      },
+      cameraDenied: 'कैमरा एक्सेस अस्वीकृत। कृपया अनुमति सक्षम करें।',
       benefit: 'गोल्ड बैज + प्राथमिकता मिलान प्राप्त करें',
     },
     complete: {
@@ -266,22 +307,28 @@ function PhoneVerificationStep({
 // DigiLocker Verification Step
 // ─────────────────────────────────────────────────────────────────────────────
 function DigiLockerVerificationStep({
-  onComplete,
+  returnedWithError,
   language,
 }: {
-  onComplete: () => void;
+  returnedWithError: boolean;
   language: 'en' | 'hi';
 }) {
   const t = TRANSLATIONS[language].digilocker;
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(returnedWithError ? t.failed : null);
 
+  // DigiLocker sends the browser back here; VerifyPage picks up the outcome
   const handleConnect = async () => {
     setIsLoading(true);
-    // Simulate DigiLocker OAuth
-    // In production: window.location.href = digilockerAuthUrl;
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsLoading(false);
-    onComplete();
+    setError(null);
+
+    try {
+      const { authorizationUrl } = await digiLockerService.init('/verify');
+      window.location.href = authorizationUrl;
+    } catch (err) {
+      setError(getUserMessage(err as ApiError, language));
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -304,6 +351,13 @@ function DigiLockerVerificationStep({
         </div>
       </div>
 
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-red-200">{error}</p>
+        </div>
+      )}
+
       <motion.button
         whileHover={{ scale: 1.02 }}
         whileTap={{ scale: 0.98 }}
@@ -350,26 +404,150 @@ function VideoSelfieVerificationStep({
   language: 'en' | 'hi';
 }) {
   const t = TRANSLATIONS[language].video;
-  const [isRecording, setIsRecording] = useState(false);
-  const [hasRecorded, setHasRecorded] = useState(false);
+  const [phase, setPhase] = useState<RecordingPhase>('idle');
   const [countdown, setCountdown] = useState(3);
+  const [challenge, setChallenge] = useState<LivenessChallenge | null>(null);
+  const [promptIndex, setPromptIndex] = useState(0);
+  const [clip, setClip] = useState<Blob | null>(null);
+  const [clipSeconds, setClipSeconds] = useState(0);
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const isRecording = phase === 'countdown' || phase === 'recording';
+
+  const stopCamera = () => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => stopCamera, []);
+
+  const describeStep = (step: LivenessStep) =>
+    step.type === 'blink'
+      ? t.prompts.blink.replace('{count}', String(step.count))
+      : t.prompts[step.direction];
+
+  const handleRecord = async () => {
+    setError(null);
+    setClip(null);
+
+    try {
+      // Prompts are issued by the server so a pre-recorded clip cannot answer them
+      const current =
+        challenge &&
+        new Date(challenge.expiresAt).getTime() - Date.now() > CHALLENGE_REUSE_MARGIN_MS
+          ? challenge
+          : await videoSelfieService.getChallenge();
+      setChallenge(current);
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'user' },
+          audio: false,
+        });
+      } catch {
+        setError(t.cameraDenied);
+        return;
+      }
+
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
 
-  const handleRecord = () => {
-    setIsRecording(true);
-    // Countdown before recording
-    let count = 3;
-    const interval = setInterval(() => {
-      count--;
-      setCountdown(count);
-      if (count <= 0) {
-        clearInterval(interval);
-        // Simulate 3-second recording
+      // Countdown before recording
+      setPhase('countdown');
+      setCountdown(3);
+      for (let count = 2; count >= 0; count--) {
+        timersRef.current.push(setTimeout(() => setCountdown(count), (3 - count) * 1000));
+      }
+
+      timersRef.current.push(
         setTimeout(() => {
-          setIsRecording(false);
-          setHasRecorded(true);
-        }, 3000);
+          const chunks: Blob[] = [];
+          const recorder = new MediaRecorder(stream);
+          const startedAt = Date.now();
+
+          recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+          };
+
+          recorder.onstop = () => {
+            setClip(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+            setClipSeconds((Date.now() - startedAt) / 1000);
+            setPhase('recorded');
+            stopCamera();
+          };
+
+          recorder.start();
+          setPhase('recording');
+          setPromptIndex(0);
+
+          current.steps.forEach((_, index) => {
+            timersRef.current.push(
+              setTimeout(() => setPromptIndex(index), index * PROMPT_SECONDS * 1000)
+            );
+          });
+
+          timersRef.current.push(
+            setTimeout(() => recorder.stop(), (current.steps.length * PROMPT_SECONDS + 1) * 1000)
+          );
+        }, 3000)
+      );
+    } catch (err) {
+      stopCamera();
+      setPhase('idle');
+      setError(getUserMessage(err as ApiError, language));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!challenge || !clip) return;
+
+    setPhase('submitting');
+    setError(null);
+    setUploadPercent(0);
+
+    try {
+      await videoSelfieService.verify(
+        challenge.id,
+        clip,
+        {
+          deviceInfo: navigator.userAgent.slice(0, 200),
+          captureDuration: clipSeconds,
+          frameCount: 0,
+        },
+        (uploaded, total) => setUploadPercent(Math.round((uploaded / total) * 100))
+      );
+      onComplete();
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(getUserMessage(apiError, language));
+
+      // A checked challenge is spent; the next attempt needs fresh prompts
+      if (
+        apiError.code === 'LIVENESS_DETECTION_FAILED' ||
+        apiError.code === 'LIVENESS_CHALLENGE_INVALID' ||
+        apiError.code === 'FACE_MATCH_FAILED' ||
+        apiError.code === 'INVALID_VIDEO_FORMAT' ||
+        apiError.code === 'VIDEO_UPLOAD_NOT_FOUND'
+      ) {
+        setChallenge(null);
+        setClip(null);
+        setPhase('idle');
+      } else {
+        setPhase('recorded');
       }
-    }, 1000);
+    } finally {
+      setUploadPercent(null);
+    }
   };
 
   return (
@@ -394,17 +572,27 @@ function VideoSelfieVerificationStep({
 
       {/* Camera Preview */}
       <div className="relative aspect-[3/4] rounded-2xl bg-gradient-to-br from-gray-800 to-gray-900 border border-white/10 overflow-hidden">
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className={cn(
+            'absolute inset-0 w-full h-full object-cover -scale-x-100',
+            !isRecording && 'hidden'
+          )}
+        />
         {isRecording ? (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="text-center">
               <motion.div
                 animate={{ scale: [1, 1.2, 1] }}
                 transition={{ duration: 1, repeat: Infinity }}
-                className="w-16 h-16 rounded-full bg-red-500/30 border-2 border-red-500 flex items-center justify-center mb-4"
+                className="w-16 h-16 rounded-full bg-red-500/30 border-2 border-red-500 flex items-center justify-center mb-4 mx-auto"
               >
                 <div className="w-6 h-6 rounded-full bg-red-500" />
               </motion.div>
-              {countdown > 0 && (
+              {phase === 'countdown' && countdown > 0 && (
                 <motion.span
                   key={countdown}
                   initial={{ scale: 1.5, opacity: 0 }}
@@ -414,9 +602,19 @@ function VideoSelfieVerificationStep({
                   {countdown}
                 </motion.span>
               )}
+              {phase === 'recording' && challenge && (
+                <motion.p
+                  key={promptIndex}
+                  initial={{ scale: 1.2, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  className="px-4 py-2 rounded-xl bg-black/60 text-lg font-semibold text-white"
+                >
+                  {describeStep(challenge.steps[promptIndex])}
+                </motion.p>
+              )}
             </div>
           </div>
-        ) : hasRecorded ? (
+        ) : clip ? (
           <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-yellow-500/20 to-yellow-600/20">
             <CheckCircle2 className="w-20 h-20 text-yellow-400" />
           </div>
@@ -427,8 +625,15 @@ function VideoSelfieVerificationStep({
         )}
       </div>
 
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-red-200">{error}</p>
+        </div>
+      )}
+
       {/* Action Buttons */}
-      {!hasRecorded ? (
+      {!clip ? (
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
@@ -442,18 +647,24 @@ function VideoSelfieVerificationStep({
       ) : (
         <div className="grid grid-cols-2 gap-3">
           <button
-            onClick={() => setHasRecorded(false)}
-            className="py-3.5 rounded-xl glass-sm border border-white/10 text-gray-300 font-medium hover:bg-white/5"
+            onClick={handleRecord}
+            disabled={phase === 'submitting'}
+            className="py-3.5 rounded-xl glass-sm border border-white/10 text-gray-300 font-medium hover:bg-white/5 disabled:opacity-50"
           >
             {t.retake}
           </button>
           <motion.button
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
-            onClick={onComplete}
-            className="py-3.5 rounded-xl bg-gradient-to-r from-yellow-500 to-yellow-600 text-white font-semibold"
+            onClick={handleSubmit}
+            disabled={phase === 'submitting'}
+            className="py-3.5 rounded-xl bg-gradient-to-r from-yellow-500 to-yellow-600 text-white font-semibold disabled:opacity-50"
           >
-            {t.use}
+            {phase !== 'submitting'
+              ? t.use
+              : uploadPercent !== null && uploadPercent < 100
+                ? `${t.uploading} ${uploadPercent}%`
+                : t.verifying}
           </motion.button>
         </div>
       )}
@@ -546,9 +757,27 @@ export default function VerifyPage() {
   const [currentStep, setCurrentStep] = useState<VerificationStep>('intro');
   const [language, setLanguage] = useState<'en' | 'hi'>('en');
   const [completedSteps, setCompletedSteps] = useState<('phone' | 'digilocker' | 'video')[]>([]);
+  const [digiLockerFailed, setDigiLockerFailed] = useState(false);
 
   const t = TRANSLATIONS[language];
 
+  // Back from DigiLocker: the callback appends ?digilocker=verified|failed
+  useEffect(() => {
+    const outcome = new URLSearchParams(window.location.search).get('digilocker');
+    if (!outcome) return;
+
+    if (outcome === 'verified') {
+      setCompletedSteps(['phone', 'digilocker']);
+      setCurrentStep('video');
+    } else {
+      setCompletedSteps(['phone']);
+      setDigiLockerFailed(true);
+      setCurrentStep('digilocker');
+    }
+
+    router.replace('/verify');
+  }, [router]);
+
   const handleStepComplete = (step: 'phone' | 'digilocker' | 'video') => {
     setCompletedSteps((prev) => [...prev, step]);
 
@@ -663,7 +892,7 @@ export default function VerifyPage() {
             {currentStep === 'digilocker' && (
               <DigiLockerVerificationStep
                 key="digilocker"
-                onComplete={() => handleStepComplete('digilocker')}
+                returnedWithError={digiLockerFailed}
                 language={language}
               />
             )}
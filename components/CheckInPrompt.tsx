@@ -0,0 +1,165 @@
+/**
+ * Bandhan AI - Check-in Prompt
+ * Card above the safety button while a date check-in is running
+ *
+ * Features:
+ * - Shows when contacts will be alerted
+ * - Turns urgent once the expected end time passes
+ * - "I'm safe" with the safety PIN
+ *
+ * Privacy:
+ * - The duress PIN gives the same result on screen while alerting contacts
+ * - DPDP Act 2023 compliant
+ */
+
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle2, Clock, Loader2, ShieldAlert } from "lucide-react";
+import { getUserMessage, type ApiError, type SafetyCheckIn } from "@/lib/api";
+import { clsx } from "clsx";
+import { twMerge } from "tailwind-merge";
+
+function cn(...classes: (string | undefined | null | false)[]) {
+  return twMerge(clsx(classes));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+interface CheckInPromptProps {
+  checkIn: SafetyCheckIn;
+  isReminderDue: boolean;
+  onConfirm: (pin: string) => Promise<unknown>;
+  language?: "en" | "hi";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Translations
+// ─────────────────────────────────────────────────────────────────────────────
+const TRANSLATIONS = {
+  en: {
+    scheduled: "Check-in at",
+    reminder: "Did you get home safe?",
+    reminderBody: "Confirm now or your contacts will be alerted.",
+    alerted: "Your contacts have been alerted",
+    imSafe: "I'm safe",
+    enterPin: "Enter your safety PIN",
+    confirm: "Confirm",
+  },
+  hi: {
+    scheduled: "चेक-इन का समय",
+    reminder: "क्या आप सुरक्षित घर पहुंच गए?",
+    reminderBody: "अभी पुष्टि करें वरना आपके संपर्कों को सूचित किया जाएगा।",
+    alerted: "आपके संपर्कों को सूचित कर दिया गया है",
+    imSafe: "मैं सुरक्षित हूं",
+    enterPin: "अपना सुरक्षा PIN दर्ज करें",
+    confirm: "पुष्टि करें",
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+export function CheckInPrompt({
+  checkIn,
+  isReminderDue,
+  onConfirm,
+  language = "en",
+}: CheckInPromptProps) {
+  const [showPin, setShowPin] = useState(false);
+  const [pin, setPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = TRANSLATIONS[language];
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onConfirm(pin);
+      setPin("");
+      setShowPin(false);
+    } catch (err) {
+      setError(getUserMessage(err as ApiError, language));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className={cn(
+        "absolute bottom-20 right-0 w-72 p-4 rounded-2xl border shadow-2xl backdrop-blur-md space-y-3",
+        isReminderDue
+          ? "bg-amber-950/90 border-amber-500/40"
+          : "bg-midnight-900/90 border-white/10"
+      )}
+    >
+      <div className="flex items-start space-x-3">
+        {isReminderDue ? (
+          <ShieldAlert className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+        ) : (
+          <Clock className="w-5 h-5 text-violet-400 flex-shrink-0 mt-0.5" />
+        )}
+        <div>
+          {isReminderDue ? (
+            <>
+              <p className="text-sm font-semibold text-white">{t.reminder}</p>
+              <p className="text-xs text-amber-200 mt-0.5">
+                {checkIn.contactsAlerted > 0 ? t.alerted : t.reminderBody}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-white">
+              {t.scheduled}{" "}
+              {new Date(checkIn.expectedEndAt).toLocaleTimeString("en-IN", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {showPin ? (
+        <div className="space-y-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            placeholder={t.enterPin}
+            className="w-full px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 text-center tracking-[0.5em] text-white placeholder:tracking-normal placeholder:text-midnight-500 focus:outline-none focus:border-violet-500/50"
+          />
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <button
+            onClick={handleConfirm}
+            disabled={pin.length < 4 || isSubmitting}
+            className="w-full py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-green-600 text-white text-sm font-semibold disabled:opacity-60 flex items-center justify-center space-x-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{t.confirm}</span>
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowPin(true)}
+          className="w-full py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-green-600 text-white text-sm font-semibold flex items-center justify-center space-x-2"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+          <span>{t.imSafe}</span>
+        </button>
+      )}
+    </motion.div>
+  );
+}
+
+export default CheckInPrompt;
@@ -0,0 +1,192 @@
+/**
+ * Bandhan AI - Consent Interstitial
+ * Full-screen notice shown by ProtectedRoute when the privacy notice changed
+ * since the user last consented (or they never did)
+ *
+ * Privacy:
+ * - Every purpose is opt-in and pre-filled with the user's previous choice
+ * - Consent is recorded against the exact notice version and hash shown
+ * - DPDP Act 2023 compliant
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileText, Languages, Loader2, Lock } from 'lucide-react';
+import {
+  consentService,
+  getUserMessage,
+  type ApiError,
+  type ConsentChoices,
+  type ConsentPurpose,
+  type ConsentStatus,
+} from '@/lib/api';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+function cn(...classes: (string | undefined | null | false)[]) {
+  return twMerge(clsx(classes));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+interface ConsentInterstitialProps {
+  status: ConsentStatus;
+  onAccepted: () => void;
+  onNoticeChanged: () => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Translations
+// ─────────────────────────────────────────────────────────────────────────────
+const TRANSLATIONS = {
+  en: {
+    title: 'Our privacy notice has changed',
+    firstTitle: 'Your privacy choices',
+    subtitle: 'Please review how we use your data and choose what you allow.',
+    version: 'Notice version',
+    optional: 'Each purpose is optional. You can change these later in your profile.',
+    accept: 'Save and continue',
+    saving: 'Saving...',
+    withdrawInfo: 'You can withdraw consent at any time under the DPDP Act 2023.',
+    switchLanguage: 'हिंदी में पढ़ें',
+  },
+  hi: {
+    title: 'हमारी गोपनीयता सूचना बदल गई है',
+    firstTitle: 'आपकी गोपनीयता पसंद',
+    subtitle: 'कृपया देखें कि हम आपके डेटा का उपयोग कैसे करते हैं और चुनें कि आप क्या अनुमति देते हैं।',
+    version: 'सूचना संस्करण',
+    optional: 'हर उद्देश्य वैकल्पिक है। आप इन्हें बाद में अपनी प्रोफ़ाइल में बदल सकते हैं।',
+    accept: 'सहेजें और जारी रखें',
+    saving: 'सहेजा जा रहा है...',
+    withdrawInfo: 'DPDP अधिनियम 2023 के तहत आप कभी भी सहमति वापस ले सकते हैं।',
+    switchLanguage: 'Read in English',
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+export function ConsentInterstitial({ status, onAccepted, onNoticeChanged }: ConsentInterstitialProps) {
+  const { consent, notice } = status;
+  const [language, setLanguage] = useState<'en' | 'hi'>('en');
+  const [choices, setChoices] = useState<ConsentChoices>({
+    purposeMatching: consent?.isActive ? consent.purposeMatching : false,
+    purposeMarketing: consent?.isActive ? consent.purposeMarketing : false,
+    purposeAnalytics: consent?.isActive ? consent.purposeAnalytics : false,
+    purposeThirdParty: consent?.isActive ? consent.purposeThirdParty : false,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = TRANSLATIONS[language];
+
+  const toggle = (purpose: ConsentPurpose) =>
+    setChoices((current) => ({ ...current, [purpose]: !current[purpose] }));
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await consentService.giveConsent(choices, notice);
+      onAccepted();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // A newer notice took effect while this one was open; show that one instead
+      if (apiError?.code === 'CONSENT_NOTICE_OUTDATED') {
+        onNoticeChanged();
+        return;
+      }
+
+      setError(getUserMessage(apiError, language));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-brand px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-lg glass-md rounded-2xl p-6 space-y-6"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 rounded-2xl bg-violet-500/15 border border-violet-500/30 flex items-center justify-center">
+              <FileText className="w-6 h-6 text-violet-400" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-white">
+                {consent ? t.title : t.firstTitle}
+              </h1>
+              <p className="text-xs text-midnight-400">
+                {t.version} {notice.version}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setLanguage(language === 'en' ? 'hi' : 'en')}
+            className="flex items-center space-x-1 text-xs text-violet-300 hover:text-violet-200"
+          >
+            <Languages className="w-4 h-4" />
+            <span>{t.switchLanguage}</span>
+          </button>
+        </div>
+
+        <p className="text-sm text-midnight-300">{t.subtitle}</p>
+
+        {/* Purposes */}
+        <div className="space-y-3">
+          {notice.purposes.map(({ purpose, title, body }) => (
+            <label
+              key={purpose}
+              className={cn(
+                'block p-4 rounded-xl border cursor-pointer transition-colors',
+                choices[purpose]
+                  ? 'bg-violet-500/10 border-violet-500/30'
+                  : 'bg-white/5 border-white/10'
+              )}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm font-medium text-white">{title[language]}</p>
+                <input
+                  type="checkbox"
+                  checked={choices[purpose]}
+                  onChange={() => toggle(purpose)}
+                  className="w-4 h-4 accent-violet-500"
+                />
+              </div>
+              <p className="text-xs text-midnight-300 mt-2 leading-relaxed">{body[language]}</p>
+            </label>
+          ))}
+        </div>
+
+        <p className="text-xs text-midnight-400">{t.optional}</p>
+
+        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+        <button
+          onClick={handleAccept}
+          disabled={isSaving}
+          className="w-full py-3.5 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold hover:shadow-lg hover:shadow-violet-500/30 transition-shadow disabled:opacity-60 flex items-center justify-center space-x-2"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>{isSaving ? t.saving : t.accept}</span>
+        </button>
+
+        <div className="flex items-start space-x-2">
+          <Lock className="w-4 h-4 text-emerald-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-emerald-200">{t.withdrawInfo}</p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+export default ConsentInterstitial;
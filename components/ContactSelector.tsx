@@ -3,27 +3,33 @@
  * Select emergency contacts for location sharing
  *
  * Features:
- * - Pre-filled from device contacts (with permission)
- * - Add custom contact button
- * - Max 3 contacts selectable
- * - Contact chips with names + phone numbers
- * - Explicit consent for contact access
+ * - Saved contacts from the server (max 3, enforced there)
+ * - Add contact button; the contact gets an opt-in SMS
+ * - Verification status per contact; only verified contacts are selectable
+ * - Contact chips with names + masked phone numbers
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
   User,
-  Phone,
   X,
   Check,
-  Smartphone,
   AlertCircle,
-  Shield,
+  Clock,
+  Loader2,
+  ShieldCheck,
+  ShieldOff,
 } from 'lucide-react';
+import {
+  emergencyContactService,
+  getUserMessage,
+  type ApiError,
+  type EmergencyContact,
+} from '@/lib/api';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -34,12 +40,7 @@ function cn(...classes: (string | undefined | null | false)[]) {
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
-export interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  relationship?: string;
-}
+export type { EmergencyContact };
 
 interface ContactSelectorProps {
   selectedContacts: EmergencyContact[];
@@ -48,18 +49,6 @@ interface ContactSelectorProps {
   language?: 'en' | 'hi';
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Mock Contacts (in production, fetch from device)
-// ─────────────────────────────────────────────────────────────────────────────
-const MOCK_CONTACTS: EmergencyContact[] = [
-  { id: '1', name: 'Mom', phone: '+91 98765 43210', relationship: 'Mother' },
-  { id: '2', name: 'Dad', phone: '+91 98765 43211', relationship: 'Father' },
-  { id: '3', name: 'Best Friend - Riya', phone: '+91 98765 43212', relationship: 'Friend' },
-  { id: '4', name: 'Sister - Anjali', phone: '+91 98765 43213', relationship: 'Sister' },
-  { id: '5', name: 'Brother - Rahul', phone: '+91 98765 43214', relationship: 'Brother' },
-  { id: '6', name: 'Colleague - Priya', phone: '+91 98765 43215', relationship: 'Colleague' },
-];
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Translations
 // ─────────────────────────────────────────────────────────────────────────────
@@ -73,14 +62,20 @@ const TRANSLATIONS = {
     contactsSelectedHi: 'संपर्क चुने गए',
     maxReached: 'Maximum 3 contacts reached',
     maxReachedHi: 'अधिकतम 3 संपर्क पहुंच गए',
-    permissionRequired: 'Contact access required',
-    permissionRequiredHi: 'संपर्क पहुंच आवश्यक',
-    grantPermission: 'Grant Permission',
-    grantPermissionHi: 'अनुमति दें',
-    permissionDesc: 'We need access to your contacts to select emergency contacts. Contacts are not stored permanently.',
-    permissionDescHi: 'आपातकालीन संपर्क चुनने के लिए हमें आपके संपर्कों की पहुंच चाहिए। संपर्क स्थायी रूप से संग्रहीत नहीं हैं।',
-    customContact: 'Custom Contact',
-    customContactHi: 'कस्टम संपर्क',
+    verified: 'Verified',
+    verifiedHi: 'सत्यापित',
+    pending: 'Awaiting confirmation',
+    pendingHi: 'पुष्टि की प्रतीक्षा',
+    declined: 'Declined',
+    declinedHi: 'अस्वीकृत',
+    resend: 'Resend SMS',
+    resendHi: 'SMS दोबारा भेजें',
+    noContacts: 'Add up to 3 people you trust. Each gets an SMS to confirm before they receive safety alerts.',
+    noContactsHi: 'अधिकतम 3 भरोसेमंद लोगों को जोड़ें। सुरक्षा अलर्ट पाने से पहले हर किसी को पुष्टि के लिए SMS मिलेगा।',
+    customContact: 'New Emergency Contact',
+    customContactHi: 'नया आपातकालीन संपर्क',
+    optInNote: 'We will text them a link to confirm. They can be selected once they accept.',
+    optInNoteHi: 'हम उन्हें पुष्टि के लिए एक लिंक भेजेंगे। स्वीकार करने के बाद उन्हें चुना जा सकेगा।',
     enterName: 'Enter name',
     enterNameHi: 'नाम दर्ज करें',
     enterPhone: 'Enter phone number',
@@ -103,14 +98,20 @@ const TRANSLATIONS = {
     contactsSelectedHi: 'संपर्क चुने गए',
     maxReached: 'अधिकतम 3 संपर्क पहुंच गए',
     maxReachedHi: 'अधिकतम 3 संपर्क पहुंच गए',
-    permissionRequired: 'संपर्क पहुंच आवश्यक',
-    permissionRequiredHi: 'संपर्क पहुंच आवश्यक',
-    grantPermission: 'अनुमति दें',
-    grantPermissionHi: 'अनुमति दें',
-    permissionDesc: 'आपातकालीन संपर्क चुनने के लिए हमें आपके संपर्कों की पहुंच चाहिए। संपर्क स्थायी रूप से संग्रहीत नहीं हैं।',
-    permissionDescHi: 'आपातकालीन संपर्क चुनने के लिए हमें आपके संपर्कों की पहुंच चाहिए। संपर्क स्थायी रूप से संग्रहीत नहीं हैं।',
-    customContact: 'कस्टम संपर्क',
-    customContactHi: 'कस्टम संपर्क',
+    verified: 'सत्यापित',
+    verifiedHi: 'सत्यापित',
+    pending: 'पुष्टि की प्रतीक्षा',
+    pendingHi: 'पुष्टि की प्रतीक्षा',
+    declined: 'अस्वीकृत',
+    declinedHi: 'अस्वीकृत',
+    resend: 'SMS दोबारा भेजें',
+    resendHi: 'SMS दोबारा भेजें',
+    noContacts: 'अधिकतम 3 भरोसेमंद लोगों को जोड़ें। सुरक्षा अलर्ट पाने से पहले हर किसी को पुष्टि के लिए SMS मिलेगा।',
+    noContactsHi: 'अधिकतम 3 भरोसेमंद लोगों को जोड़ें। सुरक्षा अलर्ट पाने से पहले हर किसी को पुष्टि के लिए SMS मिलेगा।',
+    customContact: 'नया आपातकालीन संपर्क',
+    customContactHi: 'नया आपातकालीन संपर्क',
+    optInNote: 'हम उन्हें पुष्टि के लिए एक लिंक भेजेंगे। स्वीकार करने के बाद उन्हें चुना जा सकेगा।',
+    optInNoteHi: 'हम उन्हें पुष्टि के लिए एक लिंक भेजेंगे। स्वीकार करने के बाद उन्हें चुना जा सकेगा।',
     enterName: 'नाम दर्ज करें',
     enterNameHi: 'नाम दर्ज करें',
     enterPhone: 'फ़ोन नंबर दर्ज करें',
@@ -135,6 +136,7 @@ function ContactItem({
   isDisabled,
   onSelect,
   onRemove,
+  onResend,
   language,
 }: {
   contact: EmergencyContact;
@@ -142,9 +144,16 @@ function ContactItem({
   isDisabled: boolean;
   onSelect: () => void;
   onRemove: () => void;
+  onResend: () => void;
   language: 'en' | 'hi';
 }) {
   const t = TRANSLATIONS[language];
+  const status = {
+    verified: { icon: ShieldCheck, label: language === 'en' ? t.verified : t.verifiedHi, color: 'text-emerald-400' },
+    pending: { icon: Clock, label: language === 'en' ? t.pending : t.pendingHi, color: 'text-amber-400' },
+    declined: { icon: ShieldOff, label: language === 'en' ? t.declined : t.declinedHi, color: 'text-rose-400' },
+  }[contact.status];
+  const StatusIcon = status.icon;
 
   return (
     <motion.div
@@ -189,13 +198,30 @@ function ContactItem({
           >
             {contact.name}
           </p>
-          <p className="text-xs text-gray-400">{contact.phone}</p>
-          {contact.relationship && (
-            <p className="text-xs text-gray-500">{contact.relationship}</p>
-          )}
+          <p className="text-xs text-gray-400">
+            {contact.phone}
+            {contact.relationship && ` · ${contact.relationship}`}
+          </p>
+          <p className={cn('flex items-center space-x-1 text-xs mt-0.5', status.color)}>
+            <StatusIcon className="w-3 h-3" />
+            <span>{status.label}</span>
+          </p>
         </div>
       </div>
 
+      {/* Resend opt-in SMS (for contacts who have not answered) */}
+      {contact.status === 'pending' && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onResend();
+          }}
+          className="text-xs text-violet-400 hover:text-violet-300"
+        >
+          {language === 'en' ? t.resend : t.resendHi}
+        </button>
+      )}
+
       {/* Remove Button (for selected contacts) */}
       {isSelected && (
         <button
@@ -230,22 +256,37 @@ function AddContactModal({
   const [name, setName] = useState('');
   const [phone, setPhone] = useState('');
   const [relationship, setRelationship] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!name || !phone) return;
 
-    onAdd({
-      id: `custom-${Date.now()}`,
-      name,
-      phone,
-      relationship: relationship || undefined,
-    });
-
-    // Reset form
-    setName('');
-    setPhone('');
-    setRelationship('');
-    onClose();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      // The server expects +91XXXXXXXXXX
+      const digits = phone.replace(/\D/g, '');
+      const response = await emergencyContactService.addContact({
+        name,
+        phone: `+91${digits.slice(-10)}`,
+        relationship: relationship || undefined,
+        language,
+      });
+
+      onAdd(response.data);
+
+      // Reset form
+      setName('');
+      setPhone('');
+      setRelationship('');
+      onClose();
+    } catch (err) {
+      setError(getUserMessage(err as ApiError, language));
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   if (!isOpen) return null;
@@ -328,6 +369,11 @@ function AddContactModal({
                       placeholder={language === 'en' ? 'Friend, Family, etc.' : 'दोस्त, परिवार, आदि'}
                     />
                   </div>
+
+                  <p className="text-xs text-gray-500">
+                    {language === 'en' ? t.optInNote : t.optInNoteHi}
+                  </p>
+                  {error && <p className="text-xs text-rose-400">{error}</p>}
                 </div>
 
                 {/* Actions */}
@@ -342,10 +388,11 @@ function AddContactModal({
                     whileHover={{ scale: name && phone ? 1.02 : 1 }}
                     whileTap={{ scale: name && phone ? 0.98 : 1 }}
                     onClick={handleSave}
-                    disabled={!name || !phone}
-                    className="flex-1 py-3 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={!name || !phone || isSaving}
+                    className="flex-1 py-3 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                   >
-                    {language === 'en' ? t.save : t.saveHi}
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <span>{language === 'en' ? t.save : t.saveHi}</span>
                   </motion.button>
                 </div>
               </div>
@@ -357,41 +404,6 @@ function AddContactModal({
   );
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Permission Request Component
-// ─────────────────────────────────────────────────────────────────────────────
-function PermissionRequest({
-  onGrant,
-  language,
-}: {
-  onGrant: () => void;
-  language: 'en' | 'hi';
-}) {
-  const t = TRANSLATIONS[language];
-
-  return (
-    <div className="text-center p-6">
-      <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-amber-500/20 to-orange-500/20 border border-amber-500/30 mb-4">
-        <Shield className="w-8 h-8 text-amber-400" />
-      </div>
-      <h3 className="text-lg font-bold text-white mb-2">
-        {language === 'en' ? t.permissionRequired : t.permissionRequiredHi}
-      </h3>
-      <p className="text-sm text-gray-400 mb-6">
-        {language === 'en' ? t.permissionDesc : t.permissionDescHi}
-      </p>
-      <motion.button
-        whileHover={{ scale: 1.02 }}
-        whileTap={{ scale: 0.98 }}
-        onClick={onGrant}
-        className="w-full py-3.5 rounded-xl bg-gradient-to-r from-amber-500 to-orange-600 text-white font-semibold"
-      >
-        {language === 'en' ? t.grantPermission : t.grantPermissionHi}
-      </motion.button>
-    </div>
-  );
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Component
 // ─────────────────────────────────────────────────────────────────────────────
@@ -402,21 +414,26 @@ export function ContactSelector({
   language = 'en',
 }: ContactSelectorProps) {
   const t = TRANSLATIONS[language];
-  const [hasPermission, setHasPermission] = useState(false);
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [customContacts, setCustomContacts] = useState<EmergencyContact[]>([]);
-
-  // Combine mock contacts with custom contacts
-  const allContacts = [...MOCK_CONTACTS, ...customContacts];
 
-  const handleGrantPermission = async () => {
-    // In production, request actual contact permission
-    // const result = await Contacts.requestPermissions();
-    // if (result.granted) { ... }
-
-    // Simulate permission grant
-    setHasPermission(true);
-  };
+  const loadContacts = useCallback(async () => {
+    try {
+      const response = await emergencyContactService.getContacts();
+      setContacts(response.data);
+    } catch (err) {
+      setError(getUserMessage(err as ApiError, language));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [language]);
+
+  // Refresh on open: contacts may have confirmed since the last visit
+  useEffect(() => {
+    loadContacts();
+  }, [loadContacts]);
 
   const handleSelectContact = (contact: EmergencyContact) => {
     if (selectedContacts.length >= maxContacts) return;
@@ -428,76 +445,98 @@ export function ContactSelector({
     onChange(selectedContacts.filter((c) => c.id !== contactId));
   };
 
-  const handleAddCustomContact = (contact: EmergencyContact) => {
-    setCustomContacts([...customContacts, contact]);
-    onChange([...selectedContacts, contact]);
+  const handleAddContact = (contact: EmergencyContact) => {
+    setContacts([...contacts, contact]);
+  };
+
+  const handleResendOptIn = async (contactId: string) => {
+    setError(null);
+
+    try {
+      const response = await emergencyContactService.resendOptIn(contactId);
+      setContacts(contacts.map((c) => (c.id === contactId ? response.data : c)));
+    } catch (err) {
+      setError(getUserMessage(err as ApiError, language));
+    }
   };
 
   const isMaxReached = selectedContacts.length >= maxContacts;
+  const canAddContact = !isLoading && contacts.length < maxContacts;
 
   return (
     <div className="space-y-4">
-      {!hasPermission ? (
-        <PermissionRequest onGrant={handleGrantPermission} language={language} />
+      {/* Selected Contacts Summary */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-400">
+          <span className="text-violet-400 font-semibold">{selectedContacts.length}</span>
+          {' / '}{maxContacts} {language === 'en' ? t.contactsSelected : t.contactsSelectedHi}
+        </p>
+        {canAddContact && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setShowAddModal(true)}
+            className="flex items-center space-x-1 px-3 py-1.5 rounded-full bg-violet-500/20 border border-violet-500/30 text-violet-400 text-sm hover:bg-violet-500/30 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{language === 'en' ? t.addContact : t.addContactHi}</span>
+          </motion.button>
+        )}
+      </div>
+
+      {/* Contact List */}
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-violet-400 animate-spin" />
+        </div>
+      ) : contacts.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          {language === 'en' ? t.noContacts : t.noContactsHi}
+        </p>
       ) : (
-        <>
-          {/* Selected Contacts Summary */}
-          <div className="flex items-center justify-between">
-            <p className="text-sm text-gray-400">
-              <span className="text-violet-400 font-semibold">{selectedContacts.length}</span>
-              {' / '}{maxContacts} {language === 'en' ? t.contactsSelected : t.contactsSelectedHi}
-            </p>
-            {!isMaxReached && (
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                onClick={() => setShowAddModal(true)}
-                className="flex items-center space-x-1 px-3 py-1.5 rounded-full bg-violet-500/20 border border-violet-500/30 text-violet-400 text-sm hover:bg-violet-500/30 transition-colors"
-              >
-                <Plus className="w-4 h-4" />
-                <span>{language === 'en' ? t.addContact : t.addContactHi}</span>
-              </motion.button>
-            )}
-          </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          <AnimatePresence>
+            {contacts.map((contact) => {
+              const isSelected = selectedContacts.some((c) => c.id === contact.id);
 
-          {/* Contact List */}
-          <div className="space-y-2 max-h-64 overflow-y-auto">
-            <AnimatePresence>
-              {allContacts.map((contact) => (
+              return (
                 <ContactItem
                   key={contact.id}
                   contact={contact}
-                  isSelected={selectedContacts.some((c) => c.id === contact.id)}
-                  isDisabled={isMaxReached && !selectedContacts.some((c) => c.id === contact.id)}
+                  isSelected={isSelected}
+                  isDisabled={!isSelected && (isMaxReached || contact.status !== 'verified')}
                   onSelect={() => handleSelectContact(contact)}
                   onRemove={() => handleRemoveContact(contact.id)}
+                  onResend={() => handleResendOptIn(contact.id)}
                   language={language}
                 />
-              ))}
-            </AnimatePresence>
-          </div>
-
-          {/* Max Reached Warning */}
-          {isMaxReached && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="flex items-center space-x-2 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20"
-            >
-              <AlertCircle className="w-4 h-4 text-amber-400 flex-shrink-0" />
-              <p className="text-xs text-amber-200">
-                {language === 'en' ? t.maxReached : t.maxReachedHi}
-              </p>
-            </motion.div>
-          )}
-        </>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {/* Max Reached Warning */}
+      {isMaxReached && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center space-x-2 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20"
+        >
+          <AlertCircle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+          <p className="text-xs text-amber-200">
+            {language === 'en' ? t.maxReached : t.maxReachedHi}
+          </p>
+        </motion.div>
       )}
 
       {/* Add Contact Modal */}
       <AddContactModal
         isOpen={showAddModal}
         onClose={() => setShowAddModal(false)}
-        onAdd={handleAddCustomContact}
+        onAdd={handleAddContact}
         language={language}
       />
     </div>
@@ -1,9 +1,11 @@
 'use client';
 
-import { useEffect, useState, ReactNode } from 'react';
+import { useCallback, useEffect, useState, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { Loader2, Shield } from 'lucide-react';
+import { consentService, type ConsentStatus } from '@/lib/api';
+import { ConsentInterstitial } from './ConsentInterstitial';
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -13,9 +15,31 @@ interface ProtectedRouteProps {
 export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [staleConsent, setStaleConsent] = useState<ConsentStatus | null>(null);
+  const [consentCheckFailed, setConsentCheckFailed] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
   const router = useRouter();
   const pathname = usePathname();
 
+  // Blocks the page until consent under the current notice is recorded
+  // A failed check keeps it blocked behind a retry rather than letting it through
+  const checkConsent = useCallback(async () => {
+    try {
+      const status = await consentService.getStatus();
+      setStaleConsent(status.reconsentRequired ? status : null);
+      setConsentCheckFailed(false);
+    } catch (error) {
+      console.error('Consent check failed:', error);
+      setConsentCheckFailed(true);
+    }
+  }, []);
+
+  const retryConsentCheck = async () => {
+    setIsRetrying(true);
+    await checkConsent();
+    setIsRetrying(false);
+  };
+
   useEffect(() => {
     const checkAuth = async () => {
       try {
@@ -48,6 +72,7 @@ export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
         }
         */
 
+        await checkConsent();
         setIsAuthenticated(true);
       } catch (error) {
         console.error('Auth check failed:', error);
@@ -59,7 +84,7 @@ export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
     };
 
     checkAuth();
-  }, [router, pathname]);
+  }, [router, pathname, checkConsent]);
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -96,6 +121,42 @@ export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
     return null;
   }
 
+  if (consentCheckFailed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-brand px-4">
+        <div className="w-full max-w-sm glass-md rounded-2xl p-6 space-y-4 text-center">
+          <div className="w-12 h-12 mx-auto rounded-2xl bg-violet-500/15 border border-violet-500/30 flex items-center justify-center">
+            <Shield className="w-6 h-6 text-violet-400" />
+          </div>
+          <h1 className="text-lg font-bold text-white">We couldn&apos;t check your consent</h1>
+          <p className="text-sm text-midnight-300">
+            This page needs your consent under the current privacy notice. Check your
+            connection and try again.
+          </p>
+          <button
+            onClick={retryConsentCheck}
+            disabled={isRetrying}
+            className="w-full py-3.5 rounded-xl bg-gradient-to-r from-violet-500 to-purple-600 text-white font-semibold hover:shadow-lg hover:shadow-violet-500/30 transition-shadow disabled:opacity-60 flex items-center justify-center space-x-2"
+          >
+            {isRetrying && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Try again</span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (staleConsent) {
+    return (
+      <ConsentInterstitial
+        key={staleConsent.notice.hash}
+        status={staleConsent}
+        onAccepted={() => setStaleConsent(null)}
+        onNoticeChanged={checkConsent}
+      />
+    );
+  }
+
   // Render protected content
   return <>{children}</>;
 }
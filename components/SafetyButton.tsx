@@ -7,6 +7,7 @@
  * - Bottom-right corner (thumb-friendly)
  * - Haptic feedback on press
  * - Opens safety modal on click
+ * - "I'm safe" prompt while a date check-in is running
  */
 
 'use client';
@@ -16,7 +17,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Shield, ShieldAlert, Phone, Navigation, Clock } from 'lucide-react';
 import { SafetyModal } from './SafetyModal';
 import { ActiveSharingNotification } from './ActiveSharingNotification';
+import { CheckInPrompt } from './CheckInPrompt';
 import { useActiveSharing } from '@/lib/location-tracking';
+import { useActiveCheckIn } from '@/lib/check-in';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -63,6 +66,7 @@ export function SafetyButton({ matchDetails, className }: SafetyButtonProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [language, setLanguage] = useState<'en' | 'hi'>('en');
   const { isActive, remainingTime, stopSharing } = useActiveSharing();
+  const { checkIn, isReminderDue, refresh: refreshCheckIn, confirmSafe } = useActiveCheckIn();
 
   const t = TRANSLATIONS[language];
 
@@ -110,6 +114,18 @@ export function SafetyButton({ matchDetails, className }: SafetyButtonProps) {
           )}
         </AnimatePresence>
 
+        {/* Check-in Prompt (while a check-in is running) */}
+        <AnimatePresence>
+          {checkIn && (isReminderDue || !isActive) && (
+            <CheckInPrompt
+              checkIn={checkIn}
+              isReminderDue={isReminderDue}
+              onConfirm={confirmSafe}
+              language={language}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Safety Button */}
         <motion.button
           onClick={handlePress}
@@ -179,7 +195,10 @@ export function SafetyButton({ matchDetails, className }: SafetyButtonProps) {
       {/* Safety Modal */}
       <SafetyModal
         isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
+        onClose={() => {
+          setIsModalOpen(false);
+          refreshCheckIn();
+        }}
         matchDetails={matchDetails}
         language={language}
       />
@@ -5,7 +5,7 @@
  * Flow:
  * 1. Confirm sharing intent
  * 2. Select emergency contacts (max 3)
- * 3. Review and confirm with map preview
+ * 3. Review and confirm with map preview (optionally with a check-in timer)
  *
  * Privacy:
  * - Explicit consent for contacts access
@@ -29,13 +29,15 @@ import {
   CheckCircle2,
   Smartphone,
   Lock,
+  BellRing,
 } from "lucide-react";
 import { ContactSelector } from "./ContactSelector";
 import {
+  getTrackingToken,
   startLocationSharing,
   type EmergencyContact,
 } from "@/lib/location-tracking";
-import { sendSafetySMS } from "@/lib/sms-service";
+import { checkInService, smsService } from "@/lib/api";
 import { clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -59,6 +61,9 @@ interface SafetyModalProps {
 
 type ModalStep = "confirm" | "contacts" | "review";
 
+// Hours until the check-in; contacts are alerted if it is not confirmed by then
+const CHECK_IN_OPTIONS = [1, 2, 3, 4];
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Translations
 // ─────────────────────────────────────────────────────────────────────────────
@@ -94,6 +99,10 @@ const TRANSLATIONS = {
     currentLocationHi: "आपका वर्तमान स्थान",
     dpdpCompliant: "DPDP Act 2023 compliant",
     encrypted: "End-to-end encrypted",
+    checkIn: "Check in with me",
+    checkInDesc: "Alert my contacts if I don't confirm I'm safe in",
+    hours: "h",
+    pinsRequired: "Set your safety and duress PINs in Profile → Safety to use check-ins.",
   },
   hi: {
     title: "अपनी डेट का स्थान साझा करें",
@@ -128,6 +137,10 @@ const TRANSLATIONS = {
     currentLocationHi: "आपका वर्तमान स्थान",
     dpdpCompliant: "DPDP अधिनियम 2023 अनुपालित",
     encrypted: "एंड-टू-एंड एन्क्रिप्टेड",
+    checkIn: "मेरे साथ चेक-इन करें",
+    checkInDesc: "अगर मैं इतने समय में सुरक्षित होने की पुष्टि न करूं तो मेरे संपर्कों को सूचित करें",
+    hours: "घं",
+    pinsRequired: "चेक-इन के लिए प्रोफ़ाइल → सुरक्षा में अपने सुरक्षा और संकट PIN सेट करें।",
   },
 };
 
@@ -339,6 +352,8 @@ function ReviewStep({
   contacts,
   includeMatchDetails,
   matchDetails,
+  checkInHours,
+  setCheckInHours,
   language,
   onConfirm,
   onBack,
@@ -346,12 +361,23 @@ function ReviewStep({
   contacts: EmergencyContact[];
   includeMatchDetails: boolean;
   matchDetails?: { name: string };
+  checkInHours: number | null;
+  setCheckInHours: (value: number | null) => void;
   language: "en" | "hi";
   onConfirm: () => void;
   onBack: () => void;
 }) {
   const t = TRANSLATIONS[language];
   const endTime = new Date(Date.now() + 2 * 60 * 60 * 1000);
+  const [pinsSet, setPinsSet] = useState<boolean | null>(null);
+
+  // Check-ins need both PINs, so check before offering the timer
+  useEffect(() => {
+    checkInService
+      .getPinStatus()
+      .then(({ data }) => setPinsSet(data.safetyPinSet && data.duressPinSet))
+      .catch(() => setPinsSet(false));
+  }, []);
 
   // Generate SMS preview
   const smsPreview =
@@ -452,6 +478,46 @@ function ReviewStep({
         </div>
       </div>
 
+      {/* Check-in Timer */}
+      <div className="p-3 rounded-xl bg-white/5 border border-white/10 space-y-3">
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="flex items-center space-x-2">
+            <BellRing className="w-4 h-4 text-violet-400" />
+            <span className="text-sm text-gray-200">{t.checkIn}</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={checkInHours !== null}
+            disabled={!pinsSet}
+            onChange={(e) => setCheckInHours(e.target.checked ? 2 : null)}
+            className="w-4 h-4 accent-violet-500"
+          />
+        </label>
+        {pinsSet === false && <p className="text-xs text-gray-400">{t.pinsRequired}</p>}
+        {checkInHours !== null && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">{t.checkInDesc}</p>
+            <div className="flex space-x-2">
+              {CHECK_IN_OPTIONS.map((hours) => (
+                <button
+                  key={hours}
+                  onClick={() => setCheckInHours(hours)}
+                  className={cn(
+                    "flex-1 py-2 rounded-lg border text-sm transition-colors",
+                    checkInHours === hours
+                      ? "bg-violet-500/20 border-violet-500/40 text-violet-200"
+                      : "bg-white/5 border-white/10 text-gray-400",
+                  )}
+                >
+                  {hours}
+                  {t.hours}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Action Buttons */}
       <div className="flex space-x-3">
         <button
@@ -494,6 +560,7 @@ export function SafetyModal({
     [],
   );
   const [isSharing, setIsSharing] = useState(false);
+  const [checkInHours, setCheckInHours] = useState<number | null>(null);
 
   const t = TRANSLATIONS[language];
 
@@ -504,6 +571,7 @@ export function SafetyModal({
       setIncludeMatchDetails(false);
       setSelectedContacts([]);
       setIsSharing(false);
+      setCheckInHours(null);
     }
   }, [isOpen]);
 
@@ -511,7 +579,7 @@ export function SafetyModal({
     setIsSharing(true);
 
     try {
-      // Start location sharing
+      // Start location sharing (the server issues the tracking link)
       await startLocationSharing({
         contacts: selectedContacts,
         duration: 2 * 60 * 60 * 1000, // 2 hours
@@ -519,13 +587,31 @@ export function SafetyModal({
         matchDetails: includeMatchDetails ? matchDetails : undefined,
       });
 
-      // Send SMS to all selected contacts
-      for (const contact of selectedContacts) {
-        await sendSafetySMS({
-          phoneNumber: contact.phone,
+      const trackingToken = getTrackingToken() ?? undefined;
+      const contactIds = selectedContacts.map((contact) => contact.id);
+
+      // The server picks the DLT template and builds the link from the session
+      if (trackingToken) {
+        const { data: deliveries } = await smsService.sendSafetyAlerts({
+          trackingToken,
+          contactIds,
+          language,
+        });
+
+        deliveries
+          .filter((delivery) => delivery.error)
+          .forEach((delivery) =>
+            console.warn(`[Safety SMS] ${delivery.recipient} not sent:`, delivery.error)
+          );
+      }
+
+      // Escalates on the server if not confirmed in time; the live link goes in the alert
+      if (checkInHours !== null) {
+        await checkInService.startCheckIn({
+          expectedEndAt: new Date(Date.now() + checkInHours * 60 * 60 * 1000).toISOString(),
+          contactIds,
           language,
-          includeMatchDetails,
-          matchDetails: includeMatchDetails ? matchDetails : undefined,
+          trackingToken,
         });
       }
 
@@ -633,6 +719,8 @@ export function SafetyModal({
                         contacts={selectedContacts}
                         includeMatchDetails={includeMatchDetails}
                         matchDetails={matchDetails}
+                        checkInHours={checkInHours}
+                        setCheckInHours={setCheckInHours}
                         language={language}
                         onConfirm={handleConfirm}
                         onBack={prevStep}
@@ -4,7 +4,8 @@
  *
  * Features:
  * - Tracks actions per day (resets at midnight IST)
- * - Persists to localStorage
+ * - Reconciles with the server-enforced quota (GET /matches/daily-limit)
+ * - Caches counts in localStorage for instant, optimistic display
  * - Provides remaining count and percentage
  * - Handles limit enforcement
  */
@@ -25,6 +26,7 @@ import {
   trackLimitCounterView,
   trackLimitExceedAttempt,
 } from '@/lib/analytics';
+import { matchService } from '@/lib/api';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -70,6 +72,8 @@ export interface DailyLimitActions {
   decrement: () => void;
   /** Reset count (admin only) */
   reset: () => void;
+  /** Re-sync count and limit with the server */
+  refresh: () => Promise<void>;
   /** Check if action is allowed */
   canPerformAction: () => boolean;
   /** Get current state */
@@ -218,13 +222,15 @@ function getDeviceType(): 'mobile' | 'desktop' | 'tablet' {
  * ```
  */
 export function useDailyLimit(config: DailyLimitConfig): DailyLimitReturn {
-  const { dailyLimit, storageKey, actionType } = config;
+  const { storageKey, actionType } = config;
 
   // Get today's storage key (changes daily)
   const fullStorageKey = getStorageKey(storageKey);
 
   // State
   const [used, setUsed] = useState<number>(0);
+  const [serverLimit, setServerLimit] = useState<number | null>(null);
+  const dailyLimit = serverLimit ?? config.dailyLimit;
   const [secondsUntilReset, setSecondsUntilReset] = useState<number>(
     getSecondsUntilReset()
   );
@@ -253,6 +259,29 @@ export function useDailyLimit(config: DailyLimitConfig): DailyLimitReturn {
     setLastCheckedDate(new Date().toISOString());
   }, [fullStorageKey]);
 
+  // The server owns the real count; local storage only mirrors it
+  const refresh = useCallback(async (): Promise<void> => {
+    try {
+      const response = await matchService.getDailyLimit(actionType);
+      const { used: serverUsed, total } = response.data;
+
+      setUsed(serverUsed);
+      setServerLimit(total);
+      storeData(fullStorageKey, {
+        count: serverUsed,
+        date: getStorageKey(''),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      // Offline or signed out: keep the cached count, the server still enforces
+      console.error('Error syncing daily limit:', error);
+    }
+  }, [actionType, fullStorageKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
   // Update countdown timer every second
   useEffect(() => {
     const interval = setInterval(() => {
@@ -271,11 +300,12 @@ export function useDailyLimit(config: DailyLimitConfig): DailyLimitReturn {
           date: todayKey,
           timestamp: Date.now(),
         });
+        refresh();
       }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [fullStorageKey]);
+  }, [fullStorageKey, refresh]);
 
   // Track limit counter view (once per session)
   useEffect(() => {
@@ -398,6 +428,7 @@ export function useDailyLimit(config: DailyLimitConfig): DailyLimitReturn {
     increment,
     decrement,
     reset,
+    refresh,
     canPerformAction,
     getState,
   };
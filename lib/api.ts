@@ -58,6 +58,66 @@ export interface AuthResponse {
   tokens: AuthTokens;
 }
 
+export interface DeviceSession {
+  id: string;
+  deviceInfo: string | null;
+  ipAddress: string | null;
+  signedInAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface PhoneVerifyResponse {
+  message: string;
+  user: {
+    id: string;
+    phone: string;
+    isPhoneVerified: boolean;
+    verificationLevel: number;
+  };
+  tokens: Omit<AuthTokens, 'expiresIn'>;
+  /** True when this login cancelled a pending account deletion */
+  accountDeletionCancelled?: boolean;
+}
+
+export type LivenessStep =
+  | { type: 'head_turn'; direction: 'left' | 'right' | 'up' | 'down' }
+  | { type: 'blink'; count: number };
+
+export interface LivenessChallenge {
+  id: string;
+  nonce: string;
+  steps: LivenessStep[]; // Perform in this order while recording
+  expiresAt: string;
+}
+
+export interface VideoSelfieResult {
+  message: string;
+  user: {
+    id: string;
+    verificationLevel: number;
+    isPhoneVerified: boolean;
+    digiLockerVerifiedAt: string | null;
+    videoSelfieVerifiedAt: string | null;
+  };
+  tokens: { accessToken: string };
+  liveness: { confidence: number };
+  faceMatch: {
+    photosChecked: number;
+    flaggedPhotoIds: string[]; // Profile photos sent for moderation review
+  };
+}
+
+export interface VideoSelfieUpload {
+  id: string;
+  challengeId: string;
+  size: number;
+  offset: number; // Bytes received so far; the next chunk starts here
+  maxChunkSize: number;
+  expiresAt: string;
+}
+
 export interface RegisterData {
   name: string;
   email?: string;
@@ -104,7 +164,10 @@ export interface Profile {
   intent: 'marriage-soon' | 'serious-relationship' | 'friendship' | 'healing';
   bio?: string;
   photos: Photo[];
+  photoPrivacy?: 'blur' | 'visible';
+  screenshotAlerts?: boolean;
   preferences: MatchPreferences;
+  values?: ProfileValues;
   verificationLevel: 'bronze' | 'silver' | 'gold';
   createdAt: string;
   updatedAt: string;
@@ -132,6 +195,13 @@ export interface MatchPreferences {
   maritalStatus: string[];
 }
 
+export interface ProfileValues {
+  loveLanguages: string[];
+  dealbreakers: Record<string, number>;
+  weekendPreferences: string[];
+  fiveYearVision: string | null;
+}
+
 export interface Match {
   id: string;
   profile: Profile;
@@ -162,6 +232,7 @@ export interface Conversation {
   participant: Profile;
   lastMessage?: Message;
   unreadCount: number;
+  photosBlurred: boolean; // your screen captures blurred their photos for you
   matchedAt: string;
 }
 
@@ -171,9 +242,30 @@ export interface Message {
   senderId: string;
   type: 'text' | 'photo' | 'voice' | 'interest';
   content: string;
+  duration?: number;
   timestamp: string;
+  status: 'sent' | 'delivered' | 'read';
   isRead: boolean;
   isFromMe: boolean;
+  isBlurred: boolean; // served as the blurred variant only; cannot be revealed
+}
+
+export type ScreenCaptureKind = 'screenshot' | 'screen_recording';
+
+export type ScreenCaptureSource =
+  | 'print_screen'
+  | 'shortcut'
+  | 'visibility'
+  | 'media_capture'
+  | 'native';
+
+export interface ScreenCapture {
+  id: string;
+  conversationId: string;
+  userId: string;
+  kind: ScreenCaptureKind;
+  source: ScreenCaptureSource;
+  createdAt: string;
 }
 
 export interface VoiceNote {
@@ -183,6 +275,207 @@ export interface VoiceNote {
   transcript?: string;
 }
 
+export type PlanTier = 'free' | 'premium' | 'family';
+
+export interface Plan {
+  id: string;
+  tier: Exclude<PlanTier, 'free'>;
+  name: string;
+  amount: number; // paise
+  currency: string;
+  intervalMonths: number;
+}
+
+export interface SubscriptionStatus {
+  plan: PlanTier;
+  expiresAt: string | null;
+  features: string[];
+  dailyLimits: Record<'profiles' | 'chats' | 'likes' | 'views', number>;
+  linkedProfiles: number;
+}
+
+export interface PaymentOrder {
+  orderId: string;
+  amount: number; // paise
+  currency: string;
+  planId: string;
+  keyId: string;
+  mode: 'live' | 'stand-in';
+}
+
+export interface StandInPaymentResult {
+  outcome: 'captured' | 'failed';
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}
+
+export type ReportCategory =
+  | 'harassment'
+  | 'fake_profile'
+  | 'inappropriate_content'
+  | 'scam'
+  | 'underage'
+  | 'other';
+
+export interface BlockedUser {
+  userId: string;
+  name: string;
+  blockedAt: string;
+}
+
+export interface ReportReceipt {
+  id: string;
+  status: 'open' | 'actioned' | 'dismissed';
+}
+
+export interface AccountDeletionRequest {
+  id: string;
+  status: 'pending' | 'processing' | 'cancelled' | 'completed';
+  requestedAt: string;
+  scheduledFor: string;
+  cancelledAt: string | null;
+  gracePeriodDays?: number;
+}
+
+export interface DataExport {
+  id: string;
+  status: 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  sizeBytes: number | null;
+  downloads: {
+    archiveUrl: string;
+    summaryUrl: string | null;
+    linkExpiresAt: string;
+  } | null;
+}
+
+export type GrievanceCategory = 'data_access' | 'correction' | 'erasure' | 'consent' | 'safety';
+
+export interface Grievance {
+  id: string;
+  ticketNumber: string;
+  category: GrievanceCategory;
+  subject: string;
+  description: string;
+  status: 'open' | 'in_progress' | 'escalated' | 'closed';
+  responseDueAt: string;
+  isOverdue: boolean;
+  createdAt: string;
+  closedAt: string | null;
+  responses?: {
+    type: 'response' | 'escalation' | 'resolution';
+    message: string;
+    createdAt: string;
+  }[];
+  grievanceOfficer?: { name: string; email: string };
+  appealNotice?: string;
+}
+
+export interface LocationSharingSession {
+  id: string;
+  status: 'active' | 'ended' | 'expired';
+  startedAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+  lastPointAt: string | null;
+  trackingToken?: string; // Only returned when the session starts
+  trackingUrl?: string;
+}
+
+export interface SharedLocationView {
+  ownerName: string | null;
+  matchName: string | null;
+  startedAt: string;
+  expiresAt: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    recordedAt: string;
+  } | null;
+}
+
+export interface SafetyCheckIn {
+  id: string;
+  status: 'active' | 'completed' | 'escalated';
+  expectedEndAt: string;
+  contactsAlerted: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface SafetyPinStatus {
+  safetyPinSet: boolean;
+  duressPinSet: boolean;
+}
+
+export type EmergencyContactStatus = 'pending' | 'verified' | 'declined';
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  relationship: string | null;
+  phone: string; // Masked by the server: +91 ******3210
+  status: EmergencyContactStatus;
+  language: 'en' | 'hi';
+  optInSentAt: string | null;
+  optInExpiresAt: string | null;
+  verifiedAt: string | null;
+  createdAt: string;
+}
+
+export interface ContactOptInRequest {
+  ownerName: string | null;
+  contactName: string;
+  expiresAt: string;
+}
+
+export type SmsDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed';
+
+export interface SmsDelivery {
+  id: string | null; // null when the SMS was never handed to the provider
+  contactId?: string;
+  recipient: string; // Masked: ******3210
+  status: SmsDeliveryStatus;
+  error: string | null; // Error code for this recipient, e.g. RATE_LIMIT_EXCEEDED
+  sentAt?: string | null;
+  deliveredAt?: string | null;
+}
+
+export type ConsentPurpose =
+  | 'purposeMatching'
+  | 'purposeMarketing'
+  | 'purposeAnalytics'
+  | 'purposeThirdParty';
+
+export type ConsentChoices = Record<ConsentPurpose, boolean>;
+
+export interface ConsentNotice {
+  version: string;
+  effectiveAt: string;
+  hash: string;
+  purposes: {
+    purpose: ConsentPurpose;
+    title: { en: string; hi: string };
+    body: { en: string; hi: string };
+  }[];
+}
+
+export interface ConsentStatus {
+  consent: (ConsentChoices & {
+    consentGivenAt: string;
+    consentWithdrawnAt: string | null;
+    consentVersion: string;
+    noticeHash: string | null;
+    isActive: boolean;
+  }) | null;
+  notice: ConsentNotice;
+  reconsentRequired: boolean;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // API Error Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -304,6 +597,133 @@ const ERROR_MESSAGES: Record<string, Omit<ApiError, 'code' | 'statusCode'>> = {
     userMessageHi: 'आप केवल पारस्परिक मैचों के साथ ही चैट कर सकते हैं।',
   },
 
+  // Consent Errors
+  'CONSENT_NOTICE_OUTDATED': {
+    message: 'Consent notice has changed.',
+    userMessage: 'Our privacy notice was just updated. Please review it again.',
+    userMessageHi: 'हमारी गोपनीयता सूचना अभी अपडेट हुई है। कृपया इसे फिर से देखें।',
+  },
+
+  // Location Sharing Errors
+  'SHARING_SESSION_NOT_FOUND': {
+    message: 'Sharing session not found.',
+    userMessage: 'This tracking link is not valid.',
+    userMessageHi: 'यह ट्रैकिंग लिंक मान्य नहीं है।',
+  },
+  'SHARING_SESSION_ENDED': {
+    message: 'Location sharing has ended.',
+    userMessage: 'Location sharing has ended and all location data has been deleted.',
+    userMessageHi: 'स्थान साझाकरण समाप्त हो गया है और सभी स्थान डेटा हटा दिया गया है।',
+  },
+
+  // Safety Check-in Errors
+  'SAFETY_PIN_REQUIRED': {
+    message: 'Safety PINs not set.',
+    userMessage: 'Set your safety and duress PINs in Profile → Safety first.',
+    userMessageHi: 'पहले प्रोफ़ाइल → सुरक्षा में अपने सुरक्षा और संकट PIN सेट करें।',
+  },
+  'INVALID_SAFETY_PIN': {
+    message: 'Incorrect safety PIN.',
+    userMessage: 'That PIN is incorrect. Please try again.',
+    userMessageHi: 'यह PIN गलत है। कृपया पुनः प्रयास करें।',
+  },
+  'CHECK_IN_ALREADY_ACTIVE': {
+    message: 'A check-in is already running.',
+    userMessage: 'You already have an active check-in.',
+    userMessageHi: 'आपका एक चेक-इन पहले से सक्रिय है।',
+  },
+
+  // Emergency Contact Errors
+  'EMERGENCY_CONTACT_LIMIT_REACHED': {
+    message: 'Emergency contact limit reached.',
+    userMessage: 'You can have up to 3 emergency contacts. Remove one to add another.',
+    userMessageHi: 'आप अधिकतम 3 आपातकालीन संपर्क रख सकते हैं। नया जोड़ने के लिए एक हटाएं।',
+  },
+  'EMERGENCY_CONTACT_EXISTS': {
+    message: 'Emergency contact already exists.',
+    userMessage: 'This number is already one of your emergency contacts.',
+    userMessageHi: 'यह नंबर पहले से आपके आपातकालीन संपर्कों में है।',
+  },
+  'EMERGENCY_CONTACT_NOT_VERIFIED': {
+    message: 'Emergency contact not verified.',
+    userMessage: 'Some contacts have not confirmed yet. Choose contacts marked as verified.',
+    userMessageHi: 'कुछ संपर्कों ने अभी पुष्टि नहीं की है। सत्यापित संपर्क चुनें।',
+  },
+  'CONTACT_OPT_IN_DECLINED': {
+    message: 'Contact declined.',
+    userMessage: 'This contact declined to be an emergency contact.',
+    userMessageHi: 'इस संपर्क ने आपातकालीन संपर्क बनने से मना कर दिया।',
+  },
+  'CONTACT_OPT_IN_INVALID': {
+    message: 'Opt-in link invalid.',
+    userMessage: 'This link is not valid or has expired.',
+    userMessageHi: 'यह लिंक मान्य नहीं है या समाप्त हो गया है।',
+  },
+
+  // SMS Errors
+  'RATE_LIMIT_EXCEEDED': {
+    message: 'Rate limit exceeded.',
+    userMessage: 'Too many messages were sent. Please try again later.',
+    userMessageHi: 'बहुत अधिक संदेश भेजे गए। कृपया बाद में पुनः प्रयास करें।',
+  },
+  'SMS_SEND_FAILED': {
+    message: 'SMS could not be sent.',
+    userMessage: 'We could not send the SMS. Please try again.',
+    userMessageHi: 'हम SMS नहीं भेज सके। कृपया पुनः प्रयास करें।',
+  },
+
+  // Video Selfie Errors
+  'DIGILOCKER_VERIFICATION_FAILED': {
+    message: 'DigiLocker verification failed.',
+    userMessage: 'DigiLocker verification did not complete. Please try again.',
+    userMessageHi: 'DigiLocker सत्यापन पूरा नहीं हुआ। कृपया पुनः प्रयास करें।',
+  },
+  'DIGILOCKER_STATE_MISMATCH': {
+    message: 'DigiLocker state mismatch.',
+    userMessage: 'Your DigiLocker session expired. Please connect again.',
+    userMessageHi: 'आपका DigiLocker सत्र समाप्त हो गया। कृपया फिर से कनेक्ट करें।',
+  },
+  'LIVENESS_DETECTION_FAILED': {
+    message: 'Liveness detection failed.',
+    userMessage: 'We could not confirm it was you. Follow each prompt in order in good light and try again.',
+    userMessageHi: 'हम पुष्टि नहीं कर सके कि यह आप हैं। अच्छी रोशनी में हर निर्देश क्रम से पूरा करें और पुनः प्रयास करें।',
+  },
+  'LIVENESS_CHALLENGE_INVALID': {
+    message: 'Liveness challenge expired.',
+    userMessage: 'These prompts have expired. Please start the video selfie again.',
+    userMessageHi: 'ये निर्देश समाप्त हो गए हैं। कृपया वीडियो सेल्फ़ी फिर से शुरू करें।',
+  },
+  'FACE_MATCH_FAILED': {
+    message: 'Face match failed.',
+    userMessage: 'Your video selfie does not match your main profile photo. Choose a clear photo of yourself as your main photo and try again.',
+    userMessageHi: 'आपकी वीडियो सेल्फ़ी आपकी मुख्य प्रोफ़ाइल फ़ोटो से मेल नहीं खाती। अपनी स्पष्ट फ़ोटो को मुख्य फ़ोटो बनाएं और पुनः प्रयास करें।',
+  },
+  'INVALID_VIDEO_FORMAT': {
+    message: 'Invalid video format.',
+    userMessage: 'This video could not be read. Please record it again.',
+    userMessageHi: 'यह वीडियो पढ़ा नहीं जा सका। कृपया इसे फिर से रिकॉर्ड करें।',
+  },
+  'VIDEO_TOO_LARGE': {
+    message: 'Video too large.',
+    userMessage: 'The video is too large. Please record a shorter clip.',
+    userMessageHi: 'वीडियो बहुत बड़ा है। कृपया छोटा क्लिप रिकॉर्ड करें।',
+  },
+  'VIDEO_UPLOAD_NOT_FOUND': {
+    message: 'Video upload not found.',
+    userMessage: 'Your video upload expired. Please record your video selfie again.',
+    userMessageHi: 'आपका वीडियो अपलोड समाप्त हो गया। कृपया अपनी वीडियो सेल्फ़ी फिर से रिकॉर्ड करें।',
+  },
+  'VIDEO_UPLOAD_OFFSET_MISMATCH': {
+    message: 'Upload offset mismatch.',
+    userMessage: 'The upload was interrupted. Please try again.',
+    userMessageHi: 'अपलोड बाधित हो गया। कृपया पुनः प्रयास करें।',
+  },
+  'VIDEO_UPLOAD_INCOMPLETE': {
+    message: 'Video upload incomplete.',
+    userMessage: 'Your video has not finished uploading. Please try again.',
+    userMessageHi: 'आपका वीडियो अभी पूरा अपलोड नहीं हुआ है। कृपया पुनः प्रयास करें।',
+  },
+
   // Network Errors
   'NETWORK_ERROR': {
     message: 'Network error occurred.',
@@ -452,27 +872,48 @@ export const authService = {
 
   /**
    * Refresh access token
+   * Refresh tokens are single-use, so the rotated one replaces the stored token
    */
-  async refreshToken(): Promise<ApiResponse<AuthTokens>> {
+  async refreshToken(): Promise<Omit<AuthTokens, 'expiresIn'>> {
     const refreshToken = localStorage.getItem('refresh_token');
-    const response = await api.post<ApiResponse<AuthTokens>>('/auth/refresh', {
+    const response = await api.post<Omit<AuthTokens, 'expiresIn'>>('/auth/refresh', {
       refreshToken,
     });
+    localStorage.setItem('auth_token', response.data.accessToken);
+    localStorage.setItem('refresh_token', response.data.refreshToken);
+    return response.data;
+  },
+
+  /**
+   * Logout this device, or every device with allDevices
+   */
+  async logout(allDevices = false): Promise<void> {
+    await api.post('/auth/logout', { allDevices });
+  },
+
+  /**
+   * Devices signed in to this account
+   */
+  async getSessions(): Promise<ApiResponse<DeviceSession[]>> {
+    const response = await api.get<ApiResponse<DeviceSession[]>>('/auth/sessions');
     return response.data;
   },
 
   /**
-   * Logout user
+   * Sign out another device
    */
-  async logout(): Promise<void> {
-    await api.post('/auth/logout');
+  async revokeSession(sessionId: string): Promise<ApiResponse<{ id: string; revoked: boolean }>> {
+    const response = await api.delete<ApiResponse<{ id: string; revoked: boolean }>>(
+      `/auth/sessions/${sessionId}`
+    );
+    return response.data;
   },
 
   /**
-   * Verify OTP
+   * Verify a server-issued OTP
    */
-  async verifyOTP(phone: string, otp: string): Promise<ApiResponse<AuthResponse>> {
-    const response = await api.post<ApiResponse<AuthResponse>>('/auth/verify-otp', {
+  async verifyOTP(phone: string, otp: string): Promise<PhoneVerifyResponse> {
+    const response = await api.post<PhoneVerifyResponse>('/auth/phone-otp/verify', {
       phone,
       otp,
     });
@@ -480,14 +921,157 @@ export const authService = {
   },
 
   /**
-   * Resend OTP
+   * Exchange a Firebase Phone Auth ID token for API tokens
    */
-  async resendOTP(phone: string): Promise<ApiResponse<{ success: boolean }>> {
-    const response = await api.post<ApiResponse<{ success: boolean }>>('/auth/resend-otp', {
+  async verifyFirebaseToken(phone: string, firebaseIdToken: string): Promise<PhoneVerifyResponse> {
+    const response = await api.post<PhoneVerifyResponse>('/auth/phone-otp/verify', {
       phone,
+      firebaseIdToken,
     });
     return response.data;
   },
+
+  /**
+   * Send (or resend) a server-issued OTP
+   */
+  async resendOTP(phone: string): Promise<{ message: string; expiresInSeconds: number }> {
+    const response = await api.post<{ message: string; expiresInSeconds: number }>(
+      '/auth/phone-otp/send',
+      { phone }
+    );
+    return response.data;
+  },
+};
+
+/**
+ * DigiLocker Service (Tier 2)
+ */
+export const digiLockerService = {
+  /**
+   * Start DigiLocker authorization; after the user approves, the browser comes
+   * back to redirectTo with ?digilocker=verified or ?digilocker=failed&code=...
+   */
+  async init(redirectTo: string): Promise<{ authorizationUrl: string; expiresInSeconds: number }> {
+    const response = await api.get<{ authorizationUrl: string; expiresInSeconds: number }>(
+      '/auth/digilocker/init',
+      { params: { redirectTo } }
+    );
+    return response.data;
+  },
+};
+
+// Small enough to get through on a weak mobile connection
+const VIDEO_UPLOAD_CHUNK_SIZE = 512 * 1024;
+const VIDEO_UPLOAD_MAX_RETRIES = 4;
+
+/**
+ * Video Selfie Service (Tier 3)
+ */
+export const videoSelfieService = {
+  /**
+   * Get the head turns and blinks to perform; valid for two minutes, single use
+   */
+  async getChallenge(): Promise<LivenessChallenge> {
+    const response = await api.post<{ challenge: LivenessChallenge }>(
+      '/auth/video-selfie/challenge'
+    );
+    return response.data.challenge;
+  },
+
+  /**
+   * Start a resumable upload for the clip answering a challenge
+   * The challenge is used up here, so record first and create the upload after
+   */
+  async createUpload(challengeId: string, size: number): Promise<VideoSelfieUpload> {
+    const response = await api.post<{ upload: VideoSelfieUpload }>(
+      '/auth/video-selfie/uploads',
+      { challengeId, size }
+    );
+    return response.data.upload;
+  },
+
+  /**
+   * Current state of an upload (the offset to resume from)
+   */
+  async getUpload(uploadId: string): Promise<VideoSelfieUpload> {
+    const response = await api.get<{ upload: VideoSelfieUpload }>(
+      `/auth/video-selfie/uploads/${uploadId}`
+    );
+    return response.data.upload;
+  },
+
+  /**
+   * Send the bytes starting at offset
+   */
+  async uploadChunk(uploadId: string, offset: number, chunk: Blob): Promise<VideoSelfieUpload> {
+    const response = await api.patch<{ upload: VideoSelfieUpload }>(
+      `/auth/video-selfie/uploads/${uploadId}`,
+      chunk,
+      {
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset),
+        },
+        timeout: 60000,
+      }
+    );
+    return response.data.upload;
+  },
+
+  /**
+   * Verify a fully uploaded clip
+   * The returned access token carries the new verification level
+   */
+  async finalize(
+    uploadId: string,
+    metadata?: { deviceInfo: string; captureDuration: number; frameCount: number }
+  ): Promise<VideoSelfieResult> {
+    const response = await api.post<VideoSelfieResult>(
+      `/auth/video-selfie/uploads/${uploadId}/finalize`,
+      { metadata },
+      { timeout: 60000 }
+    );
+    localStorage.setItem('auth_token', response.data.tokens.accessToken);
+    return response.data;
+  },
+
+  /**
+   * Upload the recording answering a challenge in chunks, then verify it
+   * Dropped connections resume from the offset the server last stored
+   */
+  async verify(
+    challengeId: string,
+    video: Blob,
+    metadata?: { deviceInfo: string; captureDuration: number; frameCount: number },
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void
+  ): Promise<VideoSelfieResult> {
+    let upload = await this.createUpload(challengeId, video.size);
+    const chunkSize = Math.min(VIDEO_UPLOAD_CHUNK_SIZE, upload.maxChunkSize);
+    let retries = 0;
+
+    while (upload.offset < upload.size) {
+      try {
+        upload = await this.uploadChunk(
+          upload.id,
+          upload.offset,
+          video.slice(upload.offset, upload.offset + chunkSize)
+        );
+        retries = 0;
+        onProgress?.(upload.offset, upload.size);
+      } catch (err) {
+        const { code } = err as ApiError;
+        const resumable = ['NETWORK_ERROR', 'TIMEOUT_ERROR', 'VIDEO_UPLOAD_OFFSET_MISMATCH'];
+
+        if (!resumable.includes(code) || retries >= VIDEO_UPLOAD_MAX_RETRIES) throw err;
+
+        retries++;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** retries));
+        upload = await this.getUpload(upload.id);
+      }
+    }
+
+    return this.finalize(upload.id, metadata);
+  },
 };
 
 /**
@@ -535,6 +1119,8 @@ export const profileService = {
 
   /**
    * Set primary photo
+   * A photo that does not match the video selfie removes the Gold badge; the
+   * response message says so
    */
   async setPrimaryPhoto(photoId: string): Promise<ApiResponse<Profile>> {
     const response = await api.post<ApiResponse<Profile>>(`/profile/photo/${photoId}/primary`);
@@ -615,10 +1201,15 @@ export const matchService = {
   },
 
   /**
-   * Get remaining daily likes
+   * Get today's usage for a daily quota (likes by default)
    */
-  async getDailyLimit(): Promise<ApiResponse<{ used: number; total: number; resetsAt: string }>> {
-    const response = await api.get<ApiResponse<{ used: number; total: number; resetsAt: string }>>('/matches/limit');
+  async getDailyLimit(
+    type: 'profiles' | 'chats' | 'likes' | 'views' = 'likes'
+  ): Promise<ApiResponse<{ used: number; total: number; resetsAt: string }>> {
+    const response = await api.get<ApiResponse<{ used: number; total: number; resetsAt: string }>>(
+      '/matches/daily-limit',
+      { params: { type } }
+    );
     return response.data;
   },
 };
@@ -635,6 +1226,14 @@ export const chatService = {
     return response.data;
   },
 
+  /**
+   * Get a single conversation
+   */
+  async getConversation(conversationId: string): Promise<ApiResponse<Conversation>> {
+    const response = await api.get<ApiResponse<Conversation>>(`/chat/conversations/${conversationId}`);
+    return response.data;
+  },
+
   /**
    * Get messages in a conversation
    */
@@ -678,10 +1277,10 @@ export const chatService = {
   /**
    * Send voice note
    */
-  async sendVoiceNote(conversationId: string, file: File, duration: number): Promise<ApiResponse<Message>> {
+  async sendVoiceNote(conversationId: string, file: Blob, duration: number): Promise<ApiResponse<Message>> {
     const formData = new FormData();
-    formData.append('voice', file);
     formData.append('duration', duration.toString());
+    formData.append('voice', file, file instanceof File ? file.name : 'voice-note.webm');
 
     const response = await api.post<ApiResponse<Message>>(
       `/chat/conversations/${conversationId}/messages/voice`,
@@ -713,6 +1312,18 @@ export const chatService = {
     return response.data;
   },
 
+  /**
+   * Screen captures the other participant reported in this conversation
+   */
+  async getScreenCaptures(
+    conversationId: string
+  ): Promise<ApiResponse<{ captures: ScreenCapture[]; photosBlurred: boolean }>> {
+    const response = await api.get<ApiResponse<{ captures: ScreenCapture[]; photosBlurred: boolean }>>(
+      `/chat/conversations/${conversationId}/captures`
+    );
+    return response.data;
+  },
+
   /**
    * Delete message
    */
@@ -734,17 +1345,349 @@ export const chatService = {
   },
 
   /**
-   * Report conversation
+   * Report conversation (the other participant's recent messages are kept as evidence)
    */
-  async reportConversation(conversationId: string, reason: string): Promise<ApiResponse<{ success: boolean }>> {
-    const response = await api.post<ApiResponse<{ success: boolean }>>(
+  async reportConversation(
+    conversationId: string,
+    reason: string,
+    category: ReportCategory = 'other'
+  ): Promise<ApiResponse<ReportReceipt>> {
+    const response = await api.post<ApiResponse<ReportReceipt>>(
       `/chat/conversations/${conversationId}/report`,
-      { reason }
+      { reason, category }
+    );
+    return response.data;
+  },
+};
+
+/**
+ * Safety Service (blocks and reports outside a conversation)
+ */
+export const safetyService = {
+  /**
+   * Users the current user has blocked
+   */
+  async getBlockedUsers(): Promise<ApiResponse<BlockedUser[]>> {
+    const response = await api.get<ApiResponse<BlockedUser[]>>('/blocks');
+    return response.data;
+  },
+
+  /**
+   * Block a user
+   */
+  async blockUser(userId: string): Promise<ApiResponse<{ success: boolean }>> {
+    const response = await api.post<ApiResponse<{ success: boolean }>>(`/blocks/${userId}`);
+    return response.data;
+  },
+
+  /**
+   * Unblock a user
+   */
+  async unblockUser(userId: string): Promise<ApiResponse<{ success: boolean }>> {
+    const response = await api.delete<ApiResponse<{ success: boolean }>>(`/blocks/${userId}`);
+    return response.data;
+  },
+
+  /**
+   * Report a user
+   */
+  async reportUser(
+    reportedUserId: string,
+    category: ReportCategory,
+    description?: string
+  ): Promise<ApiResponse<ReportReceipt>> {
+    const response = await api.post<ApiResponse<ReportReceipt>>('/reports', {
+      reportedUserId,
+      category,
+      description,
+    });
+    return response.data;
+  },
+};
+
+/**
+ * Location Sharing Service (live "share my date" sessions)
+ */
+export const sharingService = {
+  /**
+   * Start sharing; the tracking link is only returned here
+   */
+  async startSession(data: {
+    durationMinutes: number;
+    matchName?: string;
+  }): Promise<ApiResponse<LocationSharingSession>> {
+    const response = await api.post<ApiResponse<LocationSharingSession>>('/sharing/sessions', data);
+    return response.data;
+  },
+
+  /**
+   * The running session, if any
+   */
+  async getActiveSession(): Promise<ApiResponse<LocationSharingSession | null>> {
+    const response = await api.get<ApiResponse<LocationSharingSession | null>>('/sharing/sessions/active');
+    return response.data;
+  },
+
+  /**
+   * Upload one position (rejected with SHARING_SESSION_ENDED after the cutoff)
+   */
+  async sendPoint(
+    sessionId: string,
+    point: { latitude: number; longitude: number; accuracy?: number; recordedAt?: string }
+  ): Promise<ApiResponse<{ recordedAt: string; expiresAt: string }>> {
+    const response = await api.post<ApiResponse<{ recordedAt: string; expiresAt: string }>>(
+      `/sharing/sessions/${sessionId}/points`,
+      point
+    );
+    return response.data;
+  },
+
+  /**
+   * Stop sharing; the server deletes every point
+   */
+  async endSession(sessionId: string): Promise<ApiResponse<LocationSharingSession>> {
+    const response = await api.post<ApiResponse<LocationSharingSession>>(
+      `/sharing/sessions/${sessionId}/end`
+    );
+    return response.data;
+  },
+
+  /**
+   * Latest position behind a public tracking link (no login)
+   */
+  async track(token: string): Promise<ApiResponse<SharedLocationView>> {
+    const response = await api.get<ApiResponse<SharedLocationView>>(
+      `/sharing/track/${encodeURIComponent(token)}`
+    );
+    return response.data;
+  },
+};
+
+/**
+ * Check-in Service ("did you get home safe?" timers)
+ */
+export const checkInService = {
+  /**
+   * Whether the safety and duress PINs are set
+   */
+  async getPinStatus(): Promise<ApiResponse<SafetyPinStatus>> {
+    const response = await api.get<ApiResponse<SafetyPinStatus>>('/safety/pins');
+    return response.data;
+  },
+
+  /**
+   * Set both PINs; the current safety PIN is needed to change them
+   */
+  async setPins(data: {
+    safetyPin: string;
+    duressPin: string;
+    currentPin?: string;
+  }): Promise<ApiResponse<SafetyPinStatus>> {
+    const response = await api.put<ApiResponse<SafetyPinStatus>>('/safety/pins', data);
+    return response.data;
+  },
+
+  /**
+   * Start a check-in; contacts are alerted if it is not confirmed in time
+   */
+  async startCheckIn(data: {
+    expectedEndAt: string;
+    contactIds: string[];
+    language: 'en' | 'hi';
+    trackingToken?: string;
+  }): Promise<ApiResponse<SafetyCheckIn>> {
+    const response = await api.post<ApiResponse<SafetyCheckIn>>('/safety/check-ins', data);
+    return response.data;
+  },
+
+  /**
+   * The running check-in, if any
+   */
+  async getActiveCheckIn(): Promise<ApiResponse<SafetyCheckIn | null>> {
+    const response = await api.get<ApiResponse<SafetyCheckIn | null>>('/safety/check-ins/active');
+    return response.data;
+  },
+
+  /**
+   * "I'm safe" with a PIN
+   */
+  async confirmCheckIn(checkInId: string, pin: string): Promise<ApiResponse<SafetyCheckIn>> {
+    const response = await api.post<ApiResponse<SafetyCheckIn>>(
+      `/safety/check-ins/${checkInId}/confirm`,
+      { pin }
     );
     return response.data;
   },
 };
 
+/**
+ * Emergency Contact Service (trusted contacts who opted in by SMS)
+ */
+export const emergencyContactService = {
+  /**
+   * The user's contacts and whether each has confirmed
+   */
+  async getContacts(): Promise<ApiResponse<EmergencyContact[]>> {
+    const response = await api.get<ApiResponse<EmergencyContact[]>>('/emergency-contacts');
+    return response.data;
+  },
+
+  /**
+   * Add a contact; the server texts them an opt-in link
+   */
+  async addContact(data: {
+    name: string;
+    phone: string; // +91XXXXXXXXXX
+    relationship?: string;
+    language: 'en' | 'hi';
+  }): Promise<ApiResponse<EmergencyContact>> {
+    const response = await api.post<ApiResponse<EmergencyContact>>('/emergency-contacts', data);
+    return response.data;
+  },
+
+  /**
+   * Rename or change the relationship; a new number means removing and re-adding
+   */
+  async updateContact(
+    contactId: string,
+    data: { name?: string; relationship?: string | null }
+  ): Promise<ApiResponse<EmergencyContact>> {
+    const response = await api.patch<ApiResponse<EmergencyContact>>(
+      `/emergency-contacts/${contactId}`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Remove a contact
+   */
+  async removeContact(contactId: string): Promise<ApiResponse<{ id: string }>> {
+    const response = await api.delete<ApiResponse<{ id: string }>>(`/emergency-contacts/${contactId}`);
+    return response.data;
+  },
+
+  /**
+   * Text the opt-in link again to a contact who has not answered
+   */
+  async resendOptIn(contactId: string): Promise<ApiResponse<EmergencyContact>> {
+    const response = await api.post<ApiResponse<EmergencyContact>>(
+      `/emergency-contacts/${contactId}/opt-in`
+    );
+    return response.data;
+  },
+
+  /**
+   * Public: the opt-in request behind the link a contact received
+   */
+  async getOptIn(token: string): Promise<ApiResponse<ContactOptInRequest>> {
+    const response = await api.get<ApiResponse<ContactOptInRequest>>(
+      `/emergency-contacts/opt-in/${token}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Public: the contact accepts or declines
+   */
+  async respondToOptIn(
+    token: string,
+    accept: boolean
+  ): Promise<ApiResponse<{ status: 'verified' | 'declined' }>> {
+    const response = await api.post<ApiResponse<{ status: 'verified' | 'declined' }>>(
+      `/emergency-contacts/opt-in/${token}`,
+      { accept }
+    );
+    return response.data;
+  },
+};
+
+/**
+ * SMS Service (safety SMS sent by the server's DLT gateway)
+ */
+export const smsService = {
+  /**
+   * Text the live location link to verified contacts; each recipient reports its own result
+   */
+  async sendSafetyAlerts(data: {
+    trackingToken: string;
+    contactIds: string[];
+    language: 'en' | 'hi';
+  }): Promise<ApiResponse<SmsDelivery[]>> {
+    const response = await api.post<ApiResponse<SmsDelivery[]>>('/sms/safety-alerts', data);
+    return response.data;
+  },
+
+  /**
+   * Delivery status of one sent SMS
+   */
+  async getDelivery(deliveryId: string): Promise<ApiResponse<SmsDelivery>> {
+    const response = await api.get<ApiResponse<SmsDelivery>>(`/sms/deliveries/${deliveryId}`);
+    return response.data;
+  },
+};
+
+/**
+ * Consent Service (DPDP purpose-based consent)
+ */
+export const consentService = {
+  /**
+   * Current consent, the notice in force and whether it must be accepted again
+   */
+  async getStatus(): Promise<ConsentStatus> {
+    const response = await api.get<ConsentStatus>('/consent');
+    return response.data;
+  },
+
+  /**
+   * Record consent against the exact notice that was shown
+   */
+  async giveConsent(
+    choices: Partial<ConsentChoices>,
+    notice: Pick<ConsentNotice, 'version' | 'hash'>
+  ): Promise<{ message: string }> {
+    const response = await api.post<{ message: string }>('/consent', {
+      ...choices,
+      noticeVersion: notice.version,
+      noticeHash: notice.hash,
+    });
+    return response.data;
+  },
+};
+
+/**
+ * Grievance Service (complaints to the DPDP Grievance Officer)
+ */
+export const grievanceService = {
+  /**
+   * File a grievance; the response carries the ticket number and deadline
+   */
+  async fileGrievance(data: {
+    category: GrievanceCategory;
+    subject: string;
+    description: string;
+  }): Promise<ApiResponse<Grievance>> {
+    const response = await api.post<ApiResponse<Grievance>>('/grievances', data);
+    return response.data;
+  },
+
+  /**
+   * The user's grievances, newest first
+   */
+  async getGrievances(): Promise<ApiResponse<Grievance[]>> {
+    const response = await api.get<ApiResponse<Grievance[]>>('/grievances');
+    return response.data;
+  },
+
+  /**
+   * One grievance with the officer's replies
+   */
+  async getGrievance(grievanceId: string): Promise<ApiResponse<Grievance>> {
+    const response = await api.get<ApiResponse<Grievance>>(`/grievances/${grievanceId}`);
+    return response.data;
+  },
+};
+
 /**
  * Subscription Service
  */
@@ -752,19 +1695,26 @@ export const subscriptionService = {
   /**
    * Get current subscription status
    */
-  async getStatus(): Promise<ApiResponse<{ plan: string; expiresAt: string; features: string[] }>> {
-    const response = await api.get<ApiResponse<{ plan: string; expiresAt: string; features: string[] }>>('/subscription');
+  async getStatus(): Promise<ApiResponse<SubscriptionStatus>> {
+    const response = await api.get<ApiResponse<SubscriptionStatus>>('/subscription');
+    return response.data;
+  },
+
+  /**
+   * List purchasable plans
+   */
+  async getPlans(): Promise<ApiResponse<Plan[]>> {
+    const response = await api.get<ApiResponse<Plan[]>>('/subscription/plans');
     return response.data;
   },
 
   /**
    * Create Razorpay order
    */
-  async createOrder(planId: string): Promise<ApiResponse<{ orderId: string; amount: number; currency: string }>> {
-    const response = await api.post<ApiResponse<{ orderId: string; amount: number; currency: string }>>(
-      '/subscription/create-order',
-      { planId }
-    );
+  async createOrder(planId: string): Promise<ApiResponse<PaymentOrder>> {
+    const response = await api.post<ApiResponse<PaymentOrder>>('/subscription/create-order', {
+      planId,
+    });
     return response.data;
   },
 
@@ -775,14 +1725,86 @@ export const subscriptionService = {
     razorpayOrderId: string,
     razorpayPaymentId: string,
     razorpaySignature: string
-  ): Promise<ApiResponse<{ success: boolean }>> {
-    const response = await api.post<ApiResponse<{ success: boolean }>>('/subscription/verify-payment', {
-      razorpayOrderId,
-      razorpayPaymentId,
-      razorpaySignature,
+  ): Promise<ApiResponse<SubscriptionStatus & { success: boolean }>> {
+    const response = await api.post<ApiResponse<SubscriptionStatus & { success: boolean }>>(
+      '/subscription/verify-payment',
+      {
+        razorpayOrderId,
+        razorpayPaymentId,
+        razorpaySignature,
+      }
+    );
+    return response.data;
+  },
+
+  /**
+   * Complete an order against the local Razorpay stand-in (development only)
+   */
+  async completeStandInPayment(
+    orderId: string,
+    outcome: 'captured' | 'failed' = 'captured'
+  ): Promise<ApiResponse<StandInPaymentResult>> {
+    const response = await api.post<ApiResponse<StandInPaymentResult>>(
+      '/subscription/stand-in/pay',
+      { orderId, outcome }
+    );
+    return response.data;
+  },
+};
+
+/**
+ * Privacy Service (DPDP data principal rights)
+ */
+export const privacyService = {
+  /**
+   * Request a copy of all personal data (prepared in the background)
+   */
+  async requestDataExport(): Promise<ApiResponse<DataExport>> {
+    const response = await api.post<ApiResponse<DataExport>>('/privacy/exports');
+    return response.data;
+  },
+
+  /**
+   * Recent data export requests; ready ones carry fresh download links
+   */
+  async getDataExports(): Promise<ApiResponse<DataExport[]>> {
+    const response = await api.get<ApiResponse<DataExport[]>>('/privacy/exports');
+    return response.data;
+  },
+
+  /**
+   * Status of one data export
+   */
+  async getDataExport(exportId: string): Promise<ApiResponse<DataExport>> {
+    const response = await api.get<ApiResponse<DataExport>>(`/privacy/exports/${exportId}`);
+    return response.data;
+  },
+
+  /**
+   * Request account deletion (signs out every device; logging in again cancels it)
+   */
+  async requestAccountDeletion(reason?: string): Promise<ApiResponse<AccountDeletionRequest>> {
+    const response = await api.post<ApiResponse<AccountDeletionRequest>>('/privacy/erasure', {
+      reason,
     });
     return response.data;
   },
+
+  /**
+   * Pending account deletion, if any
+   */
+  async getAccountDeletion(): Promise<ApiResponse<AccountDeletionRequest | null>> {
+    const response = await api.get<ApiResponse<AccountDeletionRequest | null>>('/privacy/erasure');
+    return response.data;
+  },
+
+  /**
+   * Cancel a pending account deletion
+   */
+  async cancelAccountDeletion(): Promise<ApiResponse<{ cancelled: boolean }>> {
+    const response = await api.delete<ApiResponse<{ cancelled: boolean }>>('/privacy/erasure');
+    return response.data;
+  },
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,152 @@
+/**
+ * Bandhan AI - Chat Socket Client
+ * Single Socket.IO connection for live chat delivery
+ *
+ * Events (server → client):
+ * - message:new      A message in one of your conversations (yours or theirs)
+ * - message:status   Your messages moved to delivered/read
+ * - message:deleted  A message was deleted by its sender
+ * - typing           The other participant started/stopped typing
+ * - capture:detected        The other participant may have captured the chat
+ * - capture:photos_blurred  Your captures blurred the other participant's photos
+ * - safety:checkin_reminder  A check-in passed its expected end time
+ * - safety:share_location    A check-in escalated; stream location into this session
+ *
+ * Events (client → server, all acknowledged):
+ * - conversation:join / conversation:leave
+ * - message:send, message:delivered, conversation:read
+ * - typing:start / typing:stop
+ * - capture:report   A screenshot/recording detected on this device
+ */
+
+'use client';
+
+import { io, Socket } from 'socket.io-client';
+import type { Message, ScreenCapture, ScreenCaptureKind, ScreenCaptureSource } from '@/lib/api';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export type SocketAck<T = unknown> =
+  | { success: true; data?: T }
+  | { success: false; error: string; message: string };
+
+export interface MessageStatusEvent {
+  conversationId: string;
+  messageIds: string[];
+  status: 'delivered' | 'read';
+}
+
+export interface MessageDeletedEvent {
+  conversationId: string;
+  messageId: string;
+}
+
+export interface TypingEvent {
+  conversationId: string;
+  userId: string;
+  isTyping: boolean;
+}
+
+export interface CaptureDetectedEvent extends ScreenCapture {
+  photosBlurred: boolean;
+}
+
+export interface PhotosBlurredEvent {
+  conversationId: string;
+}
+
+export interface CheckInReminderEvent {
+  id: string;
+  expectedEndAt: string;
+  alertsAt: string;
+}
+
+export interface ShareLocationEvent {
+  sessionId: string;
+  expiresAt: string;
+}
+
+export interface ServerToClientEvents {
+  'message:new': (message: Message) => void;
+  'message:status': (event: MessageStatusEvent) => void;
+  'message:deleted': (event: MessageDeletedEvent) => void;
+  typing: (event: TypingEvent) => void;
+  'capture:detected': (event: CaptureDetectedEvent) => void;
+  'capture:photos_blurred': (event: PhotosBlurredEvent) => void;
+  'safety:checkin_reminder': (event: CheckInReminderEvent) => void;
+  'safety:share_location': (event: ShareLocationEvent) => void;
+}
+
+type ConversationPayload = { conversationId: string };
+
+export interface ClientToServerEvents {
+  'conversation:join': (payload: ConversationPayload, ack: (res: SocketAck) => void) => void;
+  'conversation:leave': (payload: ConversationPayload, ack: (res: SocketAck) => void) => void;
+  'message:send': (
+    payload: ConversationPayload & { type?: 'text' | 'interest'; content: string },
+    ack: (res: SocketAck<Message>) => void
+  ) => void;
+  'message:delivered': (
+    payload: ConversationPayload & { messageIds: string[] },
+    ack: (res: SocketAck) => void
+  ) => void;
+  'conversation:read': (payload: ConversationPayload, ack: (res: SocketAck) => void) => void;
+  'typing:start': (payload: ConversationPayload, ack: (res: SocketAck) => void) => void;
+  'typing:stop': (payload: ConversationPayload, ack: (res: SocketAck) => void) => void;
+  'capture:report': (
+    payload: ConversationPayload & { kind: ScreenCaptureKind; source: ScreenCaptureSource },
+    ack: (res: SocketAck<ScreenCapture>) => void
+  ) => void;
+}
+
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Connection
+// ─────────────────────────────────────────────────────────────────────────────
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:4000';
+
+let socket: ChatSocket | null = null;
+
+/**
+ * Get the shared chat socket, connecting on first use
+ * The access token is re-read on every reconnect so refreshed tokens are picked up
+ */
+export function getChatSocket(): ChatSocket {
+  if (!socket) {
+    socket = io(SOCKET_URL, {
+      path: '/socket.io',
+      transports: ['websocket', 'polling'],
+      auth: (cb) => cb({ token: localStorage.getItem('auth_token') }),
+    });
+  }
+
+  return socket;
+}
+
+/**
+ * Close the chat socket (e.g. on logout)
+ */
+export function disconnectChatSocket(): void {
+  socket?.disconnect();
+  socket = null;
+}
+
+/**
+ * Emit an event and resolve with the server's acknowledgement
+ */
+export function emitWithAck<T>(
+  event: keyof ClientToServerEvents,
+  payload: Record<string, unknown>
+): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    (getChatSocket().emit as any)(event, payload, (res: SocketAck<T>) => {
+      if (res.success) {
+        resolve(res.data);
+      } else {
+        reject(new Error(res.message));
+      }
+    });
+  });
+}
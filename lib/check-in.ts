@@ -0,0 +1,104 @@
+/**
+ * Bandhan AI - Date Check-in
+ * Tracks the user's running "did you get home safe?" check-in
+ *
+ * Features:
+ * - Polls the active check-in and listens for the server's reminder
+ * - Streams location when an escalated check-in asks for it
+ * - "I'm safe" confirmation with the safety PIN
+ *
+ * Privacy & Compliance:
+ * - Escalation runs on the server; closing the app does not stop it
+ * - A duress PIN looks exactly like a normal confirmation on this device
+ * - DPDP Act 2023 compliant
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { checkInService, type SafetyCheckIn } from '@/lib/api';
+import { getChatSocket } from '@/lib/chat-socket';
+import { streamToSession } from '@/lib/location-tracking';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+const POLL_INTERVAL_MS = 60000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// React Hook for Active Check-in
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Hook to follow and confirm the active check-in
+ */
+export function useActiveCheckIn() {
+  const [checkIn, setCheckIn] = useState<SafetyCheckIn | null>(null);
+  const [isReminderDue, setIsReminderDue] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await checkInService.getActiveCheckIn();
+      setCheckIn(response.data);
+
+      if (!response.data) setIsReminderDue(false);
+    } catch (error) {
+      console.warn('[Check-in] Status check failed:', error);
+    }
+  }, []);
+
+  // Poll the server; escalation continues there even while this page is closed
+  useEffect(() => {
+    if (!localStorage.getItem('auth_token')) return;
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  // Realtime events from the server
+  useEffect(() => {
+    if (!localStorage.getItem('auth_token')) return;
+
+    const socket = getChatSocket();
+
+    const onReminder = () => {
+      setIsReminderDue(true);
+      refresh();
+    };
+    const onShareLocation = ({ sessionId, expiresAt }: { sessionId: string; expiresAt: string }) =>
+      streamToSession(sessionId, expiresAt);
+
+    socket.on('safety:checkin_reminder', onReminder);
+    socket.on('safety:share_location', onShareLocation);
+
+    return () => {
+      socket.off('safety:checkin_reminder', onReminder);
+      socket.off('safety:share_location', onShareLocation);
+    };
+  }, [refresh]);
+
+  const confirmSafe = useCallback(async (pin: string) => {
+    if (!checkIn) return null;
+
+    const response = await checkInService.confirmCheckIn(checkIn.id, pin);
+
+    setCheckIn(null);
+    setIsReminderDue(false);
+    return response.data;
+  }, [checkIn]);
+
+  const isOverdue = checkIn !== null && Date.parse(checkIn.expectedEndAt) <= Date.now();
+
+  return {
+    checkIn,
+    isReminderDue: isReminderDue || isOverdue,
+    refresh,
+    confirmSafe,
+  };
+}
+
+export default {
+  useActiveCheckIn,
+};
@@ -3,15 +3,15 @@
  * Handles live location sharing for safety features
  *
  * Features:
- * - Background location tracking
- * - Auto-stop after 2 hours (hard cutoff)
- * - End-to-end encrypted location data
+ * - Background location tracking, streamed to a server-side sharing session
+ * - Auto-stop after 2 hours (hard cutoff, enforced by the server)
+ * - Unguessable tracking link issued by the server
  * - Auto-delete after sharing ends
  * - Battery optimization warnings
  *
  * Privacy & Compliance:
  * - Explicit consent required
- * - No permanent storage of location data
+ * - No location history kept on the device
  * - DPDP Act 2023 compliant
  * - Location data encrypted with AWS KMS
  */
@@ -19,16 +19,12 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { sharingService, type ApiError, type EmergencyContact } from '@/lib/api';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
-export interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  relationship?: string;
-}
+export type { EmergencyContact };
 
 export interface LocationSharingConfig {
   contacts: EmergencyContact[];
@@ -57,6 +53,7 @@ export interface SharingSession {
   endTime: number;
   contacts: EmergencyContact[];
   trackingUrl: string;
+  trackingToken: string;
   isActive: boolean;
   includeMatchDetails: boolean;
   matchDetails?: LocationSharingConfig['matchDetails'];
@@ -67,7 +64,7 @@ export interface SharingSession {
 // ─────────────────────────────────────────────────────────────────────────────
 const STORAGE_KEYS = {
   activeSession: 'bandhan_safety_active_session',
-  locationHistory: 'bandhan_safety_location_history',
+  legacyLocationHistory: 'bandhan_safety_location_history', // Written by older versions
   consentGiven: 'bandhan_safety_consent',
 };
 
@@ -76,28 +73,30 @@ const STORAGE_KEYS = {
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Generate unique tracking URL for location sharing
+ * Create new sharing session on the server, which issues the tracking link
+ * and owns the expiry
  */
-function generateTrackingUrl(): string {
-  const trackingId = Math.random().toString(36).substring(2, 10) +
-                     Date.now().toString(36).substring(4);
-  return `bandhan.ai/track/${trackingId}`;
-}
+async function createSession(config: LocationSharingConfig): Promise<SharingSession> {
+  const includeMatchDetails = config.includeMatchDetails || false;
 
-/**
- * Create new sharing session
- */
-function createSession(config: LocationSharingConfig): SharingSession {
-  const now = Date.now();
+  const { data } = await sharingService.startSession({
+    durationMinutes: Math.round(config.duration / 60000),
+    matchName: includeMatchDetails ? config.matchDetails?.name : undefined,
+  });
+
+  if (!data?.trackingUrl) {
+    throw new Error('Could not start location sharing');
+  }
 
   return {
-    id: `session_${now}_${Math.random().toString(36).substring(2, 6)}`,
-    startTime: now,
-    endTime: now + config.duration,
+    id: data.id,
+    startTime: Date.parse(data.startedAt),
+    endTime: Date.parse(data.expiresAt),
     contacts: config.contacts,
-    trackingUrl: generateTrackingUrl(),
+    trackingUrl: data.trackingUrl,
+    trackingToken: data.trackingToken ?? '',
     isActive: true,
-    includeMatchDetails: config.includeMatchDetails || false,
+    includeMatchDetails,
     matchDetails: config.matchDetails,
   };
 }
@@ -137,15 +136,37 @@ function getActiveSession(): SharingSession | null {
 }
 
 /**
- * End sharing session
+ * Whether the given session is still the one saved on this device (timers and
+ * uploads from a replaced session must not end its successor)
+ */
+function isCurrentSession(sessionId: string): boolean {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.activeSession);
+    return stored !== null && (JSON.parse(stored) as SharingSession).id === sessionId;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * End sharing session; the server deletes every uploaded point
  */
 function endSharing(): void {
   try {
+    const stored = localStorage.getItem(STORAGE_KEYS.activeSession);
+
     // Clear active session
     localStorage.removeItem(STORAGE_KEYS.activeSession);
+    localStorage.removeItem(STORAGE_KEYS.legacyLocationHistory);
 
-    // Clear location history (privacy requirement)
-    localStorage.removeItem(STORAGE_KEYS.locationHistory);
+    if (stored) {
+      const session: SharingSession = JSON.parse(stored);
+
+      // Repeating the call is harmless; an expired session was already purged
+      sharingService.endSession(session.id).catch((error) => {
+        console.error('Error ending session on server:', error);
+      });
+    }
 
     console.log('[Location Sharing] Session ended, data deleted');
   } catch (error) {
@@ -153,12 +174,39 @@ function endSharing(): void {
   }
 }
 
+/**
+ * Upload one position to the sharing session; stops everything once the
+ * server reports the session over
+ */
+function uploadLocation(sessionId: string, location: LocationData): void {
+  sharingService
+    .sendPoint(sessionId, {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      recordedAt: new Date(location.timestamp).toISOString(),
+    })
+    .catch((error: ApiError) => {
+      const sessionOver =
+        error?.code === 'SHARING_SESSION_ENDED' || error?.code === 'SHARING_SESSION_NOT_FOUND';
+
+      if (sessionOver) {
+        if (isCurrentSession(sessionId)) endSharing();
+        if (trackedSessionId === sessionId) stopTracking();
+        return;
+      }
+
+      console.warn('[Location Sharing] Upload failed:', error);
+    });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Location Tracking
 // ─────────────────────────────────────────────────────────────────────────────
 
 let watchId: number | null = null;
 let updateInterval: NodeJS.Timeout | null = null;
+let trackedSessionId: string | null = null; // Session the running watch uploads to
 
 /**
  * Start location tracking
@@ -188,9 +236,6 @@ function startTracking(
       };
 
       onLocationUpdate(location);
-
-      // Store location history (encrypted in production)
-      storeLocation(location);
     },
     (error) => {
       onError(error);
@@ -213,7 +258,6 @@ function startTracking(
           timestamp: position.timestamp,
         };
         onLocationUpdate(location);
-        storeLocation(location);
       },
       (error) => {
         console.warn('[Location Tracking] Periodic update failed:', error);
@@ -240,41 +284,8 @@ function stopTracking(): void {
     clearInterval(updateInterval);
     updateInterval = null;
   }
-}
-
-/**
- * Store location in history (encrypted in production)
- */
-function storeLocation(location: LocationData): void {
-  try {
-    const history: LocationData[] = JSON.parse(
-      localStorage.getItem(STORAGE_KEYS.locationHistory) || '[]'
-    );
 
-    // Keep only last 100 locations to prevent storage bloat
-    history.push(location);
-    if (history.length > 100) {
-      history.shift();
-    }
-
-    localStorage.setItem(STORAGE_KEYS.locationHistory, JSON.stringify(history));
-  } catch (error) {
-    console.error('Error storing location:', error);
-  }
-}
-
-/**
- * Get location history
- */
-function getLocationHistory(): LocationData[] {
-  try {
-    return JSON.parse(
-      localStorage.getItem(STORAGE_KEYS.locationHistory) || '[]'
-    );
-  } catch (error) {
-    console.error('Error getting location history:', error);
-    return [];
-  }
+  trackedSessionId = null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -340,13 +351,11 @@ export function useActiveSharing() {
  * Start location sharing with emergency contacts
  *
  * @param config - Sharing configuration
- * @returns Promise resolving to tracking URL
+ * @returns Promise resolving to the server-issued tracking URL
  *
  * @example
  * await startLocationSharing({
- *   contacts: [
- *     { id: '1', name: 'Mom', phone: '+919876543210' },
- *   ],
+ *   contacts: verifiedContacts, // from emergencyContactService
  *   duration: 2 * 60 * 60 * 1000, // 2 hours
  *   includeMatchDetails: true,
  *   matchDetails: { name: 'Rahul Sharma' },
@@ -369,25 +378,27 @@ export async function startLocationSharing(
     throw new Error('Location permission denied. Please enable in browser settings.');
   }
 
+  // Replace any session still running on this device (the server ends it too)
+  endSharing();
+
   // Create and save session
-  const session = createSession(config);
+  const session = await createSession(config);
   saveSession(session);
 
   // Start location tracking
   startTracking(
-    (location) => {
-      console.log('[Location Update]', location);
-      // In production, upload location to secure server
-      // uploadLocation(session.trackingUrl, location);
-    },
+    (location) => uploadLocation(session.id, location),
     (error) => {
       console.error('[Location Tracking Error]', error);
     }
   );
+  trackedSessionId = session.id;
 
-  // Set up auto-stop timer
-  const timeUntilEnd = config.duration;
+  // Set up auto-stop timer (the server stops accepting points at the same time)
+  const timeUntilEnd = session.endTime - Date.now();
   setTimeout(() => {
+    if (!isCurrentSession(session.id)) return;
+
     endSharing();
     stopTracking();
     console.log('[Location Sharing] Auto-stopped after 2 hours');
@@ -397,6 +408,27 @@ export async function startLocationSharing(
   return session.trackingUrl;
 }
 
+/**
+ * Stream into a session the server started for an escalated check-in
+ * Nothing is saved for the UI, so no sharing indicator appears (a duress
+ * escalation must stay invisible on the device)
+ */
+export function streamToSession(sessionId: string, expiresAt: string): void {
+  if (!navigator.geolocation || trackedSessionId === sessionId) return;
+
+  startTracking(
+    (location) => uploadLocation(sessionId, location),
+    (error) => {
+      console.error('[Location Tracking Error]', error);
+    }
+  );
+  trackedSessionId = sessionId;
+
+  setTimeout(() => {
+    if (trackedSessionId === sessionId) stopTracking();
+  }, Math.max(0, Date.parse(expiresAt) - Date.now()));
+}
+
 /**
  * Stop location sharing
  */
@@ -432,6 +464,14 @@ export function getTrackingUrl(): string | null {
   return session?.trackingUrl ?? null;
 }
 
+/**
+ * Get current tracking token (links the session to a check-in)
+ */
+export function getTrackingToken(): string | null {
+  const session = getActiveSession();
+  return session?.trackingToken || null;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Consent Management
 // ─────────────────────────────────────────────────────────────────────────────
@@ -504,6 +544,8 @@ export default {
   isSharingActive,
   getRemainingTime,
   getTrackingUrl,
+  getTrackingToken,
+  streamToSession,
   useActiveSharing,
   hasConsent,
   giveConsent,
@@ -0,0 +1,129 @@
+/**
+ * Bandhan AI - Razorpay Checkout Client
+ * Opens Razorpay Checkout for a server-created order and returns the signed
+ * handler response for /subscription/verify-payment
+ *
+ * When the API runs against the local Razorpay stand-in (order.mode === 'stand-in')
+ * the widget is skipped and the stand-in completes the order instead
+ */
+
+'use client';
+
+import { subscriptionService, PaymentOrder } from '@/lib/api';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export interface CheckoutResult {
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}
+
+export interface CheckoutPrefill {
+  name?: string;
+  contact?: string;
+  vpa?: string;
+}
+
+interface RazorpayHandlerResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayCheckout {
+  open(): void;
+  on(event: 'payment.failed', handler: (response: { error: { description: string } }) => void): void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout;
+  }
+}
+
+export class CheckoutCancelledError extends Error {
+  constructor() {
+    super('Payment was cancelled');
+    this.name = 'CheckoutCancelledError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Checkout
+// ─────────────────────────────────────────────────────────────────────────────
+const CHECKOUT_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+let scriptPromise: Promise<void> | null = null;
+
+function loadCheckoutScript(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = CHECKOUT_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromise = null;
+        reject(new Error('Could not load Razorpay Checkout'));
+      };
+      document.body.appendChild(script);
+    });
+  }
+
+  return scriptPromise;
+}
+
+/**
+ * Collect payment for an order; resolves with the signed handler response
+ */
+export async function openRazorpayCheckout(
+  order: PaymentOrder,
+  prefill: CheckoutPrefill = {}
+): Promise<CheckoutResult> {
+  if (order.mode === 'stand-in') {
+    const response = await subscriptionService.completeStandInPayment(order.orderId);
+    const { outcome, ...result } = response.data;
+
+    if (outcome !== 'captured') {
+      throw new Error('Payment failed');
+    }
+
+    return result;
+  }
+
+  await loadCheckoutScript();
+
+  return new Promise((resolve, reject) => {
+    const checkout = new window.Razorpay!({
+      key: order.keyId,
+      order_id: order.orderId,
+      amount: order.amount,
+      currency: order.currency,
+      name: 'Bandhan AI',
+      description: 'Premium membership',
+      prefill: {
+        name: prefill.name,
+        contact: prefill.contact,
+        vpa: prefill.vpa,
+        method: prefill.vpa ? 'upi' : undefined,
+      },
+      theme: { color: '#f97316' },
+      handler: (response: RazorpayHandlerResponse) =>
+        resolve({
+          razorpayOrderId: response.razorpay_order_id,
+          razorpayPaymentId: response.razorpay_payment_id,
+          razorpaySignature: response.razorpay_signature,
+        }),
+      modal: {
+        ondismiss: () => reject(new CheckoutCancelledError()),
+      },
+    });
+
+    checkout.on('payment.failed', (response) => reject(new Error(response.error.description)));
+    checkout.open();
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Bandhan AI - Screen Capture Detection
+ * Best-effort detection of screenshots and screen recordings on this device,
+ * reported to the other chat participant over the chat socket
+ *
+ * Signals:
+ * - PrintScreen key and OS screenshot shortcuts (Cmd+Shift+3/4/5, Win+Shift+S)
+ * - A brief visibility blip while a photo is open (mobile screenshot overlays)
+ * - In-page screen capture via getDisplayMedia
+ * - Native app wrappers calling window.BandhanScreenCapture.report(kind)
+ *
+ * Privacy & Compliance:
+ * - Browsers cannot see every capture; this is a deterrent, not a guarantee
+ * - Only the kind of capture and how it was detected leave the device
+ * - DPDP Act 2023 compliant
+ */
+
+'use client';
+
+import type { ScreenCaptureKind, ScreenCaptureSource } from '@/lib/api';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+export interface DetectedCapture {
+  kind: ScreenCaptureKind;
+  source: ScreenCaptureSource;
+}
+
+export interface ScreenCaptureDetectorOptions {
+  // The visibility heuristic only counts while something worth capturing is open
+  isSensitiveContentVisible?: () => boolean;
+}
+
+// Entry point for iOS/Android wrappers, e.g. from
+// UIApplication.userDidTakeScreenshotNotification or Activity.ScreenCaptureCallback
+export interface NativeScreenCaptureBridge {
+  report: (kind: ScreenCaptureKind) => void;
+}
+
+declare global {
+  interface Window {
+    BandhanScreenCapture?: NativeScreenCaptureBridge;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+// Mobile screenshot overlays hide the page for well under a second
+const VISIBILITY_BLIP_MS = 1000;
+
+// One capture can trip several detectors; report it once
+const DEDUPE_WINDOW_MS = 2000;
+
+const SHORTCUT_KEYS = new Set(['3', '4', '5', 's', 'S']);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Detection
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Start listening for captures; returns a function that stops listening
+ * Only one detector should run at a time (the chat screen owns it)
+ */
+export function startScreenCaptureDetection(
+  onCapture: (capture: DetectedCapture) => void,
+  options: ScreenCaptureDetectorOptions = {}
+): () => void {
+  const lastReportedAt: Partial<Record<ScreenCaptureKind, number>> = {};
+  let hiddenAt: number | null = null;
+
+  const report = (kind: ScreenCaptureKind, source: ScreenCaptureSource) => {
+    const now = Date.now();
+    const last = lastReportedAt[kind];
+
+    if (last !== undefined && now - last < DEDUPE_WINDOW_MS) return;
+
+    lastReportedAt[kind] = now;
+    onCapture({ kind, source });
+  };
+
+  // PrintScreen only fires keyup in most browsers
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (e.key === 'PrintScreen') report('screenshot', 'print_screen');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.shiftKey && SHORTCUT_KEYS.has(e.key)) {
+      report('screenshot', 'shortcut');
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      hiddenAt = Date.now();
+      return;
+    }
+
+    const blip = hiddenAt !== null && Date.now() - hiddenAt < VISIBILITY_BLIP_MS;
+    hiddenAt = null;
+
+    if (blip && options.isSensitiveContentVisible?.()) {
+      report('screenshot', 'visibility');
+    }
+  };
+
+  window.addEventListener('keyup', handleKeyUp);
+  window.addEventListener('keydown', handleKeyDown);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  // Screen capture started from this page (extensions, web recorders)
+  const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+  const originalGetDisplayMedia = mediaDevices?.getDisplayMedia;
+
+  if (mediaDevices && originalGetDisplayMedia) {
+    mediaDevices.getDisplayMedia = async (...args: Parameters<MediaDevices['getDisplayMedia']>) => {
+      const stream = await originalGetDisplayMedia.apply(mediaDevices, args);
+      report('screen_recording', 'media_capture');
+      return stream;
+    };
+  }
+
+  window.BandhanScreenCapture = {
+    report: (kind) => report(kind, 'native'),
+  };
+
+  return () => {
+    window.removeEventListener('keyup', handleKeyUp);
+    window.removeEventListener('keydown', handleKeyDown);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+
+    if (mediaDevices && originalGetDisplayMedia) {
+      mediaDevices.getDisplayMedia = originalGetDisplayMedia;
+    }
+
+    delete window.BandhanScreenCapture;
+  };
+}